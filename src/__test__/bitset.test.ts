@@ -0,0 +1,218 @@
+import { describe, it, expect } from 'vitest'
+import { Bitset } from './../structures/bitset'
+
+// Deterministic pseudo-random bits for model checks.
+function randomBits(n: number, seed: number): boolean[] {
+  const bits: boolean[] = []
+  for (let i = 0; i < n; i++) {
+    seed = (seed * 1103515245 + 12345) % 2147483648
+    bits.push(seed % 3 === 0)
+  }
+  return bits
+}
+
+describe('Bitset', () => {
+  describe('construction', () => {
+    it('should create zeroed bitsets of a size', () => {
+      const b = new Bitset({ size: 70 })
+      expect(b.size()).toBe(70)
+      expect(b.length).toBe(70)
+      expect(b.count()).toBe(0)
+      expect(b.none()).toBe(true)
+      expect(new Bitset().isEmpty()).toBe(true)
+    })
+
+    it('should take initial bits, index 0 first', () => {
+      const b = new Bitset({ initValues: [true, false, true] })
+      expect(b.toArray()).toEqual([true, false, true])
+      expect(b.toString()).toBe('101')
+    })
+
+    it('should validate options', () => {
+      expect(() => new Bitset({ size: -1 })).toThrow(RangeError)
+      expect(() => new Bitset({ size: 2.5 })).toThrow(RangeError)
+      // @ts-expect-error
+      expect(() => new Bitset({ initValues: '101' })).toThrow(TypeError)
+    })
+  })
+
+  describe('single bits', () => {
+    it('should set, reset, flip and test', () => {
+      const b = new Bitset({ size: 40 })
+      b.set(0).set(33).set(39)
+      expect(b.test(33)).toBe(true)
+      expect(b.test(32)).toBe(false)
+      b.reset(33)
+      expect(b.test(33)).toBe(false)
+      b.flip(5).flip(0)
+      expect(b.test(5)).toBe(true)
+      expect(b.test(0)).toBe(false)
+      b.set(5, false)
+      expect(b.count()).toBe(1)
+    })
+
+    it('should reject out-of-range indices', () => {
+      const b = new Bitset({ size: 8 })
+      expect(() => b.test(8)).toThrow(RangeError)
+      expect(() => b.set(-1)).toThrow(RangeError)
+      expect(() => b.flip(1.5)).toThrow(RangeError)
+    })
+  })
+
+  describe('whole set', () => {
+    it('should set, reset and flip every bit', () => {
+      const b = new Bitset({ size: 35 })
+      b.set()
+      expect(b.count()).toBe(35)
+      expect(b.all()).toBe(true)
+      b.flip()
+      expect(b.none()).toBe(true)
+      b.flip(3)
+      b.flip()
+      expect(b.count()).toBe(34)
+      b.reset()
+      expect(b.any()).toBe(false)
+    })
+
+    it('should treat an empty bitset as all and none', () => {
+      const b = new Bitset()
+      expect(b.all()).toBe(true)
+      expect(b.none()).toBe(true)
+      expect(b.any()).toBe(false)
+      expect(b.findFirst()).toBe(-1)
+    })
+  })
+
+  describe('findFirst / findNext', () => {
+    it('should visit every set bit in order', () => {
+      const b = new Bitset({ size: 200 })
+      const ones = [3, 31, 32, 64, 100, 199]
+      for (const i of ones) b.set(i)
+      const seen: number[] = []
+      for (let i = b.findFirst(); i !== -1; i = b.findNext(i)) seen.push(i)
+      expect(seen).toEqual(ones)
+      expect(b.findNext(199)).toBe(-1)
+      expect(() => b.findNext(-2)).toThrow(RangeError)
+    })
+  })
+
+  describe('bitwise operators', () => {
+    it('should combine bitsets in place', () => {
+      const a = Bitset.fromString('1100')
+      const b = Bitset.fromString('1010')
+      expect(a.clone().and(b).toString()).toBe('1000')
+      expect(a.clone().or(b).toString()).toBe('1110')
+      expect(a.clone().xor(b).toString()).toBe('0110')
+      expect(a.clone().not().toString()).toBe('0011')
+      expect(a.toString()).toBe('1100')
+    })
+
+    it('should reject mismatched operands', () => {
+      const a = new Bitset({ size: 4 })
+      expect(() => a.and(new Bitset({ size: 5 }))).toThrow(RangeError)
+      // @ts-expect-error
+      expect(() => a.or([true])).toThrow(TypeError)
+    })
+
+    it('should agree with a boolean model', () => {
+      const n = 100
+      const x = randomBits(n, 1)
+      const y = randomBits(n, 2)
+      const a = new Bitset({ initValues: x })
+      const b = new Bitset({ initValues: y })
+      expect(a.clone().and(b).toArray()).toEqual(x.map((v, i) => v && y[i]))
+      expect(a.clone().or(b).toArray()).toEqual(x.map((v, i) => v || y[i]))
+      expect(a.clone().xor(b).toArray()).toEqual(x.map((v, i) => v !== y[i]))
+      expect(a.clone().not().toArray()).toEqual(x.map((v) => !v))
+      expect(a.count()).toBe(x.filter(Boolean).length)
+    })
+  })
+
+  describe('shifts', () => {
+    it('should shift like << and >>> within the size', () => {
+      expect(Bitset.fromString('00101').shiftLeft(2).toString()).toBe('10100')
+      expect(Bitset.fromString('10110').shiftRight(1).toString()).toBe('01011')
+      expect(Bitset.fromString('111').shiftLeft(3).toString()).toBe('000')
+      expect(Bitset.fromString('111').shiftRight(0).toString()).toBe('111')
+      expect(() => new Bitset({ size: 3 }).shiftLeft(-1)).toThrow(RangeError)
+    })
+
+    it('should agree with a boolean model across words', () => {
+      const n = 101
+      const x = randomBits(n, 3)
+      for (const k of [0, 1, 5, 31, 32, 33, 64, 70, 100, 101]) {
+        const left = new Bitset({ initValues: x }).shiftLeft(k)
+        const right = new Bitset({ initValues: x }).shiftRight(k)
+        expect(left.toArray()).toEqual(
+          x.map((_, i) => (i >= k ? x[i - k]! : false)),
+        )
+        expect(right.toArray()).toEqual(
+          x.map((_, i) => (i + k < n ? x[i + k]! : false)),
+        )
+        expect(left.count()).toBe(left.toArray().filter(Boolean).length)
+      }
+    })
+  })
+
+  describe('resizing', () => {
+    it('should grow with a fill value and shrink', () => {
+      const b = Bitset.fromString('101')
+      b.resize(40, true)
+      expect(b.count()).toBe(39)
+      expect(b.test(1)).toBe(false)
+      b.resize(2)
+      expect(b.toString()).toBe('01')
+      b.resize(34)
+      expect(b.count()).toBe(1)
+      expect(() => b.resize(-1)).toThrow(RangeError)
+    })
+
+    it('should push and pop bits at the back', () => {
+      const b = new Bitset()
+      for (let i = 0; i < 70; i++) b.pushBack(i % 2 === 0)
+      expect(b.size()).toBe(70)
+      expect(b.count()).toBe(35)
+      expect(b.popBack()).toBe(false)
+      expect(b.popBack()).toBe(true)
+      expect(b.size()).toBe(68)
+      expect(new Bitset().popBack()).toBeUndefined()
+    })
+
+    it('should clear', () => {
+      const b = Bitset.fromString('111')
+      b.clear()
+      expect(b.size()).toBe(0)
+      expect(b.toString()).toBe('')
+    })
+  })
+
+  describe('strings and JSON', () => {
+    it('should round-trip binary strings', () => {
+      const bits = '1' + '0'.repeat(40) + '1101'
+      const b = Bitset.fromString(bits)
+      expect(b.size()).toBe(45)
+      expect(b.test(44)).toBe(true)
+      expect(b.test(0)).toBe(true)
+      expect(b.test(1)).toBe(false)
+      expect(b.toString()).toBe(bits)
+      expect(() => Bitset.fromString('10a')).toThrow(TypeError)
+    })
+
+    it('should round-trip through JSON', () => {
+      const b = new Bitset({ initValues: randomBits(77, 4) })
+      const copy = Bitset.fromJSON(JSON.stringify(b))
+      expect(copy.equals(b)).toBe(true)
+      expect(JSON.parse(JSON.stringify(b)).values).toEqual([b.toString()])
+      expect(() =>
+        Bitset.fromJSON({ type: 'Bitset', version: 1, values: [] }),
+      ).toThrow(TypeError)
+    })
+
+    it('should compare with equals', () => {
+      const a = Bitset.fromString('0101')
+      expect(a.equals(Bitset.fromString('0101'))).toBe(true)
+      expect(a.equals(Bitset.fromString('101'))).toBe(false)
+      expect(a.equals(Bitset.fromString('0111'))).toBe(false)
+    })
+  })
+})
@@ -0,0 +1,257 @@
+import { describe, it, expect } from 'vitest'
+import { LRUCache } from './../structures/lru-cache'
+import { LFUCache } from './../structures/lfu-cache'
+
+describe.each([
+  ['LRUCache', LRUCache],
+  ['LFUCache', LFUCache],
+] as const)('%s', (_, Cache) => {
+  it('should store, read and delete entries', () => {
+    const cache = new Cache<string, number>({ maxSize: 3 })
+    cache.set('a', 1).set('b', 2)
+    expect(cache.get('a')).toBe(1)
+    expect(cache.peek('b')).toBe(2)
+    expect(cache.get('z')).toBeUndefined()
+    expect(cache.has('b')).toBe(true)
+    expect(cache.size()).toBe(2)
+    expect(cache.delete('b')).toBe(true)
+    expect(cache.delete('b')).toBe(false)
+    expect(cache.size()).toBe(1)
+    cache.clear()
+    expect(cache.isEmpty()).toBe(true)
+    expect(cache.weight).toBe(0)
+  })
+
+  it('should evict to respect maxSize and report evictions', () => {
+    const evicted: [string, number][] = []
+    const cache = new Cache<string, number>({
+      maxSize: 2,
+      onEvict: (key, value) => evicted.push([key, value]),
+    })
+    cache.set('a', 1).set('b', 2).set('c', 3)
+    expect(cache.size()).toBe(2)
+    expect(evicted).toEqual([['a', 1]])
+    cache.delete('b')
+    cache.clear()
+    expect(evicted).toHaveLength(1)
+  })
+
+  it('should evict by weight', () => {
+    const cache = new Cache<string, string>({
+      maxWeight: 10,
+      sizeFn: (value) => value.length,
+    })
+    cache.set('a', 'xxxx').set('b', 'xxxx')
+    expect(cache.weight).toBe(8)
+    cache.set('c', 'xxxx')
+    expect(cache.has('a')).toBe(false)
+    expect(cache.weight).toBe(8)
+    cache.set('b', 'x')
+    expect(cache.weight).toBe(5)
+    expect(cache.size()).toBe(2)
+  })
+
+  it('should reject entries heavier than maxWeight', () => {
+    const evicted: string[] = []
+    const cache = new Cache<string, number>({
+      maxWeight: 5,
+      sizeFn: (value) => value,
+      onEvict: (key) => evicted.push(key),
+    })
+    cache.set('a', 2).set('b', 3)
+    cache.set('a', 6)
+    expect(cache.has('a')).toBe(false)
+    expect(cache.has('b')).toBe(true)
+    expect(evicted).toEqual(['a'])
+    expect(cache.weight).toBe(3)
+  })
+
+  it('should validate options', () => {
+    // @ts-expect-error
+    expect(() => new Cache({})).toThrow(TypeError)
+    expect(() => new Cache({ maxSize: 0 })).toThrow(RangeError)
+    expect(() => new Cache({ maxSize: 1.5 })).toThrow(RangeError)
+    expect(() => new Cache({ maxWeight: -1 })).toThrow(RangeError)
+    const cache = new Cache<string, number>({
+      maxWeight: 10,
+      sizeFn: () => NaN,
+    })
+    expect(() => cache.set('a', 1)).toThrow(RangeError)
+  })
+})
+
+describe('LRUCache recency', () => {
+  it('should iterate from most to least recently used', () => {
+    const cache = new LRUCache<string, number>({
+      maxSize: 3,
+      initValues: [
+        ['a', 1],
+        ['b', 2],
+        ['c', 3],
+      ],
+    })
+    expect([...cache.keys()]).toEqual(['c', 'b', 'a'])
+    cache.get('a')
+    expect([...cache.keys()]).toEqual(['a', 'c', 'b'])
+    cache.peek('b')
+    cache.set('d', 4)
+    expect(cache.toArray()).toEqual([
+      ['d', 4],
+      ['a', 1],
+      ['c', 3],
+    ])
+  })
+
+  it('should agree with a Map-based reference', () => {
+    const cache = new LRUCache<number, number>({ maxSize: 8 })
+    const reference = new Map<number, number>()
+    let state = 5
+    for (let step = 0; step < 2000; step++) {
+      state = (state * 1103515245 + 12345) % 2147483648
+      const key = state % 20
+      if (state % 3 === 0) {
+        const expected = reference.get(key)
+        if (expected !== undefined) {
+          reference.delete(key)
+          reference.set(key, expected)
+        }
+        expect(cache.get(key)).toBe(expected)
+      } else {
+        reference.delete(key)
+        reference.set(key, step)
+        if (reference.size > 8) {
+          reference.delete(reference.keys().next().value!)
+        }
+        cache.set(key, step)
+      }
+    }
+    expect(cache.toArray()).toEqual([...reference].reverse())
+  })
+
+  it('should round-trip through JSON', () => {
+    const cache = new LRUCache<string, number>({ maxSize: 3 })
+    cache.set('a', 1).set('b', 2).get('a')
+    const copy = LRUCache.fromJSON<string, number>(JSON.stringify(cache), {
+      maxSize: 3,
+    })
+    expect(copy.toArray()).toEqual(cache.toArray())
+  })
+})
+
+describe('LFUCache frequency', () => {
+  it('should evict the least frequently used entry first', () => {
+    const cache = new LFUCache<string, number>({ maxSize: 3 })
+    cache.set('a', 1).set('b', 2).set('c', 3)
+    cache.get('a')
+    cache.get('a')
+    cache.get('b')
+    expect(cache.frequency('a')).toBe(3)
+    expect(cache.frequency('z')).toBe(0)
+    cache.set('d', 4)
+    expect(cache.has('c')).toBe(false)
+    expect([...cache.keys()]).toEqual(['a', 'b', 'd'])
+  })
+
+  it('should break frequency ties by recency', () => {
+    const cache = new LFUCache<string, number>({ maxSize: 2 })
+    cache.set('a', 1).set('b', 2)
+    cache.get('a')
+    cache.get('b')
+    cache.set('c', 3)
+    expect([...cache.keys()]).toEqual(['b', 'c'])
+  })
+
+  it('should not evict the entry being updated', () => {
+    const cache = new LFUCache<string, number>({
+      maxWeight: 10,
+      sizeFn: (value) => value,
+    })
+    cache.set('a', 3).get('a')
+    cache.set('a', 3)
+    cache.set('b', 4)
+    cache.set('b', 8)
+    expect(cache.toArray()).toEqual([['b', 8]])
+  })
+
+  it('should agree with a naive reference', () => {
+    const cache = new LFUCache<number, number>({ maxSize: 6 })
+    // key -> [value, uses, last use]
+    const reference = new Map<number, [number, number, number]>()
+    let state = 9
+    for (let step = 0; step < 2000; step++) {
+      state = (state * 1103515245 + 12345) % 2147483648
+      const key = state % 15
+      const entry = reference.get(key)
+      if (state % 2 === 0) {
+        if (entry) {
+          entry[1]++
+          entry[2] = step
+        }
+        expect(cache.get(key)).toBe(entry?.[0])
+      } else if (entry) {
+        reference.set(key, [step, entry[1] + 1, step])
+        cache.set(key, step)
+      } else {
+        if (reference.size === 6) {
+          let victim: number | undefined
+          let best: [number, number, number] | undefined
+          for (const [k, e] of reference) {
+            if (
+              !best ||
+              e[1] < best[1] ||
+              (e[1] === best[1] && e[2] < best[2])
+            ) {
+              victim = k
+              best = e
+            }
+          }
+          reference.delete(victim!)
+        }
+        reference.set(key, [step, 1, step])
+        cache.set(key, step)
+      }
+    }
+    for (const [key, [value, uses]] of reference) {
+      expect(cache.peek(key)).toBe(value)
+      expect(cache.frequency(key)).toBe(uses)
+    }
+    expect(cache.size()).toBe(reference.size)
+  })
+
+  it('should round-trip through JSON with use counts', () => {
+    const cache = new LFUCache<string, number>({ maxSize: 3 })
+    cache.set('a', 1).set('b', 2).set('c', 3).get('b')
+    const copy = LFUCache.fromJSON<string, number>(JSON.stringify(cache), {
+      maxSize: 2,
+    })
+    expect(copy.toArray()).toEqual([
+      ['b', 2],
+      ['c', 3],
+    ])
+    expect(copy.frequency('b')).toBe(2)
+  })
+
+  it('should reject frequencies out of order', () => {
+    const json = {
+      type: 'LFUCache',
+      version: 1,
+      values: [
+        ['a', 1, 1],
+        ['b', 2, 5],
+        ['c', 3, 3],
+      ],
+    }
+    expect(() => LFUCache.fromJSON(json, { maxSize: 3 })).toThrow(TypeError)
+  })
+
+  it('should reject frequencies that are not positive integers', () => {
+    for (const frequency of ['x', 0, -1, 1.5, null]) {
+      const json = {
+        type: 'LFUCache',
+        version: 1,
+        values: [['a', 1, frequency]],
+      }
+      expect(() => LFUCache.fromJSON(json, { maxSize: 3 })).toThrow(TypeError)
+    }
+  })
+})
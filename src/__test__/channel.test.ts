@@ -0,0 +1,233 @@
+import { describe, it, expect } from 'vitest'
+import { Channel, select } from './../structures/channel'
+
+// Let pending promise callbacks run.
+const tick = () => new Promise((resolve) => setTimeout(resolve, 0))
+
+describe('Channel', () => {
+  describe('unbuffered', () => {
+    it('should block send until a receiver arrives', async () => {
+      const ch = new Channel<number>()
+      let sent = false
+      const sending = ch.send(1).then(() => (sent = true))
+      await tick()
+      expect(sent).toBe(false)
+      expect(await ch.receive()).toBe(1)
+      await sending
+      expect(sent).toBe(true)
+    })
+
+    it('should hand a value to a waiting receiver', async () => {
+      const ch = new Channel<string>()
+      const receiving = ch.receive()
+      await ch.send('hi')
+      expect(await receiving).toBe('hi')
+    })
+  })
+
+  describe('buffered', () => {
+    it('should not block until the buffer is full', async () => {
+      const ch = new Channel<number>({ capacity: 2 })
+      await ch.send(1)
+      await ch.send(2)
+      expect(ch.length).toBe(2)
+      let third = false
+      const sending = ch.send(3).then(() => (third = true))
+      await tick()
+      expect(third).toBe(false)
+      expect(await ch.receive()).toBe(1)
+      await sending
+      expect(await ch.receive()).toBe(2)
+      expect(await ch.receive()).toBe(3)
+    })
+
+    it('should validate capacity', () => {
+      expect(() => new Channel({ capacity: -1 })).toThrow(RangeError)
+      expect(() => new Channel({ capacity: 0.5 })).toThrow(RangeError)
+      expect(new Channel({ capacity: Infinity }).capacity).toBe(Infinity)
+    })
+  })
+
+  describe('close', () => {
+    it('should drain buffered values and then end iteration', async () => {
+      const ch = new Channel<number>({ capacity: 3 })
+      await ch.send(1)
+      await ch.send(2)
+      ch.close()
+      expect(ch.closed).toBe(true)
+      await expect(ch.send(3)).rejects.toThrow('closed')
+
+      const seen: number[] = []
+      for await (const v of ch) seen.push(v)
+      expect(seen).toEqual([1, 2])
+      await expect(ch.receive()).rejects.toThrow('closed')
+    })
+
+    it('should wake waiting receivers and reject waiting senders', async () => {
+      const rx = new Channel<number>()
+      const receiving = rx.receive()
+      const tx = new Channel<number>()
+      const sending = tx.send(1)
+      rx.close()
+      tx.close()
+      await expect(receiving).rejects.toThrow('closed')
+      await expect(sending).rejects.toThrow('closed')
+    })
+
+    it('should let a producer feed a for await consumer', async () => {
+      const ch = new Channel<number>()
+      const producer = (async () => {
+        for (let i = 0; i < 5; i++) await ch.send(i)
+        ch.close()
+      })()
+      const seen: number[] = []
+      for await (const v of ch) seen.push(v)
+      await producer
+      expect(seen).toEqual([0, 1, 2, 3, 4])
+    })
+  })
+
+  describe('abort', () => {
+    it('should reject a waiting receive and skip it afterwards', async () => {
+      const ch = new Channel<number>()
+      const controller = new AbortController()
+      const receiving = ch.receive({ signal: controller.signal })
+      controller.abort(new Error('stop'))
+      await expect(receiving).rejects.toThrow('stop')
+
+      // The aborted receiver must not swallow the next value.
+      const next = ch.receive()
+      await ch.send(7)
+      expect(await next).toBe(7)
+    })
+
+    it('should cancel a waiting send', async () => {
+      const ch = new Channel<number>()
+      const controller = new AbortController()
+      const sending = ch.send(1, { signal: controller.signal })
+      controller.abort(new Error('timeout'))
+      await expect(sending).rejects.toThrow('timeout')
+      const later = ch.receive()
+      await ch.send(2)
+      expect(await later).toBe(2)
+    })
+
+    it('should reject immediately with an aborted signal', async () => {
+      const ch = new Channel<number>({ capacity: 1 })
+      const signal = AbortSignal.abort(new Error('already'))
+      await expect(ch.send(1, { signal })).rejects.toThrow('already')
+      expect(ch.length).toBe(0)
+    })
+
+    it('should drop aborted waits from the queues', async () => {
+      const ch = new Channel<number>()
+      for (let i = 0; i < 100; i++) {
+        const controller = new AbortController()
+        const receiving = ch.receive({ signal: controller.signal })
+        const sending = new Channel<number>().send(i, {
+          signal: controller.signal,
+        })
+        expect(ch.waitingReceivers).toBe(1)
+        controller.abort(new Error('stop'))
+        await expect(receiving).rejects.toThrow('stop')
+        await expect(sending).rejects.toThrow('stop')
+        expect(ch.waitingReceivers).toBe(0)
+      }
+
+      const controller = new AbortController()
+      const sending = ch.send(1, { signal: controller.signal })
+      expect(ch.waitingSenders).toBe(1)
+      controller.abort(new Error('stop'))
+      await expect(sending).rejects.toThrow('stop')
+      expect(ch.waitingSenders).toBe(0)
+    })
+  })
+
+  describe('select', () => {
+    it('should pick the first ready case', async () => {
+      const a = new Channel<string>({ capacity: 1 })
+      const b = new Channel<string>({ capacity: 1 })
+      await b.send('from b')
+      await a.send('from a')
+      const result = await select([{ receive: a }, { receive: b }])
+      expect(result).toEqual({ index: 0, value: 'from a', ok: true })
+    })
+
+    it('should wait for whichever channel fires first', async () => {
+      const a = new Channel<number>()
+      const b = new Channel<number>()
+      const selecting = select([{ receive: a }, { receive: b }])
+      await b.send(2)
+      expect(await selecting).toEqual({ index: 1, value: 2, ok: true })
+
+      // The losing case must not consume a later value.
+      const later = a.receive()
+      await a.send(1)
+      expect(await later).toBe(1)
+    })
+
+    it('should support send cases', async () => {
+      const out = new Channel<number>()
+      const selecting = select([{ send: out, value: 42 }])
+      expect(await out.receive()).toBe(42)
+      expect(await selecting).toEqual({ index: 0, value: undefined, ok: true })
+    })
+
+    it('should report closed channels with ok: false', async () => {
+      const ch = new Channel<number>()
+      const selecting = select([{ receive: ch }])
+      ch.close()
+      expect(await selecting).toEqual({ index: 0, value: undefined, ok: false })
+    })
+
+    it('should time out with an AbortSignal', async () => {
+      const ch = new Channel<number>()
+      await expect(
+        select([{ receive: ch }], { signal: AbortSignal.timeout(10) }),
+      ).rejects.toThrow()
+      const later = ch.receive()
+      await ch.send(3)
+      expect(await later).toBe(3)
+    })
+
+    it('should drop the losing cases from the queues', async () => {
+      const jobs = new Channel<number>()
+      const quit = new Channel<number>()
+      const out = new Channel<number>()
+      for (let i = 0; i < 100; i++) {
+        const selecting = select([
+          { receive: jobs },
+          { receive: quit },
+          { send: out, value: -1 },
+        ])
+        expect(jobs.waitingReceivers).toBe(1)
+        expect(quit.waitingReceivers).toBe(1)
+        expect(out.waitingSenders).toBe(1)
+        await jobs.send(i)
+        expect(await selecting).toEqual({ index: 0, value: i, ok: true })
+        expect(jobs.waitingReceivers).toBe(0)
+        expect(quit.waitingReceivers).toBe(0)
+        expect(out.waitingSenders).toBe(0)
+      }
+    })
+
+    it('should drop every case when a select times out', async () => {
+      const a = new Channel<number>()
+      const b = new Channel<number>()
+      await expect(
+        select([{ receive: a }, { send: b, value: 1 }], {
+          signal: AbortSignal.timeout(10),
+        }),
+      ).rejects.toThrow()
+      expect(a.waitingReceivers).toBe(0)
+      expect(b.waitingSenders).toBe(0)
+    })
+
+    it('should reject invalid cases', async () => {
+      await expect(select([])).rejects.toThrow(TypeError)
+      await expect(select([{ receive: {} as never }])).rejects.toThrow(
+        TypeError,
+      )
+    })
+  })
+})
@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest'
+import type { Container } from './../core/container'
+import { Stack } from './../structures/stack'
+import { Queue } from './../structures/queue'
+import { Deque } from './../structures/deque'
+import { LinkedList } from './../structures/linked-list'
+import { Vector } from './../structures/vector'
+import { PriorityQueue } from './../structures/priority-queue'
+
+describe('Container', () => {
+  const build = (): [string, Container<number>][] => [
+    ['Stack', new Stack<number>({ initValues: [1, 2, 3] })],
+    ['Queue', new Queue<number>({ initValues: [1, 2, 3] })],
+    ['Deque', new Deque<number>({ initValues: [1, 2, 3] })],
+    ['LinkedList', new LinkedList<number>({ initValues: [1, 2, 3] })],
+    ['Vector', new Vector<number>({ initValues: [1, 2, 3] })],
+    ['PriorityQueue', new PriorityQueue<number>({ initValues: [3, 2, 1] })],
+  ]
+
+  it('should report size, length and emptiness consistently', () => {
+    for (const [, c] of build()) {
+      expect(c.size()).toBe(3)
+      expect(c.length).toBe(3)
+      expect(c.isEmpty()).toBe(false)
+      c.clear()
+      expect(c.size()).toBe(0)
+      expect(c.isEmpty()).toBe(true)
+    }
+  })
+
+  it('should expose keys, values and entries in iteration order', () => {
+    for (const [, c] of build()) {
+      const arr = c.toArray()
+      expect([...c.values()]).toEqual(arr)
+      expect([...c.keys()]).toEqual([0, 1, 2])
+      expect([...c.entries()]).toEqual(arr.map((v, i) => [i, v]))
+    }
+  })
+
+  it('should stop forEach early when the callback returns false', () => {
+    for (const [, c] of build()) {
+      const seen: number[] = []
+      c.forEach((_, i) => {
+        seen.push(i)
+        if (i === 1) return false
+      })
+      expect(seen).toEqual([0, 1])
+      expect(() => c.forEach(null as never)).toThrow(TypeError)
+    }
+  })
+
+  it('should set Symbol.toStringTag to the class name', () => {
+    for (const [name, c] of build()) {
+      expect(Object.prototype.toString.call(c)).toBe(`[object ${name}]`)
+    }
+  })
+
+  it('should share assign semantics', () => {
+    const s = new Stack<number>()
+    s.assign([1, 2, 3, 4], 1, 3)
+    expect(s.toArray()).toEqual([2, 3])
+    s.assign(2, 7)
+    expect(s.toArray()).toEqual([7, 7])
+    expect(() => s.assign([1], 2, 1)).toThrow(RangeError)
+    expect(() => s.assign(-1, 0)).toThrow(RangeError)
+  })
+})
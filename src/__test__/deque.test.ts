@@ -0,0 +1,128 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { Deque } from './../structures/deque'
+
+describe('Deque', () => {
+  let dq: Deque<number>
+
+  beforeEach(() => {
+    dq = new Deque<number>()
+  })
+
+  describe('constructor', () => {
+    it('should initialize empty', () => {
+      expect(dq.length).toBe(0)
+      expect(dq.front).toBeUndefined()
+      expect(dq.back).toBeUndefined()
+    })
+
+    it('should initialize with values', () => {
+      const d = new Deque<number>({ initValues: [1, 2, 3] })
+      expect([...d]).toEqual([1, 2, 3])
+      expect([...d.rbegin()]).toEqual([3, 2, 1])
+    })
+
+    it('should throw if initValues is not array', () => {
+      // @ts-expect-error
+      expect(() => new Deque({ initValues: 123 })).toThrow(TypeError)
+    })
+  })
+
+  describe('push & pop at both ends', () => {
+    it('should behave as a double-ended queue across wrap-around', () => {
+      for (let i = 0; i < 5; i++) dq.pushBack(i)
+      for (let i = 1; i <= 5; i++) dq.pushFront(-i)
+      expect(dq.toArray()).toEqual([-5, -4, -3, -2, -1, 0, 1, 2, 3, 4])
+      expect(dq.popFront()).toBe(-5)
+      expect(dq.popBack()).toBe(4)
+      expect(dq.front).toBe(-4)
+      expect(dq.back).toBe(3)
+    })
+
+    it('should return undefined when popping an empty deque', () => {
+      expect(dq.popFront()).toBeUndefined()
+      expect(dq.popBack()).toBeUndefined()
+    })
+
+    it('should grow and shrink the buffer', () => {
+      for (let i = 0; i < 100; i++) dq.pushBack(i)
+      expect(dq.capacity).toBeGreaterThanOrEqual(100)
+      const grown = dq.capacity
+      while (dq.length > 4) dq.popFront()
+      expect(dq.capacity).toBeLessThan(grown)
+      expect(dq.toArray()).toEqual([96, 97, 98, 99])
+    })
+
+    it('should match an array model under mixed operations', () => {
+      const model: number[] = []
+      for (let i = 0; i < 500; i++) {
+        const op = (i * 7919) % 4
+        if (op === 0) {
+          dq.pushBack(i)
+          model.push(i)
+        } else if (op === 1) {
+          dq.pushFront(i)
+          model.unshift(i)
+        } else if (op === 2) {
+          expect(dq.popFront()).toBe(model.shift())
+        } else {
+          expect(dq.popBack()).toBe(model.pop())
+        }
+      }
+      expect(dq.toArray()).toEqual(model)
+    })
+  })
+
+  describe('indexed access', () => {
+    beforeEach(() => {
+      dq.assign([10, 20, 30])
+      dq.pushFront(0)
+    })
+
+    it('at should read by logical index', () => {
+      expect(dq.at(0)).toBe(0)
+      expect(dq.at(3)).toBe(30)
+      expect(dq.at(4)).toBeUndefined()
+      expect(dq.at(-1)).toBeUndefined()
+    })
+
+    it('set should overwrite by logical index', () => {
+      dq.set(1, 11)
+      expect(dq.toArray()).toEqual([0, 11, 20, 30])
+      expect(() => dq.set(4, 1)).toThrow(RangeError)
+    })
+
+    it('front and back setters should write through', () => {
+      dq.front = -1
+      dq.back = 99
+      expect(dq.toArray()).toEqual([-1, 10, 20, 99])
+    })
+  })
+
+  describe('static swap', () => {
+    it('should swap contents of two deques', () => {
+      const a = new Deque<number>({ initValues: [1, 2] })
+      const b = new Deque<number>({ initValues: [3, 4, 5] })
+      Deque.swap(a, b)
+      expect(a.toArray()).toEqual([3, 4, 5])
+      expect(b.toArray()).toEqual([1, 2])
+    })
+
+    it('should throw if not Deque', () => {
+      // @ts-expect-error
+      expect(() => Deque.swap(dq, {})).toThrow(TypeError)
+    })
+  })
+
+  describe('emplace', () => {
+    it('should use factory if provided, else first argument', () => {
+      const d = new Deque<number, [number, number]>({
+        factory: (a, b) => a * b,
+      })
+      d.emplaceBack(2, 3)
+      d.emplaceFront(1, 1)
+      expect(d.toArray()).toEqual([1, 6])
+      dq.emplaceBack(7)
+      expect(dq.back).toBe(7)
+    })
+  })
+})
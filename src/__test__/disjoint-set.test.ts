@@ -0,0 +1,165 @@
+import { describe, it, expect } from 'vitest'
+import { DisjointSet } from './../structures/disjoint-set'
+import { RollbackDisjointSet } from './../structures/rollback-disjoint-set'
+
+describe.each([
+  ['DisjointSet', DisjointSet],
+  ['RollbackDisjointSet', RollbackDisjointSet],
+] as const)('%s', (_, UnionFind) => {
+  it('should start with singleton sets', () => {
+    const set = new UnionFind<string>({ initValues: ['a', 'b', 'c'] })
+    expect(set.size()).toBe(3)
+    expect(set.componentCount()).toBe(3)
+    expect(set.find('a')).toBe('a')
+    expect(set.connected('a', 'b')).toBe(false)
+    expect(set.add('a')).toBe(false)
+    expect(set.add('d')).toBe(true)
+  })
+
+  it('should merge sets and track sizes', () => {
+    const set = new UnionFind<string>()
+    expect(set.union('a', 'b')).toBe(true)
+    expect(set.union('c', 'd')).toBe(true)
+    expect(set.union('b', 'a')).toBe(false)
+    expect(set.componentCount()).toBe(2)
+    expect(set.union('a', 'd')).toBe(true)
+    expect(set.connected('b', 'c')).toBe(true)
+    expect(set.find('c')).toBe(set.find('a'))
+    expect(set.setSize('d')).toBe(4)
+    expect(set.componentCount()).toBe(1)
+    expect(set.has('e')).toBe(false)
+    expect(set.connected('a', 'e')).toBe(false)
+  })
+
+  it('should work with object keys by identity', () => {
+    const x = { id: 1 }
+    const y = { id: 1 }
+    const set = new UnionFind<object>({ initValues: [x, y] })
+    expect(set.connected(x, y)).toBe(false)
+    set.union(x, y)
+    expect(set.connected(x, y)).toBe(true)
+    expect(set.connected(x, { id: 1 })).toBe(false)
+  })
+
+  it('should list components in insertion order', () => {
+    const set = new UnionFind<number>({ initValues: [1, 2, 3, 4, 5] })
+    set.union(4, 1)
+    set.union(5, 3)
+    expect([...set.components()]).toEqual([[1, 4], [2], [3, 5]])
+    expect(set.toArray()).toEqual([1, 2, 3, 4, 5])
+  })
+
+  it('should throw for unknown elements in find and setSize', () => {
+    const set = new UnionFind<number>()
+    expect(() => set.find(1)).toThrow(Error)
+    expect(() => set.setSize(1)).toThrow(Error)
+    // @ts-expect-error
+    expect(() => new UnionFind({ initValues: 1 })).toThrow(TypeError)
+  })
+
+  it('should agree with a naive labelling', () => {
+    const n = 300
+    const set = new UnionFind<number>()
+    const label = Array.from({ length: n }, (_, i) => i)
+    for (let i = 0; i < n; i++) set.add(i)
+    for (let step = 0; step < 400; step++) {
+      const a = (step * 37) % n
+      const b = (step * 91 + 7) % n
+      set.union(a, b)
+      const from = label[b]!
+      const to = label[a]!
+      for (let i = 0; i < n; i++) if (label[i] === from) label[i] = to
+    }
+    for (let i = 0; i < n; i += 7) {
+      for (let j = 0; j < n; j += 11) {
+        expect(set.connected(i, j)).toBe(label[i] === label[j])
+      }
+    }
+    expect(set.componentCount()).toBe(new Set(label).size)
+  })
+
+  it('should round-trip through JSON', () => {
+    const set = new UnionFind<string>({ initValues: ['a', 'b', 'c', 'd'] })
+    set.union('a', 'c')
+    set.union('d', 'b')
+    const copy = UnionFind.fromJSON<string>(JSON.stringify(set))
+    expect(copy.toArray()).toEqual(set.toArray())
+    expect(copy.toArray()).toEqual(['a', 'b', 'c', 'd'])
+    expect([...copy.components()]).toEqual([
+      ['a', 'c'],
+      ['b', 'd'],
+    ])
+    expect(JSON.parse(JSON.stringify(set)).values).toEqual([
+      ['a', 0],
+      ['b', 1],
+      ['c', 0],
+      ['d', 1],
+    ])
+  })
+
+  it('should reject malformed JSON pairs', () => {
+    const type = new UnionFind<string>().toJSON().type
+    const json = (values: unknown[]) => ({ type, version: 1, values })
+    expect(() => UnionFind.fromJSON(json([['a', 1]]))).toThrow(TypeError)
+    expect(() => UnionFind.fromJSON(json([['a', -1]]))).toThrow(TypeError)
+    expect(() => UnionFind.fromJSON(json([['a', 'x']]))).toThrow(TypeError)
+    expect(() => UnionFind.fromJSON(json(['a']))).toThrow(TypeError)
+  })
+})
+
+describe('RollbackDisjointSet rollback', () => {
+  it('should undo unions back to a checkpoint', () => {
+    const set = new RollbackDisjointSet<number>({ initValues: [1, 2, 3, 4] })
+    const start = set.checkpoint()
+    set.union(1, 2)
+    const mid = set.checkpoint()
+    set.union(3, 4)
+    set.union(2, 3)
+    expect(set.componentCount()).toBe(1)
+
+    set.rollback(mid)
+    expect(set.connected(1, 2)).toBe(true)
+    expect(set.connected(2, 3)).toBe(false)
+    expect(set.connected(3, 4)).toBe(false)
+    expect(set.setSize(1)).toBe(2)
+    expect(set.componentCount()).toBe(3)
+
+    set.rollback(start)
+    expect(set.componentCount()).toBe(4)
+    expect(set.setSize(1)).toBe(1)
+  })
+
+  it('should undo additions made by union', () => {
+    const set = new RollbackDisjointSet<string>()
+    const mark = set.checkpoint()
+    set.union('x', 'y')
+    expect(set.size()).toBe(2)
+    expect(set.undo()).toBe(true)
+    expect(set.connected('x', 'y')).toBe(false)
+    expect(set.size()).toBe(2)
+    set.rollback(mark)
+    expect(set.size()).toBe(0)
+    expect(set.has('x')).toBe(false)
+    expect(set.undo()).toBe(false)
+    set.add('x')
+    expect(set.find('x')).toBe('x')
+  })
+
+  it('should not record unions that change nothing', () => {
+    const set = new RollbackDisjointSet<number>({ initValues: [1, 2] })
+    set.union(1, 2)
+    const mark = set.checkpoint()
+    set.union(2, 1)
+    expect(set.checkpoint()).toBe(mark)
+  })
+
+  it('should reject invalid checkpoints', () => {
+    const set = new RollbackDisjointSet<number>({ initValues: [1] })
+    expect(() => set.rollback(5)).toThrow(RangeError)
+    expect(() => set.rollback(-1)).toThrow(RangeError)
+    expect(() => set.rollback(0.5)).toThrow(RangeError)
+    const copy = RollbackDisjointSet.fromJSON<number>(JSON.stringify(set))
+    expect(copy.checkpoint()).toBe(0)
+    expect(copy.undo()).toBe(false)
+  })
+})
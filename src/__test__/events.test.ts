@@ -0,0 +1,271 @@
+import { describe, it, expect } from 'vitest'
+import type { ChangeEvent } from './../core/events'
+import { Stack } from './../structures/stack'
+import { Queue } from './../structures/queue'
+import { Deque } from './../structures/deque'
+import { LinkedList } from './../structures/linked-list'
+import { Vector } from './../structures/vector'
+import { PriorityQueue } from './../structures/priority-queue'
+
+// Collect every event a container emits.
+function record<T>(container: {
+  subscribe(listener: (event: ChangeEvent<T>) => void): () => void
+}): ChangeEvent<T>[] {
+  const events: ChangeEvent<T>[] = []
+  container.subscribe((event) => events.push(event))
+  return events
+}
+
+describe('Change events', () => {
+  describe('observers', () => {
+    it('should pass the container and stop after unsubscribe', () => {
+      const stack = new Stack<number>()
+      const seen: unknown[] = []
+      const off = stack.subscribe((event, container) => seen.push(container))
+      stack.push(1)
+      off()
+      off()
+      stack.push(2)
+      expect(seen).toEqual([stack])
+    })
+
+    it('should filter by type with on()', () => {
+      const queue = new Queue<number>({ initValues: [1, 2] })
+      const removed: number[] = []
+      queue.on('remove', (event) => removed.push(...event.values))
+      queue.push(3)
+      queue.pop()
+      expect(removed).toEqual([1])
+    })
+
+    it('should reject bad listeners and unknown types', () => {
+      const deque = new Deque<number>()
+      expect(() => deque.subscribe(42 as never)).toThrow(TypeError)
+      expect(() => deque.on('move' as never, () => {})).toThrow(TypeError)
+    })
+
+    it('should deliver to listeners attached at emit time only', () => {
+      const list = new LinkedList<number>()
+      const calls: string[] = []
+      list.subscribe(() => {
+        calls.push('a')
+        list.subscribe(() => calls.push('b'))
+      })
+      list.pushBack(1)
+      expect(calls).toEqual(['a'])
+    })
+
+    it('should emit after the change is applied', () => {
+      const vector = new Vector<number>()
+      let seen: number[] = []
+      vector.subscribe((_, v) => (seen = v.toArray()))
+      vector.pushBack(7)
+      expect(seen).toEqual([7])
+    })
+  })
+
+  describe('Stack', () => {
+    it('should report positions from the bottom', () => {
+      const stack = new Stack<number>({ initValues: [1] })
+      const events = record<number>(stack)
+      stack.push(2)
+      stack.pop()
+      stack.clear()
+      stack.clear()
+      expect(events).toEqual([
+        { type: 'insert', index: 1, values: [2] },
+        { type: 'remove', index: 1, values: [2] },
+        { type: 'clear', index: 0, values: [1] },
+      ])
+    })
+
+    it('should report assign as clear then inserts', () => {
+      const stack = new Stack<number>({ initValues: [9] })
+      const events = record<number>(stack)
+      stack.assign([1, 2])
+      expect(events.map((e) => e.type)).toEqual(['clear', 'insert', 'insert'])
+    })
+
+    it('should report swap as a replacement on each side', () => {
+      const a = new Stack<number>({ initValues: [1] })
+      const b = new Stack<number>({ initValues: [2, 3] })
+      const events = record<number>(a)
+      Stack.swap(a, b)
+      expect(events).toEqual([
+        { type: 'clear', index: 0, values: [1] },
+        { type: 'insert', index: 0, values: [2, 3] },
+      ])
+    })
+  })
+
+  describe('Queue', () => {
+    it('should report a drop-oldest eviction before the insert', () => {
+      const queue = new Queue<number>({
+        initValues: [1, 2],
+        capacity: 2,
+        overflow: 'drop-oldest',
+      })
+      const events = record<number>(queue)
+      queue.push(3)
+      expect(events).toEqual([
+        { type: 'remove', index: 0, values: [1] },
+        { type: 'insert', index: 1, values: [3] },
+      ])
+    })
+
+    it('should stay silent when a push is rejected', () => {
+      const queue = new Queue<number>({
+        initValues: [1],
+        capacity: 1,
+        overflow: 'reject',
+      })
+      const events = record<number>(queue)
+      queue.push(2)
+      expect(events).toEqual([])
+    })
+  })
+
+  describe('Deque', () => {
+    it('should report both ends and updates', () => {
+      const deque = new Deque<number>({ initValues: [2] })
+      const events = record<number>(deque)
+      deque.pushFront(1)
+      deque.pushBack(3)
+      deque.set(1, 20)
+      deque.back = 30
+      deque.popFront()
+      deque.popBack()
+      expect(events).toEqual([
+        { type: 'insert', index: 0, values: [1] },
+        { type: 'insert', index: 2, values: [3] },
+        { type: 'update', index: 1, values: [20], oldValues: [2] },
+        { type: 'update', index: 2, values: [30], oldValues: [3] },
+        { type: 'remove', index: 0, values: [1] },
+        { type: 'remove', index: 1, values: [30] },
+      ])
+    })
+
+    it('should not emit for pops on an empty deque', () => {
+      const deque = new Deque<number>()
+      const events = record<number>(deque)
+      deque.popFront()
+      deque.popBack()
+      deque.clear()
+      expect(events).toEqual([])
+    })
+  })
+
+  describe('LinkedList', () => {
+    it('should report insertAt and reverse', () => {
+      const list = new LinkedList<number>({ initValues: [1, 3] })
+      const events = record<number>(list)
+      list.insertAt(2, 1)
+      list.reverse()
+      expect(events).toEqual([
+        { type: 'insert', index: 1, values: [2] },
+        { type: 'update', index: 0, values: [3, 2, 1], oldValues: [1, 2, 3] },
+      ])
+    })
+
+    it('should report splice as remove and insert', () => {
+      const list = new LinkedList<number>({ initValues: [1, 2, 3, 4] })
+      const other = new LinkedList<number>({ initValues: [8, 9] })
+      const events = record<number>(list)
+      const otherEvents = record<number>(other)
+      list.splice(list.nodeAt(1), other)
+      list.splice(null, list, list.nodeAt(0), list.nodeAt(2))
+      expect(otherEvents).toEqual([
+        { type: 'remove', index: 0, values: [8, 9] },
+      ])
+      expect(events).toEqual([
+        { type: 'insert', index: 1, values: [8, 9] },
+        { type: 'remove', index: 0, values: [1, 8] },
+        { type: 'insert', index: 4, values: [1, 8] },
+      ])
+      expect(list.toArray()).toEqual([9, 2, 3, 4, 1, 8])
+    })
+
+    it('should report each match removed by remove()', () => {
+      const list = new LinkedList<number>({ initValues: [1, 2, 1, 3, 1] })
+      const events = record<number>(list)
+      list.remove(1)
+      expect(events).toEqual([
+        { type: 'remove', index: 0, values: [1] },
+        { type: 'remove', index: 1, values: [1] },
+        { type: 'remove', index: 2, values: [1] },
+      ])
+    })
+
+    it('should report merge runs on target and a clear on source', () => {
+      const target = new LinkedList<number>({ initValues: [2, 5] })
+      const source = new LinkedList<number>({ initValues: [0, 1, 3, 6, 7] })
+      const targetEvents = record<number>(target)
+      const sourceEvents = record<number>(source)
+      LinkedList.merge(target, source)
+
+      // Replaying the inserts on the old content gives the merged list.
+      const replay = [2, 5]
+      for (const event of targetEvents) {
+        replay.splice(event.index, 0, ...event.values)
+      }
+      expect(replay).toEqual([...target])
+      expect(targetEvents.map((e) => e.index)).toEqual([0, 3, 5])
+      expect(sourceEvents).toEqual([
+        { type: 'clear', index: 0, values: [0, 1, 3, 6, 7] },
+      ])
+    })
+  })
+
+  describe('Vector', () => {
+    it('should report Vector methods', () => {
+      const vector = new Vector<number>({ initValues: [1, 2, 3] })
+      const events = record<number>(vector)
+      vector.insertAt(1, 9)
+      vector.eraseAt(0)
+      vector.front = 8
+      vector.resize(2)
+      vector.resize(3)
+      expect(events).toEqual([
+        { type: 'insert', index: 1, values: [9] },
+        { type: 'remove', index: 0, values: [1] },
+        { type: 'update', index: 0, values: [8], oldValues: [9] },
+        { type: 'remove', index: 2, values: [3] },
+        { type: 'insert', index: 2, values: [undefined] },
+      ])
+    })
+
+    it('should not observe native Array methods', () => {
+      const vector = new Vector<number>()
+      const events = record<number>(vector)
+      vector.push(1)
+      vector[0] = 2
+      expect(events).toEqual([])
+    })
+  })
+
+  describe('PriorityQueue', () => {
+    it('should report heap slots', () => {
+      const pq = new PriorityQueue<number>({ initValues: [5, 3] })
+      const events = record<number>(pq)
+      const handle = pq.push(4)
+      pq.update(handle, 10)
+      pq.pop()
+      expect(events).toEqual([
+        { type: 'insert', index: 2, values: [4] },
+        { type: 'update', index: 2, values: [10], oldValues: [4] },
+        { type: 'remove', index: 0, values: [10] },
+      ])
+    })
+
+    it('should report replace as an update of the root', () => {
+      const pq = new PriorityQueue<number>({ initValues: [5, 3] })
+      const events = record<number>(pq)
+      pq.replace(1)
+      pq.clear()
+      expect(events).toEqual([
+        { type: 'update', index: 0, values: [1], oldValues: [5] },
+        { type: 'clear', index: 0, values: [3, 1] },
+      ])
+    })
+  })
+})
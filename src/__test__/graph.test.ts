@@ -0,0 +1,122 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { Graph } from './../structures/graph'
+import { bfs, dfs, dijkstra, reconstructPath } from './../algorithms/graph'
+
+describe('Graph', () => {
+  describe('undirected', () => {
+    let g: Graph<string>
+
+    beforeEach(() => {
+      g = new Graph<string>()
+      g.addEdge('a', 'b')
+      g.addEdge('b', 'c', 2)
+    })
+
+    it('should store edges in both directions', () => {
+      expect(g.isDirected).toBe(false)
+      expect(g.vertexCount).toBe(3)
+      expect(g.edgeCount).toBe(2)
+      expect(g.hasEdge('b', 'a')).toBe(true)
+      expect(g.getEdge('c', 'b')!.weight).toBe(2)
+      expect([...g.neighbors('b')]).toEqual(['a', 'c'])
+      expect([...g.edges()].length).toBe(2)
+    })
+
+    it('should update an existing edge instead of duplicating it', () => {
+      g.addEdge('b', 'a', 5)
+      expect(g.edgeCount).toBe(2)
+      expect(g.getEdge('a', 'b')!.weight).toBe(5)
+    })
+
+    it('should remove edges and vertices', () => {
+      expect(g.removeEdge('c', 'b')).toBe(true)
+      expect(g.hasEdge('b', 'c')).toBe(false)
+      expect(g.edgeCount).toBe(1)
+      expect(g.removeVertex('a')).toBe(true)
+      expect(g.edgeCount).toBe(0)
+      expect(g.outDegree('b')).toBe(0)
+      expect(g.removeVertex('a')).toBe(false)
+    })
+
+    it('should throw for unknown vertices', () => {
+      expect(() => g.neighbors('z')).toThrow()
+      expect(() => g.addEdge('a', 'b', NaN)).toThrow(TypeError)
+    })
+  })
+
+  describe('directed', () => {
+    it('should track in and out degrees', () => {
+      const g = new Graph<number>({ directed: true })
+      g.addEdge(1, 2)
+      g.addEdge(3, 2)
+      g.addEdge(2, 2)
+      expect(g.hasEdge(2, 1)).toBe(false)
+      expect(g.inDegree(2)).toBe(3)
+      expect(g.outDegree(2)).toBe(1)
+      g.removeVertex(2)
+      expect(g.edgeCount).toBe(0)
+      expect(g.outDegree(1)).toBe(0)
+    })
+  })
+})
+
+describe('graph algorithms', () => {
+  //   a - b - d
+  //   |       |
+  //   c ----- e
+  let g: Graph<string>
+
+  beforeEach(() => {
+    g = new Graph<string>()
+    g.addEdge('a', 'b', 1)
+    g.addEdge('b', 'd', 1)
+    g.addEdge('a', 'c', 1)
+    g.addEdge('c', 'e', 10)
+    g.addEdge('d', 'e', 1)
+  })
+
+  it('bfs should visit by level and find fewest-edge paths', () => {
+    const res = bfs(g, 'a')
+    expect(res.order).toEqual(['a', 'b', 'c', 'd', 'e'])
+    expect(res.depth.get('e')).toBe(2)
+    expect(res.pathTo('e')).toEqual(['a', 'c', 'e'])
+    expect(res.pathTo('z')).toBeUndefined()
+  })
+
+  it('dfs should follow adjacency order', () => {
+    const res = dfs(g, 'a')
+    expect(res.order).toEqual(['a', 'b', 'd', 'e', 'c'])
+    expect(res.pathTo('c')).toEqual(['a', 'b', 'd', 'e', 'c'])
+  })
+
+  it('traversals should stop when visit returns false', () => {
+    const res = bfs(g, 'a', { visit: (v) => (v === 'c' ? false : undefined) })
+    expect(res.order).toEqual(['a', 'b', 'c'])
+  })
+
+  it('dijkstra should find weighted shortest paths', () => {
+    const res = dijkstra(g, 'a')
+    expect(res.distanceTo('e')).toBe(3)
+    expect(res.pathTo('e')).toEqual(['a', 'b', 'd', 'e'])
+    g.addVertex('lonely')
+    expect(dijkstra(g, 'a').distanceTo('lonely')).toBe(Infinity)
+  })
+
+  it('dijkstra should stop early at target and reject negative weights', () => {
+    const res = dijkstra(g, 'a', { target: 'b' })
+    expect(res.distanceTo('b')).toBe(1)
+    expect(res.distance.has('e')).toBe(false)
+    g.addEdge('e', 'f', -1)
+    expect(() => dijkstra(g, 'a')).toThrow(RangeError)
+    expect(() => dijkstra(g, 'zz')).toThrow()
+  })
+
+  it('reconstructPath should walk parent links', () => {
+    const parent = new Map<number, number | null>([
+      [1, null],
+      [2, 1],
+      [3, 2],
+    ])
+    expect(reconstructPath(parent, 3)).toEqual([1, 2, 3])
+  })
+})
@@ -0,0 +1,144 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { HashMap } from './../structures/hash-map'
+import { HashSet } from './../structures/hash-set'
+
+type Point = { x: number; y: number }
+const pointOptions = {
+  hash: (p: Point) => p.x * 31 + p.y,
+  equals: (a: Point, b: Point) => a.x === b.x && a.y === b.y,
+}
+
+describe('HashMap', () => {
+  let map: HashMap<Point, string>
+
+  beforeEach(() => {
+    map = new HashMap<Point, string>(pointOptions)
+  })
+
+  describe('custom hash & equals', () => {
+    it('should treat structurally equal keys as the same key', () => {
+      map.set({ x: 1, y: 2 }, 'a')
+      map.set({ x: 1, y: 2 }, 'b')
+      expect(map.size()).toBe(1)
+      expect(map.get({ x: 1, y: 2 })).toBe('b')
+      expect(map.has({ x: 2, y: 1 })).toBe(false)
+      expect(map.delete({ x: 1, y: 2 })).toBe(true)
+      expect(map.isEmpty()).toBe(true)
+    })
+
+    it('should survive hash collisions', () => {
+      const m = new HashMap<number, number>({ hash: () => 7 })
+      for (let i = 0; i < 50; i++) m.set(i, i * i)
+      expect(m.size()).toBe(50)
+      expect(m.get(7)).toBe(49)
+      expect(m.bucketStats().maxBucketSize).toBe(50)
+    })
+
+    it('should throw on invalid options', () => {
+      // @ts-expect-error
+      expect(() => new HashMap({ hash: 1 })).toThrow(TypeError)
+      expect(() => new HashMap({ maxLoadFactor: 0 })).toThrow(RangeError)
+      // @ts-expect-error
+      expect(() => new HashMap({ initValues: 1 })).toThrow(TypeError)
+      const m = new HashMap<string, number>({ hash: () => NaN })
+      expect(() => m.set('a', 1)).toThrow(TypeError)
+    })
+  })
+
+  describe('default hashing', () => {
+    it('should behave like the native Map', () => {
+      const key = { id: 1 }
+      const m = new HashMap<unknown, number>({
+        initValues: [
+          ['a', 1],
+          [1, 2],
+          [key, 3],
+          [NaN, 4],
+          [-0, 5],
+        ],
+      })
+      expect(m.get('a')).toBe(1)
+      expect(m.get(1)).toBe(2)
+      expect(m.get(key)).toBe(3)
+      expect(m.get({ id: 1 })).toBeUndefined()
+      expect(m.get(NaN)).toBe(4)
+      expect(m.get(0)).toBe(5)
+    })
+  })
+
+  describe('bucket interface', () => {
+    it('should grow to respect maxLoadFactor', () => {
+      const m = new HashMap<number, number>({ maxLoadFactor: 1 })
+      for (let i = 0; i < 100; i++) m.set(i, i)
+      expect(m.loadFactor).toBeLessThanOrEqual(1)
+      expect(m.bucketCount).toBeGreaterThanOrEqual(100)
+    })
+
+    it('reserve and rehash should resize without losing entries', () => {
+      map.reserve(1000)
+      expect(map.bucketCount).toBeGreaterThanOrEqual(1000 / 0.75)
+      for (let i = 0; i < 20; i++) map.set({ x: i, y: i }, String(i))
+      map.rehash(0)
+      expect(map.bucketCount).toBeGreaterThanOrEqual(20 / 0.75)
+      expect(map.get({ x: 7, y: 7 })).toBe('7')
+      expect(() => map.rehash(-1)).toThrow(RangeError)
+    })
+
+    it('lowering maxLoadFactor should rehash immediately', () => {
+      for (let i = 0; i < 6; i++) map.set({ x: i, y: 0 }, '')
+      map.maxLoadFactor = 0.25
+      expect(map.loadFactor).toBeLessThanOrEqual(0.25)
+    })
+
+    it('bucketStats should describe the distribution', () => {
+      map.set({ x: 0, y: 0 }, 'o')
+      const stats = map.bucketStats()
+      expect(stats.size).toBe(1)
+      expect(stats.emptyBuckets).toBe(stats.bucketCount - 1)
+      expect(map.bucketSize(map.bucket({ x: 0, y: 0 }))).toBe(1)
+      expect(() => map.bucketSize(-1)).toThrow(RangeError)
+    })
+  })
+
+  describe('iteration', () => {
+    it('should expose keys, values, entries and forEach', () => {
+      const m = new HashMap<string, number>({
+        initValues: [
+          ['a', 1],
+          ['b', 2],
+        ],
+      })
+      expect([...m.keys()].sort()).toEqual(['a', 'b'])
+      expect([...m.values()].sort()).toEqual([1, 2])
+      expect(m.toArray().sort()).toEqual([
+        ['a', 1],
+        ['b', 2],
+      ])
+      let calls = 0
+      m.forEach(() => {
+        calls++
+        return false
+      })
+      expect(calls).toBe(1)
+    })
+  })
+})
+
+describe('HashSet', () => {
+  it('should deduplicate by hash & equals', () => {
+    const set = new HashSet<Point>({
+      ...pointOptions,
+      initValues: [
+        { x: 0, y: 0 },
+        { x: 0, y: 0 },
+        { x: 1, y: 0 },
+      ],
+    })
+    expect(set.size()).toBe(2)
+    expect(set.has({ x: 1, y: 0 })).toBe(true)
+    expect(set.delete({ x: 1, y: 0 })).toBe(true)
+    expect(set.delete({ x: 1, y: 0 })).toBe(false)
+    set.assign(3, { x: 5, y: 5 })
+    expect(set.toArray()).toEqual([{ x: 5, y: 5 }])
+  })
+})
@@ -12,8 +12,8 @@ describe('LinkedList', () => {
   describe('constructor', () => {
     it('should initialize empty', () => {
       expect(list.length).toBe(0)
-      expect(list.front).toBeUndefined()
-      expect(list.back).toBeUndefined()
+      expect(() => list.front).toThrow(Error)
+      expect(() => list.back).toThrow(Error)
       expect(list.isEmpty()).toBe(true)
     })
     it('should initialize with values', () => {
@@ -53,10 +53,10 @@ describe('LinkedList', () => {
       expect([...list]).toEqual([1, 2])
       expect(list.length).toBe(2)
     })
-    it('should return undefined on empty', () => {
+    it('should throw on empty', () => {
       list.clear()
-      expect(list.popFront()).toBeUndefined()
-      expect(list.popBack()).toBeUndefined()
+      expect(() => list.popFront()).toThrow(Error)
+      expect(() => list.popBack()).toThrow(Error)
     })
     it('should handle single element', () => {
       list.clear()
@@ -102,9 +102,9 @@ describe('LinkedList', () => {
       expect(() => list.eraseAt(-1)).toThrow()
       expect(() => list.eraseAt(10)).toThrow()
     })
-    it('should return undefined on empty', () => {
+    it('should throw on empty', () => {
       list.clear()
-      expect(list.eraseAt(0)).toBeUndefined()
+      expect(() => list.eraseAt(0)).toThrow(Error)
     })
   })
 
@@ -118,11 +118,11 @@ describe('LinkedList', () => {
       l.emplaceAt(1, 5, 6)
       expect([...l]).toEqual([3, 11, 7])
     })
-    it('should fallback to first arg if no factory', () => {
-      list.emplaceFront(10)
-      list.emplaceBack(20)
-      list.emplaceAt(1, 15)
-      expect([...list]).toEqual([10, 15, 20])
+    it('should throw if no factory was provided', () => {
+      expect(() => list.emplaceFront(10)).toThrow(Error)
+      expect(() => list.emplaceBack(20)).toThrow(Error)
+      expect(() => list.emplaceAt(0, 15)).toThrow(Error)
+      expect(list.isEmpty()).toBe(true)
     })
   })
 
@@ -231,25 +231,164 @@ describe('LinkedList', () => {
     })
   })
 
-  // describe('unique', () => {
-  //   it('should remove consecutive duplicates', () => {
-  //     list.assign([1, 1, 2, 2, 2, 3, 1, 1])
-  //     list.unique()
-  //     expect([...list]).toEqual([1, 2, 3, 1])
-  //   })
-  //   it('should use custom compareFn', () => {
-  //     list.assign(['a', 'A', 'b', 'B', 'b'] as any)
-  //     list.unique((a, b) => a.toLowerCase() === b.toLowerCase())
-  //     expect([...list]).toEqual(['a', 'b'])
-  //   })
-  //   it('should do nothing for empty or single', () => {
-  //     list.unique()
-  //     expect([...list]).toEqual([])
-  //     list.pushBack(1)
-  //     list.unique()
-  //     expect([...list]).toEqual([1])
-  //   })
-  // })
+  describe('removeIf', () => {
+    it('should remove matching values and return the count', () => {
+      list.assign([1, 2, 3, 4, 5, 6])
+      expect(list.removeIf((v) => v % 2 === 0)).toBe(3)
+      expect([...list]).toEqual([1, 3, 5])
+      expect([...list.rbegin()]).toEqual([5, 3, 1])
+      expect(list.removeIf(() => true)).toBe(3)
+      expect(list.isEmpty()).toBe(true)
+    })
+    it('should throw if predicate is not function', () => {
+      // @ts-expect-error
+      expect(() => list.removeIf(123)).toThrow(TypeError)
+    })
+  })
+
+  describe('unique', () => {
+    it('should remove consecutive duplicates', () => {
+      list.assign([1, 1, 2, 2, 2, 3, 1, 1])
+      expect(list.unique()).toBe(4)
+      expect([...list]).toEqual([1, 2, 3, 1])
+      expect(list.back).toBe(1)
+    })
+    it('should use custom equalsFn', () => {
+      const list = new LinkedList<string>({
+        initValues: ['a', 'A', 'b', 'B', 'b'],
+      })
+      list.unique((a, b) => a.toLowerCase() === b.toLowerCase())
+      expect([...list]).toEqual(['a', 'b'])
+    })
+    it('should do nothing for empty or single', () => {
+      expect(list.unique()).toBe(0)
+      expect([...list]).toEqual([])
+      list.pushBack(1)
+      list.unique()
+      expect([...list]).toEqual([1])
+    })
+  })
+
+  describe('sort', () => {
+    it('should sort ascending by default', () => {
+      list.assign([5, 3, 8, 1, 9, 2, 7])
+      list.sort()
+      expect([...list]).toEqual([1, 2, 3, 5, 7, 8, 9])
+      expect([...list.rbegin()]).toEqual([9, 8, 7, 5, 3, 2, 1])
+      expect(list.front).toBe(1)
+      expect(list.back).toBe(9)
+    })
+    it('should be stable and use compareFn', () => {
+      const items = Array.from({ length: 100 }, (_, i) => ({
+        key: (i * 37) % 10,
+        order: i,
+      }))
+      const list = new LinkedList({ initValues: items })
+      list.sort((a, b) => a.key - b.key)
+      expect([...list]).toEqual(
+        [...items].sort((a, b) => a.key - b.key || a.order - b.order),
+      )
+    })
+    it('should keep working as a list after sorting', () => {
+      list.assign([3, 1, 2])
+      list.sort()
+      list.pushBack(4)
+      list.pushFront(0)
+      expect(list.eraseAt(2)).toBe(2)
+      expect([...list]).toEqual([0, 1, 3, 4])
+    })
+    it('should throw if compareFn is not function', () => {
+      // @ts-expect-error
+      expect(() => list.sort(123)).toThrow(TypeError)
+    })
+  })
+
+  describe('nodeAt', () => {
+    it('should return the node at index', () => {
+      list.assign([1, 2, 3])
+      expect(list.nodeAt(0).val).toBe(1)
+      expect(list.nodeAt(1).val).toBe(2)
+      expect(list.nodeAt(2).next).toBeNull()
+    })
+    it('should throw RangeError out of bounds', () => {
+      expect(() => list.nodeAt(0)).toThrow(RangeError)
+      list.pushBack(1)
+      expect(() => list.nodeAt(1)).toThrow(RangeError)
+      expect(() => list.nodeAt(-1)).toThrow(RangeError)
+    })
+  })
+
+  describe('splice', () => {
+    const check = (l: LinkedList<number>, expected: number[]) => {
+      expect([...l]).toEqual(expected)
+      expect([...l.rbegin()]).toEqual([...expected].reverse())
+      expect(l.size()).toBe(expected.length)
+    }
+
+    it('should move a whole list before position', () => {
+      list.assign([1, 4])
+      const other = new LinkedList<number>({ initValues: [2, 3] })
+      list.splice(list.nodeAt(1), other)
+      check(list, [1, 2, 3, 4])
+      check(other, [])
+      other.pushBack(9)
+      check(other, [9])
+    })
+    it('should append when position is null', () => {
+      list.assign([1])
+      const other = new LinkedList<number>({ initValues: [2, 3] })
+      list.splice(null, other)
+      check(list, [1, 2, 3])
+      const empty = new LinkedList<number>()
+      empty.splice(null, list)
+      check(empty, [1, 2, 3])
+      check(list, [])
+    })
+    it('should move a single node and keep its reference', () => {
+      list.assign([1, 2])
+      const other = new LinkedList<number>({ initValues: [7, 8, 9] })
+      const node = other.nodeAt(1)
+      list.splice(list.nodeAt(0), other, node, node.next)
+      check(list, [8, 1, 2])
+      check(other, [7, 9])
+      expect(list.nodeAt(0)).toBe(node)
+    })
+    it('should move a range from another list', () => {
+      list.assign([0, 10])
+      const other = new LinkedList<number>({ initValues: [1, 2, 3, 4, 5] })
+      list.splice(list.nodeAt(1), other, other.nodeAt(1), other.nodeAt(4))
+      check(list, [0, 2, 3, 4, 10])
+      check(other, [1, 5])
+      list.splice(null, other, other.nodeAt(1))
+      check(list, [0, 2, 3, 4, 10, 5])
+      check(other, [1])
+    })
+    it('should reorder within the same list', () => {
+      list.assign([1, 2, 3, 4, 5])
+      // Move the tail to the front, as an LRU cache does.
+      const tail = list.nodeAt(4)
+      list.splice(list.nodeAt(0), list, tail, null)
+      check(list, [5, 1, 2, 3, 4])
+      // Move [1, 2] behind 4.
+      list.splice(null, list, list.nodeAt(1), list.nodeAt(3))
+      check(list, [5, 3, 4, 1, 2])
+      // Position next to the range is a no-op.
+      list.splice(list.nodeAt(2), list, list.nodeAt(0), list.nodeAt(2))
+      check(list, [5, 3, 4, 1, 2])
+    })
+    it('should do nothing for an empty range', () => {
+      list.assign([1])
+      const other = new LinkedList<number>({ initValues: [2] })
+      list.splice(null, other, other.nodeAt(0), other.nodeAt(0))
+      list.splice(null, new LinkedList<number>())
+      check(list, [1])
+      check(other, [2])
+    })
+    it('should throw if other is not a LinkedList', () => {
+      // @ts-expect-error
+      expect(() => list.splice(null, [1, 2])).toThrow(TypeError)
+    })
+  })
 
   describe('front & back getters/setters', () => {
     it('should get and set front and back', () => {
@@ -260,11 +399,14 @@ describe('LinkedList', () => {
       list.back = 30
       expect([...list]).toEqual([10, 2, 30])
     })
-    it('should do nothing if empty', () => {
-      list.front = 1
-      list.back = 2
-      expect(list.front).toBeUndefined()
-      expect(list.back).toBeUndefined()
+    it('should throw if empty', () => {
+      expect(() => {
+        list.front = 1
+      }).toThrow(Error)
+      expect(() => {
+        list.back = 2
+      }).toThrow(Error)
+      expect(list.isEmpty()).toBe(true)
     })
   })
 
@@ -0,0 +1,155 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { MinMaxHeap } from './../structures/min-max-heap'
+
+describe('MinMaxHeap', () => {
+  let heap: MinMaxHeap<number>
+
+  beforeEach(() => {
+    heap = new MinMaxHeap<number>()
+  })
+
+  describe('basic operations', () => {
+    it('should start empty', () => {
+      expect(heap.isEmpty()).toBe(true)
+      expect(heap.length).toBe(0)
+      expect(heap.peekMin()).toBeUndefined()
+      expect(heap.peekMax()).toBeUndefined()
+    })
+
+    it('should track both ends while pushing', () => {
+      heap.push(5)
+      expect([heap.peekMin(), heap.peekMax()]).toEqual([5, 5])
+      heap.push(2)
+      expect([heap.peekMin(), heap.peekMax()]).toEqual([2, 5])
+      heap.push(9)
+      heap.push(1)
+      heap.push(7)
+      expect([heap.peekMin(), heap.peekMax()]).toEqual([1, 9])
+      expect(heap.size()).toBe(5)
+    })
+
+    it('should pop from both ends', () => {
+      for (const v of [4, 8, 1, 9, 3, 7, 2]) heap.push(v)
+      expect(heap.popMin()).toBe(1)
+      expect(heap.popMax()).toBe(9)
+      expect(heap.popMax()).toBe(8)
+      expect(heap.popMin()).toBe(2)
+      expect(heap.toArray().sort((a, b) => a - b)).toEqual([3, 4, 7])
+    })
+
+    it('should throw when popping an empty heap', () => {
+      expect(() => heap.popMin()).toThrow(Error)
+      expect(() => heap.popMax()).toThrow(Error)
+    })
+
+    it('should clear', () => {
+      heap.push(1)
+      heap.push(2)
+      heap.clear()
+      expect(heap.isEmpty()).toBe(true)
+      expect(heap.peekMax()).toBeUndefined()
+    })
+  })
+
+  describe('construction', () => {
+    it('should heapify initValues in place', () => {
+      const values = [6, 3, 9, 1, 8, 2, 7, 5, 4]
+      const h = new MinMaxHeap<number>({ initValues: values })
+      expect(h.peekMin()).toBe(1)
+      expect(h.peekMax()).toBe(9)
+      const out: number[] = []
+      while (!h.isEmpty()) out.push(h.popMin())
+      expect(out).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9])
+    })
+
+    it('should validate initValues', () => {
+      // @ts-expect-error
+      expect(() => new MinMaxHeap({ initValues: 42 })).toThrow(TypeError)
+    })
+
+    it('should reject non-numbers with the default comparator', () => {
+      const h = new MinMaxHeap<string>()
+      h.push('a')
+      expect(() => h.push('b')).toThrow(TypeError)
+    })
+
+    it('should order with a custom comparator', () => {
+      type Job = { name: string; cost: number }
+      const jobs = new MinMaxHeap<Job>({
+        compareFn: (a, b) => a.cost - b.cost,
+      })
+      jobs.push({ name: 'a', cost: 3 })
+      jobs.push({ name: 'b', cost: 1 })
+      jobs.push({ name: 'c', cost: 5 })
+      expect(jobs.popMin().name).toBe('b')
+      expect(jobs.popMax().name).toBe('c')
+    })
+
+    it('should emplace with a factory', () => {
+      const h = new MinMaxHeap<number, [number, number]>({
+        factory: (a, b) => a * b,
+      })
+      h.emplace(2, 3)
+      h.emplace(1, 1)
+      expect(h.peekMax()).toBe(6)
+      expect(h.peekMin()).toBe(1)
+      expect(() => new MinMaxHeap<number>().emplace()).toThrow(Error)
+    })
+  })
+
+  describe('randomized against a sorted array', () => {
+    it('should agree on every operation', () => {
+      let seed = 7
+      const rand = () => {
+        seed = (seed * 1103515245 + 12345) % 2147483648
+        return seed / 2147483648
+      }
+      const model: number[] = []
+      for (let step = 0; step < 2000; step++) {
+        const r = rand()
+        if (r < 0.5 || model.length === 0) {
+          const v = Math.floor(rand() * 100)
+          heap.push(v)
+          model.push(v)
+          model.sort((a, b) => a - b)
+        } else if (r < 0.75) {
+          expect(heap.popMin()).toBe(model.shift())
+        } else {
+          expect(heap.popMax()).toBe(model.pop())
+        }
+        expect(heap.length).toBe(model.length)
+        expect(heap.peekMin()).toBe(model[0])
+        expect(heap.peekMax()).toBe(model[model.length - 1])
+      }
+    })
+  })
+
+  describe('heapify', () => {
+    it('should build a valid heap from any array', () => {
+      for (let n = 0; n < 40; n++) {
+        const values = Array.from({ length: n }, (_, i) => (i * 37) % 23)
+        const sorted = [...values].sort((a, b) => b - a)
+        const h = new MinMaxHeap<number>({ initValues: values })
+        const out: number[] = []
+        while (!h.isEmpty()) out.push(h.popMax())
+        expect(out).toEqual(sorted)
+      }
+    })
+  })
+
+  describe('JSON', () => {
+    it('should round-trip through toJSON and fromJSON', () => {
+      for (const v of [5, 1, 8, 3, 9, 2]) heap.push(v)
+      const copy = MinMaxHeap.fromJSON<number>(JSON.stringify(heap))
+      expect(copy.toArray()).toEqual(heap.toArray())
+      expect(copy.popMax()).toBe(9)
+      expect(copy.popMin()).toBe(1)
+    })
+
+    it('should reject other containers', () => {
+      expect(() =>
+        MinMaxHeap.fromJSON({ type: 'Stack', version: 1, values: [] }),
+      ).toThrow(TypeError)
+    })
+  })
+})
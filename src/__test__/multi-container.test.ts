@@ -0,0 +1,158 @@
+import { describe, it, expect } from 'vitest'
+import { TreeMultiSet } from './../structures/tree-multiset'
+import { HashMultiSet } from './../structures/hash-multiset'
+import { TreeMultiMap } from './../structures/tree-multimap'
+import { HashMultiMap } from './../structures/hash-multimap'
+
+describe.each([
+  ['TreeMultiSet', TreeMultiSet],
+  ['HashMultiSet', HashMultiSet],
+] as const)('%s', (_, MultiSet) => {
+  it('should count occurrences', () => {
+    const words = new MultiSet<string>({
+      initValues: ['a', 'b', 'a', 'c', 'a', 'b'],
+    })
+    expect(words.count('a')).toBe(3)
+    expect(words.count('z')).toBe(0)
+    expect(words.size()).toBe(6)
+    expect(words.uniqueSize()).toBe(3)
+    expect(words.has('c')).toBe(true)
+    expect([...words].sort()).toEqual(['a', 'a', 'a', 'b', 'b', 'c'])
+  })
+
+  it('should add and remove by count', () => {
+    const bag = new MultiSet<string>()
+    bag.add('apple', 5).add('pear').add('apple', 0)
+    expect(bag.count('apple')).toBe(5)
+    expect(bag.removeOne('apple')).toBe(true)
+    expect(bag.count('apple')).toBe(4)
+    expect(bag.removeAll('apple')).toBe(4)
+    expect(bag.removeAll('apple')).toBe(0)
+    expect(bag.removeOne('apple')).toBe(false)
+    expect(bag.removeOne('pear')).toBe(true)
+    expect(bag.has('pear')).toBe(false)
+    expect(bag.isEmpty()).toBe(true)
+    expect(() => bag.add('x', -1)).toThrow(RangeError)
+    expect(() => bag.add('x', 1.5)).toThrow(RangeError)
+  })
+
+  it('should return the most common values', () => {
+    const bag = new MultiSet<string>()
+    bag.add('x', 2).add('y', 5).add('z', 1)
+    expect(bag.mostCommon(2)).toEqual([
+      ['y', 5],
+      ['x', 2],
+    ])
+    expect(bag.mostCommon()).toHaveLength(3)
+    expect(bag.mostCommon(0)).toEqual([])
+    expect(() => bag.mostCommon(-1)).toThrow(RangeError)
+  })
+
+  it('should round-trip through JSON', () => {
+    const bag = new MultiSet<number>({ initValues: [1, 1, 2] })
+    const copy = MultiSet.fromJSON<number>(JSON.stringify(bag))
+    expect(copy.count(1)).toBe(2)
+    expect(copy.size()).toBe(3)
+  })
+})
+
+describe('TreeMultiSet ordering', () => {
+  it('should iterate in order and keep ties in value order', () => {
+    const bag = new TreeMultiSet<number>({ initValues: [3, 1, 3, 2, 1, 3] })
+    expect(bag.toArray()).toEqual([1, 1, 2, 3, 3, 3])
+    expect([...bag.rbegin()]).toEqual([3, 3, 3, 2, 1, 1])
+    expect([...bag.counts()]).toEqual([
+      [1, 2],
+      [2, 1],
+      [3, 3],
+    ])
+    expect(bag.first()).toBe(1)
+    expect(bag.last()).toBe(3)
+    bag.add(2)
+    expect(bag.mostCommon()).toEqual([
+      [3, 3],
+      [1, 2],
+      [2, 2],
+    ])
+  })
+})
+
+describe('HashMultiSet hashing', () => {
+  it('should use custom hash and equals', () => {
+    type Point = { x: number; y: number }
+    const bag = new HashMultiSet<Point>({
+      hash: (p) => p.x * 31 + p.y,
+      equals: (a, b) => a.x === b.x && a.y === b.y,
+    })
+    bag.add({ x: 1, y: 1 }).add({ x: 1, y: 1 }).add({ x: 2, y: 0 })
+    expect(bag.count({ x: 1, y: 1 })).toBe(2)
+    expect(bag.uniqueSize()).toBe(2)
+  })
+})
+
+describe.each([
+  ['TreeMultiMap', TreeMultiMap],
+  ['HashMultiMap', HashMultiMap],
+] as const)('%s', (_, MultiMap) => {
+  it('should keep every value per key in insertion order', () => {
+    const index = new MultiMap<string, number>({
+      initValues: [
+        ['b', 1],
+        ['a', 2],
+        ['b', 3],
+        ['b', 1],
+      ],
+    })
+    expect(index.getAll('b')).toEqual([1, 3, 1])
+    expect(index.get('b')).toBe(1)
+    expect(index.get('z')).toBeUndefined()
+    expect(index.getAll('z')).toEqual([])
+    expect([...index.equalRange('a')]).toEqual([['a', 2]])
+    expect(index.count('b')).toBe(3)
+    expect(index.size()).toBe(4)
+    expect(index.uniqueSize()).toBe(2)
+    expect([...index.keys()].sort()).toEqual(['a', 'b'])
+    expect([...index.values()].sort()).toEqual([1, 1, 2, 3])
+  })
+
+  it('should remove single values and whole keys', () => {
+    const index = new MultiMap<string, number>()
+    index.add('k', 1).add('k', 2).add('k', 1).add('j', 0)
+    expect(index.removeValue('k', 1)).toBe(true)
+    expect(index.getAll('k')).toEqual([2, 1])
+    expect(index.removeValue('k', 9)).toBe(false)
+    expect(index.removeValue('j', 0)).toBe(true)
+    expect(index.has('j')).toBe(false)
+    expect(index.uniqueSize()).toBe(1)
+    expect(index.removeAll('k')).toBe(2)
+    expect(index.removeAll('k')).toBe(0)
+    expect(index.isEmpty()).toBe(true)
+    expect(index.uniqueSize()).toBe(0)
+  })
+
+  it('should survive growth and round-trip through JSON', () => {
+    const index = new MultiMap<number, number>()
+    for (let i = 0; i < 500; i++) index.add(i % 7, i)
+    expect(index.count(3)).toBe(71)
+    expect(index.getAll(3).slice(0, 3)).toEqual([3, 10, 17])
+    const copy = MultiMap.fromJSON<number, number>(JSON.stringify(index))
+    expect(copy.getAll(6)).toEqual(index.getAll(6))
+    expect(copy.uniqueSize()).toBe(7)
+  })
+})
+
+describe('TreeMultiMap ordering', () => {
+  it('should iterate pairs by key', () => {
+    const index = new TreeMultiMap<number, string>()
+    index.add(2, 'b').add(1, 'a').add(2, 'c').add(3, 'd')
+    expect(index.toArray()).toEqual([
+      [1, 'a'],
+      [2, 'b'],
+      [2, 'c'],
+      [3, 'd'],
+    ])
+    expect([...index.keys()]).toEqual([1, 2, 3])
+    expect(index.first()).toEqual([1, 'a'])
+    expect([...index.rbegin()][0]).toEqual([3, 'd'])
+  })
+})
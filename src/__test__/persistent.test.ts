@@ -0,0 +1,187 @@
+import { describe, it, expect } from 'vitest'
+import { PersistentStack } from './../structures/persistent-stack'
+import { PersistentVector } from './../structures/persistent-vector'
+import { PersistentMap } from './../structures/persistent-map'
+
+describe('PersistentStack', () => {
+  it('should leave old versions intact', () => {
+    const a = new PersistentStack<number>({ initValues: [1, 2] })
+    const b = a.push(3)
+    const c = b.pop().pop()
+    expect(a.toArray()).toEqual([1, 2])
+    expect(b.toArray()).toEqual([1, 2, 3])
+    expect(c.toArray()).toEqual([1])
+    expect(b.peek()).toBe(3)
+    expect([...b.reversed]).toEqual([3, 2, 1])
+  })
+
+  it('should throw on empty pop and peek', () => {
+    const empty = new PersistentStack<number>()
+    expect(empty.top).toBeUndefined()
+    expect(() => empty.pop()).toThrow(Error)
+    expect(() => empty.peek()).toThrow(Error)
+  })
+
+  it('should batch updates in a transient', () => {
+    const base = new PersistentStack<number>()
+    const mutable = base.asMutable()
+    expect(mutable.push(1)).toBe(mutable)
+    mutable.push(2)
+    const frozen = mutable.asImmutable()
+    expect(frozen.toArray()).toEqual([1, 2])
+    expect(frozen.push(3)).not.toBe(frozen)
+    expect(base.length).toBe(0)
+    expect(base.withMutations((s) => s.push(9)).toArray()).toEqual([9])
+  })
+
+  it('should round-trip through JSON', () => {
+    const stack = new PersistentStack<number>({ initValues: [1, 2, 3] })
+    const copy = PersistentStack.fromJSON<number>(JSON.stringify(stack))
+    expect(copy.toArray()).toEqual([1, 2, 3])
+    expect(copy.top).toBe(3)
+  })
+})
+
+describe('PersistentVector', () => {
+  it('should match an array across trie levels', () => {
+    const n = 40_000
+    let vector = new PersistentVector<number>()
+    for (let i = 0; i < n; i++) vector = vector.pushBack(i)
+    expect(vector.length).toBe(n)
+    expect(vector.at(0)).toBe(0)
+    expect(vector.at(31)).toBe(31)
+    expect(vector.at(32)).toBe(32)
+    expect(vector.at(1055)).toBe(1055)
+    expect(vector.at(n - 1)).toBe(n - 1)
+    expect(vector.at(n)).toBeUndefined()
+    expect(vector.toArray()).toEqual(Array.from({ length: n }, (_, i) => i))
+    expect([...vector.rbegin()].slice(0, 3)).toEqual([n - 1, n - 2, n - 3])
+
+    for (let i = n; i > 0; i--) {
+      vector = vector.popBack()
+      expect(vector.back).toBe(i - 2 >= 0 ? i - 2 : undefined)
+    }
+    expect(vector.isEmpty()).toBe(true)
+  })
+
+  it('should keep every version intact', () => {
+    const versions = [new PersistentVector<number>()]
+    for (let i = 0; i < 100; i++) versions.push(versions[i]!.pushBack(i))
+    const edited = versions[100]!.set(50, -1).set(99, -2)
+    versions.forEach((v, i) => {
+      expect(v.toArray()).toEqual(Array.from({ length: i }, (_, j) => j))
+    })
+    expect(edited.at(50)).toBe(-1)
+    expect(edited.back).toBe(-2)
+    expect(versions[100]!.at(50)).toBe(50)
+  })
+
+  it('should return itself for no-op updates', () => {
+    const vector = new PersistentVector<number>({ initValues: [1, 2] })
+    expect(vector.set(0, 1)).toBe(vector)
+    const empty = new PersistentVector<number>()
+    expect(empty.popBack()).toBe(empty)
+    expect(() => vector.set(2, 0)).toThrow(RangeError)
+  })
+
+  it('should not leak transient edits into the source version', () => {
+    const base = new PersistentVector<number>({
+      initValues: Array.from({ length: 100 }, (_, i) => i),
+    })
+    const result = base.withMutations((v) => {
+      for (let i = 0; i < 100; i++) v.set(i, i * 2)
+      for (let i = 0; i < 50; i++) v.popBack()
+      v.pushBack(-1)
+    })
+    expect(base.at(10)).toBe(10)
+    expect(base.length).toBe(100)
+    expect(result.length).toBe(51)
+    expect(result.at(10)).toBe(20)
+    expect(result.back).toBe(-1)
+    // A frozen transient behaves persistently again.
+    expect(result.pushBack(0)).not.toBe(result)
+    expect(result.length).toBe(51)
+  })
+
+  it('should round-trip through JSON', () => {
+    const vector = new PersistentVector<number>({ initValues: [3] })
+    const copy = PersistentVector.fromJSON<number>(JSON.stringify(vector))
+    expect(copy.toArray()).toEqual([3])
+  })
+})
+
+describe('PersistentMap', () => {
+  it('should set, get and delete without touching old versions', () => {
+    const a = new PersistentMap<string, number>({ initValues: [['x', 1]] })
+    const b = a.set('y', 2)
+    const c = b.delete('x')
+    expect(a.get('y')).toBeUndefined()
+    expect(b.get('x')).toBe(1)
+    expect(b.get('y')).toBe(2)
+    expect(c.has('x')).toBe(false)
+    expect([a.size(), b.size(), c.size()]).toEqual([1, 2, 1])
+    expect(c.update('y', (v) => (v ?? 0) + 1).get('y')).toBe(3)
+  })
+
+  it('should return itself for no-op updates', () => {
+    const map = new PersistentMap<string, number>({ initValues: [['a', 1]] })
+    expect(map.set('a', 1)).toBe(map)
+    expect(map.delete('b')).toBe(map)
+  })
+
+  it('should agree with Map over many keys', () => {
+    const reference = new Map<number, number>()
+    let map = new PersistentMap<number, number>()
+    for (let i = 0; i < 5000; i++) {
+      const key = (i * 7919) % 3001
+      if (i % 3 === 0) {
+        reference.delete(key)
+        map = map.delete(key)
+      } else {
+        reference.set(key, i)
+        map = map.set(key, i)
+      }
+    }
+    expect(map.size()).toBe(reference.size)
+    for (const [key, value] of reference) expect(map.get(key)).toBe(value)
+    expect(new Map(map)).toEqual(reference)
+  })
+
+  it('should handle full hash collisions', () => {
+    const map = new PersistentMap<string, number>({ hash: () => 42 })
+    const full = map.set('a', 1).set('b', 2).set('c', 3)
+    expect(full.get('b')).toBe(2)
+    const smaller = full.delete('a').delete('c')
+    expect(smaller.toArray()).toEqual([['b', 2]])
+    expect(full.size()).toBe(3)
+    expect(smaller.set('d', 4).get('d')).toBe(4)
+  })
+
+  it('should use custom hash and equals', () => {
+    type Point = { x: number; y: number }
+    const map = new PersistentMap<Point, string>({
+      hash: (p) => p.x * 31 + p.y,
+      equals: (a, b) => a.x === b.x && a.y === b.y,
+    }).set({ x: 1, y: 2 }, 'a')
+    expect(map.get({ x: 1, y: 2 })).toBe('a')
+    expect(() => new PersistentMap({ hash: 1 as never })).toThrow(TypeError)
+  })
+
+  it('should batch updates in a transient', () => {
+    const base = new PersistentMap<number, number>()
+    const mutable = base.asMutable()
+    for (let i = 0; i < 100; i++) expect(mutable.set(i, i)).toBe(mutable)
+    mutable.delete(0)
+    const frozen = mutable.asImmutable()
+    expect(frozen.size()).toBe(99)
+    expect(base.size()).toBe(0)
+    expect(frozen.set(1, 5)).not.toBe(frozen)
+    expect(frozen.get(1)).toBe(1)
+  })
+
+  it('should round-trip through JSON', () => {
+    const map = new PersistentMap<string, number>({ initValues: [['k', 1]] })
+    const copy = PersistentMap.fromJSON<string, number>(JSON.stringify(map))
+    expect(copy.get('k')).toBe(1)
+  })
+})
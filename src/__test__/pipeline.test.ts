@@ -0,0 +1,236 @@
+import { describe, it, expect } from 'vitest'
+import { Deque } from './../structures/deque'
+import { LinkedList } from './../structures/linked-list'
+import { PriorityQueue } from './../structures/priority-queue'
+import { Vector } from './../structures/vector'
+import { TreeSet } from './../structures/tree-set'
+import { Pipeline, pipeline } from './../algorithms/pipeline'
+
+function* naturals(): Generator<number> {
+  for (let n = 0; ; n++) yield n
+}
+
+describe('Pipeline', () => {
+  describe('sources', () => {
+    it('should accept containers and built-in iterables', () => {
+      const list = new LinkedList<number>({ initValues: [1, 2, 3] })
+      expect(pipeline(list).toArray()).toEqual([1, 2, 3])
+      const deque = new Deque<number>({ initValues: [4, 5] })
+      expect(pipeline(deque).toArray()).toEqual([4, 5])
+      const set = new TreeSet<number>({ initValues: [3, 1, 2] })
+      expect(pipeline(set).toArray()).toEqual([1, 2, 3])
+      expect(pipeline('ab').toArray()).toEqual(['a', 'b'])
+      expect(pipeline(new Map([[1, 'x']])).toArray()).toEqual([[1, 'x']])
+    })
+
+    it('should reject non-iterables', () => {
+      // @ts-expect-error
+      expect(() => pipeline(42)).toThrow(TypeError)
+      // @ts-expect-error
+      expect(() => new Pipeline(null)).toThrow(TypeError)
+    })
+
+    it('should be re-iterable over a container', () => {
+      const list = new LinkedList<number>({ initValues: [1, 2, 3] })
+      const doubled = pipeline(list).map((x) => x * 2)
+      expect([...doubled]).toEqual([2, 4, 6])
+      list.pushBack(4)
+      expect([...doubled]).toEqual([2, 4, 6, 8])
+    })
+  })
+
+  describe('adaptors', () => {
+    it('should map, filter and flatMap with indices', () => {
+      const r = pipeline([5, 6, 7, 8])
+      expect(r.map((x, i) => x * i).toArray()).toEqual([0, 6, 14, 24])
+      expect(r.filter((x) => x % 2 === 0).toArray()).toEqual([6, 8])
+      expect(r.filter((_, i) => i > 1).toArray()).toEqual([7, 8])
+      expect(
+        pipeline([1, 2, 3])
+          .flatMap((x) => new Array<number>(x).fill(x))
+          .toArray(),
+      ).toEqual([1, 2, 2, 3, 3, 3])
+    })
+
+    it('should narrow types with a filter guard', () => {
+      const mixed = pipeline<number | string>([1, 'a', 2, 'b'])
+      const strings: string[] = mixed
+        .filter((x): x is string => typeof x === 'string')
+        .map((s) => s.toUpperCase())
+        .toArray()
+      expect(strings).toEqual(['A', 'B'])
+    })
+
+    it('should take, drop and takeWhile', () => {
+      const r = pipeline([1, 2, 3, 4, 5])
+      expect(r.take(2).toArray()).toEqual([1, 2])
+      expect(r.take(0).toArray()).toEqual([])
+      expect(r.take(10).toArray()).toEqual([1, 2, 3, 4, 5])
+      expect(r.drop(3).toArray()).toEqual([4, 5])
+      expect(r.drop(10).toArray()).toEqual([])
+      expect(r.takeWhile((x) => x < 3).toArray()).toEqual([1, 2])
+      expect(() => r.take(-1)).toThrow(RangeError)
+      expect(() => r.drop(1.5)).toThrow(RangeError)
+    })
+
+    it('should work lazily on infinite sources', () => {
+      let pulled = 0
+      const counted = pipeline(naturals()).map((x) => {
+        pulled++
+        return x
+      })
+      const squares = counted
+        .filter((x) => x % 2 === 1)
+        .map((x) => x * x)
+        .take(3)
+      expect(pulled).toBe(0)
+      expect(squares.toArray()).toEqual([1, 9, 25])
+      expect(pulled).toBe(6)
+      expect(
+        pipeline(naturals())
+          .takeWhile((x) => x < 4)
+          .toArray(),
+      ).toEqual([0, 1, 2, 3])
+    })
+
+    it('should zip to the shorter side and enumerate', () => {
+      const letters = new Deque<string>({ initValues: ['a', 'b', 'c'] })
+      expect(pipeline([1, 2]).zip(letters).toArray()).toEqual([
+        [1, 'a'],
+        [2, 'b'],
+      ])
+      expect(pipeline(letters).zip(naturals()).toArray()).toEqual([
+        ['a', 0],
+        ['b', 1],
+        ['c', 2],
+      ])
+      expect(pipeline(letters).enumerate().toArray()).toEqual([
+        [0, 'a'],
+        [1, 'b'],
+        [2, 'c'],
+      ])
+      // @ts-expect-error
+      expect(() => pipeline([1]).zip(5)).toThrow(TypeError)
+    })
+
+    it('should close the other source when zip stops', () => {
+      let closed = false
+      function* tracked(): Generator<number> {
+        try {
+          yield* naturals()
+        } finally {
+          closed = true
+        }
+      }
+      expect(pipeline([1]).zip(tracked()).toArray()).toEqual([[1, 0]])
+      expect(closed).toBe(true)
+    })
+
+    it('should chunk and window', () => {
+      const r = pipeline([1, 2, 3, 4, 5])
+      expect(r.chunk(2).toArray()).toEqual([[1, 2], [3, 4], [5]])
+      expect(r.chunk(5).toArray()).toEqual([[1, 2, 3, 4, 5]])
+      expect(r.window(3).toArray()).toEqual([
+        [1, 2, 3],
+        [2, 3, 4],
+        [3, 4, 5],
+      ])
+      expect(r.window(6).toArray()).toEqual([])
+      expect(pipeline(naturals()).take(7).window(2).toArray()).toEqual([
+        [0, 1],
+        [1, 2],
+        [2, 3],
+        [3, 4],
+        [4, 5],
+        [5, 6],
+      ])
+      expect(() => r.chunk(0)).toThrow(RangeError)
+      expect(() => r.window(0)).toThrow(RangeError)
+    })
+
+    it('should validate callbacks', () => {
+      const r = pipeline([1])
+      // @ts-expect-error
+      expect(() => r.map(1)).toThrow(TypeError)
+      // @ts-expect-error
+      expect(() => r.filter()).toThrow(TypeError)
+      // @ts-expect-error
+      expect(() => r.groupBy('x')).toThrow(TypeError)
+    })
+  })
+
+  describe('collectors', () => {
+    it('should collect into containers', () => {
+      const r = pipeline(new LinkedList<number>({ initValues: [3, 1, 2] }))
+      const vector = r.toVector()
+      expect(vector).toBeInstanceOf(Vector)
+      expect(vector.toArray()).toEqual([3, 1, 2])
+      const deque = r.toDeque()
+      expect(deque).toBeInstanceOf(Deque)
+      expect(deque.toArray()).toEqual([3, 1, 2])
+      const list = r.toLinkedList()
+      expect(list).toBeInstanceOf(LinkedList)
+      expect(list.toArray()).toEqual([3, 1, 2])
+    })
+
+    it('should collect a generator in a single pass', () => {
+      const from = (n: number) => pipeline(naturals()).take(n)
+      expect(from(3).toDeque().toArray()).toEqual([0, 1, 2])
+      expect(from(3).toLinkedList().toArray()).toEqual([0, 1, 2])
+      expect(from(3).toPriorityQueue().toSortedArray()).toEqual([2, 1, 0])
+    })
+
+    it('should collect a single number into a Vector', () => {
+      expect(pipeline([5]).toVector().toArray()).toEqual([5])
+    })
+
+    it('should collect into a PriorityQueue', () => {
+      const maxQ = pipeline([3, 1, 2]).toPriorityQueue()
+      expect(maxQ).toBeInstanceOf(PriorityQueue)
+      expect(maxQ.pop()).toBe(3)
+      const minQ = pipeline([3, 1, 2]).toPriorityQueue((a, b) => b - a)
+      expect(minQ.toSortedArray()).toEqual([1, 2, 3])
+    })
+
+    it('should reduce with and without an initial value', () => {
+      const r = pipeline([1, 2, 3, 4])
+      expect(r.reduce((a, b) => a + b)).toBe(10)
+      expect(r.reduce((acc, x) => acc + String(x), '')).toBe('1234')
+      expect(r.reduce((acc, _, i) => acc + i, 0)).toBe(6)
+      expect(pipeline<number>([]).reduce((a, b) => a + b, 7)).toBe(7)
+      expect(() => pipeline<number>([]).reduce((a, b) => a + b)).toThrow(
+        TypeError,
+      )
+    })
+
+    it('should close the source when the reducer throws', () => {
+      let closed = false
+      function* tracked(): Generator<number> {
+        try {
+          yield* naturals()
+        } finally {
+          closed = true
+        }
+      }
+      const boom = (acc: number, x: number) => {
+        if (x === 3) throw new Error('boom')
+        return acc + x
+      }
+      expect(() => pipeline(tracked()).reduce(boom)).toThrow('boom')
+      expect(closed).toBe(true)
+      closed = false
+      expect(() => pipeline(tracked()).reduce(boom, 0)).toThrow('boom')
+      expect(closed).toBe(true)
+    })
+
+    it('should group by key in order of first appearance', () => {
+      const words = ['apple', 'bob', 'avocado', 'cat', 'banana']
+      const groups = pipeline(words).groupBy((w) => w[0])
+      expect([...groups]).toEqual([
+        ['a', ['apple', 'avocado']],
+        ['b', ['bob', 'banana']],
+        ['c', ['cat']],
+      ])
+    })
+  })
+})
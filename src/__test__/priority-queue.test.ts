@@ -139,4 +139,361 @@ describe('PriorityQueue', () => {
       }
     })
   })
+
+  describe('handles', () => {
+    type Task = { id: string; cost: number }
+    let tasks: PriorityQueue<Task>
+
+    beforeEach(() => {
+      // min-heap on cost
+      tasks = new PriorityQueue<Task>({ compareFn: (a, b) => b.cost - a.cost })
+    })
+
+    it('push should return a handle bound to the element', () => {
+      const h = tasks.push({ id: 'a', cost: 3 })
+      expect(h.value.id).toBe('a')
+      expect(tasks.contains(h)).toBe(true)
+    })
+
+    it('decreaseKey should move an element towards the top', () => {
+      tasks.push({ id: 'a', cost: 3 })
+      tasks.push({ id: 'b', cost: 5 })
+      const c = tasks.push({ id: 'c', cost: 9 })
+      tasks.decreaseKey(c, { id: 'c', cost: 1 })
+      expect(tasks.peek()!.id).toBe('c')
+      expect(c.value.cost).toBe(1)
+      expect(() => tasks.decreaseKey(c, { id: 'c', cost: 10 })).toThrow(
+        RangeError,
+      )
+    })
+
+    it('update should re-sift after in-place mutation or replacement', () => {
+      const a = tasks.push({ id: 'a', cost: 1 })
+      tasks.push({ id: 'b', cost: 2 })
+      tasks.push({ id: 'c', cost: 3 })
+      a.value.cost = 10
+      tasks.update(a)
+      expect(tasks.pop().id).toBe('b')
+      tasks.update(a, { id: 'a', cost: 0 })
+      expect(tasks.pop().id).toBe('a')
+      expect(tasks.pop().id).toBe('c')
+    })
+
+    it('remove should delete an arbitrary element and detach its handle', () => {
+      const handles = [5, 1, 4, 2, 3].map((cost) =>
+        tasks.push({ id: String(cost), cost }),
+      )
+      expect(tasks.remove(handles[2]!).cost).toBe(4)
+      expect(tasks.contains(handles[2]!)).toBe(false)
+      expect(() => tasks.remove(handles[2]!)).toThrow()
+      const order: number[] = []
+      while (!tasks.isEmpty()) order.push(tasks.pop().cost)
+      expect(order).toEqual([1, 2, 3, 5])
+    })
+
+    it('handles should be detached by pop, replace and clear', () => {
+      const a = tasks.push({ id: 'a', cost: 1 })
+      const b = tasks.push({ id: 'b', cost: 2 })
+      const c = tasks.push({ id: 'c', cost: 3 })
+      tasks.pop()
+      expect(tasks.contains(a)).toBe(false)
+      tasks.replace({ id: 'd', cost: 4 })
+      expect(tasks.contains(b)).toBe(false)
+      expect(tasks.contains(c)).toBe(true)
+      tasks.clear()
+      expect(tasks.contains(c)).toBe(false)
+    })
+
+    it('should not accept handles from another queue', () => {
+      const other = new PriorityQueue<Task>({
+        compareFn: (a, b) => b.cost - a.cost,
+      })
+      tasks.push({ id: 'a', cost: 1 })
+      const h = other.push({ id: 'x', cost: 1 })
+      expect(tasks.contains(h)).toBe(false)
+      expect(() => tasks.update(h)).toThrow()
+    })
+
+    it('should keep heap order under random updates and removals', () => {
+      const p = new PriorityQueue<number>()
+      const live = new Set<ReturnType<typeof p.push>>()
+      for (let i = 0; i < 300; i++) live.add(p.push((i * 37) % 101))
+      let i = 0
+      for (const h of [...live]) {
+        if (i % 3 === 0) {
+          p.remove(h)
+          live.delete(h)
+        } else if (i % 3 === 1) {
+          p.update(h, (i * 53) % 97)
+        }
+        i++
+      }
+      expect(p.size()).toBe(live.size)
+      let prev = Infinity
+      while (!p.isEmpty()) {
+        const cur = p.pop()
+        expect(cur).toBeLessThanOrEqual(prev)
+        prev = cur
+      }
+    })
+  })
+
+  describe('pushAll', () => {
+    it('should insert every element of an iterable', () => {
+      const pq = new PriorityQueue<number>({ initValues: [5] })
+      pq.pushAll(new Set([3, 9, 1]))
+      pq.pushAll([])
+      expect(pq.size()).toBe(4)
+      expect([pq.pop(), pq.pop(), pq.pop(), pq.pop()]).toEqual([9, 5, 3, 1])
+      // @ts-expect-error
+      expect(() => pq.pushAll(5)).toThrow(TypeError)
+    })
+
+    it('should keep heap order for small and large batches', () => {
+      const pq = new PriorityQueue<number>()
+      pq.pushAll(Array.from({ length: 1000 }, (_, i) => (i * 7919) % 1000))
+      pq.pushAll([2000, -1])
+      pq.pushAll(Array.from({ length: 3000 }, (_, i) => (i * 104729) % 3001))
+      const popped: number[] = []
+      while (!pq.isEmpty()) popped.push(pq.pop())
+      expect(popped).toHaveLength(4002)
+      for (let i = 1; i < popped.length; i++) {
+        expect(popped[i]!).toBeLessThanOrEqual(popped[i - 1]!)
+      }
+    })
+  })
+
+  describe('merge', () => {
+    it('should move every element into the target', () => {
+      const a = new PriorityQueue<number>({ initValues: [1, 5, 3] })
+      const b = new PriorityQueue<number>({ initValues: [4, 2, 6] })
+      PriorityQueue.merge(a, b)
+      expect(b.isEmpty()).toBe(true)
+      expect(a.size()).toBe(6)
+      expect([a.pop(), a.pop(), a.pop()]).toEqual([6, 5, 4])
+    })
+
+    it('should keep handles of the source valid', () => {
+      const a = new PriorityQueue<number>()
+      const b = new PriorityQueue<number>()
+      a.push(10)
+      const h = b.push(1)
+      PriorityQueue.merge(a, b)
+      expect(a.contains(h)).toBe(true)
+      expect(b.contains(h)).toBe(false)
+      a.decreaseKey(h, 20)
+      expect(a.peek()).toBe(20)
+    })
+
+    it('should reject invalid arguments', () => {
+      const a = new PriorityQueue<number>()
+      expect(() => PriorityQueue.merge(a, a)).toThrow(Error)
+      // @ts-expect-error
+      expect(() => PriorityQueue.merge(a, [1])).toThrow(TypeError)
+    })
+  })
+
+  describe('backends', () => {
+    it('should validate backend and arity', () => {
+      // @ts-expect-error
+      expect(() => new PriorityQueue({ backend: 'fibonacci' })).toThrow(
+        TypeError,
+      )
+      expect(() => new PriorityQueue({ backend: 'd-ary', arity: 1 })).toThrow(
+        RangeError,
+      )
+      expect(() => new PriorityQueue({ backend: 'd-ary', arity: 2.5 })).toThrow(
+        RangeError,
+      )
+    })
+
+    describe.each([
+      { backend: 'binary' },
+      { backend: 'd-ary', arity: 3 },
+      { backend: 'd-ary', arity: 8 },
+      { backend: 'pairing' },
+    ] as const)('$backend $arity', (options) => {
+      const drain = (pq: PriorityQueue<number>) => {
+        const out: number[] = []
+        while (!pq.isEmpty()) out.push(pq.pop())
+        return out
+      }
+
+      it('should pop in priority order', () => {
+        const pq = new PriorityQueue<number>({
+          ...options,
+          initValues: [4, 8, 1, 9, 3, 7],
+        })
+        pq.push(5)
+        pq.pushAll([2, 6])
+        expect(pq.peek()).toBe(9)
+        expect(pq.replace(0)).toBe(9)
+        expect(drain(pq)).toEqual([8, 7, 6, 5, 4, 3, 2, 1, 0])
+      })
+
+      it('should support min-heaps through compareFn', () => {
+        const pq = new PriorityQueue<number>({
+          ...options,
+          compareFn: (a, b) => b - a,
+          initValues: [3, 1, 2],
+        })
+        expect(drain(pq)).toEqual([1, 2, 3])
+      })
+
+      it('should keep heap order under handle operations', () => {
+        const pq = new PriorityQueue<number>(options)
+        const handles = Array.from({ length: 200 }, (_, i) =>
+          pq.push((i * 37) % 101),
+        )
+        const live = new Map(handles.map((h) => [h, h.value]))
+        handles.forEach((h, i) => {
+          if (i % 4 === 0) {
+            expect(pq.remove(h)).toBe(live.get(h))
+            live.delete(h)
+          } else if (i % 4 === 1) {
+            pq.update(h, (i * 53) % 97)
+            live.set(h, (i * 53) % 97)
+          } else if (i % 4 === 2) {
+            pq.decreaseKey(h, h.value + 50)
+            live.set(h, h.value)
+          }
+        })
+        for (const h of live.keys()) expect(pq.contains(h)).toBe(true)
+        expect(pq.contains(handles[0]!)).toBe(false)
+        expect(drain(pq)).toEqual([...live.values()].sort((a, b) => b - a))
+        for (const h of live.keys()) expect(pq.contains(h)).toBe(false)
+      })
+
+      it('should detach handles on clear', () => {
+        const pq = new PriorityQueue<number>(options)
+        const h = pq.push(1)
+        pq.clear()
+        expect(pq.contains(h)).toBe(false)
+        expect(pq.isEmpty()).toBe(true)
+      })
+
+      it('should merge with every backend', () => {
+        for (const other of [
+          { backend: 'binary' },
+          { backend: 'd-ary', arity: 4 },
+          { backend: 'pairing' },
+        ] as const) {
+          const a = new PriorityQueue<number>({
+            ...options,
+            initValues: [1, 7],
+          })
+          const b = new PriorityQueue<number>({ ...other, initValues: [5, 3] })
+          const h = b.push(9)
+          PriorityQueue.merge(a, b)
+          expect(b.isEmpty()).toBe(true)
+          const sameFamily =
+            (options.backend === 'pairing') === (other.backend === 'pairing')
+          expect(a.contains(h)).toBe(sameFamily)
+          expect(drain(a)).toEqual([9, 7, 5, 3, 1])
+        }
+      })
+
+      it('should round-trip through JSON', () => {
+        const pq = new PriorityQueue<number>({
+          ...options,
+          initValues: [2, 9, 4, 7],
+        })
+        const copy = PriorityQueue.fromJSON<number>(JSON.stringify(pq), options)
+        expect(copy.toArray()).toEqual(pq.toArray())
+        expect(drain(copy)).toEqual([9, 7, 4, 2])
+      })
+    })
+
+    it('should meld pairing heaps repeatedly and keep every handle', () => {
+      const queues = Array.from(
+        { length: 8 },
+        () => new PriorityQueue<number>({ backend: 'pairing' }),
+      )
+      const handles = queues.map((q, i) => q.push(i))
+      for (let step = 1; step < queues.length; step *= 2) {
+        for (let i = 0; i + step < queues.length; i += 2 * step) {
+          PriorityQueue.merge(queues[i]!, queues[i + step]!)
+        }
+      }
+      const all = queues[0]!
+      expect(all.size()).toBe(8)
+      for (const h of handles) expect(all.contains(h)).toBe(true)
+      all.decreaseKey(handles[0]!, 100)
+      expect(all.pop()).toBe(100)
+      expect(all.remove(handles[3]!)).toBe(3)
+      expect(all.pop()).toBe(7)
+    })
+  })
+
+  describe('sorted views', () => {
+    describe.each([
+      { backend: 'binary' },
+      { backend: 'd-ary', arity: 3 },
+      { backend: 'pairing' },
+    ] as const)('$backend $arity', (options) => {
+      it('should iterate in priority order without mutating', () => {
+        const values = [5, 1, 9, 3, 7, 3, 8, 2, 6, 0]
+        const q = new PriorityQueue<number>({ ...options, initValues: [] })
+        for (const v of values) q.push(v)
+        const layout = q.toArray()
+        const sorted = [...values].sort((a, b) => b - a)
+        expect([...q.sortedValues()]).toEqual(sorted)
+        expect(q.toSortedArray()).toEqual(sorted)
+        expect(q.topK(3)).toEqual([9, 8, 7])
+        expect(q.topK(0)).toEqual([])
+        expect(q.topK(100)).toEqual(sorted)
+        expect(q.toArray()).toEqual(layout)
+      })
+
+      it('should be lazy', () => {
+        const q = new PriorityQueue<number>({
+          ...options,
+          initValues: [3, 1, 2],
+        })
+        const it = q.sortedValues()
+        expect(it.next()).toEqual({ value: 3, done: false })
+        expect(it.next()).toEqual({ value: 2, done: false })
+        expect(it.next()).toEqual({ value: 1, done: false })
+        expect(it.next().done).toBe(true)
+      })
+    })
+
+    it('should handle empty queues and custom comparators', () => {
+      expect([...pq.sortedValues()]).toEqual([])
+      expect(pq.toSortedArray()).toEqual([])
+      expect(pq.topK(2)).toEqual([])
+      const minQ = new PriorityQueue<{ p: number }>({
+        compareFn: (a, b) => b.p - a.p,
+        initValues: [{ p: 4 }, { p: 2 }, { p: 8 }],
+      })
+      expect(minQ.topK(2).map((x) => x.p)).toEqual([2, 4])
+      expect(minQ.toSortedArray().map((x) => x.p)).toEqual([2, 4, 8])
+    })
+
+    it('should validate k', () => {
+      expect(() => pq.topK(-1)).toThrow(RangeError)
+      expect(() => pq.topK(1.5)).toThrow(RangeError)
+    })
+
+    it('should select the n largest and smallest values', () => {
+      const values = [5, 1, 9, 3, 7, 3, 8, 2]
+      expect(PriorityQueue.nLargest(values, 3)).toEqual([9, 8, 7])
+      expect(PriorityQueue.nSmallest(values, 3)).toEqual([1, 2, 3])
+      expect(PriorityQueue.nSmallest(new Set(values), 20)).toEqual([
+        1, 2, 3, 5, 7, 8, 9,
+      ])
+      expect(PriorityQueue.nLargest(values, 0)).toEqual([])
+      const words = ['pear', 'fig', 'banana', 'kiwi']
+      const byLength = (a: string, b: string) => a.length - b.length
+      expect(PriorityQueue.nLargest(words, 1, byLength)).toEqual(['banana'])
+      expect(PriorityQueue.nSmallest(words, 1, byLength)).toEqual(['fig'])
+    })
+
+    it('should validate nLargest and nSmallest arguments', () => {
+      // @ts-expect-error
+      expect(() => PriorityQueue.nLargest(42, 1)).toThrow(TypeError)
+      expect(() => PriorityQueue.nSmallest([1], -1)).toThrow(RangeError)
+      expect(() => PriorityQueue.nLargest(['a', 'b'], 1)).toThrow(TypeError)
+    })
+  })
 })
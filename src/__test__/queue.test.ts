@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest'
+import { Queue } from './../structures/queue'
+
+describe('Queue', () => {
+  describe('bounded', () => {
+    it('should be unbounded by default', () => {
+      const q = new Queue<number>()
+      expect(q.capacity).toBe(Infinity)
+      expect(q.isFull()).toBe(false)
+      expect(q.remainingCapacity()).toBe(Infinity)
+      expect(q.push(1)).toBe(true)
+    })
+
+    it('should report fullness and remaining capacity', () => {
+      const q = new Queue<number>({ capacity: 3, initValues: [1, 2] })
+      expect(q.isFull()).toBe(false)
+      expect(q.remainingCapacity()).toBe(1)
+      q.push(3)
+      expect(q.isFull()).toBe(true)
+      expect(q.remainingCapacity()).toBe(0)
+      q.pop()
+      expect(q.remainingCapacity()).toBe(1)
+    })
+
+    it("should throw on overflow with the default 'throw' policy", () => {
+      const q = new Queue<number>({ capacity: 1, initValues: [1] })
+      expect(() => q.push(2)).toThrow(RangeError)
+      expect(q.toArray()).toEqual([1])
+      expect(() => new Queue({ capacity: 1, initValues: [1, 2] })).toThrow(
+        RangeError,
+      )
+    })
+
+    it("should return false with the 'reject' policy", () => {
+      const dropped: number[] = []
+      const q = new Queue<number>({
+        capacity: 2,
+        overflow: 'reject',
+        onDrop: (v) => dropped.push(v),
+      })
+      expect(q.push(1)).toBe(true)
+      expect(q.push(2)).toBe(true)
+      expect(q.push(3)).toBe(false)
+      expect(q.toArray()).toEqual([1, 2])
+      expect(dropped).toEqual([])
+    })
+
+    it("should discard the new value with 'drop-newest'", () => {
+      const dropped: number[] = []
+      const q = new Queue<number>({
+        capacity: 2,
+        overflow: 'drop-newest',
+        onDrop: (v) => dropped.push(v),
+        initValues: [1, 2, 3, 4],
+      })
+      expect(q.toArray()).toEqual([1, 2])
+      expect(dropped).toEqual([3, 4])
+      expect(q.push(5)).toBe(false)
+    })
+
+    it("should keep a sliding window with 'drop-oldest'", () => {
+      const dropped: number[] = []
+      const q = new Queue<number>({
+        capacity: 3,
+        overflow: 'drop-oldest',
+        onDrop: (v) => dropped.push(v),
+      })
+      for (let i = 1; i <= 5; i++) expect(q.push(i)).toBe(true)
+      expect(q.toArray()).toEqual([3, 4, 5])
+      expect(dropped).toEqual([1, 2])
+      q.assign([7, 8, 9, 10])
+      expect(q.toArray()).toEqual([8, 9, 10])
+    })
+
+    it("should evict with 'drop-oldest' even without onDrop", () => {
+      const q = new Queue<number>({ capacity: 2, overflow: 'drop-oldest' })
+      for (let i = 1; i <= 4; i++) q.push(i)
+      expect(q.toArray()).toEqual([3, 4])
+      expect(q.length).toBe(2)
+    })
+
+    it('should apply the policy to emplace and keep it in clones', () => {
+      const q = new Queue({
+        capacity: 1,
+        overflow: 'reject',
+        factory: (n: number) => n * 2,
+      })
+      expect(q.emplace(1)).toBe(true)
+      expect(q.emplace(2)).toBe(false)
+      const copy = q.clone()
+      expect(copy.capacity).toBe(1)
+      expect(copy.push(9)).toBe(false)
+    })
+
+    it('should validate options', () => {
+      expect(() => new Queue({ capacity: 0 })).toThrow(RangeError)
+      expect(() => new Queue({ capacity: 1.5 })).toThrow(RangeError)
+      expect(() => new Queue({ overflow: 'grow' as never })).toThrow(TypeError)
+      expect(() => new Queue({ onDrop: 1 as never })).toThrow(TypeError)
+    })
+
+    it('should only swap queues with the same capacity', () => {
+      const a = new Queue<number>({ capacity: 2 })
+      const b = new Queue<number>()
+      expect(() => Queue.swap(a, b)).toThrow(TypeError)
+    })
+  })
+})
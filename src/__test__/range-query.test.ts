@@ -0,0 +1,198 @@
+import { describe, it, expect } from 'vitest'
+import { FenwickTree } from './../structures/fenwick-tree'
+import { SegmentTree } from './../structures/segment-tree'
+import { Vector } from './../structures/vector'
+
+// Small deterministic generator so failures are reproducible.
+function lcg(seed: number): () => number {
+  let state = seed
+  return () => {
+    state = (state * 1103515245 + 12345) % 2147483648
+    return state
+  }
+}
+
+const sum = (values: number[]) => values.reduce((a, b) => a + b, 0)
+
+describe('FenwickTree', () => {
+  it('should answer prefix and range sums', () => {
+    const tree = new FenwickTree({ initValues: [3, 1, 4, 1, 5, 9, 2, 6] })
+    expect(tree.prefixSum(0)).toBe(0)
+    expect(tree.prefixSum(3)).toBe(8)
+    expect(tree.rangeSum(2, 6)).toBe(19)
+    expect(tree.rangeSum()).toBe(31)
+    expect(tree.get(5)).toBe(9)
+  })
+
+  it('should apply point updates', () => {
+    const tree = new FenwickTree({ size: 5 })
+    tree.add(2, 10)
+    tree.add(4, 1)
+    tree.set(2, 3)
+    expect(tree.toArray()).toEqual([0, 0, 3, 0, 1])
+    expect(tree.rangeSum(1, 5)).toBe(4)
+  })
+
+  it('should build from a Vector', () => {
+    const vector = new Vector<number>({ initValues: [1, 2, 3] })
+    const tree = new FenwickTree({ initValues: vector })
+    expect(tree.rangeSum(1, 3)).toBe(5)
+    vector.pushBack(4)
+    expect(tree.size()).toBe(3)
+  })
+
+  it('should find prefix positions with lowerBound', () => {
+    const tree = new FenwickTree({ initValues: [2, 0, 3, 1] })
+    expect(tree.lowerBound(0)).toBe(0)
+    expect(tree.lowerBound(1)).toBe(1)
+    expect(tree.lowerBound(2)).toBe(1)
+    expect(tree.lowerBound(3)).toBe(3)
+    expect(tree.lowerBound(6)).toBe(4)
+    expect(tree.lowerBound(7)).toBe(5)
+  })
+
+  it('should agree with naive sums', () => {
+    const next = lcg(7)
+    const values = Array.from({ length: 200 }, () => (next() % 100) - 50)
+    const tree = new FenwickTree({ initValues: values })
+    for (let step = 0; step < 300; step++) {
+      const i = next() % values.length
+      const delta = (next() % 20) - 10
+      values[i]! += delta
+      tree.add(i, delta)
+      const a = next() % (values.length + 1)
+      const b = next() % (values.length + 1)
+      const [start, end] = a <= b ? [a, b] : [b, a]
+      expect(tree.rangeSum(start, end)).toBe(sum(values.slice(start, end)))
+    }
+  })
+
+  it('should validate arguments and round-trip through JSON', () => {
+    const tree = new FenwickTree({ initValues: [1, 2] })
+    expect(() => tree.get(2)).toThrow(RangeError)
+    expect(() => tree.rangeSum(1, 0)).toThrow(RangeError)
+    expect(() => tree.prefixSum(3)).toThrow(RangeError)
+    // @ts-expect-error
+    expect(() => tree.add(0, '1')).toThrow(TypeError)
+    expect(() => new FenwickTree({ size: -1 })).toThrow(RangeError)
+    expect(FenwickTree.fromJSON(JSON.stringify(tree)).toArray()).toEqual([1, 2])
+  })
+
+  it('should not share its storage with toJSON output', () => {
+    const tree = new FenwickTree({ initValues: [1, 2, 3] })
+    const json = tree.toJSON()
+    json.values[0] = 50
+    json.values.push(100)
+    expect(tree.toArray()).toEqual([1, 2, 3])
+    expect(tree.size()).toBe(3)
+    expect(tree.prefixSum(3)).toBe(6)
+  })
+})
+
+describe('SegmentTree', () => {
+  it('should answer range minimum queries', () => {
+    const tree = new SegmentTree<number>({
+      initValues: [5, 2, 8, 6, 3, 7],
+      combine: Math.min,
+      identity: Infinity,
+    })
+    expect(tree.query(0, 6)).toBe(2)
+    expect(tree.query(2, 5)).toBe(3)
+    expect(tree.query(3, 3)).toBe(Infinity)
+    tree.set(4, 10)
+    expect(tree.query(2, 6)).toBe(6)
+    expect(tree.get(4)).toBe(10)
+  })
+
+  it('should keep operands in order for non-commutative combine', () => {
+    const letters = 'abcdefghij'.split('')
+    const tree = new SegmentTree<string>({
+      initValues: letters,
+      combine: (a, b) => a + b,
+      identity: '',
+    })
+    expect(tree.query(1, 8)).toBe('bcdefgh')
+    expect(tree.query()).toBe('abcdefghij')
+    tree.set(0, 'A')
+    expect(tree.query(0, 3)).toBe('Abc')
+  })
+
+  it('should apply lazy range updates', () => {
+    const tree = new SegmentTree<number, number>({
+      initValues: new Vector<number>({ initValues: [1, 2, 3, 4, 5] }),
+      combine: (a, b) => a + b,
+      identity: 0,
+      lazy: {
+        apply: (value, add, length) => value + add * length,
+        compose: (older, newer) => older + newer,
+      },
+    })
+    tree.update(1, 4, 10)
+    expect(tree.query()).toBe(45)
+    expect(tree.query(0, 2)).toBe(13)
+    tree.update(0, 5, 1)
+    expect(tree.toArray()).toEqual([2, 13, 14, 15, 6])
+    tree.set(2, 0)
+    expect(tree.query(2, 4)).toBe(15)
+  })
+
+  it('should agree with naive evaluation for range assignment and min', () => {
+    const next = lcg(11)
+    const values = Array.from({ length: 37 }, () => next() % 1000)
+    const tree = new SegmentTree<number, number>({
+      initValues: values,
+      combine: Math.min,
+      identity: Infinity,
+      lazy: { apply: (_, value) => value, compose: (_, newer) => newer },
+    })
+    for (let step = 0; step < 400; step++) {
+      const a = next() % (values.length + 1)
+      const b = next() % (values.length + 1)
+      const [start, end] = a <= b ? [a, b] : [b, a]
+      const op = next() % 3
+      if (op === 0) {
+        const value = next() % 1000
+        values.fill(value, start, end)
+        tree.update(start, end, value)
+      } else if (op === 1 && start < values.length) {
+        const value = next() % 1000
+        values[start] = value
+        tree.set(start, value)
+      } else {
+        expect(tree.query(start, end)).toBe(
+          Math.min(...values.slice(start, end)),
+        )
+      }
+    }
+    expect(tree.toArray()).toEqual(values)
+  })
+
+  it('should validate arguments', () => {
+    const tree = new SegmentTree<number>({
+      initValues: [1, 2, 3],
+      combine: (a, b) => a + b,
+      identity: 0,
+    })
+    expect(() => tree.query(2, 1)).toThrow(RangeError)
+    expect(() => tree.query(0, 4)).toThrow(RangeError)
+    expect(() => tree.get(-1)).toThrow(RangeError)
+    expect(() => tree.update(0, 1, 1 as never)).toThrow(Error)
+    expect(
+      // @ts-expect-error
+      () => new SegmentTree<number>({ initValues: [], identity: 0 }),
+    ).toThrow(TypeError)
+  })
+
+  it('should rebuild and round-trip through JSON', () => {
+    const options = { combine: Math.max, identity: -Infinity }
+    const tree = new SegmentTree<number>({ ...options, initValues: [4, 9, 1] })
+    expect(tree.query()).toBe(9)
+    const copy = SegmentTree.fromJSON<number>(JSON.stringify(tree), options)
+    expect(copy.toArray()).toEqual([4, 9, 1])
+    copy.assign([1, 2])
+    expect(copy.query()).toBe(2)
+    copy.clear()
+    expect(copy.isEmpty()).toBe(true)
+    expect(copy.query()).toBe(-Infinity)
+  })
+})
@@ -0,0 +1,186 @@
+import { describe, it, expect } from 'vitest'
+import { Stack } from './../structures/stack'
+import { Queue } from './../structures/queue'
+import { Deque } from './../structures/deque'
+import { LinkedList } from './../structures/linked-list'
+import { Vector } from './../structures/vector'
+import { PriorityQueue } from './../structures/priority-queue'
+import { TreeMap } from './../structures/tree-map'
+import { TreeSet } from './../structures/tree-set'
+import { HashMap } from './../structures/hash-map'
+import { HashSet } from './../structures/hash-set'
+import { SERIALIZATION_VERSION } from './../core/serialization'
+
+describe('JSON serialization', () => {
+  it('should tag the output with type and version', () => {
+    const stack = new Stack({ initValues: [1, 2, 3] })
+    expect(stack.toJSON()).toEqual({
+      type: 'Stack',
+      version: SERIALIZATION_VERSION,
+      values: [1, 2, 3],
+    })
+    expect(
+      JSON.parse(JSON.stringify(new Vector({ initValues: [1, 2] }))),
+    ).toEqual({
+      type: 'Vector',
+      version: SERIALIZATION_VERSION,
+      values: [1, 2],
+    })
+  })
+
+  it('should round-trip the sequence containers', () => {
+    const values = ['a', 'b', 'c']
+    const stack = Stack.fromJSON<string>(
+      JSON.stringify(new Stack({ initValues: values })),
+    )
+    expect(stack.top).toBe('c')
+    expect(stack.toArray()).toEqual(values)
+
+    const queue = Queue.fromJSON<string>(
+      JSON.stringify(new Queue({ initValues: values })),
+    )
+    expect(queue.front).toBe('a')
+    expect(queue.toArray()).toEqual(values)
+
+    const deque = new Deque<string>({ initValues: values })
+    deque.pushFront('z')
+    expect(Deque.fromJSON<string>(JSON.stringify(deque)).toArray()).toEqual([
+      'z',
+      ...values,
+    ])
+
+    const list = LinkedList.fromJSON<string>(
+      JSON.stringify(new LinkedList({ initValues: values })),
+    )
+    expect(list.toArray()).toEqual(values)
+
+    const vector = Vector.fromJSON<number>(
+      JSON.stringify(new Vector({ initValues: [3, 4] })),
+    )
+    expect(vector).toBeInstanceOf(Vector)
+    expect(vector.toArray()).toEqual([3, 4])
+  })
+
+  it('should keep a single numeric element in a Vector', () => {
+    const vector = Vector.fromJSON<number>({
+      type: 'Vector',
+      version: 1,
+      values: [7],
+    })
+    expect(vector.toArray()).toEqual([7])
+  })
+
+  it('should revive elements and pass constructor options', () => {
+    const dates = [new Date(0), new Date(1000)]
+    const json = JSON.stringify(new Queue({ initValues: dates }))
+    const queue = Queue.fromJSON(json, {
+      reviveElement: (value) => new Date(value as string),
+      factory: (ms: number) => new Date(ms),
+    })
+    expect(queue.toArray()).toEqual(dates)
+    queue.emplace(5)
+    expect(queue.toArray()[2]).toEqual(new Date(5))
+  })
+
+  it('should reject malformed input', () => {
+    const stackJson = JSON.stringify(new Stack({ initValues: [1] }))
+    expect(() => Queue.fromJSON(stackJson)).toThrow(TypeError)
+    expect(() =>
+      Stack.fromJSON({ type: 'Stack', version: 99, values: [] }),
+    ).toThrow(RangeError)
+    expect(() => Stack.fromJSON('null')).toThrow(TypeError)
+    expect(() =>
+      Stack.fromJSON({ type: 'Stack', version: 1, values: {} as never }),
+    ).toThrow(TypeError)
+    expect(() =>
+      Stack.fromJSON(stackJson, { reviveElement: 1 as never }),
+    ).toThrow(TypeError)
+  })
+
+  describe('PriorityQueue', () => {
+    const minFirst = (a: number, b: number) => b - a
+
+    it('should restore the heap array as-is', () => {
+      const pq = new PriorityQueue({
+        initValues: [5, 3, 8, 1, 9, 2],
+        compareFn: minFirst,
+      })
+      const heap = pq.toArray()
+      const restored = PriorityQueue.fromJSON<number>(JSON.stringify(pq), {
+        compareFn: minFirst,
+      })
+      expect(restored.toArray()).toEqual(heap)
+      const popped: number[] = []
+      while (!restored.isEmpty()) popped.push(restored.pop()!)
+      expect(popped).toEqual([1, 2, 3, 5, 8, 9])
+    })
+
+    it('should only compare each element with its parent', () => {
+      const pq = new PriorityQueue({ initValues: [1, 2, 3, 4, 5, 6, 7, 8] })
+      let calls = 0
+      PriorityQueue.fromJSON<number>(pq.toJSON(), {
+        compareFn: (a, b) => {
+          calls++
+          return a - b
+        },
+      })
+      expect(calls).toBe(7)
+    })
+
+    it('should reject values that are not in heap order', () => {
+      const json = { type: 'PriorityQueue', version: 1, values: [1, 9] }
+      expect(() => PriorityQueue.fromJSON<number>(json)).toThrow(Error)
+    })
+  })
+
+  describe('ordered and hashed containers', () => {
+    it('should round-trip TreeMap and TreeSet', () => {
+      const map = new TreeMap<number, string>({
+        initValues: [
+          [2, 'b'],
+          [1, 'a'],
+        ],
+      })
+      expect(map.toJSON().values).toEqual([
+        [1, 'a'],
+        [2, 'b'],
+      ])
+      const byLength = (a: string, b: string) => a.length - b.length
+      const set = new TreeSet({ initValues: ['ccc', 'a'], compareFn: byLength })
+      expect(TreeMap.fromJSON<number, string>(JSON.stringify(map)).get(2)).toBe(
+        'b',
+      )
+      expect(
+        TreeSet.fromJSON<string>(JSON.stringify(set), {
+          compareFn: byLength,
+        }).toArray(),
+      ).toEqual(['a', 'ccc'])
+    })
+
+    it('should round-trip HashMap and HashSet with custom hashing', () => {
+      type Point = { x: number; y: number }
+      const options = {
+        hash: (p: Point) => p.x * 31 + p.y,
+        equals: (a: Point, b: Point) => a.x === b.x && a.y === b.y,
+      }
+      const map = new HashMap<Point, string>(options)
+      map.set({ x: 1, y: 2 }, 'tree')
+      const restored = HashMap.fromJSON<Point, string>(
+        JSON.stringify(map),
+        options,
+      )
+      expect(restored.get({ x: 1, y: 2 })).toBe('tree')
+
+      const set = new HashSet<Point>({
+        ...options,
+        initValues: [{ x: 0, y: 0 }],
+      })
+      expect(
+        HashSet.fromJSON<Point>(JSON.stringify(set), options).has({
+          x: 0,
+          y: 0,
+        }),
+      ).toBe(true)
+    })
+  })
+})
@@ -0,0 +1,133 @@
+import { describe, it, expect } from 'vitest'
+import { Vector } from './../structures/vector'
+import {
+  stableSort,
+  partialSort,
+  nthElement,
+  partition,
+  stablePartition,
+  isSorted,
+  isSortedUntil,
+} from './../algorithms/sort'
+
+// Deterministic pseudo-random numbers so failures are reproducible.
+function randomArray(n: number, max: number, seed = 42): number[] {
+  const out: number[] = []
+  let s = seed
+  for (let i = 0; i < n; i++) {
+    s = (s * 1103515245 + 12345) & 0x7fffffff
+    out.push(s % max)
+  }
+  return out
+}
+
+const asc = (a: number, b: number) => a - b
+
+describe('sorting algorithms', () => {
+  describe('stableSort', () => {
+    it('should sort arrays and Vectors', () => {
+      const arr = randomArray(500, 1000)
+      const expected = [...arr].sort(asc)
+      stableSort(arr, asc)
+      expect(arr).toEqual(expected)
+
+      const vec = new Vector({ initValues: [3, 1, 2] })
+      stableSort(vec)
+      expect(vec.toArray()).toEqual([1, 2, 3])
+    })
+
+    it('should keep equal elements in original order', () => {
+      const items = randomArray(200, 5).map((key, id) => ({ key, id }))
+      stableSort(items, (a, b) => a.key - b.key)
+      for (let i = 1; i < items.length; i++) {
+        const prev = items[i - 1]!
+        const cur = items[i]!
+        expect(prev.key < cur.key || prev.id < cur.id).toBe(true)
+      }
+    })
+
+    it('should only touch [first, last)', () => {
+      const arr = [9, 5, 4, 3, 8, 0]
+      stableSort(arr, 1, 4)
+      expect(arr).toEqual([9, 3, 4, 5, 8, 0])
+    })
+
+    it('should validate arguments', () => {
+      expect(() => stableSort([1], 0, 2)).toThrow(RangeError)
+      expect(() => stableSort([1], 1, 0)).toThrow(RangeError)
+      expect(() => stableSort([1], 'x' as never)).toThrow(TypeError)
+    })
+  })
+
+  describe('partialSort', () => {
+    it('should place the k smallest in order at the front', () => {
+      const arr = randomArray(300, 1000)
+      const expected = [...arr].sort(asc).slice(0, 10)
+      partialSort(arr, 10, asc)
+      expect(arr.slice(0, 10)).toEqual(expected)
+      expect(arr.length).toBe(300)
+    })
+
+    it('should work on a sub-range', () => {
+      const arr = [100, 5, 3, 9, 1, 7, -1]
+      partialSort(arr, 1, 3, 6)
+      expect(arr[0]).toBe(100)
+      expect(arr.slice(1, 3)).toEqual([1, 3])
+      expect(arr[6]).toBe(-1)
+    })
+  })
+
+  describe('nthElement', () => {
+    it('should put the nth element in its sorted position', () => {
+      for (const n of [0, 17, 150, 299]) {
+        const arr = randomArray(300, 50, n + 1)
+        const sorted = [...arr].sort(asc)
+        nthElement(arr, n, asc)
+        expect(arr[n]).toBe(sorted[n])
+        expect(arr.slice(0, n).every((v) => v <= arr[n]!)).toBe(true)
+        expect(arr.slice(n + 1).every((v) => v >= arr[n]!)).toBe(true)
+      }
+    })
+
+    it('should handle many duplicates', () => {
+      const arr = new Array(1000).fill(7)
+      nthElement(arr, 500)
+      expect(arr[500]).toBe(7)
+    })
+
+    it('should reject an nth outside the range', () => {
+      expect(() => nthElement([1, 2, 3], 1, 5, 2)).toThrow(RangeError)
+    })
+  })
+
+  describe('partition', () => {
+    it('should split by predicate and return the partition point', () => {
+      const arr = [1, 2, 3, 4, 5, 6, 7]
+      const point = partition(arr, (v) => v % 2 === 0)
+      expect(point).toBe(3)
+      expect(arr.slice(0, point).every((v) => v % 2 === 0)).toBe(true)
+      expect(arr.slice(point).every((v) => v % 2 === 1)).toBe(true)
+    })
+
+    it('stablePartition should keep relative order', () => {
+      const arr = [1, 2, 3, 4, 5, 6, 7]
+      expect(stablePartition(arr, 1, 6, (v) => v % 2 === 0)).toBe(4)
+      expect(arr).toEqual([1, 2, 4, 6, 3, 5, 7])
+    })
+
+    it('should require a predicate', () => {
+      expect(() => partition([1], undefined as never)).toThrow(TypeError)
+    })
+  })
+
+  describe('isSorted', () => {
+    it('should detect sorted ranges', () => {
+      expect(isSorted([])).toBe(true)
+      expect(isSorted([1, 1, 2])).toBe(true)
+      expect(isSorted([3, 2, 1], (a, b) => b - a)).toBe(true)
+      expect(isSorted([1, 3, 2])).toBe(false)
+      expect(isSorted([5, 1, 3, 2], 1, 3)).toBe(true)
+      expect(isSortedUntil([1, 2, 5, 4, 6])).toBe(3)
+    })
+  })
+})
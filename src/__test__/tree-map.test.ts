@@ -0,0 +1,153 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { TreeMap } from './../structures/tree-map'
+import { TreeSet } from './../structures/tree-set'
+
+describe('TreeMap', () => {
+  let map: TreeMap<number, string>
+
+  beforeEach(() => {
+    map = new TreeMap<number, string>({
+      initValues: [
+        [5, 'five'],
+        [1, 'one'],
+        [9, 'nine'],
+        [3, 'three'],
+      ],
+    })
+  })
+
+  describe('constructor', () => {
+    it('should initialize sorted by key', () => {
+      expect(map.size()).toBe(4)
+      expect([...map.keys()]).toEqual([1, 3, 5, 9])
+    })
+
+    it('should throw on invalid options', () => {
+      // @ts-expect-error
+      expect(() => new TreeMap({ initValues: 1 })).toThrow(TypeError)
+      // @ts-expect-error
+      expect(() => new TreeMap({ compareFn: 1 })).toThrow(TypeError)
+    })
+  })
+
+  describe('get, set, has & delete', () => {
+    it('should overwrite existing keys', () => {
+      map.set(3, 'THREE')
+      expect(map.get(3)).toBe('THREE')
+      expect(map.size()).toBe(4)
+    })
+
+    it('should delete keys', () => {
+      expect(map.delete(5)).toBe(true)
+      expect(map.delete(5)).toBe(false)
+      expect(map.has(5)).toBe(false)
+      expect(map.get(5)).toBeUndefined()
+      expect([...map.keys()]).toEqual([1, 3, 9])
+    })
+  })
+
+  describe('ordered queries', () => {
+    it('first & last', () => {
+      expect(map.first()).toEqual([1, 'one'])
+      expect(map.last()).toEqual([9, 'nine'])
+      expect(new TreeMap().first()).toBeUndefined()
+    })
+
+    it('lowerBound, upperBound, floor & ceiling', () => {
+      expect(map.lowerBound(3)).toEqual([3, 'three'])
+      expect(map.lowerBound(4)).toEqual([5, 'five'])
+      expect(map.upperBound(3)).toEqual([5, 'five'])
+      expect(map.upperBound(9)).toBeUndefined()
+      expect(map.floor(4)).toEqual([3, 'three'])
+      expect(map.floor(0)).toBeUndefined()
+      expect(map.ceiling(6)).toEqual([9, 'nine'])
+    })
+
+    it('range should be half-open and support reverse', () => {
+      expect([...map.range(3, 9)].map(([k]) => k)).toEqual([3, 5])
+      expect([...map.range(2, 10, { reverse: true })].map(([k]) => k)).toEqual([
+        9, 5, 3,
+      ])
+      expect([...map.range(5, 5)]).toEqual([])
+    })
+
+    it('rbegin should iterate in descending order', () => {
+      expect([...map.rbegin()].map(([k]) => k)).toEqual([9, 5, 3, 1])
+    })
+  })
+
+  describe('custom comparator', () => {
+    it('should order keys by compareFn', () => {
+      const m = new TreeMap<string, number>({
+        compareFn: (a, b) => a.length - b.length,
+      })
+      m.set('ccc', 3).set('a', 1).set('bb', 2).set('z', 26)
+      expect(m.toArray()).toEqual([
+        ['a', 26], // existing key is kept, value overwritten
+        ['bb', 2],
+        ['ccc', 3],
+      ])
+    })
+  })
+
+  describe('forEach', () => {
+    it('should stop early when callback returns false', () => {
+      const seen: number[] = []
+      map.forEach((_, k) => {
+        seen.push(k)
+        if (k === 3) return false
+      })
+      expect(seen).toEqual([1, 3])
+    })
+  })
+
+  describe('large inputs', () => {
+    it('should stay consistent with a sorted model', () => {
+      const m = new TreeMap<number, number>()
+      const model = new Map<number, number>()
+      for (let i = 0; i < 2000; i++) {
+        const k = (i * 7919) % 1009
+        if (i % 3 === 2) {
+          expect(m.delete(k)).toBe(model.delete(k))
+        } else {
+          m.set(k, i)
+          model.set(k, i)
+        }
+      }
+      const expected = [...model.entries()].sort((a, b) => a[0] - b[0])
+      expect(m.toArray()).toEqual(expected)
+      expect(m.size()).toBe(model.size)
+    })
+  })
+})
+
+describe('TreeSet', () => {
+  it('should keep unique values in order', () => {
+    const set = new TreeSet<number>({ initValues: [4, 2, 4, 8, 6, 2] })
+    expect(set.toArray()).toEqual([2, 4, 6, 8])
+    expect([...set.rbegin()]).toEqual([8, 6, 4, 2])
+    expect(set.length).toBe(4)
+  })
+
+  it('should answer bound and range queries', () => {
+    const set = new TreeSet<number>({ initValues: [10, 20, 30, 40] })
+    expect(set.lowerBound(20)).toBe(20)
+    expect(set.upperBound(20)).toBe(30)
+    expect(set.floor(25)).toBe(20)
+    expect(set.ceiling(25)).toBe(30)
+    expect(set.first()).toBe(10)
+    expect(set.last()).toBe(40)
+    expect([...set.range(15, 40)]).toEqual([20, 30])
+    expect([...set.range(15, 40, { reverse: true })]).toEqual([30, 20])
+  })
+
+  it('should add, delete and assign', () => {
+    const set = new TreeSet<string>()
+    set.add('b').add('a')
+    expect(set.has('a')).toBe(true)
+    expect(set.delete('a')).toBe(true)
+    expect(set.delete('a')).toBe(false)
+    set.assign(['z', 'y', 'z'])
+    expect(set.toArray()).toEqual(['y', 'z'])
+  })
+})
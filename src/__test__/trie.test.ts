@@ -0,0 +1,157 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { Trie } from './../structures/trie'
+
+describe('Trie', () => {
+  let trie: Trie<number>
+
+  beforeEach(() => {
+    trie = new Trie<number>({
+      initValues: [
+        ['car', 5],
+        ['cart', 2],
+        ['care', 9],
+        ['cat', 7],
+        ['dog', 1],
+      ],
+    })
+  })
+
+  describe('map basics', () => {
+    it('should insert, get and overwrite', () => {
+      expect(trie.size()).toBe(5)
+      expect(trie.get('car')).toBe(5)
+      expect(trie.get('ca')).toBeUndefined()
+      expect(trie.get('cars')).toBeUndefined()
+      trie.insert('car', 6)
+      expect(trie.get('car')).toBe(6)
+      expect(trie.size()).toBe(5)
+      expect(trie.has('dog')).toBe(true)
+      expect(trie.has('do')).toBe(false)
+    })
+
+    it('should support the empty key', () => {
+      expect(trie.has('')).toBe(false)
+      trie.insert('', 0)
+      expect(trie.get('')).toBe(0)
+      expect(trie.toArray()[0]).toEqual(['', 0])
+      expect(trie.delete('')).toBe(true)
+      expect(trie.has('')).toBe(false)
+      expect(trie.size()).toBe(5)
+    })
+
+    it('should delete and keep the rest reachable', () => {
+      expect(trie.delete('ca')).toBe(false)
+      expect(trie.delete('car')).toBe(true)
+      expect(trie.delete('car')).toBe(false)
+      expect(trie.has('cart')).toBe(true)
+      expect(trie.has('care')).toBe(true)
+      expect(trie.delete('cart')).toBe(true)
+      expect(trie.delete('care')).toBe(true)
+      expect(trie.get('cat')).toBe(7)
+      expect([...trie.keys()]).toEqual(['cat', 'dog'])
+      trie.insert('ca', 3)
+      expect([...trie.withPrefix('ca')]).toEqual([
+        ['ca', 3],
+        ['cat', 7],
+      ])
+    })
+
+    it('should throw on non-string keys', () => {
+      // @ts-expect-error
+      expect(() => trie.insert(1, 1)).toThrow(TypeError)
+      // @ts-expect-error
+      expect(() => trie.get(1)).toThrow(TypeError)
+      // @ts-expect-error
+      expect(() => new Trie({ initValues: 'x' })).toThrow(TypeError)
+    })
+  })
+
+  describe('prefix queries', () => {
+    it('should iterate in lexicographic order', () => {
+      expect([...trie.keys()]).toEqual(['car', 'care', 'cart', 'cat', 'dog'])
+      expect([...trie.withPrefix('car')]).toEqual([
+        ['car', 5],
+        ['care', 9],
+        ['cart', 2],
+      ])
+      expect([...trie.withPrefix('ca')].map(([k]) => k)).toEqual([
+        'car',
+        'care',
+        'cart',
+        'cat',
+      ])
+      expect([...trie.withPrefix('x')]).toEqual([])
+      expect([...trie.withPrefix('')]).toHaveLength(5)
+    })
+
+    it('should answer hasPrefix', () => {
+      expect(trie.hasPrefix('c')).toBe(true)
+      expect(trie.hasPrefix('cartx')).toBe(false)
+      expect(trie.hasPrefix('cr')).toBe(false)
+      expect(trie.hasPrefix('')).toBe(true)
+      expect(new Trie().hasPrefix('')).toBe(false)
+    })
+
+    it('should find the longest prefix match', () => {
+      const routes = new Trie<string>({
+        initValues: [
+          ['/', 'root'],
+          ['/api', 'api'],
+          ['/api/users', 'users'],
+        ],
+      })
+      expect(routes.longestPrefixOf('/api/users/7')).toEqual([
+        '/api/users',
+        'users',
+      ])
+      expect(routes.longestPrefixOf('/api/u')).toEqual(['/api', 'api'])
+      expect(routes.longestPrefixOf('/home')).toEqual(['/', 'root'])
+      expect(routes.longestPrefixOf('x')).toBeUndefined()
+    })
+
+    it('should return top-k completions by score', () => {
+      expect(trie.completions('ca', 2, (hits) => hits)).toEqual([
+        ['care', 9],
+        ['cat', 7],
+      ])
+      trie.insert('cab', 9)
+      expect(trie.completions('ca', 3, (hits) => hits)).toEqual([
+        ['cab', 9],
+        ['care', 9],
+        ['cat', 7],
+      ])
+      expect(trie.completions('ca', 2)).toEqual([
+        ['cab', 9],
+        ['car', 5],
+      ])
+      expect(trie.completions('zz', 3, (v) => v)).toEqual([])
+      expect(trie.completions('c', 0, (v) => v)).toEqual([])
+      expect(() => trie.completions('c', -1)).toThrow(RangeError)
+      // @ts-expect-error
+      expect(() => trie.completions('c', 1, 5)).toThrow(TypeError)
+    })
+  })
+
+  it('should agree with a sorted Map over many keys', () => {
+    const reference = new Map<string, number>()
+    const big = new Trie<number>()
+    for (let i = 0; i < 3000; i++) {
+      const key = ((i * 7919) % 1000).toString(36)
+      if (i % 4 === 0) {
+        reference.delete(key)
+        big.delete(key)
+      } else {
+        reference.set(key, i)
+        big.insert(key, i)
+      }
+    }
+    const expected = [...reference].sort(([a], [b]) => (a < b ? -1 : 1))
+    expect(big.toArray()).toEqual(expected)
+    expect(big.size()).toBe(reference.size)
+  })
+
+  it('should round-trip through JSON', () => {
+    const copy = Trie.fromJSON<number>(JSON.stringify(trie))
+    expect(copy.toArray()).toEqual(trie.toArray())
+  })
+})
@@ -0,0 +1,204 @@
+import { describe, it, expect } from 'vitest'
+import {
+  Float32Vector,
+  Float64Vector,
+  Int8Vector,
+  Int16Vector,
+  Int32Vector,
+  Uint8Vector,
+  Uint16Vector,
+  Uint32Vector,
+} from './../structures/typed-vector'
+
+describe('TypedVector', () => {
+  describe.each([
+    { name: 'Float32Vector', Ctor: Float32Vector, Buffer: Float32Array },
+    { name: 'Float64Vector', Ctor: Float64Vector, Buffer: Float64Array },
+    { name: 'Int8Vector', Ctor: Int8Vector, Buffer: Int8Array },
+    { name: 'Int16Vector', Ctor: Int16Vector, Buffer: Int16Array },
+    { name: 'Int32Vector', Ctor: Int32Vector, Buffer: Int32Array },
+    { name: 'Uint8Vector', Ctor: Uint8Vector, Buffer: Uint8Array },
+    { name: 'Uint16Vector', Ctor: Uint16Vector, Buffer: Uint16Array },
+    { name: 'Uint32Vector', Ctor: Uint32Vector, Buffer: Uint32Array },
+  ])('$name', ({ name, Ctor, Buffer }) => {
+    it('should push and pop at the back', () => {
+      const v = new Ctor()
+      expect(v.isEmpty()).toBe(true)
+      expect(v.pushBack(1)).toBe(1)
+      expect(v.pushBack(2)).toBe(2)
+      v.pushBack(3)
+      expect(v.toArray()).toEqual([1, 2, 3])
+      expect(v.popBack()).toBe(3)
+      expect(v.length).toBe(2)
+      expect(v.popBack()).toBe(2)
+      expect(v.popBack()).toBe(1)
+      expect(v.popBack()).toBeUndefined()
+    })
+
+    it('should use the matching typed array', () => {
+      const v = new Ctor({ initValues: [1, 2] })
+      expect(v.data()).toBeInstanceOf(Buffer)
+      expect(Object.prototype.toString.call(v)).toBe(`[object ${name}]`)
+    })
+
+    it('should round-trip through JSON', () => {
+      const v = new Ctor({ initValues: [4, 5, 6] })
+      const copy = Ctor.fromJSON(JSON.stringify(v))
+      expect(copy).toBeInstanceOf(Ctor)
+      expect(copy.toArray()).toEqual([4, 5, 6])
+    })
+  })
+
+  describe('capacity', () => {
+    it('should double when full', () => {
+      const v = new Float64Vector()
+      expect(v.capacity).toBe(0)
+      v.pushBack(1)
+      expect(v.capacity).toBe(8)
+      for (let i = 0; i < 8; i++) v.pushBack(i)
+      expect(v.length).toBe(9)
+      expect(v.capacity).toBe(16)
+    })
+
+    it('should reserve and shrink to fit', () => {
+      const v = new Int32Vector({ capacity: 4 })
+      expect(v.capacity).toBe(4)
+      v.reserve(100)
+      expect(v.capacity).toBe(100)
+      v.reserve(10)
+      expect(v.capacity).toBe(100)
+      v.pushBack(7)
+      v.pushBack(8)
+      v.shrinkToFit()
+      expect(v.capacity).toBe(2)
+      expect(v.toArray()).toEqual([7, 8])
+    })
+
+    it('should keep capacity on clear', () => {
+      const v = new Uint8Vector({ initValues: [1, 2, 3] })
+      v.clear()
+      expect(v.length).toBe(0)
+      expect(v.capacity).toBe(3)
+      v.shrinkToFit()
+      expect(v.capacity).toBe(0)
+    })
+
+    it('should validate capacities', () => {
+      expect(() => new Float64Vector({ capacity: -1 })).toThrow(RangeError)
+      expect(() => new Float64Vector().reserve(1.5)).toThrow(RangeError)
+    })
+  })
+
+  describe('data()', () => {
+    it('should be a live view of the elements', () => {
+      const v = new Float64Vector({ initValues: [1, 2, 3], capacity: 8 })
+      const view = v.data()
+      expect(view.length).toBe(3)
+      view[1] = 20
+      expect(v.at(1)).toBe(20)
+      v.set(2, 30)
+      expect(view[2]).toBe(30)
+    })
+  })
+
+  describe('Vector API', () => {
+    it('should insert and erase anywhere', () => {
+      const v = new Int16Vector({ initValues: [1, 2, 4] })
+      expect(v.insertAt(2, 3)).toBe(4)
+      expect(v.insertAt(4, 5)).toBe(5)
+      expect(v.insertAt(0, 0)).toBe(6)
+      expect(v.toArray()).toEqual([0, 1, 2, 3, 4, 5])
+      expect(v.eraseAt(3)).toBe(3)
+      expect(v.toArray()).toEqual([0, 1, 2, 4, 5])
+      expect(() => v.insertAt(7, 1)).toThrow(RangeError)
+      expect(() => v.eraseAt(5)).toThrow(RangeError)
+    })
+
+    it('should push and pop at the front', () => {
+      const v = new Int32Vector({ initValues: [2] })
+      v.pushFront(1)
+      expect(v.toArray()).toEqual([1, 2])
+      expect(v.popFront()).toBe(1)
+      expect(v.popFront()).toBe(2)
+      expect(v.popFront()).toBeUndefined()
+    })
+
+    it('should resize with a fill value', () => {
+      const v = new Float64Vector({ initValues: [1, 2, 3] })
+      v.resize(1)
+      expect(v.toArray()).toEqual([1])
+      v.resize(3)
+      expect(v.toArray()).toEqual([1, 0, 0])
+      v.resize(5, 9)
+      expect(v.toArray()).toEqual([1, 0, 0, 9, 9])
+      expect(() => v.resize(-1)).toThrow(RangeError)
+    })
+
+    it('should assign values', () => {
+      const v = new Uint16Vector({ initValues: [9, 9] })
+      v.assign([1, 2, 3, 4], 1, 3)
+      expect(v.toArray()).toEqual([2, 3])
+      v.assign(3, 7)
+      expect(v.toArray()).toEqual([7, 7, 7])
+    })
+
+    it('should read and write front, back and indices', () => {
+      const v = new Int32Vector({ initValues: [1, 2, 3] })
+      expect(v.front).toBe(1)
+      expect(v.back).toBe(3)
+      v.front = 10
+      v.back = 30
+      expect(v.at(0)).toBe(10)
+      expect(v.at(-1)).toBe(30)
+      expect(v.at(3)).toBeUndefined()
+      expect(() => v.set(3, 0)).toThrow(RangeError)
+      const empty = new Int32Vector()
+      expect(empty.front).toBeUndefined()
+      expect(() => {
+        empty.back = 1
+      }).toThrow(RangeError)
+    })
+
+    it('should iterate both ways', () => {
+      const v = new Uint32Vector({ initValues: new Uint32Array([1, 2, 3]) })
+      expect([...v]).toEqual([1, 2, 3])
+      expect([...v.rbegin()]).toEqual([3, 2, 1])
+      expect([...v.entries()]).toEqual([
+        [0, 1],
+        [1, 2],
+        [2, 3],
+      ])
+    })
+
+    it('should compare with equals', () => {
+      const a = new Float64Vector({ initValues: [1, NaN, 0] })
+      expect(a.equals([1, NaN, -0])).toBe(true)
+      expect(a.equals(new Float32Vector({ initValues: [1, NaN, 0] }))).toBe(
+        true,
+      )
+      expect(a.equals([1, NaN])).toBe(false)
+    })
+
+    it('should validate initValues', () => {
+      // @ts-expect-error
+      expect(() => new Int8Vector({ initValues: 3 })).toThrow(TypeError)
+    })
+  })
+
+  describe('conversion', () => {
+    it('should convert values like the typed array', () => {
+      const bytes = new Uint8Vector()
+      bytes.pushBack(256)
+      bytes.pushBack(-1)
+      bytes.pushBack(1.9)
+      expect(bytes.toArray()).toEqual([0, 255, 1])
+      const small = new Int8Vector({ initValues: [128] })
+      expect(small.front).toBe(-128)
+    })
+
+    it('should reject JSON of another vector class', () => {
+      const json = JSON.stringify(new Int32Vector({ initValues: [1] }))
+      expect(() => Float64Vector.fromJSON(json)).toThrow(TypeError)
+    })
+  })
+})
@@ -0,0 +1,211 @@
+import type { Graph } from '@/structures/graph'
+import { PriorityQueue, type PQueueHandle } from '@/structures/priority-queue'
+import { Queue } from '@/structures/queue'
+import { Stack } from '@/structures/stack'
+
+interface TraversalOptions<V> {
+  /**
+   * Called for each vertex in visit order with its depth (edges from the
+   * source). Returning `false` stops the traversal.
+   */
+  visit?: (vertex: V, depth: number) => void | false
+}
+
+interface DijkstraOptions<V> {
+  /** Stop as soon as the shortest path to `target` is settled. */
+  target?: V
+}
+
+/**
+ * Result of `bfs` / `dfs`: the order in which vertices were visited and
+ * the search tree (`parent` of each reached vertex, `null` for the
+ * source).
+ */
+export interface TraversalResult<V> {
+  order: V[]
+  parent: Map<V, V | null>
+  depth: Map<V, number>
+  /** Path `source -> ... -> target` in the search tree, if reached. */
+  pathTo(target: V): V[] | undefined
+}
+
+/**
+ * Result of `dijkstra`: the shortest distance and predecessor of every
+ * settled vertex.
+ */
+export interface ShortestPathResult<V> {
+  distance: Map<V, number>
+  parent: Map<V, V | null>
+  /** Shortest distance to `target`, or `Infinity` when unreachable. */
+  distanceTo(target: V): number
+  /** Shortest path `source -> ... -> target`, if reachable. */
+  pathTo(target: V): V[] | undefined
+}
+
+/**
+ * Walk `parent` links back from `target` and return the path in
+ * source-to-target order, or `undefined` when `target` was not reached.
+ *
+ * Complexity: O(path length)
+ */
+export function reconstructPath<V>(
+  parent: Map<V, V | null>,
+  target: V,
+): V[] | undefined {
+  if (!parent.has(target)) return undefined
+  const path = new Stack<V>()
+  let current: V | null = target
+  while (current !== null) {
+    path.push(current)
+    current = parent.get(current) ?? null
+  }
+  return [...path.reversed]
+}
+
+function assertSource<V, E>(graph: Graph<V, E>, source: V, name: string) {
+  if (!graph.hasVertex(source)) {
+    throw new Error(`${name}: source vertex does not exist in the graph`)
+  }
+}
+
+/**
+ * Breadth-first search from `source` using `Queue`.
+ *
+ * Vertices are visited in order of increasing number of edges from the
+ * source, so `pathTo` returns a path with the fewest edges.
+ *
+ * Complexity: O(V + E)
+ * @throws Error when `source` is not in the graph.
+ */
+export function bfs<V, E>(
+  graph: Graph<V, E>,
+  source: V,
+  { visit }: TraversalOptions<V> = {},
+): TraversalResult<V> {
+  assertSource(graph, source, 'bfs')
+  const order: V[] = []
+  const parent = new Map<V, V | null>([[source, null]])
+  const depth = new Map<V, number>([[source, 0]])
+  const queue = new Queue<V>({ initValues: [source] })
+
+  while (!queue.isEmpty()) {
+    const vertex = queue.pop()
+    const d = depth.get(vertex)!
+    order.push(vertex)
+    if (visit?.(vertex, d) === false) break
+
+    for (const next of graph.neighbors(vertex)) {
+      if (parent.has(next)) continue
+      parent.set(next, vertex)
+      depth.set(next, d + 1)
+      queue.push(next)
+    }
+  }
+
+  return {
+    order,
+    parent,
+    depth,
+    pathTo: (target) => reconstructPath(parent, target),
+  }
+}
+
+/**
+ * Depth-first search from `source` using an explicit `Stack` (no
+ * recursion, so deep graphs cannot overflow the call stack).
+ *
+ * Neighbors are explored in adjacency order, matching a recursive DFS.
+ *
+ * Complexity: O(V + E)
+ * @throws Error when `source` is not in the graph.
+ */
+export function dfs<V, E>(
+  graph: Graph<V, E>,
+  source: V,
+  { visit }: TraversalOptions<V> = {},
+): TraversalResult<V> {
+  assertSource(graph, source, 'dfs')
+  const order: V[] = []
+  const parent = new Map<V, V | null>()
+  const depth = new Map<V, number>()
+  const stack = new Stack<[V, V | null, number]>()
+  stack.push([source, null, 0])
+
+  while (!stack.isEmpty()) {
+    const [vertex, from, d] = stack.pop()
+    if (parent.has(vertex)) continue
+    parent.set(vertex, from)
+    depth.set(vertex, d)
+    order.push(vertex)
+    if (visit?.(vertex, d) === false) break
+
+    // Push in reverse so the first neighbor is explored first.
+    const next = [...graph.neighbors(vertex)]
+    for (let i = next.length - 1; i >= 0; i--) {
+      if (!parent.has(next[i]!)) stack.push([next[i]!, vertex, d + 1])
+    }
+  }
+
+  return {
+    order,
+    parent,
+    depth,
+    pathTo: (target) => reconstructPath(parent, target),
+  }
+}
+
+/**
+ * Dijkstra's single-source shortest paths using `PriorityQueue` with
+ * `decreaseKey`.
+ *
+ * Complexity: O((V + E) log V)
+ * @throws Error when `source` is not in the graph.
+ * @throws RangeError when a negative edge weight is encountered.
+ */
+export function dijkstra<V, E>(
+  graph: Graph<V, E>,
+  source: V,
+  { target }: DijkstraOptions<V> = {},
+): ShortestPathResult<V> {
+  assertSource(graph, source, 'dijkstra')
+  const distance = new Map<V, number>()
+  const parent = new Map<V, V | null>([[source, null]])
+  const tentative = new Map<V, number>([[source, 0]])
+  const handles = new Map<V, PQueueHandle<V>>()
+  // min-heap on tentative distance
+  const open = new PriorityQueue<V>({
+    compareFn: (a, b) => tentative.get(b)! - tentative.get(a)!,
+  })
+  handles.set(source, open.push(source))
+
+  while (!open.isEmpty()) {
+    const vertex = open.pop()
+    const d = tentative.get(vertex)!
+    distance.set(vertex, d)
+    handles.delete(vertex)
+    if (target !== undefined && vertex === target) break
+
+    for (const [next, edge] of graph.adjacent(vertex)) {
+      if (edge.weight < 0) {
+        throw new RangeError('dijkstra: negative edge weights are not allowed')
+      }
+      if (distance.has(next)) continue
+      const candidate = d + edge.weight
+      const known = tentative.get(next)
+      if (known !== undefined && candidate >= known) continue
+
+      tentative.set(next, candidate)
+      parent.set(next, vertex)
+      const handle = handles.get(next)
+      if (handle === undefined) handles.set(next, open.push(next))
+      else open.decreaseKey(handle, next)
+    }
+  }
+
+  return {
+    distance,
+    parent,
+    distanceTo: (v) => distance.get(v) ?? Infinity,
+    pathTo: (v) => (distance.has(v) ? reconstructPath(parent, v) : undefined),
+  }
+}
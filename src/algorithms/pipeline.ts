@@ -0,0 +1,360 @@
+import { Deque } from '@/structures/deque'
+import { LinkedList } from '@/structures/linked-list'
+import { PriorityQueue } from '@/structures/priority-queue'
+import { Vector } from '@/structures/vector'
+
+type CompareFn<T> = (a: T, b: T) => number
+
+function assertIterable(name: string, source: unknown): void {
+  if (
+    source == null ||
+    typeof (source as Iterable<unknown>)[Symbol.iterator] !== 'function'
+  ) {
+    throw new TypeError(`${name}: expected an iterable`)
+  }
+}
+
+function assertFunction(name: string, fn: unknown, label: string): void {
+  if (typeof fn !== 'function') {
+    throw new TypeError(`${name}: ${label} must be a function`)
+  }
+}
+
+function assertCount(
+  name: string,
+  count: number,
+  min: number,
+  label: string,
+): void {
+  if (!Number.isInteger(count) || count < min) {
+    throw new RangeError(
+      `${name}: ${label} must be an integer of at least ${min}, got ${count}`,
+    )
+  }
+}
+
+/**
+ * Pipeline — a lazy, composable view over any iterable, in the spirit of
+ * C++20 ranges.
+ *
+ * Adaptors (`map`, `filter`, `take`, `zip`, `chunk`, ...) return a new
+ * `Pipeline` without touching the source; nothing runs until the result
+ * is iterated or collected (`toArray`, `toVector`, `reduce`, `groupBy`,
+ * ...). Elements flow through the whole chain one at a time, so no
+ * intermediate arrays are built, and `take` / `takeWhile` stop pulling
+ * from the source as soon as they are done, which makes infinite sources
+ * usable.
+ *
+ * A pipeline can be iterated again when its source can: stl-kit
+ * containers and arrays restart from the beginning, generators do not.
+ * Callbacks receive the element and its position in the stage's input.
+ *
+ * Build one with `pipeline(source)`.
+ */
+export class Pipeline<T> implements Iterable<T> {
+  #source: Iterable<T>
+
+  constructor(source: Iterable<T>) {
+    assertIterable('Pipeline', source)
+    this.#source = source
+  }
+
+  // Chain a stage: `stage` receives this pipeline's source on every
+  // iteration of the result.
+  #then<U>(stage: (source: Iterable<T>) => Iterator<U>): Pipeline<U> {
+    const source = this.#source
+    return new Pipeline({ [Symbol.iterator]: () => stage(source) })
+  }
+
+  [Symbol.iterator](): Iterator<T> {
+    return this.#source[Symbol.iterator]()
+  }
+
+  /**
+   * Transform each element with `fn(value, index)`.
+   *
+   * @throws TypeError when `fn` is not a function.
+   */
+  public map<U>(fn: (value: T, index: number) => U): Pipeline<U> {
+    assertFunction('Pipeline.map', fn, 'fn')
+    return this.#then(function* (source) {
+      let index = 0
+      for (const value of source) yield fn(value, index++)
+    })
+  }
+
+  /**
+   * Keep the elements for which `pred(value, index)` is truthy.
+   *
+   * @throws TypeError when `pred` is not a function.
+   */
+  public filter<S extends T>(
+    pred: (value: T, index: number) => value is S,
+  ): Pipeline<S>
+  public filter(pred: (value: T, index: number) => unknown): Pipeline<T>
+  public filter(pred: (value: T, index: number) => unknown): Pipeline<T> {
+    assertFunction('Pipeline.filter', pred, 'pred')
+    return this.#then(function* (source) {
+      let index = 0
+      for (const value of source) {
+        if (pred(value, index++)) yield value
+      }
+    })
+  }
+
+  /**
+   * Map each element to an iterable and yield the elements of each in
+   * turn.
+   *
+   * @throws TypeError when `fn` is not a function.
+   */
+  public flatMap<U>(fn: (value: T, index: number) => Iterable<U>): Pipeline<U> {
+    assertFunction('Pipeline.flatMap', fn, 'fn')
+    return this.#then(function* (source) {
+      let index = 0
+      for (const value of source) yield* fn(value, index++)
+    })
+  }
+
+  /**
+   * Yield the first `count` elements, then stop pulling from the source.
+   *
+   * @throws RangeError when `count` is not a non-negative integer.
+   */
+  public take(count: number): Pipeline<T> {
+    assertCount('Pipeline.take', count, 0, 'count')
+    return this.#then(function* (source) {
+      if (count === 0) return
+      let taken = 0
+      for (const value of source) {
+        yield value
+        if (++taken === count) return
+      }
+    })
+  }
+
+  /**
+   * Skip the first `count` elements.
+   *
+   * @throws RangeError when `count` is not a non-negative integer.
+   */
+  public drop(count: number): Pipeline<T> {
+    assertCount('Pipeline.drop', count, 0, 'count')
+    return this.#then(function* (source) {
+      let index = 0
+      for (const value of source) {
+        if (index++ >= count) yield value
+      }
+    })
+  }
+
+  /**
+   * Yield elements while `pred(value, index)` is truthy and stop at the
+   * first one for which it is not.
+   *
+   * @throws TypeError when `pred` is not a function.
+   */
+  public takeWhile(pred: (value: T, index: number) => unknown): Pipeline<T> {
+    assertFunction('Pipeline.takeWhile', pred, 'pred')
+    return this.#then(function* (source) {
+      let index = 0
+      for (const value of source) {
+        if (!pred(value, index++)) return
+        yield value
+      }
+    })
+  }
+
+  /**
+   * Pair each element with the element at the same position of `other`,
+   * stopping at the end of the shorter one.
+   *
+   * @throws TypeError when `other` is not iterable.
+   */
+  public zip<U>(other: Iterable<U>): Pipeline<[T, U]> {
+    assertIterable('Pipeline.zip', other)
+    return this.#then(function* (source) {
+      const left = source[Symbol.iterator]()
+      const right = other[Symbol.iterator]()
+      try {
+        while (true) {
+          const a = left.next()
+          if (a.done) return
+          const b = right.next()
+          if (b.done) return
+          yield [a.value, b.value] as [T, U]
+        }
+      } finally {
+        // Let both sources clean up, whichever side ended first.
+        left.return?.()
+        right.return?.()
+      }
+    })
+  }
+
+  /**
+   * Pair each element with its position: `[index, value]`, like
+   * `entries()` on the containers.
+   */
+  public enumerate(): Pipeline<[number, T]> {
+    return this.#then(function* (source) {
+      let index = 0
+      for (const value of source) yield [index++, value] as [number, T]
+    })
+  }
+
+  /**
+   * Group consecutive elements into arrays of `size`; the last one may be
+   * shorter.
+   *
+   * @throws RangeError when `size` is not a positive integer.
+   */
+  public chunk(size: number): Pipeline<T[]> {
+    assertCount('Pipeline.chunk', size, 1, 'size')
+    return this.#then(function* (source) {
+      let chunk: T[] = []
+      for (const value of source) {
+        chunk.push(value)
+        if (chunk.length === size) {
+          yield chunk
+          chunk = []
+        }
+      }
+      if (chunk.length > 0) yield chunk
+    })
+  }
+
+  /**
+   * Yield every run of `size` consecutive elements, sliding by one: a
+   * source of n elements gives n - size + 1 windows, none when it is
+   * shorter than `size`. Each window is a new array.
+   *
+   * @throws RangeError when `size` is not a positive integer.
+   */
+  public window(size: number): Pipeline<T[]> {
+    assertCount('Pipeline.window', size, 1, 'size')
+    return this.#then(function* (source) {
+      // Ring buffer: once full, `start` is the oldest element and each
+      // new value overwrites it.
+      const ring: T[] = []
+      let start = 0
+      for (const value of source) {
+        if (ring.length < size) {
+          ring.push(value)
+        } else {
+          ring[start] = value
+          start = (start + 1) % size
+        }
+        if (ring.length === size) {
+          yield ring.slice(start).concat(ring.slice(0, start))
+        }
+      }
+    })
+  }
+
+  // Collectors
+
+  public toArray(): T[] {
+    return Array.from(this.#source)
+  }
+
+  public toVector(): Vector<T> {
+    const vector = new Vector<T>()
+    // Push instead of `initValues`: `Array(n)` treats a lone number as a
+    // length.
+    for (const value of this.#source) vector.push(value)
+    return vector
+  }
+
+  public toDeque(): Deque<T> {
+    const deque = new Deque<T>()
+    for (const value of this.#source) deque.pushBack(value)
+    return deque
+  }
+
+  public toLinkedList(): LinkedList<T> {
+    const list = new LinkedList<T>()
+    for (const value of this.#source) list.pushBack(value)
+    return list
+  }
+
+  /**
+   * Collect into a `PriorityQueue`, heapified in O(n).
+   *
+   * @param compareFn - Comparator of the queue; numbers form a max-heap
+   *   by default.
+   */
+  public toPriorityQueue(compareFn?: CompareFn<T>): PriorityQueue<T> {
+    const queue = new PriorityQueue<T>({ compareFn })
+    queue.pushAll(this.#source)
+    return queue
+  }
+
+  /**
+   * Fold the elements from first to last, like `Array#reduce`. Without
+   * `initial`, the first element is the starting value.
+   *
+   * @throws TypeError when `fn` is not a function, or when the pipeline
+   *   is empty and no `initial` value is given.
+   */
+  public reduce(fn: (acc: T, value: T, index: number) => T): T
+  public reduce<U>(fn: (acc: U, value: T, index: number) => U, initial: U): U
+  public reduce<U>(fn: (acc: U, value: T, index: number) => U, initial?: U): U {
+    assertFunction('Pipeline.reduce', fn, 'fn')
+    const seeded = arguments.length > 1
+    const iterator = this.#source[Symbol.iterator]()
+    let acc = initial as U
+    let index = 0
+    if (!seeded) {
+      const first = iterator.next()
+      if (first.done) {
+        throw new TypeError(
+          'Pipeline.reduce: empty pipeline with no initial value',
+        )
+      }
+      acc = first.value as unknown as U
+      index = 1
+    }
+    try {
+      for (let step = iterator.next(); !step.done; step = iterator.next()) {
+        acc = fn(acc, step.value, index++)
+      }
+    } finally {
+      // Let the source clean up if `fn` throws, as `zip` does.
+      iterator.return?.()
+    }
+    return acc
+  }
+
+  /**
+   * Group the elements by `keyFn(value, index)` into a `Map` from key to
+   * elements, keys in order of first appearance.
+   *
+   * @throws TypeError when `keyFn` is not a function.
+   */
+  public groupBy<K>(keyFn: (value: T, index: number) => K): Map<K, T[]> {
+    assertFunction('Pipeline.groupBy', keyFn, 'keyFn')
+    const groups = new Map<K, T[]>()
+    let index = 0
+    for (const value of this.#source) {
+      const key = keyFn(value, index++)
+      const group = groups.get(key)
+      if (group === undefined) groups.set(key, [value])
+      else group.push(value)
+    }
+    return groups
+  }
+}
+
+/**
+ * Start a lazy pipeline over `source`: any stl-kit container, array,
+ * `Map`, `Set`, string or generator.
+ *
+ * Example:
+ * `pipeline(list).filter((x) => x % 2 === 0).map((x) => x * x).toVector()`
+ *
+ * @throws TypeError when `source` is not iterable.
+ */
+export function pipeline<T>(source: Iterable<T>): Pipeline<T> {
+  return new Pipeline(source)
+}
@@ -0,0 +1,437 @@
+type CompareFn<T> = (a: T, b: T) => number
+
+type Predicate<T> = (value: T) => boolean
+
+/**
+ * Anything with numeric indices and a `length`: plain arrays, `Vector`
+ * and typed arrays all qualify.
+ */
+export interface Indexable<T> {
+  [index: number]: T
+  readonly length: number
+}
+
+// Ranges at or below this size are finished with insertion sort.
+const INSERTION_THRESHOLD = 16
+
+function defaultCompare<T>(a: T, b: T): number {
+  return a < b ? -1 : a > b ? 1 : 0
+}
+
+function assertIndexable(name: string, array: unknown): void {
+  if (
+    array === null ||
+    typeof array !== 'object' ||
+    typeof (array as { length?: unknown }).length !== 'number'
+  ) {
+    throw new TypeError(`${name}: expected an array-like container`)
+  }
+}
+
+function assertFunction(name: string, fn: unknown, label: string): void {
+  if (typeof fn !== 'function') {
+    throw new TypeError(`${name}: ${label} must be a function`)
+  }
+}
+
+function assertRange(
+  name: string,
+  array: Indexable<unknown>,
+  first: number,
+  last: number,
+): void {
+  if (
+    !Number.isInteger(first) ||
+    !Number.isInteger(last) ||
+    first < 0 ||
+    first > last ||
+    last > array.length
+  ) {
+    throw new RangeError(
+      `${name}: invalid range [${first}, ${last}) for length ${array.length}`,
+    )
+  }
+}
+
+// Split `(compareFn?)` / `(first, last, compareFn?)` argument lists.
+function sortArgs<T>(
+  name: string,
+  array: Indexable<T>,
+  args: unknown[],
+): [number, number, CompareFn<T>] {
+  assertIndexable(name, array)
+  const ranged = typeof args[0] === 'number'
+  const first = ranged ? (args[0] as number) : 0
+  const last = ranged ? (args[1] as number) : array.length
+  const compareFn = (ranged ? args[2] : args[0]) ?? defaultCompare
+  assertRange(name, array, first, last)
+  assertFunction(name, compareFn, 'compareFn')
+  return [first, last, compareFn as CompareFn<T>]
+}
+
+// Split `(mid, compareFn?)` / `(first, mid, last, compareFn?)` lists.
+function pivotArgs<T>(
+  name: string,
+  array: Indexable<T>,
+  args: unknown[],
+): [number, number, number, CompareFn<T>] {
+  assertIndexable(name, array)
+  const ranged = typeof args[1] === 'number'
+  const first = ranged ? (args[0] as number) : 0
+  const mid = (ranged ? args[1] : args[0]) as number
+  const last = ranged ? (args[2] as number) : array.length
+  const compareFn = (ranged ? args[3] : args[1]) ?? defaultCompare
+  assertRange(name, array, first, last)
+  if (!Number.isInteger(mid) || mid < first || mid > last) {
+    throw new RangeError(`${name}: position ${mid} is outside the range`)
+  }
+  assertFunction(name, compareFn, 'compareFn')
+  return [first, mid, last, compareFn as CompareFn<T>]
+}
+
+// Split `(pred)` / `(first, last, pred)` lists.
+function partitionArgs<T>(
+  name: string,
+  array: Indexable<T>,
+  args: unknown[],
+): [number, number, Predicate<T>] {
+  assertIndexable(name, array)
+  const ranged = typeof args[0] === 'number'
+  const first = ranged ? (args[0] as number) : 0
+  const last = ranged ? (args[1] as number) : array.length
+  const pred = ranged ? args[2] : args[0]
+  assertRange(name, array, first, last)
+  assertFunction(name, pred, 'predicate')
+  return [first, last, pred as Predicate<T>]
+}
+
+function swap<T>(array: Indexable<T>, i: number, j: number): void {
+  const tmp = array[i]!
+  array[i] = array[j]!
+  array[j] = tmp
+}
+
+function insertionSort<T>(
+  array: Indexable<T>,
+  first: number,
+  last: number,
+  compareFn: CompareFn<T>,
+): void {
+  for (let i = first + 1; i < last; i++) {
+    const value = array[i]!
+    let j = i - 1
+    // Strict `>` keeps equal elements in their original order.
+    while (j >= first && compareFn(array[j]!, value) > 0) {
+      array[j + 1] = array[j]!
+      j--
+    }
+    array[j + 1] = value
+  }
+}
+
+// Restore the max-heap property for the heap rooted at `first` after the
+// element at offset `i` may have become too small.
+function siftDown<T>(
+  array: Indexable<T>,
+  first: number,
+  i: number,
+  size: number,
+  compareFn: CompareFn<T>,
+): void {
+  for (;;) {
+    const left = 2 * i + 1
+    if (left >= size) return
+    const right = left + 1
+    let child = left
+    if (
+      right < size &&
+      compareFn(array[first + right]!, array[first + left]!) > 0
+    ) {
+      child = right
+    }
+    if (compareFn(array[first + child]!, array[first + i]!) <= 0) return
+    swap(array, first + i, first + child)
+    i = child
+  }
+}
+
+/**
+ * Sort `[first, last)` in place, keeping equal elements in their original
+ * relative order (`std::stable_sort`).
+ *
+ * `compareFn(a, b)` returns a negative number when `a` sorts before `b`,
+ * a positive number when after and `0` when equal — so `(a, b) => a - b`
+ * sorts numbers ascending. The default compares with `<` / `>`.
+ *
+ * Complexity: O(n log n) time, O(n) extra space (bottom-up merge sort).
+ * @throws TypeError when `compareFn` is not a function.
+ * @throws RangeError when the range is not within the container.
+ */
+export function stableSort<T>(
+  array: Indexable<T>,
+  compareFn?: CompareFn<T>,
+): void
+export function stableSort<T>(
+  array: Indexable<T>,
+  first: number,
+  last: number,
+  compareFn?: CompareFn<T>,
+): void
+export function stableSort<T>(array: Indexable<T>, ...args: unknown[]): void {
+  const [first, last, compareFn] = sortArgs('stableSort', array, args)
+  const n = last - first
+  if (n < 2) return
+
+  // Sort small runs in place, then merge runs of doubling width.
+  for (let lo = first; lo < last; lo += INSERTION_THRESHOLD) {
+    insertionSort(
+      array,
+      lo,
+      Math.min(lo + INSERTION_THRESHOLD, last),
+      compareFn,
+    )
+  }
+  if (n <= INSERTION_THRESHOLD) return
+
+  let src: T[] = new Array<T>(n)
+  let dst: T[] = new Array<T>(n)
+  for (let i = 0; i < n; i++) src[i] = array[first + i]!
+
+  for (let width = INSERTION_THRESHOLD; width < n; width *= 2) {
+    for (let lo = 0; lo < n; lo += 2 * width) {
+      const mid = Math.min(lo + width, n)
+      const hi = Math.min(lo + 2 * width, n)
+      let i = lo
+      let j = mid
+      let k = lo
+      while (i < mid && j < hi) {
+        // Take from the left run on ties to stay stable.
+        dst[k++] = compareFn(src[j]!, src[i]!) < 0 ? src[j++]! : src[i++]!
+      }
+      while (i < mid) dst[k++] = src[i++]!
+      while (j < hi) dst[k++] = src[j++]!
+    }
+    ;[src, dst] = [dst, src]
+  }
+
+  for (let i = 0; i < n; i++) array[first + i] = src[i]!
+}
+
+/**
+ * Rearrange `[first, last)` so that `[first, middle)` holds the smallest
+ * `middle - first` elements in sorted order (`std::partial_sort`). The
+ * order of the remaining elements is unspecified.
+ *
+ * Complexity: O(n log k) for k = `middle - first`, O(1) extra space.
+ * @throws TypeError when `compareFn` is not a function.
+ * @throws RangeError when the range or `middle` is out of bounds.
+ */
+export function partialSort<T>(
+  array: Indexable<T>,
+  middle: number,
+  compareFn?: CompareFn<T>,
+): void
+export function partialSort<T>(
+  array: Indexable<T>,
+  first: number,
+  middle: number,
+  last: number,
+  compareFn?: CompareFn<T>,
+): void
+export function partialSort<T>(array: Indexable<T>, ...args: unknown[]): void {
+  const [first, middle, last, compareFn] = pivotArgs('partialSort', array, args)
+  const k = middle - first
+  if (k === 0) return
+
+  // Max-heap of the k smallest seen so far, rooted at `first`.
+  for (let i = Math.floor(k / 2) - 1; i >= 0; i--) {
+    siftDown(array, first, i, k, compareFn)
+  }
+  for (let i = middle; i < last; i++) {
+    if (compareFn(array[i]!, array[first]!) < 0) {
+      swap(array, i, first)
+      siftDown(array, first, 0, k, compareFn)
+    }
+  }
+  // Heap sort the prefix.
+  for (let size = k - 1; size > 0; size--) {
+    swap(array, first, first + size)
+    siftDown(array, first, 0, size, compareFn)
+  }
+}
+
+/**
+ * Rearrange `[first, last)` so that the element at `nth` is the one that
+ * would be there if the range were sorted, every element before it is not
+ * greater and every element after it is not less (`std::nth_element`).
+ *
+ * Complexity: O(n) on average (quickselect with a median-of-three pivot
+ * and three-way partitioning, so runs of equal elements stay linear).
+ * @throws TypeError when `compareFn` is not a function.
+ * @throws RangeError when the range is out of bounds or `nth` is not
+ *   inside it.
+ */
+export function nthElement<T>(
+  array: Indexable<T>,
+  nth: number,
+  compareFn?: CompareFn<T>,
+): void
+export function nthElement<T>(
+  array: Indexable<T>,
+  first: number,
+  nth: number,
+  last: number,
+  compareFn?: CompareFn<T>,
+): void
+export function nthElement<T>(array: Indexable<T>, ...args: unknown[]): void {
+  const [first, nth, last, compareFn] = pivotArgs('nthElement', array, args)
+  if (nth === last) return
+
+  let lo = first
+  let hi = last
+  while (hi - lo > INSERTION_THRESHOLD) {
+    const mid = lo + ((hi - lo) >> 1)
+    // Median of three moved to `lo`.
+    if (compareFn(array[mid]!, array[lo]!) < 0) swap(array, mid, lo)
+    if (compareFn(array[hi - 1]!, array[lo]!) < 0) swap(array, hi - 1, lo)
+    if (compareFn(array[hi - 1]!, array[mid]!) < 0) swap(array, hi - 1, mid)
+    swap(array, lo, mid)
+    const pivot = array[lo]!
+
+    // Dutch national flag: [lo, lt) < pivot, [lt, i) == pivot, [gt, hi) > pivot
+    let lt = lo
+    let i = lo + 1
+    let gt = hi
+    while (i < gt) {
+      const c = compareFn(array[i]!, pivot)
+      if (c < 0) swap(array, lt++, i++)
+      else if (c > 0) swap(array, i, --gt)
+      else i++
+    }
+
+    if (nth < lt) hi = lt
+    else if (nth >= gt) lo = gt
+    else return
+  }
+  insertionSort(array, lo, hi, compareFn)
+}
+
+/**
+ * Reorder `[first, last)` so that every element satisfying `pred` comes
+ * before every element that does not (`std::partition`). Relative order
+ * is not preserved; use `stablePartition` when it matters.
+ *
+ * Complexity: O(n), O(1) extra space.
+ * @returns The index of the first element of the second group.
+ * @throws TypeError when `pred` is not a function.
+ * @throws RangeError when the range is not within the container.
+ */
+export function partition<T>(array: Indexable<T>, pred: Predicate<T>): number
+export function partition<T>(
+  array: Indexable<T>,
+  first: number,
+  last: number,
+  pred: Predicate<T>,
+): number
+export function partition<T>(array: Indexable<T>, ...args: unknown[]): number {
+  const [first, last, pred] = partitionArgs('partition', array, args)
+  let lo = first
+  let hi = last
+  for (;;) {
+    while (lo < hi && pred(array[lo]!)) lo++
+    while (lo < hi && !pred(array[hi - 1]!)) hi--
+    if (lo >= hi) return lo
+    swap(array, lo++, --hi)
+  }
+}
+
+/**
+ * Like `partition`, but both groups keep their original relative order
+ * (`std::stable_partition`).
+ *
+ * Complexity: O(n), O(n) extra space.
+ * @returns The index of the first element of the second group.
+ * @throws TypeError when `pred` is not a function.
+ * @throws RangeError when the range is not within the container.
+ */
+export function stablePartition<T>(
+  array: Indexable<T>,
+  pred: Predicate<T>,
+): number
+export function stablePartition<T>(
+  array: Indexable<T>,
+  first: number,
+  last: number,
+  pred: Predicate<T>,
+): number
+export function stablePartition<T>(
+  array: Indexable<T>,
+  ...args: unknown[]
+): number {
+  const [first, last, pred] = partitionArgs('stablePartition', array, args)
+  const rejected: T[] = []
+  let k = first
+  for (let i = first; i < last; i++) {
+    const value = array[i]!
+    if (pred(value)) array[k++] = value
+    else rejected.push(value)
+  }
+  const point = k
+  for (const value of rejected) array[k++] = value
+  return point
+}
+
+/**
+ * Return the end of the longest sorted prefix of `[first, last)`
+ * (`std::is_sorted_until`): `last` when the whole range is sorted.
+ *
+ * Complexity: O(n)
+ * @throws TypeError when `compareFn` is not a function.
+ * @throws RangeError when the range is not within the container.
+ */
+export function isSortedUntil<T>(
+  array: Indexable<T>,
+  compareFn?: CompareFn<T>,
+): number
+export function isSortedUntil<T>(
+  array: Indexable<T>,
+  first: number,
+  last: number,
+  compareFn?: CompareFn<T>,
+): number
+export function isSortedUntil<T>(
+  array: Indexable<T>,
+  ...args: unknown[]
+): number {
+  const [first, last, compareFn] = sortArgs('isSortedUntil', array, args)
+  for (let i = first + 1; i < last; i++) {
+    if (compareFn(array[i]!, array[i - 1]!) < 0) return i
+  }
+  return last
+}
+
+/**
+ * Check whether `[first, last)` is sorted according to `compareFn`
+ * (`std::is_sorted`). Equal neighbours are allowed.
+ *
+ * Complexity: O(n)
+ * @throws TypeError when `compareFn` is not a function.
+ * @throws RangeError when the range is not within the container.
+ */
+export function isSorted<T>(
+  array: Indexable<T>,
+  compareFn?: CompareFn<T>,
+): boolean
+export function isSorted<T>(
+  array: Indexable<T>,
+  first: number,
+  last: number,
+  compareFn?: CompareFn<T>,
+): boolean
+export function isSorted<T>(array: Indexable<T>, ...args: unknown[]): boolean {
+  const [first, last, compareFn] = sortArgs('isSorted', array, args)
+  for (let i = first + 1; i < last; i++) {
+    if (compareFn(array[i]!, array[i - 1]!) < 0) return false
+  }
+  return true
+}
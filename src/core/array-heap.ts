@@ -0,0 +1,257 @@
+import type { CompareFn, Heap, PQueueHandle } from '@/core/heap'
+
+// Concrete handle; `index` is the element's slot in `#heap` or -1 once
+// the element has left the heap.
+class ArrayHandle<T> implements PQueueHandle<T> {
+  constructor(
+    public value: T,
+    public index: number,
+  ) {}
+}
+
+/**
+ * ArrayHeap — an implicit d-ary heap in a flat array, the default engine
+ * of `PriorityQueue` (with `arity` 2, a binary heap).
+ *
+ * The children of slot `i` are `d * i + 1 ... d * i + d`. A larger arity
+ * gives a shallower tree: pushes and priority increases get cheaper, pops
+ * compare more children per level. Bulk inserts append and then either
+ * sift each new element up or rebuild the whole heap bottom-up in O(n),
+ * whichever is cheaper in the worst case.
+ */
+export class ArrayHeap<T> implements Heap<T> {
+  #heap: T[]
+  // Parallel to `#heap`: slot i holds the handle of `#heap[i]`, if one was
+  // issued. Elements added without `push` have no handle.
+  #handles: (ArrayHandle<T> | undefined)[]
+  #compare: CompareFn<T>
+  #arity: number
+
+  constructor(compare: CompareFn<T>, arity = 2) {
+    this.#heap = []
+    this.#handles = []
+    this.#compare = compare
+    this.#arity = arity
+  }
+
+  get size(): number {
+    return this.#heap.length
+  }
+
+  #parent(idx: number): number {
+    return Math.floor((idx - 1) / this.#arity)
+  }
+
+  #siftDown(cIdx: number): void {
+    const nodes = this.#heap
+    const len = nodes.length
+    while (true) {
+      const first = this.#arity * cIdx + 1 // first child index
+      const end = Math.min(first + this.#arity, len)
+      let best = cIdx
+      for (let child = first; child < end; child++) {
+        if (this.#compare(nodes[best]!, nodes[child]!) < 0) best = child
+      }
+      if (best == cIdx) break
+      this.#swap(best, cIdx)
+      cIdx = best
+    }
+  }
+
+  #siftUp(cIdx: number): void {
+    while (cIdx > 0) {
+      const pIdx = this.#parent(cIdx)
+      if (this.#compare(this.#heap[cIdx]!, this.#heap[pIdx]!) <= 0) break
+      this.#swap(pIdx, cIdx)
+      cIdx = pIdx
+    }
+  }
+
+  // Move the element at `cIdx` up or down, whichever restores the heap.
+  #sift(cIdx: number): void {
+    const pIdx = this.#parent(cIdx)
+    if (cIdx > 0 && this.#compare(this.#heap[cIdx]!, this.#heap[pIdx]!) > 0) {
+      this.#siftUp(cIdx)
+    } else {
+      this.#siftDown(cIdx)
+    }
+  }
+
+  #heapify(): void {
+    const len = this.#heap.length
+    for (let i = this.#parent(len - 1); i >= 0; i--) this.#siftDown(i)
+  }
+
+  #swap(i: number, j: number): void {
+    const temp = this.#heap[i]!
+    this.#heap[i] = this.#heap[j]!
+    this.#heap[j] = temp
+
+    const handleI = this.#handles[i]
+    const handleJ = this.#handles[j]
+    if (handleI === undefined && handleJ === undefined) return
+    this.#handles[i] = handleJ
+    this.#handles[j] = handleI
+    if (handleI !== undefined) handleI.index = j
+    if (handleJ !== undefined) handleJ.index = i
+  }
+
+  #detach(idx: number): void {
+    const handle = this.#handles[idx]
+    if (handle !== undefined) {
+      handle.index = -1
+      this.#handles[idx] = undefined
+    }
+  }
+
+  #detachAll(): void {
+    for (const handle of this.#handles) {
+      if (handle !== undefined) handle.index = -1
+    }
+    this.#handles.length = 0
+  }
+
+  #removeAt(idx: number): T {
+    const removed = this.#heap[idx]!
+    const last = this.#heap.length - 1
+    this.#detach(idx)
+    if (idx !== last) this.#swap(idx, last)
+    this.#heap.pop()
+    if (this.#handles.length > last) this.#handles.length = last
+    if (idx < last) this.#sift(idx)
+    return removed
+  }
+
+  // Append `values` (with their handles, when moved from another heap)
+  // and restore the heap: k sift-ups cost O(k log n), a rebuild O(n).
+  #append(values: T[], handles: (ArrayHandle<T> | undefined)[]): void {
+    const start = this.#heap.length
+    for (let i = 0; i < values.length; i++) {
+      this.#heap.push(values[i]!)
+      const handle = handles[i]
+      if (handle !== undefined) {
+        handle.index = start + i
+        this.#handles[start + i] = handle
+      }
+    }
+    const len = this.#heap.length
+    if (values.length * Math.log2(len) > len) {
+      this.#heapify()
+    } else {
+      for (let i = start; i < len; i++) this.#siftUp(i)
+    }
+  }
+
+  *[Symbol.iterator](): IterableIterator<T> {
+    for (const val of this.#heap) {
+      yield val
+    }
+  }
+
+  peek(): T | undefined {
+    return this.#heap[0]
+  }
+
+  push(value: T): PQueueHandle<T> {
+    const cIdx = this.#heap.push(value) - 1 //current index
+    const handle = new ArrayHandle(value, cIdx)
+    this.#handles[cIdx] = handle
+    this.#siftUp(cIdx)
+    return handle
+  }
+
+  pushAll(values: T[]): void {
+    this.#append(values, [])
+  }
+
+  pop(): T {
+    return this.#removeAt(0)
+  }
+
+  replaceTop(value: T): T {
+    const top = this.#heap[0]!
+    this.#detach(0)
+    this.#heap[0] = value
+    this.#siftDown(0)
+    return top
+  }
+
+  contains(handle: PQueueHandle<T>): boolean {
+    if (!(handle instanceof ArrayHandle)) return false
+    return handle.index >= 0 && this.#handles[handle.index] === handle
+  }
+
+  update(handle: PQueueHandle<T>, value: T, replace: boolean): void {
+    const target = handle as ArrayHandle<T>
+    if (replace) {
+      target.value = value
+      this.#heap[target.index] = value
+    }
+    this.#sift(target.index)
+  }
+
+  remove(handle: PQueueHandle<T>): T {
+    return this.#removeAt((handle as ArrayHandle<T>).index)
+  }
+
+  // A frontier heap of slots: popping a slot yields its element and
+  // offers its children, so the first k elements cost O(k d log(k d)).
+  *sorted(): IterableIterator<T> {
+    const nodes = this.#heap
+    if (nodes.length === 0) return
+    const frontier = new ArrayHeap<number>((i, j) =>
+      this.#compare(nodes[i]!, nodes[j]!),
+    )
+    frontier.pushAll([0])
+    while (frontier.size > 0) {
+      const idx = frontier.pop()
+      yield nodes[idx]!
+      const first = this.#arity * idx + 1
+      const end = Math.min(first + this.#arity, nodes.length)
+      const children: number[] = []
+      for (let child = first; child < end; child++) children.push(child)
+      frontier.pushAll(children)
+    }
+  }
+
+  positionOf(handle: PQueueHandle<T>): number {
+    return (handle as ArrayHandle<T>).index
+  }
+
+  meld(other: Heap<T>): void {
+    if (other instanceof ArrayHeap) {
+      const values: T[] = other.#heap
+      const handles: (ArrayHandle<T> | undefined)[] = other.#handles
+      other.#heap = []
+      other.#handles = []
+      this.#append(values, handles)
+    } else {
+      const values = [...other]
+      other.clear()
+      this.pushAll(values)
+    }
+  }
+
+  // Heapify `values` in place and use the array as storage.
+  build(values: T[]): void {
+    this.#detachAll()
+    this.#heap = values
+    this.#heapify()
+  }
+
+  adopt(values: T[]): boolean {
+    for (let i = 1; i < values.length; i++) {
+      if (this.#compare(values[i]!, values[this.#parent(i)]!) > 0) {
+        return false
+      }
+    }
+    this.#detachAll()
+    this.#heap = values
+    return true
+  }
+
+  clear(): void {
+    this.#detachAll()
+    this.#heap.length = 0
+  }
+}
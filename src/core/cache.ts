@@ -0,0 +1,114 @@
+import type { ListNode } from '@/core/list-node'
+import type { LinkedList } from '@/structures/linked-list'
+
+/**
+ * Cache — a bounded key-value store that evicts entries on its own,
+ * implemented by `LRUCache` (least recently used first) and `LFUCache`
+ * (least frequently used first).
+ *
+ * `get` and `set` count as uses; `peek` and `has` do not. Iteration runs
+ * from the entry that would be evicted last to the one evicted next.
+ */
+export interface Cache<K, V> extends Iterable<[K, V]> {
+  readonly length: number
+  readonly [Symbol.toStringTag]: string
+  /** Sum of the entry weights (the entry count without `sizeFn`). */
+  readonly weight: number
+  readonly maxSize: number
+  readonly maxWeight: number
+  /** Value for `key`, marking the entry as used; `undefined` if absent. */
+  get(key: K): V | undefined
+  /** Value for `key` without marking the entry as used. */
+  peek(key: K): V | undefined
+  /** Insert or overwrite `key`, evicting other entries when full. */
+  set(key: K, value: V): this
+  has(key: K): boolean
+  /** Remove `key` without calling `onEvict`. */
+  delete(key: K): boolean
+  size(): number
+  isEmpty(): boolean
+  clear(): void
+  keys(): IterableIterator<K>
+  values(): IterableIterator<V>
+  entries(): IterableIterator<[K, V]>
+  forEach(
+    callback: (value: V, key: K, cache: this) => void | false,
+    thisArg?: unknown,
+  ): void
+  toArray(): [K, V][]
+}
+
+export interface CacheOptions<K, V> {
+  initValues?: [K, V][]
+  /** Maximum number of entries. */
+  maxSize?: number
+  /** Maximum sum of entry weights, as given by `sizeFn`. */
+  maxWeight?: number
+  /** Weight of one entry; every entry weighs 1 by default. */
+  sizeFn?: (value: V, key: K) => number
+  /** Called with each entry removed to make room. */
+  onEvict?: (key: K, value: V) => void
+}
+
+/**
+ * Validate the limits and callbacks shared by the caches.
+ *
+ * @throws TypeError when neither limit is given, or `sizeFn` / `onEvict`
+ *   is not a function.
+ * @throws RangeError when `maxSize` is not a positive integer or
+ *   `maxWeight` is not a positive number (`Infinity` is allowed for both).
+ */
+export function assertCacheOptions<K, V>(
+  name: string,
+  { maxSize, maxWeight, sizeFn, onEvict }: CacheOptions<K, V>,
+): void {
+  if (maxSize === undefined && maxWeight === undefined) {
+    throw new TypeError(`${name} requires maxSize or maxWeight`)
+  }
+  if (
+    maxSize !== undefined &&
+    maxSize !== Infinity &&
+    (!Number.isInteger(maxSize) || maxSize < 1)
+  ) {
+    throw new RangeError('maxSize must be a positive integer')
+  }
+  if (maxWeight !== undefined && !(maxWeight > 0)) {
+    throw new RangeError('maxWeight must be a positive number')
+  }
+  if (sizeFn !== undefined && typeof sizeFn !== 'function') {
+    throw new TypeError('sizeFn must be a function')
+  }
+  if (onEvict !== undefined && typeof onEvict !== 'function') {
+    throw new TypeError('onEvict must be a function')
+  }
+}
+
+/**
+ * Weight of one entry as given by `sizeFn` (1 without it).
+ * @throws RangeError when the weight is negative or not finite.
+ */
+export function entryWeight<K, V>(
+  sizeFn: ((value: V, key: K) => number) | undefined,
+  key: K,
+  value: V,
+): number {
+  if (sizeFn === undefined) return 1
+  const weight = sizeFn(value, key)
+  if (typeof weight !== 'number' || !Number.isFinite(weight) || weight < 0) {
+    throw new RangeError('sizeFn must return a non-negative finite number')
+  }
+  return weight
+}
+
+/** First node of `list`, or `null` (the end) when it is empty. */
+export function frontNode<T>(list: LinkedList<T>): ListNode<T> | null {
+  return list.isEmpty() ? null : list.nodeAt(0)
+}
+
+/**
+ * Remove `node` from `list` in O(1): move it to the back, then pop it.
+ */
+export function eraseNode<T>(list: LinkedList<T>, node: ListNode<T>): T {
+  list.splice(null, list, node, node.next)
+  return list.popBack()
+}
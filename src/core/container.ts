@@ -0,0 +1,211 @@
+import { serialize, type SerializedContainer } from '@/core/serialization'
+
+/**
+ * Container — the common contract shared by every stl-kit data structure.
+ *
+ * Code that only needs to read, iterate or empty a collection can accept a
+ * `Container<T>` and work with any structure in the library (`Stack`,
+ * `Queue`, `Deque`, `LinkedList`, `Vector`, `PriorityQueue`, ...).
+ *
+ * Iteration order is the natural order of the concrete structure (for
+ * example bottom -> top for `Stack`, heap order for `PriorityQueue`).
+ * `keys()` yields positions in that order, `values()` the elements and
+ * `entries()` `[position, element]` pairs, mirroring `Array`.
+ */
+export interface Container<T> extends Iterable<T> {
+  /** Number of elements (JS-style alias for `size()`). */
+  readonly length: number
+  /** Class name used by `Object.prototype.toString`. */
+  readonly [Symbol.toStringTag]: string
+  size(): number
+  isEmpty(): boolean
+  clear(): void
+  toArray(): T[]
+  forEach(
+    callback: (value: T, index: number, container: this) => void | false,
+    thisArg?: unknown,
+  ): void
+  keys(): IterableIterator<number>
+  values(): IterableIterator<T>
+  entries(): IterableIterator<[number, T]>
+  /** Tagged, versioned snapshot used by `JSON.stringify`. */
+  toJSON(): SerializedContainer<T>
+}
+
+/**
+ * BaseContainer — abstract base class implementing `Container<T>`.
+ *
+ * Subclasses provide storage-specific primitives (`[Symbol.iterator]`,
+ * `length`, `clear()` and the protected `append()` hook) and inherit the
+ * shared helpers: `size`, `isEmpty`, `toArray`, `assign`, `forEach`,
+ * `keys`, `values`, `entries` and `toJSON`.
+ *
+ * Type parameters:
+ * - T: element type stored in the container
+ */
+export abstract class BaseContainer<T> implements Container<T> {
+  /** Iterate elements in the container's natural order. */
+  abstract [Symbol.iterator](): IterableIterator<T>
+
+  /** Number of elements currently stored. */
+  abstract get length(): number
+
+  /** Class name reported by `Object.prototype.toString`. */
+  abstract get [Symbol.toStringTag](): string
+
+  /** Remove all elements. */
+  abstract clear(): void
+
+  /**
+   * Append `value` in the container's natural insertion position. Used by
+   * `assign` to refill the container.
+   */
+  protected abstract append(value: T): void
+
+  /**
+   * Return the number of elements (STL-style).
+   *
+   * @returns Non-negative integer count.
+   */
+  public size(): number {
+    return this.length
+  }
+
+  /**
+   * Check whether the container holds no elements.
+   *
+   * @returns `true` when empty, otherwise `false`.
+   */
+  public isEmpty(): boolean {
+    return this.length === 0
+  }
+
+  /**
+   * Return a shallow array copy of the elements in iteration order.
+   *
+   * Complexity: O(n)
+   */
+  public toArray(): T[] {
+    return [...this]
+  }
+
+  // Overload signatures
+  public assign(count: number, value: T): void
+  public assign(values: T[], start?: number, end?: number): void
+
+  // Implementation
+  /**
+   * Replace the contents of the container.
+   *
+   * Overloads:
+   * - `assign(values: T[], start?: number, end?: number)` — copy a slice
+   *   of `values` (clears first).
+   * - `assign(count: number, value: T)` — clear and fill `count` repeated
+   *   `value` elements.
+   *
+   * Complexity: O(n)
+   *
+   * @throws RangeError when the slice range or count is invalid.
+   * @throws TypeError when the arguments match neither overload.
+   */
+  public assign(arg1: number | T[], arg2?: T | number, arg3?: number): void {
+    // Case: assign(values: T[], start?: number, end?: number)
+    if (Array.isArray(arg1)) {
+      const values = arg1
+      const start = typeof arg2 === 'number' ? arg2 : 0
+      const end = typeof arg3 === 'number' ? arg3 : values.length
+
+      if (start < 0 || end > values.length || start > end) {
+        throw new RangeError('Invalid array slice range')
+      }
+
+      this.clear()
+
+      for (let i = start; i < end; i++) {
+        this.append(values[i]!)
+      }
+      return
+    }
+
+    // Case: assign(count: number, value: T)
+    if (typeof arg1 === 'number' && arguments.length === 2) {
+      const count = arg1
+      const value = arg2 as T
+
+      if (count < 0) {
+        throw new RangeError('Count must be a non-negative integer')
+      }
+
+      this.clear()
+
+      for (let i = 0; i < count; i++) {
+        this.append(value)
+      }
+      return
+    }
+
+    // Invalid usage
+    throw new TypeError('Invalid arguments passed to assign()')
+  }
+
+  /**
+   * Call `callback(value, index, container)` for each element in iteration
+   * order. If the callback returns `false`, iteration stops early.
+   *
+   * @param callback - Function invoked for each element.
+   * @param thisArg - Optional `this` binding for the callback.
+   * @throws TypeError when `callback` is not a function.
+   */
+  public forEach(
+    callback: (value: T, index: number, container: this) => void | false,
+    thisArg?: unknown,
+  ): void {
+    if (typeof callback !== 'function') {
+      throw new TypeError('Callback must be a function')
+    }
+    let index = 0
+    for (const value of this) {
+      const res = callback.call(thisArg, value, index, this)
+      if (res === false) break
+      index++
+    }
+  }
+
+  /**
+   * Iterate element positions (`0..length - 1`) in iteration order.
+   */
+  public *keys(): IterableIterator<number> {
+    const len = this.length
+    for (let i = 0; i < len; i++) {
+      yield i
+    }
+  }
+
+  /**
+   * Iterate element values; equivalent to `[Symbol.iterator]()`.
+   */
+  public values(): IterableIterator<T> {
+    return this[Symbol.iterator]()
+  }
+
+  /**
+   * Iterate `[position, value]` pairs in iteration order.
+   */
+  public *entries(): IterableIterator<[number, T]> {
+    let index = 0
+    for (const value of this) {
+      yield [index++, value]
+    }
+  }
+
+  /**
+   * Return a tagged, versioned snapshot used by `JSON.stringify`. Pass the
+   * result (or the JSON string) to the subclass's static `fromJSON` to
+   * rebuild the container.
+   *
+   * Complexity: O(n)
+   */
+  public toJSON(): SerializedContainer<T> {
+    return serialize(this[Symbol.toStringTag], this.toArray())
+  }
+}
@@ -0,0 +1,116 @@
+/** Kind of change reported to container observers. */
+export type ChangeType = 'insert' | 'remove' | 'clear' | 'update'
+
+/**
+ * Change notification delivered after a container was modified.
+ *
+ * `index` is the position of the first affected element in the
+ * container's iteration order (heap position for `PriorityQueue`) and
+ * `values` lists the affected elements in that order:
+ * - `insert`: the new elements, now starting at `index`.
+ * - `remove`: the removed elements, which started at `index`.
+ * - `update`: the new elements at `index`; `oldValues` holds the
+ *   replaced ones.
+ * - `clear`: every element the container held; `index` is always `0`.
+ */
+export type ChangeEvent<T> =
+  | { type: 'insert'; index: number; values: T[] }
+  | { type: 'remove'; index: number; values: T[] }
+  | { type: 'update'; index: number; values: T[]; oldValues: T[] }
+  | { type: 'clear'; index: 0; values: T[] }
+
+/** Narrow `ChangeEvent<T>` to the variant with the given `type`. */
+export type ChangeEventOf<T, K extends ChangeType> = Extract<
+  ChangeEvent<T>,
+  { type: K }
+>
+
+/**
+ * Observer callback. It runs synchronously once the change is complete,
+ * so the container already reflects it.
+ */
+export type ChangeListener<T, C, E extends ChangeEvent<T> = ChangeEvent<T>> = (
+  event: E,
+  container: C,
+) => void
+
+/**
+ * ChangeObservers — listener registry shared by the observable containers.
+ *
+ * Containers create it on the first `subscribe`/`on` call and check
+ * `active` before building an event, so a container nobody watches pays
+ * only a field check per mutation.
+ *
+ * Type parameters:
+ * - T: element type of the observed container
+ * - C: container type passed to listeners
+ */
+export class ChangeObservers<T, C> {
+  #listeners = new Set<ChangeListener<T, C>>()
+
+  /** `true` while at least one listener is attached. */
+  public get active(): boolean {
+    return this.#listeners.size > 0
+  }
+
+  /**
+   * Call `listener` for every change.
+   *
+   * @returns A function that detaches the listener; calling it again does
+   *   nothing.
+   * @throws TypeError when `listener` is not a function.
+   */
+  public subscribe(listener: ChangeListener<T, C>): () => void {
+    if (typeof listener !== 'function') {
+      throw new TypeError('subscribe: listener must be a function')
+    }
+    // Wrap so the same function can be attached more than once and each
+    // unsubscribe removes exactly one registration.
+    const entry: ChangeListener<T, C> = (event, container) =>
+      listener(event, container)
+    this.#listeners.add(entry)
+    return () => {
+      this.#listeners.delete(entry)
+    }
+  }
+
+  /**
+   * Call `listener` for changes of one `type` only.
+   *
+   * @returns A function that detaches the listener.
+   * @throws TypeError when `type` is unknown or `listener` is not a
+   *   function.
+   */
+  public on<K extends ChangeType>(
+    type: K,
+    listener: ChangeListener<T, C, ChangeEventOf<T, K>>,
+  ): () => void {
+    if (
+      type !== 'insert' &&
+      type !== 'remove' &&
+      type !== 'clear' &&
+      type !== 'update'
+    ) {
+      throw new TypeError(`on: unknown change type "${String(type)}"`)
+    }
+    if (typeof listener !== 'function') {
+      throw new TypeError('on: listener must be a function')
+    }
+    return this.subscribe((event, container) => {
+      if (event.type === type) {
+        listener(event as ChangeEventOf<T, K>, container)
+      }
+    })
+  }
+
+  /**
+   * Deliver `event` to the listeners attached right now. Listeners added
+   * or removed during delivery take effect from the next event. An error
+   * thrown by a listener propagates to the caller of the mutating method.
+   */
+  public emit(event: ChangeEvent<T>, container: C): void {
+    for (const listener of [...this.#listeners]) {
+      listener(event, container)
+    }
+  }
+}
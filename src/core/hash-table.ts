@@ -0,0 +1,311 @@
+export type HashFn<K> = (key: K) => number
+
+export type EqualsFn<K> = (a: K, b: K) => boolean
+
+export interface HashEntry<K, V> {
+  key: K
+  value: V
+  hash: number
+}
+
+/**
+ * Snapshot of how entries are spread across buckets, returned by
+ * `bucketStats()` on the hashed containers. Useful for spotting a weak
+ * `hash` function (long chains, many empty buckets).
+ */
+export interface BucketStats {
+  size: number
+  bucketCount: number
+  loadFactor: number
+  maxLoadFactor: number
+  emptyBuckets: number
+  maxBucketSize: number
+  averageBucketSize: number
+}
+
+const MIN_BUCKETS = 8
+const DEFAULT_MAX_LOAD_FACTOR = 0.75
+
+// Identity hashes for objects and functions when no `hash` is supplied.
+const identityHashes = new WeakMap<object, number>()
+let nextIdentityHash = 1
+
+function hashString(str: string): number {
+  // FNV-1a, 32-bit
+  let h = 0x811c9dc5
+  for (let i = 0; i < str.length; i++) {
+    h ^= str.charCodeAt(i)
+    h = Math.imul(h, 0x01000193)
+  }
+  return h | 0
+}
+
+/**
+ * Default hash used when none is supplied. Primitives hash by value and
+ * objects by identity, matching the native `Map`/`Set` behaviour.
+ */
+export function defaultHash(key: unknown): number {
+  switch (typeof key) {
+    case 'number':
+      return Number.isInteger(key) && (key | 0) === key
+        ? key | 0
+        : hashString(String(key))
+    case 'string':
+      return hashString(key)
+    case 'boolean':
+      return key ? 1 : 2
+    case 'bigint':
+      return hashString(key.toString())
+    case 'undefined':
+      return 3
+    case 'symbol':
+      return hashString(String(key))
+    default: {
+      if (key === null) return 4
+      const obj = key as object
+      let h = identityHashes.get(obj)
+      if (h === undefined) {
+        h = nextIdentityHash++
+        identityHashes.set(obj, h)
+      }
+      return h
+    }
+  }
+}
+
+/** Default equality: SameValueZero, as used by the native `Map`/`Set`. */
+export function defaultEquals(a: unknown, b: unknown): boolean {
+  return a === b || (a !== a && b !== b)
+}
+
+/**
+ * Spread a user hash over all 32 bits, so that structures indexing by the
+ * low bits (bucket selection, HAMT levels) see well-distributed values.
+ */
+export function mix(hash: number): number {
+  hash = Math.imul(hash ^ (hash >>> 16), 0x85ebca6b)
+  hash = Math.imul(hash ^ (hash >>> 13), 0xc2b2ae35)
+  return (hash ^ (hash >>> 16)) | 0
+}
+
+/**
+ * HashTable — the separate-chaining hash table behind `HashMap`,
+ * `HashSet` and the hashed multi-containers.
+ *
+ * Buckets are plain arrays; the bucket count is a power of two and doubles
+ * whenever `size / bucketCount` would exceed `maxLoadFactor`.
+ */
+export class HashTable<K, V> {
+  #buckets: HashEntry<K, V>[][]
+  #size: number
+  #maxLoadFactor: number
+  #hashFn: HashFn<K>
+  #equalsFn: EqualsFn<K>
+
+  constructor(
+    hashFn: HashFn<K>,
+    equalsFn: EqualsFn<K>,
+    maxLoadFactor = DEFAULT_MAX_LOAD_FACTOR,
+  ) {
+    if (typeof hashFn !== 'function') {
+      throw new TypeError('hash must be a function')
+    }
+    if (typeof equalsFn !== 'function') {
+      throw new TypeError('equals must be a function')
+    }
+    this.#hashFn = hashFn
+    this.#equalsFn = equalsFn
+    this.#buckets = HashTable.#createBuckets(MIN_BUCKETS)
+    this.#size = 0
+    this.#maxLoadFactor = DEFAULT_MAX_LOAD_FACTOR
+    this.maxLoadFactor = maxLoadFactor
+  }
+
+  static #createBuckets<K, V>(count: number): HashEntry<K, V>[][] {
+    return Array.from({ length: count }, () => [])
+  }
+
+  public get size(): number {
+    return this.#size
+  }
+
+  public get bucketCount(): number {
+    return this.#buckets.length
+  }
+
+  public get loadFactor(): number {
+    return this.#size / this.#buckets.length
+  }
+
+  public get maxLoadFactor(): number {
+    return this.#maxLoadFactor
+  }
+
+  public set maxLoadFactor(value: number) {
+    if (typeof value !== 'number' || !(value > 0) || !Number.isFinite(value)) {
+      throw new RangeError('maxLoadFactor must be a positive finite number')
+    }
+    this.#maxLoadFactor = value
+    this.reserve(this.#size)
+  }
+
+  public get equalsFn(): EqualsFn<K> {
+    return this.#equalsFn
+  }
+
+  public hashOf(key: K): number {
+    const hash = this.#hashFn(key)
+    if (typeof hash !== 'number' || Number.isNaN(hash)) {
+      throw new TypeError('hash must return a number')
+    }
+    return mix(hash | 0)
+  }
+
+  public bucketIndex(key: K): number {
+    return this.hashOf(key) & (this.#buckets.length - 1)
+  }
+
+  public bucketSize(index: number): number {
+    if (!Number.isInteger(index) || index < 0 || index >= this.bucketCount) {
+      throw new RangeError('Bucket index out of range')
+    }
+    return this.#buckets[index]!.length
+  }
+
+  // Lookups
+  public find(key: K): HashEntry<K, V> | null {
+    const hash = this.hashOf(key)
+    const bucket = this.#buckets[hash & (this.#buckets.length - 1)]!
+    for (const entry of bucket) {
+      if (entry.hash === hash && this.#equalsFn(entry.key, key)) return entry
+    }
+    return null
+  }
+
+  /** All entries whose key equals `key`, in insertion order. */
+  public findAll(key: K): HashEntry<K, V>[] {
+    const hash = this.hashOf(key)
+    const bucket = this.#buckets[hash & (this.#buckets.length - 1)]!
+    return bucket.filter(
+      (entry) => entry.hash === hash && this.#equalsFn(entry.key, key),
+    )
+  }
+
+  public *[Symbol.iterator](): IterableIterator<HashEntry<K, V>> {
+    for (const bucket of this.#buckets) {
+      yield* bucket
+    }
+  }
+
+  // Mutation
+  /**
+   * Insert `key` -> `value`. With `unique` (default) an existing entry
+   * with an equal key is returned untouched and `inserted` is `false`;
+   * otherwise duplicates are appended after their equals.
+   */
+  public insert(
+    key: K,
+    value: V,
+    unique = true,
+  ): { entry: HashEntry<K, V>; inserted: boolean } {
+    const hash = this.hashOf(key)
+    let bucket = this.#buckets[hash & (this.#buckets.length - 1)]!
+    if (unique) {
+      for (const entry of bucket) {
+        if (entry.hash === hash && this.#equalsFn(entry.key, key)) {
+          return { entry, inserted: false }
+        }
+      }
+    }
+
+    if (this.#size + 1 > this.#buckets.length * this.#maxLoadFactor) {
+      this.rehash(this.#buckets.length * 2)
+      bucket = this.#buckets[hash & (this.#buckets.length - 1)]!
+    }
+
+    const entry = { key, value, hash }
+    bucket.push(entry)
+    this.#size++
+    return { entry, inserted: true }
+  }
+
+  /** Remove the first entry whose key equals `key`. */
+  public delete(key: K): HashEntry<K, V> | null {
+    const hash = this.hashOf(key)
+    const bucket = this.#buckets[hash & (this.#buckets.length - 1)]!
+    for (let i = 0; i < bucket.length; i++) {
+      const entry = bucket[i]!
+      if (entry.hash === hash && this.#equalsFn(entry.key, key)) {
+        bucket.splice(i, 1)
+        this.#size--
+        return entry
+      }
+    }
+    return null
+  }
+
+  /** Remove a specific entry previously returned by this table. */
+  public deleteEntry(entry: HashEntry<K, V>): boolean {
+    const bucket = this.#buckets[entry.hash & (this.#buckets.length - 1)]!
+    const i = bucket.indexOf(entry)
+    if (i === -1) return false
+    bucket.splice(i, 1)
+    this.#size--
+    return true
+  }
+
+  public clear(): void {
+    this.#buckets = HashTable.#createBuckets(MIN_BUCKETS)
+    this.#size = 0
+  }
+
+  /**
+   * Redistribute entries over at least `count` buckets (rounded up to a
+   * power of two, and never fewer than the load factor requires).
+   */
+  public rehash(count: number): void {
+    if (typeof count !== 'number' || !(count >= 0)) {
+      throw new RangeError('Bucket count must be a non-negative number')
+    }
+    const required = Math.ceil(this.#size / this.#maxLoadFactor)
+    let next = MIN_BUCKETS
+    while (next < count || next < required) next *= 2
+    if (next === this.#buckets.length) return
+
+    const buckets = HashTable.#createBuckets<K, V>(next)
+    for (const bucket of this.#buckets) {
+      for (const entry of bucket) {
+        buckets[entry.hash & (next - 1)]!.push(entry)
+      }
+    }
+    this.#buckets = buckets
+  }
+
+  /** Make room for `count` entries without exceeding `maxLoadFactor`. */
+  public reserve(count: number): void {
+    if (typeof count !== 'number' || !(count >= 0)) {
+      throw new RangeError('Count must be a non-negative number')
+    }
+    const needed = Math.ceil(count / this.#maxLoadFactor)
+    if (needed > this.#buckets.length) this.rehash(needed)
+  }
+
+  public bucketStats(): BucketStats {
+    let emptyBuckets = 0
+    let maxBucketSize = 0
+    for (const bucket of this.#buckets) {
+      if (bucket.length === 0) emptyBuckets++
+      if (bucket.length > maxBucketSize) maxBucketSize = bucket.length
+    }
+    const used = this.#buckets.length - emptyBuckets
+    return {
+      size: this.#size,
+      bucketCount: this.#buckets.length,
+      loadFactor: this.loadFactor,
+      maxLoadFactor: this.#maxLoadFactor,
+      emptyBuckets,
+      maxBucketSize,
+      averageBucketSize: used === 0 ? 0 : this.#size / used,
+    }
+  }
+}
@@ -0,0 +1,64 @@
+export type CompareFn<T> = (a: T, b: T) => number
+
+/**
+ * Stable reference to an element inside a `PriorityQueue`, returned by
+ * `push` and `emplace`. The handle stays valid while the element is in the
+ * queue and can be passed to `update`, `decreaseKey`, `remove` and
+ * `contains`. It is detached once the element is popped, removed, replaced
+ * or the queue is cleared.
+ */
+export interface PQueueHandle<T> {
+  /** The element this handle refers to. */
+  readonly value: T
+}
+
+/**
+ * Heap — the storage engine behind `PriorityQueue`, implemented by
+ * `ArrayHeap` (binary and d-ary) and `PairingHeap`.
+ *
+ * `compareFn(a, b) > 0` means `a` has the higher priority. Engines do not
+ * validate arguments: `pop` and `replaceTop` expect a non-empty heap and
+ * the handle-taking methods a handle for which `contains` is `true`.
+ * Iteration follows the engine's storage layout, starting at the top.
+ */
+export interface Heap<T> extends Iterable<T> {
+  readonly size: number
+  peek(): T | undefined
+  /** Insert `value` and return a handle to it. */
+  push(value: T): PQueueHandle<T>
+  /** Insert every value of `values`, without issuing handles. */
+  pushAll(values: T[]): void
+  /** Remove and return the top element. */
+  pop(): T
+  /** Replace the top element by `value` and return the old one. */
+  replaceTop(value: T): T
+  contains(handle: PQueueHandle<T>): boolean
+  /**
+   * Restore heap order after the element behind `handle` changed, first
+   * storing `value` as the element when `replace` is set.
+   */
+  update(handle: PQueueHandle<T>, value: T, replace: boolean): void
+  remove(handle: PQueueHandle<T>): T
+  /**
+   * Yield the elements in priority order without changing the heap, by a
+   * best-first walk of the tree that only expands what is consumed.
+   */
+  sorted(): IterableIterator<T>
+  /** Position of the element in iteration order, for change events. */
+  positionOf(handle: PQueueHandle<T>): number
+  /**
+   * Move every element of `other` into this heap and leave `other` empty.
+   * Handles move along when both engines are of the same kind and are
+   * detached otherwise.
+   */
+  meld(other: Heap<T>): void
+  /** Replace the contents by `values`, which the engine may take over. */
+  build(values: T[]): void
+  /**
+   * Take `values` over as they are when they are already laid out in heap
+   * order for this engine; `false` (and no change) otherwise.
+   */
+  adopt(values: T[]): boolean
+  /** Remove every element and detach every handle. */
+  clear(): void
+}
@@ -0,0 +1,96 @@
+import type { Container } from '@/core/container'
+
+/**
+ * MultiSet — a counted collection, implemented by `TreeMultiSet`
+ * (ordered) and `HashMultiSet` (hashed).
+ *
+ * Each distinct value is stored once with a count. Iteration, `toArray`
+ * and `length` see every occurrence, so `[...bag]` repeats a value as
+ * often as it was added; `counts()` and `uniqueSize()` see each distinct
+ * value once.
+ */
+export interface MultiSet<T> extends Container<T> {
+  /** Add `n` occurrences of `value` (default 1). */
+  add(value: T, n?: number): this
+  /** Number of occurrences of `value` (0 when absent). */
+  count(value: T): number
+  has(value: T): boolean
+  /** Remove one occurrence; `true` when something was removed. */
+  removeOne(value: T): boolean
+  /** Remove every occurrence and return how many there were. */
+  removeAll(value: T): number
+  /** The `k` most frequent values with their counts, most frequent first. */
+  mostCommon(k?: number): [T, number][]
+  /** Iterate distinct values with their counts. */
+  counts(): IterableIterator<[T, number]>
+  /** Number of distinct values. */
+  uniqueSize(): number
+}
+
+/**
+ * MultiMap — a one-to-many map, implemented by `TreeMultiMap` (ordered)
+ * and `HashMultiMap` (hashed).
+ *
+ * Every `add(key, value)` stores a separate pair, so a key can hold
+ * several values (including repeats). Values under one key keep their
+ * insertion order. Iteration, `size` and `length` count pairs; `keys()`
+ * and `uniqueSize()` see each distinct key once.
+ */
+export interface MultiMap<K, V> extends Iterable<[K, V]> {
+  readonly length: number
+  readonly [Symbol.toStringTag]: string
+  /** Store one more `key` -> `value` pair. */
+  add(key: K, value: V): this
+  /** First value stored under `key`, or `undefined`. */
+  get(key: K): V | undefined
+  /** Every value stored under `key`, in insertion order. */
+  getAll(key: K): V[]
+  /** Iterate the `[key, value]` pairs stored under `key`. */
+  equalRange(key: K): IterableIterator<[K, V]>
+  has(key: K): boolean
+  /** Number of values stored under `key`. */
+  count(key: K): number
+  /** Remove the first `key` -> `value` pair; `true` when one was found. */
+  removeValue(key: K, value: V): boolean
+  /** Remove every value under `key` and return how many there were. */
+  removeAll(key: K): number
+  /** Number of distinct keys. */
+  uniqueSize(): number
+  size(): number
+  isEmpty(): boolean
+  clear(): void
+  keys(): IterableIterator<K>
+  values(): IterableIterator<V>
+  entries(): IterableIterator<[K, V]>
+  forEach(
+    callback: (value: V, key: K, map: this) => void | false,
+    thisArg?: unknown,
+  ): void
+  toArray(): [K, V][]
+}
+
+/**
+ * Check the repeat count passed to `MultiSet#add`.
+ * @throws RangeError when `n` is not a non-negative integer.
+ */
+export function assertCount(n: number): void {
+  if (!Number.isInteger(n) || n < 0) {
+    throw new RangeError('Count must be a non-negative integer')
+  }
+}
+
+/**
+ * Shared implementation of `MultiSet#mostCommon`: sort `[value, count]`
+ * pairs by descending count, keeping iteration order among ties, and keep
+ * the first `k`.
+ *
+ * @throws RangeError when `k` is not a non-negative integer.
+ */
+export function mostCommon<T>(
+  counts: Iterable<[T, number]>,
+  k = Infinity,
+): [T, number][] {
+  if (k !== Infinity) assertCount(k)
+  const sorted = [...counts].sort((a, b) => b[1] - a[1])
+  return k < sorted.length ? sorted.slice(0, k) : sorted
+}
@@ -0,0 +1,271 @@
+import { ArrayHeap } from '@/core/array-heap'
+import type { CompareFn, Heap, PQueueHandle } from '@/core/heap'
+
+// Identifies the heap a node belongs to. Melding forwards the source's
+// owner to the target's, so every moved handle follows in O(1).
+class Owner {
+  forward: Owner | null = null
+}
+
+function resolve(owner: Owner): Owner {
+  let root = owner
+  while (root.forward !== null) root = root.forward
+  // Path compression, as in union-find.
+  while (owner.forward !== null) {
+    const next: Owner = owner.forward
+    owner.forward = root
+    owner = next
+  }
+  return root
+}
+
+// A node doubles as the handle of its element.
+class PairingNode<T> implements PQueueHandle<T> {
+  child: PairingNode<T> | null = null
+  sibling: PairingNode<T> | null = null
+  // Parent for a first child, left sibling otherwise; `null` for the root.
+  prev: PairingNode<T> | null = null
+
+  constructor(
+    public value: T,
+    // `null` once the element has left the heap.
+    public owner: Owner | null,
+  ) {}
+}
+
+/**
+ * PairingHeap — a heap-ordered multiway tree, the `'pairing'` engine of
+ * `PriorityQueue`.
+ *
+ * `push` and `meld` link two roots in O(1), and raising an element's
+ * priority cuts its subtree and links it back under the root, also O(1).
+ * `pop` pairs up the root's children left to right and folds the pairs
+ * right to left, for O(log n) amortised. This makes it the engine of
+ * choice for meld-heavy workloads.
+ *
+ * Iteration is a pre-order walk from the root, so `positionOf` is O(n).
+ */
+export class PairingHeap<T> implements Heap<T> {
+  #root: PairingNode<T> | null
+  #size: number
+  #owner: Owner
+  #compare: CompareFn<T>
+
+  constructor(compare: CompareFn<T>) {
+    this.#root = null
+    this.#size = 0
+    this.#owner = new Owner()
+    this.#compare = compare
+  }
+
+  get size(): number {
+    return this.#size
+  }
+
+  // Make the lower-priority root the first child of the other one; ties
+  // keep `a` on top. Both must be detached roots.
+  #link(a: PairingNode<T>, b: PairingNode<T>): PairingNode<T> {
+    if (this.#compare(b.value, a.value) > 0) [a, b] = [b, a]
+    b.prev = a
+    b.sibling = a.child
+    if (a.child !== null) a.child.prev = b
+    a.child = b
+    return a
+  }
+
+  // Detach `node` and its subtree from its parent and siblings.
+  #cut(node: PairingNode<T>): void {
+    const prev = node.prev!
+    if (prev.child === node) prev.child = node.sibling
+    else prev.sibling = node.sibling
+    if (node.sibling !== null) node.sibling.prev = prev
+    node.prev = node.sibling = null
+  }
+
+  // Two-pass pairing of the sibling list starting at `first`.
+  #mergePairs(first: PairingNode<T> | null): PairingNode<T> | null {
+    const pairs: PairingNode<T>[] = []
+    let a = first
+    while (a !== null) {
+      const b = a.sibling
+      const next = b === null ? null : b.sibling
+      a.prev = a.sibling = null
+      if (b === null) {
+        pairs.push(a)
+      } else {
+        b.prev = b.sibling = null
+        pairs.push(this.#link(a, b))
+      }
+      a = next
+    }
+    let root = pairs.pop() ?? null
+    while (pairs.length > 0) root = this.#link(pairs.pop()!, root!)
+    return root
+  }
+
+  #insert(node: PairingNode<T>): void {
+    this.#root = this.#root === null ? node : this.#link(this.#root, node)
+  }
+
+  *[Symbol.iterator](): IterableIterator<T> {
+    const stack: PairingNode<T>[] = this.#root === null ? [] : [this.#root]
+    while (stack.length > 0) {
+      const node = stack.pop()!
+      yield node.value
+      if (node.sibling !== null) stack.push(node.sibling)
+      if (node.child !== null) stack.push(node.child)
+    }
+  }
+
+  peek(): T | undefined {
+    return this.#root?.value
+  }
+
+  push(value: T): PQueueHandle<T> {
+    const node = new PairingNode(value, this.#owner)
+    this.#insert(node)
+    this.#size++
+    return node
+  }
+
+  pushAll(values: T[]): void {
+    for (const value of values) this.push(value)
+  }
+
+  pop(): T {
+    const root = this.#root!
+    this.#root = this.#mergePairs(root.child)
+    root.child = null
+    root.owner = null
+    this.#size--
+    return root.value
+  }
+
+  replaceTop(value: T): T {
+    const top = this.pop()
+    this.push(value)
+    return top
+  }
+
+  contains(handle: PQueueHandle<T>): boolean {
+    if (!(handle instanceof PairingNode) || handle.owner === null) {
+      return false
+    }
+    handle.owner = resolve(handle.owner)
+    return handle.owner === this.#owner
+  }
+
+  update(handle: PQueueHandle<T>, value: T, replace: boolean): void {
+    const node = handle as PairingNode<T>
+    // A raised priority keeps the subtree in heap order, so the node can
+    // move with it; otherwise its children are merged back separately.
+    const raised = replace && this.#compare(value, node.value) >= 0
+    if (replace) node.value = value
+    if (node === this.#root) {
+      if (raised) return
+      this.#root = null
+    } else {
+      this.#cut(node)
+    }
+    if (!raised) {
+      const rest = this.#mergePairs(node.child)
+      node.child = null
+      if (rest !== null) this.#insert(rest)
+    }
+    this.#insert(node)
+  }
+
+  remove(handle: PQueueHandle<T>): T {
+    const node = handle as PairingNode<T>
+    if (node === this.#root) return this.pop()
+    this.#cut(node)
+    const rest = this.#mergePairs(node.child)
+    if (rest !== null) this.#insert(rest)
+    node.child = null
+    node.owner = null
+    this.#size--
+    return node.value
+  }
+
+  // Same walk as `ArrayHeap#sorted` over nodes; popping a node offers
+  // all of its children, so a wide root makes the first step O(n).
+  *sorted(): IterableIterator<T> {
+    if (this.#root === null) return
+    const frontier = new ArrayHeap<PairingNode<T>>((a, b) =>
+      this.#compare(a.value, b.value),
+    )
+    frontier.pushAll([this.#root])
+    while (frontier.size > 0) {
+      const node = frontier.pop()
+      yield node.value
+      const children: PairingNode<T>[] = []
+      for (let child = node.child; child !== null; child = child.sibling) {
+        children.push(child)
+      }
+      frontier.pushAll(children)
+    }
+  }
+
+  positionOf(handle: PQueueHandle<T>): number {
+    const stack: PairingNode<T>[] = this.#root === null ? [] : [this.#root]
+    for (let position = 0; stack.length > 0; position++) {
+      const node = stack.pop()!
+      if (node === handle) return position
+      if (node.sibling !== null) stack.push(node.sibling)
+      if (node.child !== null) stack.push(node.child)
+    }
+    return -1
+  }
+
+  meld(other: Heap<T>): void {
+    if (other instanceof PairingHeap) {
+      const root: PairingNode<T> | null = other.#root
+      if (root === null) return
+      this.#insert(root)
+      this.#size += other.#size
+      other.#owner.forward = this.#owner
+      other.#owner = new Owner()
+      other.#root = null
+      other.#size = 0
+    } else {
+      const values = [...other]
+      other.clear()
+      this.pushAll(values)
+    }
+  }
+
+  build(values: T[]): void {
+    this.clear()
+    this.pushAll(values)
+  }
+
+  // Any pre-order layout starts with the top, so keeping `values[0]` as
+  // the root and the rest as its children in order is heap-ordered and
+  // iterates exactly like `values`.
+  adopt(values: T[]): boolean {
+    for (let i = 1; i < values.length; i++) {
+      if (this.#compare(values[i]!, values[0]!) > 0) return false
+    }
+    this.clear()
+    if (values.length === 0) return true
+    const root = new PairingNode<T>(values[0]!, this.#owner)
+    let prev: PairingNode<T> = root
+    for (let i = 1; i < values.length; i++) {
+      const node = new PairingNode<T>(values[i]!, this.#owner)
+      node.prev = prev
+      if (prev === root) root.child = node
+      else prev.sibling = node
+      prev = node
+    }
+    this.#root = root
+    this.#size = values.length
+    return true
+  }
+
+  // A fresh owner detaches every existing handle at once.
+  clear(): void {
+    this.#root = null
+    this.#size = 0
+    this.#owner = new Owner()
+  }
+}
@@ -0,0 +1,400 @@
+type CompareFn<T> = (a: T, b: T) => number
+
+/**
+ * Node of a `RedBlackTree`. Leaves point to the tree's shared sentinel
+ * rather than `null`, which keeps the rebalancing code branch-free.
+ */
+export class RBNode<K, V> {
+  public red: boolean
+  public left: RBNode<K, V>
+  public right: RBNode<K, V>
+  public parent: RBNode<K, V>
+
+  constructor(
+    public key: K,
+    public value: V,
+    nil: RBNode<K, V>,
+  ) {
+    this.red = true
+    this.left = this.right = this.parent = nil
+  }
+}
+
+/**
+ * RedBlackTree — the balanced binary search tree behind `TreeMap`,
+ * `TreeSet` and the ordered multi-containers.
+ *
+ * Nodes are ordered by `compareFn(a, b)` (negative when `a` sorts first).
+ * All lookups and updates are O(log n) and every traversal is iterative,
+ * so large trees never exhaust the call stack.
+ *
+ * Public methods return `RBNode`s (or `null` when nothing matches); the
+ * sentinel is never handed out.
+ */
+export class RedBlackTree<K, V> {
+  #nil: RBNode<K, V>
+  #root: RBNode<K, V>
+  #size: number
+  #compareFn: CompareFn<K>
+
+  constructor(compareFn: CompareFn<K>) {
+    const nil = new RBNode<K, V>(undefined as K, undefined as V, null!)
+    nil.red = false
+    nil.left = nil.right = nil.parent = nil
+    this.#nil = nil
+    this.#root = nil
+    this.#size = 0
+    this.#compareFn = compareFn
+  }
+
+  public get size(): number {
+    return this.#size
+  }
+
+  public get compareFn(): CompareFn<K> {
+    return this.#compareFn
+  }
+
+  public clear(): void {
+    this.#root = this.#nil
+    this.#size = 0
+  }
+
+  // Lookups
+  /** Return a node whose key compares equal to `key`, or `null`. */
+  public find(key: K): RBNode<K, V> | null {
+    let x = this.#root
+    while (x !== this.#nil) {
+      const cmp = this.#compareFn(key, x.key)
+      if (cmp === 0) return x
+      x = cmp < 0 ? x.left : x.right
+    }
+    return null
+  }
+
+  /** First node with `node.key >= key` (STL `lower_bound`). */
+  public lowerBound(key: K): RBNode<K, V> | null {
+    let x = this.#root
+    let res: RBNode<K, V> | null = null
+    while (x !== this.#nil) {
+      if (this.#compareFn(x.key, key) >= 0) {
+        res = x
+        x = x.left
+      } else {
+        x = x.right
+      }
+    }
+    return res
+  }
+
+  /** First node with `node.key > key` (STL `upper_bound`). */
+  public upperBound(key: K): RBNode<K, V> | null {
+    let x = this.#root
+    let res: RBNode<K, V> | null = null
+    while (x !== this.#nil) {
+      if (this.#compareFn(x.key, key) > 0) {
+        res = x
+        x = x.left
+      } else {
+        x = x.right
+      }
+    }
+    return res
+  }
+
+  /** Last node with `node.key <= key`. */
+  public floor(key: K): RBNode<K, V> | null {
+    let x = this.#root
+    let res: RBNode<K, V> | null = null
+    while (x !== this.#nil) {
+      if (this.#compareFn(x.key, key) <= 0) {
+        res = x
+        x = x.right
+      } else {
+        x = x.left
+      }
+    }
+    return res
+  }
+
+  /** Last node with `node.key < key`. */
+  public lower(key: K): RBNode<K, V> | null {
+    let x = this.#root
+    let res: RBNode<K, V> | null = null
+    while (x !== this.#nil) {
+      if (this.#compareFn(x.key, key) < 0) {
+        res = x
+        x = x.right
+      } else {
+        x = x.left
+      }
+    }
+    return res
+  }
+
+  public first(): RBNode<K, V> | null {
+    if (this.#root === this.#nil) return null
+    return this.#min(this.#root)
+  }
+
+  public last(): RBNode<K, V> | null {
+    if (this.#root === this.#nil) return null
+    return this.#max(this.#root)
+  }
+
+  public successor(node: RBNode<K, V>): RBNode<K, V> | null {
+    if (node.right !== this.#nil) return this.#min(node.right)
+    let y = node.parent
+    while (y !== this.#nil && node === y.right) {
+      node = y
+      y = y.parent
+    }
+    return y === this.#nil ? null : y
+  }
+
+  public predecessor(node: RBNode<K, V>): RBNode<K, V> | null {
+    if (node.left !== this.#nil) return this.#max(node.left)
+    let y = node.parent
+    while (y !== this.#nil && node === y.left) {
+      node = y
+      y = y.parent
+    }
+    return y === this.#nil ? null : y
+  }
+
+  // Iteration
+  /** Iterate nodes in ascending order starting at `from` (default: first). */
+  public *ascend(
+    from: RBNode<K, V> | null = this.first(),
+  ): IterableIterator<RBNode<K, V>> {
+    let node = from
+    while (node !== null) {
+      // Read the successor first so the caller may delete `node`.
+      const next = this.successor(node)
+      yield node
+      node = next
+    }
+  }
+
+  /** Iterate nodes in descending order starting at `from` (default: last). */
+  public *descend(
+    from: RBNode<K, V> | null = this.last(),
+  ): IterableIterator<RBNode<K, V>> {
+    let node = from
+    while (node !== null) {
+      const next = this.predecessor(node)
+      yield node
+      node = next
+    }
+  }
+
+  // Mutation
+  /**
+   * Insert `key` -> `value`.
+   *
+   * With `unique` (default) an existing node with an equal key is returned
+   * untouched and `inserted` is `false`. Otherwise duplicates are allowed
+   * and the new node is placed after all equal keys, keeping insertion
+   * order among equals.
+   */
+  public insert(
+    key: K,
+    value: V,
+    unique = true,
+  ): { node: RBNode<K, V>; inserted: boolean } {
+    let y = this.#nil
+    let x = this.#root
+    let cmp = 0
+    while (x !== this.#nil) {
+      y = x
+      cmp = this.#compareFn(key, x.key)
+      if (cmp === 0 && unique) return { node: x, inserted: false }
+      x = cmp < 0 ? x.left : x.right
+    }
+
+    const z = new RBNode(key, value, this.#nil)
+    z.parent = y
+    if (y === this.#nil) this.#root = z
+    else if (cmp < 0) y.left = z
+    else y.right = z
+
+    this.#size++
+    this.#insertFixup(z)
+    return { node: z, inserted: true }
+  }
+
+  /** Remove `z` (which must belong to this tree). */
+  public remove(z: RBNode<K, V>): void {
+    const nil = this.#nil
+    let y = z
+    let yWasRed = y.red
+    let x: RBNode<K, V>
+
+    if (z.left === nil) {
+      x = z.right
+      this.#transplant(z, z.right)
+    } else if (z.right === nil) {
+      x = z.left
+      this.#transplant(z, z.left)
+    } else {
+      y = this.#min(z.right)
+      yWasRed = y.red
+      x = y.right
+      if (y.parent === z) {
+        x.parent = y
+      } else {
+        this.#transplant(y, y.right)
+        y.right = z.right
+        y.right.parent = y
+      }
+      this.#transplant(z, y)
+      y.left = z.left
+      y.left.parent = y
+      y.red = z.red
+    }
+
+    if (!yWasRed) this.#deleteFixup(x)
+    // The sentinel's parent may have been borrowed above.
+    nil.parent = nil
+
+    z.left = z.right = z.parent = nil
+    this.#size--
+  }
+
+  // Private helpers
+  #min(x: RBNode<K, V>): RBNode<K, V> {
+    while (x.left !== this.#nil) x = x.left
+    return x
+  }
+
+  #max(x: RBNode<K, V>): RBNode<K, V> {
+    while (x.right !== this.#nil) x = x.right
+    return x
+  }
+
+  #rotateLeft(x: RBNode<K, V>): void {
+    const y = x.right
+    x.right = y.left
+    if (y.left !== this.#nil) y.left.parent = x
+    y.parent = x.parent
+    if (x.parent === this.#nil) this.#root = y
+    else if (x === x.parent.left) x.parent.left = y
+    else x.parent.right = y
+    y.left = x
+    x.parent = y
+  }
+
+  #rotateRight(x: RBNode<K, V>): void {
+    const y = x.left
+    x.left = y.right
+    if (y.right !== this.#nil) y.right.parent = x
+    y.parent = x.parent
+    if (x.parent === this.#nil) this.#root = y
+    else if (x === x.parent.right) x.parent.right = y
+    else x.parent.left = y
+    y.right = x
+    x.parent = y
+  }
+
+  #insertFixup(z: RBNode<K, V>): void {
+    while (z.parent.red) {
+      const grand = z.parent.parent
+      if (z.parent === grand.left) {
+        const uncle = grand.right
+        if (uncle.red) {
+          z.parent.red = false
+          uncle.red = false
+          grand.red = true
+          z = grand
+        } else {
+          if (z === z.parent.right) {
+            z = z.parent
+            this.#rotateLeft(z)
+          }
+          z.parent.red = false
+          z.parent.parent.red = true
+          this.#rotateRight(z.parent.parent)
+        }
+      } else {
+        const uncle = grand.left
+        if (uncle.red) {
+          z.parent.red = false
+          uncle.red = false
+          grand.red = true
+          z = grand
+        } else {
+          if (z === z.parent.left) {
+            z = z.parent
+            this.#rotateRight(z)
+          }
+          z.parent.red = false
+          z.parent.parent.red = true
+          this.#rotateLeft(z.parent.parent)
+        }
+      }
+    }
+    this.#root.red = false
+  }
+
+  #transplant(u: RBNode<K, V>, v: RBNode<K, V>): void {
+    if (u.parent === this.#nil) this.#root = v
+    else if (u === u.parent.left) u.parent.left = v
+    else u.parent.right = v
+    v.parent = u.parent
+  }
+
+  #deleteFixup(x: RBNode<K, V>): void {
+    while (x !== this.#root && !x.red) {
+      if (x === x.parent.left) {
+        let w = x.parent.right
+        if (w.red) {
+          w.red = false
+          x.parent.red = true
+          this.#rotateLeft(x.parent)
+          w = x.parent.right
+        }
+        if (!w.left.red && !w.right.red) {
+          w.red = true
+          x = x.parent
+        } else {
+          if (!w.right.red) {
+            w.left.red = false
+            w.red = true
+            this.#rotateRight(w)
+            w = x.parent.right
+          }
+          w.red = x.parent.red
+          x.parent.red = false
+          w.right.red = false
+          this.#rotateLeft(x.parent)
+          x = this.#root
+        }
+      } else {
+        let w = x.parent.left
+        if (w.red) {
+          w.red = false
+          x.parent.red = true
+          this.#rotateRight(x.parent)
+          w = x.parent.left
+        }
+        if (!w.right.red && !w.left.red) {
+          w.red = true
+          x = x.parent
+        } else {
+          if (!w.left.red) {
+            w.right.red = false
+            w.red = true
+            this.#rotateLeft(w)
+            w = x.parent.left
+          }
+          w.red = x.parent.red
+          x.parent.red = false
+          w.left.red = false
+          this.#rotateRight(x.parent)
+          x = this.#root
+        }
+      }
+    }
+    x.red = false
+  }
+}
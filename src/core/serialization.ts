@@ -0,0 +1,84 @@
+/**
+ * Version of the JSON format written by `toJSON()`. Bump it when the shape
+ * of `SerializedContainer` changes; `fromJSON` rejects newer versions.
+ */
+export const SERIALIZATION_VERSION = 1
+
+/**
+ * JSON shape produced by `toJSON()` on every container.
+ *
+ * `type` is the container's class name (its `Symbol.toStringTag`) and
+ * `values` holds the elements in iteration order — `[key, value]` pairs
+ * for the map types, heap order for `PriorityQueue`.
+ */
+export interface SerializedContainer<T = unknown> {
+  type: string
+  version: number
+  values: T[]
+}
+
+export interface FromJSONOptions<T> {
+  /**
+   * Rebuild one element from its parsed JSON form, e.g. turn an ISO string
+   * back into a `Date`. Called once per element in `values` order.
+   */
+  reviveElement?: (value: unknown, index: number) => T
+}
+
+/**
+ * Build the serialized form of a container.
+ */
+export function serialize<T>(
+  type: string,
+  values: T[],
+): SerializedContainer<T> {
+  return { type, version: SERIALIZATION_VERSION, values }
+}
+
+/**
+ * Validate `json` (a string or an already parsed object) against the
+ * expected `type` tag and return its revived elements.
+ *
+ * @throws TypeError when `json` is malformed, has another type tag or
+ *   `reviveElement` is not a function.
+ * @throws RangeError when the format version is not supported.
+ */
+export function deserialize<T>(
+  type: string,
+  json: string | SerializedContainer,
+  { reviveElement }: FromJSONOptions<T> = {},
+): T[] {
+  if (reviveElement !== undefined && typeof reviveElement !== 'function') {
+    throw new TypeError(`${type}.fromJSON: reviveElement must be a function`)
+  }
+
+  const data: unknown = typeof json === 'string' ? JSON.parse(json) : json
+  if (data === null || typeof data !== 'object') {
+    throw new TypeError(`${type}.fromJSON: expected a serialized ${type}`)
+  }
+
+  const { type: tag, version, values } = data as Partial<SerializedContainer>
+  if (tag !== type) {
+    throw new TypeError(
+      `${type}.fromJSON: expected type "${type}" but got "${String(tag)}"`,
+    )
+  }
+  if (
+    typeof version !== 'number' ||
+    !Number.isInteger(version) ||
+    version < 1 ||
+    version > SERIALIZATION_VERSION
+  ) {
+    throw new RangeError(
+      `${type}.fromJSON: unsupported format version ${String(version)}`,
+    )
+  }
+  if (!Array.isArray(values)) {
+    throw new TypeError(`${type}.fromJSON: "values" must be an array`)
+  }
+
+  // Always return a fresh array: containers may adopt it as storage.
+  return reviveElement === undefined
+    ? (values.slice() as T[])
+    : values.map((value, index) => reviveElement(value, index))
+}
@@ -0,0 +1,198 @@
+/**
+ * UnionFind — the forest behind `DisjointSet` and `RollbackDisjointSet`.
+ *
+ * Elements are numbered in insertion order and kept in flat arrays;
+ * `parent[i] === i` marks a root. Unions link the smaller tree under the
+ * larger one (union by size), which also gives every set's size for free.
+ *
+ * With `rollback`, `find` skips path compression (it would rewrite links
+ * that `undo` needs) and every `add` and successful `union` is recorded,
+ * so operations can be undone in reverse order. Finds are then O(log n)
+ * instead of amortised O(α(n)).
+ */
+export class UnionFind<T> {
+  #index: Map<T, number>
+  #items: T[]
+  #parent: number[]
+  #size: number[]
+  #count: number
+  // Undo log: the root that was linked under another root for a union,
+  // or -1 for an `add`. `null` unless rollback is enabled.
+  #history: number[] | null
+
+  constructor(rollback = false) {
+    this.#index = new Map()
+    this.#items = []
+    this.#parent = []
+    this.#size = []
+    this.#count = 0
+    this.#history = rollback ? [] : null
+  }
+
+  public get size(): number {
+    return this.#items.length
+  }
+
+  /** Number of disjoint sets. */
+  public get count(): number {
+    return this.#count
+  }
+
+  /** Number of recorded operations (rollback mode only). */
+  public get historyLength(): number {
+    return this.#history?.length ?? 0
+  }
+
+  public item(i: number): T {
+    return this.#items[i]!
+  }
+
+  public indexOf(value: T): number | undefined {
+    return this.#index.get(value)
+  }
+
+  /** Index of `value`, adding it as a singleton set when new. */
+  public add(value: T): { index: number; added: boolean } {
+    const existing = this.#index.get(value)
+    if (existing !== undefined) return { index: existing, added: false }
+    const index = this.#items.push(value) - 1
+    this.#index.set(value, index)
+    this.#parent.push(index)
+    this.#size.push(1)
+    this.#count++
+    this.#history?.push(-1)
+    return { index, added: true }
+  }
+
+  /** Root of the tree holding element `i`. */
+  public find(i: number): number {
+    const parent = this.#parent
+    let root = i
+    while (parent[root] !== root) root = parent[root]!
+    if (this.#history === null) {
+      // Path compression: point every node on the way straight at the root.
+      while (parent[i] !== root) {
+        const next = parent[i]!
+        parent[i] = root
+        i = next
+      }
+    }
+    return root
+  }
+
+  /** Merge the sets of `a` and `b`; `false` when already together. */
+  public union(a: number, b: number): boolean {
+    let rootA = this.find(a)
+    let rootB = this.find(b)
+    if (rootA === rootB) return false
+    if (this.#size[rootA]! < this.#size[rootB]!) {
+      ;[rootA, rootB] = [rootB, rootA]
+    }
+    this.#parent[rootB] = rootA
+    this.#size[rootA]! += this.#size[rootB]!
+    this.#count--
+    this.#history?.push(rootB)
+    return true
+  }
+
+  public setSize(i: number): number {
+    return this.#size[this.find(i)]!
+  }
+
+  /** Members of every set, grouped in order of their first element. */
+  public components(): T[][] {
+    const groups = new Map<number, T[]>()
+    for (let i = 0; i < this.#items.length; i++) {
+      const root = this.find(i)
+      let group = groups.get(root)
+      if (group === undefined) {
+        group = []
+        groups.set(root, group)
+      }
+      group.push(this.#items[i]!)
+    }
+    return [...groups.values()]
+  }
+
+  /**
+   * Every element in insertion order, paired with the index of the first
+   * element of its set. This is the serialized form of the forest.
+   */
+  public snapshot(): [T, number][] {
+    const first = new Map<number, number>()
+    const pairs: [T, number][] = []
+    for (let i = 0; i < this.#items.length; i++) {
+      const root = this.find(i)
+      let head = first.get(root)
+      if (head === undefined) {
+        head = i
+        first.set(root, head)
+      }
+      pairs.push([this.#items[i]!, head])
+    }
+    return pairs
+  }
+
+  /**
+   * Add the elements of `snapshot()` output in order, joining each to the
+   * set of the pair it points at.
+   *
+   * @throws TypeError when a pair is malformed or points past itself.
+   */
+  public restore(pairs: unknown[], type: string): void {
+    const indices: number[] = []
+    pairs.forEach((pair, i) => {
+      const head: unknown = Array.isArray(pair) ? pair[1] : undefined
+      if (
+        !Array.isArray(pair) ||
+        pair.length !== 2 ||
+        typeof head !== 'number' ||
+        !Number.isInteger(head) ||
+        head < 0 ||
+        head > i
+      ) {
+        throw new TypeError(
+          `${type}.fromJSON: expected [element, set index] pairs`,
+        )
+      }
+      const { index } = this.add(pair[0] as T)
+      indices.push(index)
+      if (head !== i) this.union(indices[head]!, index)
+    })
+  }
+
+  /** Revert the most recent recorded operation; `false` when none. */
+  public undo(): boolean {
+    const entry = this.#history?.pop()
+    if (entry === undefined) return false
+    if (entry === -1) {
+      this.#index.delete(this.#items.pop()!)
+      this.#parent.pop()
+      this.#size.pop()
+    } else {
+      const root = this.#parent[entry]!
+      this.#size[root]! -= this.#size[entry]!
+      this.#parent[entry] = entry
+    }
+    this.#count += entry === -1 ? -1 : 1
+    return true
+  }
+
+  public clear(): void {
+    this.#index.clear()
+    this.#items = []
+    this.#parent = []
+    this.#size = []
+    this.#count = 0
+    this.clearHistory()
+  }
+
+  /** Forget recorded operations; they can no longer be undone. */
+  public clearHistory(): void {
+    if (this.#history !== null) this.#history = []
+  }
+
+  public *[Symbol.iterator](): IterableIterator<T> {
+    yield* this.#items
+  }
+}
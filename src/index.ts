@@ -10,4 +10,66 @@ export * from '@/core/list-node'
 
 export * from '@/structures/vector'
 
+export * from '@/structures/typed-vector'
+
 export * from '@/structures/priority-queue'
+
+export * from '@/structures/min-max-heap'
+
+export * from '@/core/container'
+
+export * from '@/structures/tree-map'
+
+export * from '@/structures/tree-set'
+
+export * from '@/structures/hash-map'
+
+export * from '@/structures/hash-set'
+
+export * from '@/structures/graph'
+
+export * from '@/algorithms/graph'
+
+export * from '@/algorithms/sort'
+
+export * from '@/algorithms/pipeline'
+
+export * from '@/core/serialization'
+
+export * from '@/core/events'
+
+export * from '@/structures/persistent-stack'
+
+export * from '@/structures/persistent-vector'
+
+export * from '@/structures/persistent-map'
+
+export * from '@/structures/channel'
+
+export type { MultiMap, MultiSet } from '@/core/multi-container'
+
+export * from '@/structures/tree-multiset'
+
+export * from '@/structures/hash-multiset'
+
+export * from '@/structures/tree-multimap'
+
+export * from '@/structures/hash-multimap'
+
+export * from '@/structures/trie'
+
+export * from '@/structures/disjoint-set'
+
+export * from '@/structures/rollback-disjoint-set'
+
+export * from '@/structures/bitset'
+
+export * from '@/structures/fenwick-tree'
+
+export * from '@/structures/segment-tree'
+
+export type { Cache, CacheOptions } from '@/core/cache'
+
+export * from '@/structures/lru-cache'
+
+export * from '@/structures/lfu-cache'
@@ -0,0 +1,526 @@
+import {
+  deserialize,
+  serialize,
+  type SerializedContainer,
+} from '@/core/serialization'
+
+interface BitsetOptions {
+  initValues?: boolean[]
+  size?: number
+}
+
+// Bits per storage word.
+const WORD = 32
+
+function wordCount(size: number): number {
+  return (size + WORD - 1) >>> 5
+}
+
+function popcount(word: number): number {
+  word -= (word >>> 1) & 0x55555555
+  word = (word & 0x33333333) + ((word >>> 2) & 0x33333333)
+  word = (word + (word >>> 4)) & 0x0f0f0f0f
+  return Math.imul(word, 0x01010101) >>> 24
+}
+
+// Index of the lowest set bit of a non-zero word.
+function lowestBit(word: number): number {
+  return 31 - Math.clz32(word & -word)
+}
+
+/**
+ * Bitset — a resizable sequence of bits packed 32 to a word in a
+ * `Uint32Array`, like `boost::dynamic_bitset`.
+ *
+ * Bit `i` lives in word `i >>> 5` at position `i & 31`. Whole-set
+ * operations (`count`, `any`, `findNext`, the bitwise operators and the
+ * shifts) work a word at a time, so they cost O(n / 32). The bits past
+ * `size()` in the last word are always zero, which keeps those loops free
+ * of special cases.
+ *
+ * Iteration yields each bit as a boolean from index 0 up. Binary strings
+ * (`toString`, `fromString`) put the highest index first, as
+ * `std::bitset` does, so `'100'` is a bitset of size 3 with only bit 2
+ * set.
+ *
+ * The bitwise operators and shifts modify the bitset in place and return
+ * it; use `clone()` first to keep the original.
+ */
+export class Bitset implements Iterable<boolean> {
+  #words: Uint32Array
+  #size: number
+
+  /**
+   * Create a new `Bitset`.
+   *
+   * @param options.initValues - Optional initial bits, index 0 first.
+   * @param options.size - Number of bits, all zero, when `initValues` is
+   *   not given.
+   * @throws TypeError when `initValues` is not an array.
+   * @throws RangeError when `size` is not a non-negative integer.
+   */
+  constructor({ initValues, size = 0 }: BitsetOptions = {}) {
+    if (initValues !== undefined && !Array.isArray(initValues)) {
+      throw new TypeError('Expected an array to initialize the Bitset.')
+    }
+    if (initValues === undefined) assertCount('Bitset size', size)
+    this.#size = initValues?.length ?? size
+    this.#words = new Uint32Array(wordCount(this.#size))
+    if (initValues !== undefined) {
+      for (let i = 0; i < initValues.length; i++) {
+        if (initValues[i]) this.#words[i >>> 5]! |= 1 << (i & 31)
+      }
+    }
+  }
+
+  /**
+   * Parse a binary string, highest index first: `'0110'` has size 4 with
+   * bits 1 and 2 set.
+   *
+   * Complexity: O(n)
+   * @throws TypeError when `bits` holds anything but `'0'` and `'1'`.
+   */
+  public static fromString(bits: string): Bitset {
+    if (typeof bits !== 'string' || !/^[01]*$/.test(bits)) {
+      throw new TypeError("Bitset.fromString: expected a string of '0' and '1'")
+    }
+    const bitset = new Bitset({ size: bits.length })
+    const last = bits.length - 1
+    for (let i = 0; i <= last; i++) {
+      if (bits[last - i] === '1') bitset.#words[i >>> 5]! |= 1 << (i & 31)
+    }
+    return bitset
+  }
+
+  #assertIndex(index: number): void {
+    if (!Number.isInteger(index) || index < 0 || index >= this.#size) {
+      throw new RangeError('Invalid index to access')
+    }
+  }
+
+  #assertSameSize(other: Bitset, method: string): void {
+    if (!(other instanceof Bitset)) {
+      throw new TypeError(`Bitset.${method}: expected a Bitset`)
+    }
+    if (other.#size !== this.#size) {
+      throw new RangeError(
+        `Bitset.${method}: sizes differ (${this.#size} and ${other.#size})`,
+      )
+    }
+  }
+
+  // Zero the bits past `#size` in the last word.
+  #trim(): void {
+    const tail = this.#size & 31
+    if (tail !== 0) this.#words[this.#size >>> 5]! &= (1 << tail) - 1
+  }
+
+  // Make room for `size` bits, doubling the storage when it grows.
+  #ensureWords(size: number): void {
+    const needed = wordCount(size)
+    if (needed <= this.#words.length) return
+    const next = new Uint32Array(Math.max(needed, this.#words.length * 2))
+    next.set(this.#words)
+    this.#words = next
+  }
+
+  /**
+   * Iterate the bits as booleans, index 0 first.
+   */
+  *[Symbol.iterator](): IterableIterator<boolean> {
+    for (let i = 0; i < this.#size; i++) {
+      yield (this.#words[i >>> 5]! & (1 << (i & 31))) !== 0
+    }
+  }
+
+  /**
+   * Return whether bit `index` is set.
+   *
+   * Complexity: O(1)
+   * @throws RangeError when `index` is out of bounds.
+   */
+  public test(index: number): boolean {
+    this.#assertIndex(index)
+    return (this.#words[index >>> 5]! & (1 << (index & 31))) !== 0
+  }
+
+  /**
+   * Set bit `index` to `value` (`true` by default), or set every bit when
+   * called without arguments.
+   *
+   * Complexity: O(1) for one bit, O(n / 32) for all
+   * @throws RangeError when `index` is out of bounds.
+   */
+  public set(index?: number, value = true): this {
+    if (index === undefined) {
+      this.#words.fill(0xffffffff, 0, wordCount(this.#size))
+      this.#trim()
+      return this
+    }
+    this.#assertIndex(index)
+    const mask = 1 << (index & 31)
+    if (value) this.#words[index >>> 5]! |= mask
+    else this.#words[index >>> 5]! &= ~mask
+    return this
+  }
+
+  /**
+   * Clear bit `index`, or every bit when called without arguments.
+   *
+   * Complexity: O(1) for one bit, O(n / 32) for all
+   * @throws RangeError when `index` is out of bounds.
+   */
+  public reset(index?: number): this {
+    if (index === undefined) {
+      this.#words.fill(0)
+      return this
+    }
+    return this.set(index, false)
+  }
+
+  /**
+   * Toggle bit `index`, or every bit when called without arguments.
+   *
+   * Complexity: O(1) for one bit, O(n / 32) for all
+   * @throws RangeError when `index` is out of bounds.
+   */
+  public flip(index?: number): this {
+    if (index === undefined) return this.not()
+    this.#assertIndex(index)
+    this.#words[index >>> 5]! ^= 1 << (index & 31)
+    return this
+  }
+
+  /**
+   * Number of set bits.
+   *
+   * Complexity: O(n / 32)
+   */
+  public count(): number {
+    let total = 0
+    for (const word of this.#words) total += popcount(word)
+    return total
+  }
+
+  /**
+   * Whether at least one bit is set.
+   *
+   * Complexity: O(n / 32)
+   */
+  public any(): boolean {
+    return this.#words.some((word) => word !== 0)
+  }
+
+  /**
+   * Whether no bit is set; `true` for an empty bitset.
+   *
+   * Complexity: O(n / 32)
+   */
+  public none(): boolean {
+    return !this.any()
+  }
+
+  /**
+   * Whether every bit is set; `true` for an empty bitset.
+   *
+   * Complexity: O(n / 32)
+   */
+  public all(): boolean {
+    return this.count() === this.#size
+  }
+
+  /**
+   * Index of the lowest set bit, or -1 when none is set.
+   *
+   * Complexity: O(n / 32)
+   */
+  public findFirst(): number {
+    return this.findNext(-1)
+  }
+
+  /**
+   * Index of the lowest set bit above `index`, or -1 when there is none.
+   * Loop with `for (let i = b.findFirst(); i !== -1; i = b.findNext(i))`
+   * to visit every set bit.
+   *
+   * Complexity: O(n / 32)
+   * @throws RangeError when `index` is not an integer of at least -1.
+   */
+  public findNext(index: number): number {
+    if (!Number.isInteger(index) || index < -1) {
+      throw new RangeError('Invalid index to access')
+    }
+    const start = index + 1
+    if (start >= this.#size) return -1
+    let w = start >>> 5
+    let word = this.#words[w]! & (~0 << (start & 31))
+    const words = wordCount(this.#size)
+    while (word === 0) {
+      if (++w >= words) return -1
+      word = this.#words[w]!
+    }
+    return (w << 5) + lowestBit(word)
+  }
+
+  /**
+   * Keep only the bits also set in `other` (`this &= other`).
+   *
+   * Complexity: O(n / 32)
+   * @throws TypeError when `other` is not a `Bitset`.
+   * @throws RangeError when the sizes differ.
+   */
+  public and(other: Bitset): this {
+    this.#assertSameSize(other, 'and')
+    for (let i = 0; i < wordCount(this.#size); i++) {
+      this.#words[i]! &= other.#words[i]!
+    }
+    return this
+  }
+
+  /**
+   * Also set the bits set in `other` (`this |= other`).
+   *
+   * Complexity: O(n / 32)
+   * @throws TypeError when `other` is not a `Bitset`.
+   * @throws RangeError when the sizes differ.
+   */
+  public or(other: Bitset): this {
+    this.#assertSameSize(other, 'or')
+    for (let i = 0; i < wordCount(this.#size); i++) {
+      this.#words[i]! |= other.#words[i]!
+    }
+    return this
+  }
+
+  /**
+   * Toggle the bits set in `other` (`this ^= other`).
+   *
+   * Complexity: O(n / 32)
+   * @throws TypeError when `other` is not a `Bitset`.
+   * @throws RangeError when the sizes differ.
+   */
+  public xor(other: Bitset): this {
+    this.#assertSameSize(other, 'xor')
+    for (let i = 0; i < wordCount(this.#size); i++) {
+      this.#words[i]! ^= other.#words[i]!
+    }
+    return this
+  }
+
+  /**
+   * Toggle every bit (`this = ~this`).
+   *
+   * Complexity: O(n / 32)
+   */
+  public not(): this {
+    for (let i = 0; i < wordCount(this.#size); i++) {
+      this.#words[i] = ~this.#words[i]!
+    }
+    this.#trim()
+    return this
+  }
+
+  /**
+   * Move every bit `count` positions towards higher indices, like `<<`.
+   * Bits shifted past the end are dropped and zeros come in at index 0;
+   * the size does not change.
+   *
+   * Complexity: O(n / 32)
+   * @throws RangeError when `count` is not a non-negative integer.
+   */
+  public shiftLeft(count: number): this {
+    assertCount('Shift count', count)
+    const words = wordCount(this.#size)
+    const wordShift = count >>> 5
+    const bitShift = count & 31
+    if (count >= this.#size) return this.reset()
+    for (let i = words - 1; i >= 0; i--) {
+      const src = i - wordShift
+      let word = src >= 0 ? this.#words[src]! << bitShift : 0
+      if (bitShift !== 0 && src > 0) {
+        word |= this.#words[src - 1]! >>> (WORD - bitShift)
+      }
+      this.#words[i] = word
+    }
+    this.#trim()
+    return this
+  }
+
+  /**
+   * Move every bit `count` positions towards index 0, like `>>>`. Bits
+   * shifted below index 0 are dropped and zeros come in at the top; the
+   * size does not change.
+   *
+   * Complexity: O(n / 32)
+   * @throws RangeError when `count` is not a non-negative integer.
+   */
+  public shiftRight(count: number): this {
+    assertCount('Shift count', count)
+    const words = wordCount(this.#size)
+    const wordShift = count >>> 5
+    const bitShift = count & 31
+    if (count >= this.#size) return this.reset()
+    for (let i = 0; i < words; i++) {
+      const src = i + wordShift
+      let word = src < words ? this.#words[src]! >>> bitShift : 0
+      if (bitShift !== 0 && src + 1 < words) {
+        word |= this.#words[src + 1]! << (WORD - bitShift)
+      }
+      this.#words[i] = word
+    }
+    return this
+  }
+
+  /**
+   * Change the number of bits to `size`. New bits are set to `value`
+   * (`false` by default); bits past the new size are dropped.
+   *
+   * Complexity: O(|size - length| / 32), plus a copy when the storage
+   * grows.
+   * @throws RangeError when `size` is not a non-negative integer.
+   */
+  public resize(size: number, value = false): void {
+    assertCount('Bitset size', size)
+    const oldSize = this.#size
+    if (size < oldSize) {
+      this.#size = size
+      this.#words.fill(0, wordCount(size), wordCount(oldSize))
+      this.#trim()
+      return
+    }
+    this.#ensureWords(size)
+    this.#size = size
+    if (!value || size === oldSize) return
+    // Fill the rest of the old last word, then whole words.
+    const firstWord = wordCount(oldSize)
+    if ((oldSize & 31) !== 0)
+      this.#words[oldSize >>> 5]! |= ~0 << (oldSize & 31)
+    this.#words.fill(0xffffffff, firstWord, wordCount(size))
+    this.#trim()
+  }
+
+  /**
+   * Append one bit at index `length`.
+   *
+   * Complexity: amortised O(1)
+   */
+  public pushBack(value: boolean): void {
+    this.#ensureWords(this.#size + 1)
+    const index = this.#size++
+    if (value) this.#words[index >>> 5]! |= 1 << (index & 31)
+  }
+
+  /**
+   * Remove and return the highest bit, or `undefined` when empty.
+   *
+   * Complexity: O(1)
+   */
+  public popBack(): boolean | undefined {
+    if (this.#size === 0) return undefined
+    const bit = this.test(this.#size - 1)
+    this.resize(this.#size - 1)
+    return bit
+  }
+
+  /**
+   * Return a copy with the same bits.
+   *
+   * Complexity: O(n / 32)
+   */
+  public clone(): Bitset {
+    const copy = new Bitset()
+    copy.#words = this.#words.slice(0, wordCount(this.#size))
+    copy.#size = this.#size
+    return copy
+  }
+
+  /**
+   * Whether `other` is a `Bitset` of the same size with the same bits.
+   *
+   * Complexity: O(n / 32)
+   */
+  public equals(other: Bitset): boolean {
+    if (!(other instanceof Bitset) || other.#size !== this.#size) return false
+    for (let i = 0; i < wordCount(this.#size); i++) {
+      if (this.#words[i] !== other.#words[i]) return false
+    }
+    return true
+  }
+
+  /**
+   * Remove every bit; `size()` becomes 0.
+   */
+  public clear(): void {
+    this.#words = new Uint32Array(0)
+    this.#size = 0
+  }
+
+  public isEmpty(): boolean {
+    return this.#size === 0
+  }
+
+  /**
+   * Number of bits, set or not. Use `count()` for the set ones.
+   */
+  public size(): number {
+    return this.#size
+  }
+
+  /**
+   * Return the bits as booleans, index 0 first.
+   */
+  public toArray(): boolean[] {
+    return [...this]
+  }
+
+  /**
+   * Return the bits as a binary string, highest index first.
+   *
+   * Complexity: O(n)
+   */
+  public toString(): string {
+    let bits = ''
+    for (let i = this.#size - 1; i >= 0; i--) {
+      bits += this.#words[i >>> 5]! & (1 << (i & 31)) ? '1' : '0'
+    }
+    return bits
+  }
+
+  /**
+   * Return a tagged, versioned snapshot used by `JSON.stringify`; `values`
+   * holds a single binary string as produced by `toString()`.
+   */
+  public toJSON(): SerializedContainer<string> {
+    return serialize('Bitset', [this.toString()])
+  }
+
+  /**
+   * Rebuild a `Bitset` from the output of `toJSON()`, either as the
+   * object itself or as a JSON string.
+   *
+   * @throws TypeError when `json` is not a serialized `Bitset`.
+   * @throws RangeError when the format version is not supported.
+   */
+  public static fromJSON(json: string | SerializedContainer): Bitset {
+    const values = deserialize<string>('Bitset', json)
+    if (values.length !== 1) {
+      throw new TypeError('Bitset.fromJSON: expected a serialized Bitset')
+    }
+    return Bitset.fromString(values[0]!)
+  }
+
+  // Getter
+  public get length(): number {
+    return this.#size
+  }
+
+  public get [Symbol.toStringTag](): string {
+    return 'Bitset'
+  }
+}
+
+function assertCount(label: string, count: number): void {
+  if (!Number.isInteger(count) || count < 0) {
+    throw new RangeError(`${label} must be a non-negative integer`)
+  }
+}
@@ -0,0 +1,451 @@
+import { ListNode } from '@/core/list-node'
+import { Queue } from '@/structures/queue'
+
+interface ChannelOptions {
+  capacity?: number
+}
+
+interface WaitOptions {
+  /** Abort the wait; the promise rejects with `signal.reason`. */
+  signal?: AbortSignal
+}
+
+/**
+ * One case of a `select` call: receive from a channel, or send `value`
+ * to it.
+ */
+export type SelectCase<T> =
+  | { receive: Channel<T> }
+  | { send: Channel<T>; value: T }
+
+/**
+ * Outcome of `select`: which case ran and, for a receive case, the value.
+ * `ok` is `false` when the receive case fired because its channel was
+ * closed and drained (`value` is then `undefined`).
+ */
+export interface SelectResult<T> {
+  index: number
+  value: T | undefined
+  ok: boolean
+}
+
+type ReceiveResult<T> = { value: T; ok: true } | { value: undefined; ok: false }
+
+// A blocked operation. `token` is shared by all cases of one `select`, so
+// whichever channel fires first wins. Settling the token (a case fires or
+// the wait is aborted) unlinks every entry it still has in a wait list.
+interface Token {
+  done: boolean
+  unlinks: (() => void)[]
+}
+
+interface PendingSend<T> {
+  token: Token
+  value: T
+  resolve(): void
+  reject(error: Error): void
+}
+
+interface PendingReceive<T> {
+  token: Token
+  resolve(result: ReceiveResult<T>): void
+}
+
+function newToken(): Token {
+  return { done: false, unlinks: [] }
+}
+
+function settle(token: Token): void {
+  token.done = true
+  for (const unlink of token.unlinks) unlink()
+  token.unlinks.length = 0
+}
+
+// FIFO of blocked operations. Unlike a `Queue`, an entry can leave from
+// the middle in O(1), so aborted waits and losing `select` cases are
+// dropped as soon as their token settles instead of lingering with their
+// closures until the channel is used again.
+class WaitList<P extends { token: Token }> {
+  #head: ListNode<P> | null = null
+  #tail: ListNode<P> | null = null
+  #length = 0
+
+  get length(): number {
+    return this.#length
+  }
+
+  push(entry: P): void {
+    const node = new ListNode(entry, this.#tail)
+    if (this.#tail) this.#tail.next = node
+    else this.#head = node
+    this.#tail = node
+    this.#length++
+    entry.token.unlinks.push(() => this.#unlink(node))
+  }
+
+  // Remove and return the longest-waiting entry.
+  shift(): P | undefined {
+    if (this.#head === null) return undefined
+    const entry = this.#head.val
+    this.#unlink(this.#head)
+    return entry
+  }
+
+  #unlink(node: ListNode<P>): void {
+    // Already removed: `cleanup` cleared the value.
+    if (node.val === null) return
+    if (node.prev) node.prev.next = node.next
+    else this.#head = node.next
+    if (node.next) node.next.prev = node.prev
+    else this.#tail = node.prev
+    node.cleanup()
+    this.#length--
+  }
+}
+
+function closedError(): Error {
+  return new Error('Channel is closed')
+}
+
+// Run `onAbort` if `signal` fires before `token` settles. Returns a
+// function that detaches the listener.
+function watchAbort(
+  signal: AbortSignal | undefined,
+  token: Token,
+  onAbort: (reason: unknown) => void,
+): () => void {
+  if (signal === undefined) return () => {}
+  const listener = () => {
+    if (token.done) return
+    settle(token)
+    onAbort(signal.reason)
+  }
+  signal.addEventListener('abort', listener, { once: true })
+  return () => signal.removeEventListener('abort', listener)
+}
+
+/**
+ * Channel — a Go-style channel for passing values between async tasks,
+ * backed by `Queue`.
+ *
+ * `send` and `receive` return promises that settle when the operation can
+ * complete, so producers and consumers never need to poll:
+ * - With `capacity` 0 (the default) the channel is unbuffered: `send`
+ *   waits until a receiver takes the value.
+ * - With `capacity` n, up to n values are buffered and `send` only waits
+ *   when the buffer is full.
+ *
+ * `close()` stops further sends. Values already buffered can still be
+ * received; after that, `receive` rejects and `for await` loops end.
+ * Waiting operations are served in FIFO order.
+ *
+ * Use `select` to wait on several channels at once, and an `AbortSignal`
+ * (e.g. `AbortSignal.timeout(ms)`) to give up on a wait.
+ *
+ * Type parameters:
+ * - T: value type carried by the channel
+ */
+export class Channel<T> implements AsyncIterable<T> {
+  #buffer: Queue<T>
+  #senders: WaitList<PendingSend<T>>
+  #receivers: WaitList<PendingReceive<T>>
+  #capacity: number
+  #closed: boolean
+
+  /**
+   * Create a new `Channel`.
+   *
+   * @param options.capacity - Number of values buffered without a waiting
+   *   receiver. `0` (default) makes an unbuffered channel; `Infinity`
+   *   never blocks senders.
+   * @throws RangeError when `capacity` is not a non-negative integer or
+   *   `Infinity`.
+   */
+  constructor({ capacity = 0 }: ChannelOptions = {}) {
+    if (
+      capacity !== Infinity &&
+      (!Number.isInteger(capacity) || capacity < 0)
+    ) {
+      throw new RangeError('Channel capacity must be a non-negative integer')
+    }
+    this.#capacity = capacity
+    this.#closed = false
+    this.#buffer = new Queue<T>()
+    this.#senders = new WaitList<PendingSend<T>>()
+    this.#receivers = new WaitList<PendingReceive<T>>()
+  }
+
+  /**
+   * Receive values until the channel is closed and drained.
+   *
+   * Example: `for await (const job of jobs) { ... }`
+   */
+  async *[Symbol.asyncIterator](): AsyncIterableIterator<T> {
+    for (;;) {
+      const result = await this.#receive(undefined)
+      if (!result.ok) return
+      yield result.value
+    }
+  }
+
+  // Complete a send without waiting, if possible.
+  #trySend(value: T): boolean {
+    const receiver = this.#receivers.shift()
+    if (receiver !== undefined) {
+      settle(receiver.token)
+      receiver.resolve({ value, ok: true })
+      return true
+    }
+    if (this.#buffer.length < this.#capacity) {
+      this.#buffer.push(value)
+      return true
+    }
+    return false
+  }
+
+  // Complete a receive without waiting, if possible; `null` means the
+  // caller would have to wait.
+  #tryReceive(): ReceiveResult<T> | null {
+    if (!this.#buffer.isEmpty()) {
+      const value = this.#buffer.pop()
+      // A slot opened up: let the longest-waiting sender fill it.
+      const sender = this.#senders.shift()
+      if (sender !== undefined) {
+        settle(sender.token)
+        this.#buffer.push(sender.value)
+        sender.resolve()
+      }
+      return { value, ok: true }
+    }
+    const sender = this.#senders.shift()
+    if (sender !== undefined) {
+      settle(sender.token)
+      sender.resolve()
+      return { value: sender.value, ok: true }
+    }
+    if (this.#closed) return { value: undefined, ok: false }
+    return null
+  }
+
+  #receive(signal: AbortSignal | undefined): Promise<ReceiveResult<T>> {
+    if (signal?.aborted) return Promise.reject(signal.reason)
+    const ready = this.#tryReceive()
+    if (ready !== null) return Promise.resolve(ready)
+
+    return new Promise((resolve, reject) => {
+      const token = newToken()
+      const unwatch = watchAbort(signal, token, reject)
+      this.#receivers.push({
+        token,
+        resolve: (result) => {
+          unwatch()
+          resolve(result)
+        },
+      })
+    })
+  }
+
+  /**
+   * Send `value`, waiting while the channel is unbuffered or full.
+   *
+   * Complexity: O(1) amortised.
+   *
+   * @param options.signal - Optional `AbortSignal`; aborting before the
+   *   value is taken cancels the send.
+   * @throws Error (rejects) when the channel is closed, or becomes closed
+   *   while waiting.
+   */
+  public send(value: T, { signal }: WaitOptions = {}): Promise<void> {
+    if (this.#closed) return Promise.reject(closedError())
+    if (signal?.aborted) return Promise.reject(signal.reason)
+    if (this.#trySend(value)) return Promise.resolve()
+
+    return new Promise((resolve, reject) => {
+      const token = newToken()
+      const unwatch = watchAbort(signal, token, reject)
+      this.#senders.push({
+        token,
+        value,
+        resolve: () => {
+          unwatch()
+          resolve()
+        },
+        reject: (error) => {
+          unwatch()
+          reject(error)
+        },
+      })
+    })
+  }
+
+  /**
+   * Receive the next value, waiting until one is available.
+   *
+   * Complexity: O(1) amortised.
+   *
+   * @param options.signal - Optional `AbortSignal` to stop waiting.
+   * @throws Error (rejects) when the channel is closed and drained.
+   */
+  public async receive({ signal }: WaitOptions = {}): Promise<T> {
+    const result = await this.#receive(signal)
+    if (!result.ok) throw closedError()
+    return result.value
+  }
+
+  /**
+   * Close the channel. Buffered values stay receivable; waiting receivers
+   * are woken once it is drained and waiting senders are rejected.
+   * Closing an already closed channel does nothing.
+   */
+  public close(): void {
+    if (this.#closed) return
+    this.#closed = true
+
+    for (
+      let sender = this.#senders.shift();
+      sender !== undefined;
+      sender = this.#senders.shift()
+    ) {
+      settle(sender.token)
+      sender.reject(closedError())
+    }
+    // Receivers only wait when the buffer is empty, so they all see the
+    // end of the channel now.
+    for (
+      let receiver = this.#receivers.shift();
+      receiver !== undefined;
+      receiver = this.#receivers.shift()
+    ) {
+      settle(receiver.token)
+      receiver.resolve({ value: undefined, ok: false })
+    }
+  }
+
+  // Getter
+  /** `true` once `close()` has been called. */
+  public get closed(): boolean {
+    return this.#closed
+  }
+
+  /** Buffer size given at construction. */
+  public get capacity(): number {
+    return this.#capacity
+  }
+
+  /** Number of `send` calls and `select` send cases waiting here. */
+  public get waitingSenders(): number {
+    return this.#senders.length
+  }
+
+  /** Number of `receive` calls and `select` receive cases waiting here. */
+  public get waitingReceivers(): number {
+    return this.#receivers.length
+  }
+
+  /** Number of values currently buffered. */
+  public get length(): number {
+    return this.#buffer.length
+  }
+
+  public get [Symbol.toStringTag](): string {
+    return 'Channel'
+  }
+
+  // Static method
+  /**
+   * Wait until one of `cases` can proceed and run exactly that one
+   * (Go's `select`). When several are ready at once, the first in `cases`
+   * order wins, so list higher-priority channels first.
+   *
+   * A receive case on a closed, drained channel is ready and reports
+   * `ok: false`.
+   *
+   * @param options.signal - Optional `AbortSignal`, e.g.
+   *   `AbortSignal.timeout(ms)`; when it fires first, no case runs and the
+   *   promise rejects with `signal.reason`.
+   * @returns The index of the case that ran and, for receives, its value.
+   * @throws TypeError (rejects) when `cases` is empty or malformed.
+   * @throws Error (rejects) when a send case targets a closed channel.
+   */
+  public static select<T>(
+    cases: readonly SelectCase<T>[],
+    { signal }: WaitOptions = {},
+  ): Promise<SelectResult<T>> {
+    if (!Array.isArray(cases) || cases.length === 0) {
+      return Promise.reject(
+        new TypeError('select: expected a non-empty array of cases'),
+      )
+    }
+    for (const c of cases) {
+      const channel = 'send' in c ? c.send : c.receive
+      if (!(channel instanceof Channel)) {
+        return Promise.reject(
+          new TypeError('select: each case needs a Channel'),
+        )
+      }
+    }
+    if (signal?.aborted) return Promise.reject(signal.reason)
+
+    // Run the first case that can proceed right away.
+    for (let index = 0; index < cases.length; index++) {
+      const c = cases[index]!
+      if ('send' in c) {
+        if (c.send.#closed) return Promise.reject(closedError())
+        if (c.send.#trySend(c.value)) {
+          return Promise.resolve({ index, value: undefined, ok: true })
+        }
+      } else {
+        const ready = c.receive.#tryReceive()
+        if (ready !== null) return Promise.resolve({ index, ...ready })
+      }
+    }
+
+    // Otherwise wait on all of them with one shared token.
+    return new Promise((resolve, reject) => {
+      const token = newToken()
+      const unwatch = watchAbort(signal, token, reject)
+      cases.forEach((c, index) => {
+        if ('send' in c) {
+          c.send.#senders.push({
+            token,
+            value: c.value,
+            resolve: () => {
+              unwatch()
+              resolve({ index, value: undefined, ok: true })
+            },
+            reject: (error: Error) => {
+              unwatch()
+              reject(error)
+            },
+          })
+        } else {
+          c.receive.#receivers.push({
+            token,
+            resolve: (result: ReceiveResult<T>) => {
+              unwatch()
+              resolve({ index, ...result })
+            },
+          })
+        }
+      })
+    })
+  }
+}
+
+/**
+ * Wait on several channel operations at once; see `Channel.select`.
+ *
+ * Example:
+ * ```ts
+ * const { index, value } = await select(
+ *   [{ receive: jobs }, { receive: quit }],
+ *   { signal: AbortSignal.timeout(1000) },
+ * )
+ * ```
+ */
+export function select<T>(
+  cases: readonly SelectCase<T>[],
+  options?: WaitOptions,
+): Promise<SelectResult<T>> {
+  return Channel.select(cases, options)
+}
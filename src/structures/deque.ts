@@ -1,4 +1,15 @@
-import { ListNode } from '@/core/list-node'
+import { BaseContainer } from '@/core/container'
+import {
+  ChangeObservers,
+  type ChangeEventOf,
+  type ChangeListener,
+  type ChangeType,
+} from '@/core/events'
+import {
+  deserialize,
+  type FromJSONOptions,
+  type SerializedContainer,
+} from '@/core/serialization'
 
 type Factory<T, A extends unknown[]> = (...args: A) => T
 
@@ -7,14 +18,35 @@ interface DequeOptions<T, A extends unknown[]> {
   factory?: Factory<T, A>
 }
 
-export class Deque<T, A extends unknown[] = [T]> {
-  #head: ListNode<T> | null
-  #tail: ListNode<T> | null
+// Smallest buffer size; capacities are always a power of two so that
+// physical indices can be wrapped with a bit mask.
+const MIN_CAPACITY = 8
+
+/**
+ * Deque — a double-ended queue backed by a growable circular buffer.
+ *
+ * Elements live in a flat array whose logical start (`#head`) moves around
+ * the ring, so both ends can grow and shrink without shifting elements.
+ *
+ * Performance:
+ * - `pushFront` / `pushBack` / `popFront` / `popBack` are amortised O(1);
+ *   the buffer doubles when full and halves when a quarter full.
+ * - `at(index)` and `set(index, value)` are O(1).
+ *
+ * Observers attached with `subscribe` / `on` see every change; positions
+ * count from the front.
+ */
+export class Deque<T, A extends unknown[] = [T]> extends BaseContainer<T> {
+  #buffer: (T | undefined)[]
+  #head: number
   #length: number
   #factory?: Factory<T, A>
+  #observers: ChangeObservers<T, this> | null = null
 
   constructor({ initValues, factory }: DequeOptions<T, A> = {}) {
-    this.#head = this.#tail = null
+    super()
+    this.#buffer = new Array(MIN_CAPACITY)
+    this.#head = 0
     this.#length = 0
     this.#factory = factory
     this.#initializeFrom(initValues)
@@ -22,18 +54,14 @@ export class Deque<T, A extends unknown[] = [T]> {
 
   // Iterable
   *[Symbol.iterator](): IterableIterator<T> {
-    let current = this.#head
-    while (current !== null) {
-      yield current.val
-      current = current.next
+    for (let i = 0; i < this.#length; i++) {
+      yield this.#buffer[this.#physical(i)] as T
     }
   }
 
   *rbegin(): IterableIterator<T> {
-    let current = this.#tail
-    while (current !== null) {
-      yield current.val
-      current = current.prev
+    for (let i = this.#length - 1; i >= 0; i--) {
+      yield this.#buffer[this.#physical(i)] as T
     }
   }
 
@@ -51,103 +79,167 @@ export class Deque<T, A extends unknown[] = [T]> {
 
     if (initValues.length === 0) return
 
-    for (const value of initValues) {
-      this.pushBack(value)
+    let capacity = MIN_CAPACITY
+    while (capacity < initValues.length) capacity *= 2
+    this.#buffer = new Array(capacity)
+    for (let i = 0; i < initValues.length; i++) {
+      this.#buffer[i] = initValues[i]
     }
+    this.#length = initValues.length
   }
 
-  // Public method
-  public pushFront(value: T): void {
-    const newNode = new ListNode(value)
+  // Map a logical index (0 = front) to a slot in the ring buffer.
+  #physical(index: number): number {
+    return (this.#head + index) & (this.#buffer.length - 1)
+  }
 
-    if (this.isEmpty()) {
-      this.#head = this.#tail = newNode
-      this.#length++
-      return
+  // Copy the elements in logical order into a fresh buffer of `capacity`.
+  #resize(capacity: number): void {
+    const next = new Array<T | undefined>(capacity)
+    for (let i = 0; i < this.#length; i++) {
+      next[i] = this.#buffer[this.#physical(i)]
     }
+    this.#buffer = next
+    this.#head = 0
+  }
 
-    this.#head!.prev = newNode
-    newNode.next = this.#head
-    this.#head = newNode
-    this.#length++
+  #shrinkIfSparse(): void {
+    const capacity = this.#buffer.length
+    if (capacity > MIN_CAPACITY && this.#length <= capacity / 4) {
+      this.#resize(capacity / 2)
+    }
   }
 
-  public pushBack(value: T): void {
-    const newNode = new ListNode(value)
+  // Overwrite the element at logical `index` and report the update.
+  #write(index: number, value: T): void {
+    const slot = this.#physical(index)
+    const oldValue = this.#buffer[slot] as T
+    this.#buffer[slot] = value
+    if (this.#observers?.active) {
+      this.#observers.emit(
+        { type: 'update', index, values: [value], oldValues: [oldValue] },
+        this,
+      )
+    }
+  }
 
-    if (this.isEmpty()) {
-      this.#head = this.#tail = newNode
-      this.#length++
-      return
+  // Report that the whole content was replaced (used by `swap`).
+  #emitReplaced(previous: T[]): void {
+    if (previous.length > 0) {
+      this.#observers!.emit({ type: 'clear', index: 0, values: previous }, this)
     }
+    if (this.#length > 0) {
+      this.#observers!.emit(
+        { type: 'insert', index: 0, values: this.toArray() },
+        this,
+      )
+    }
+  }
 
-    newNode.prev = this.#tail
-    this.#tail!.next = newNode
-    this.#tail = newNode
-    this.#length++
+  protected append(value: T): void {
+    this.pushBack(value)
   }
 
-  public popFront(): T | undefined {
-    // No node
-    if (this.isEmpty()) return
+  // Public method
+  /**
+   * Call `listener(event, deque)` after every change.
+   *
+   * Complexity: O(1). Unobserved deques pay nothing for events.
+   *
+   * @returns A function that detaches the listener.
+   * @throws TypeError when `listener` is not a function.
+   */
+  public subscribe(listener: ChangeListener<T, this>): () => void {
+    this.#observers ??= new ChangeObservers()
+    return this.#observers.subscribe(listener)
+  }
+
+  /**
+   * Call `listener(event, deque)` after changes of one `type`.
+   *
+   * @returns A function that detaches the listener.
+   * @throws TypeError when `type` is unknown or `listener` is not a
+   *   function.
+   */
+  public on<K extends ChangeType>(
+    type: K,
+    listener: ChangeListener<T, this, ChangeEventOf<T, K>>,
+  ): () => void {
+    this.#observers ??= new ChangeObservers()
+    return this.#observers.on(type, listener)
+  }
 
-    const removedNode = this.#head!
-    const removedValue = removedNode.val
+  public pushFront(value: T): void {
+    if (this.#length === this.#buffer.length) {
+      this.#resize(this.#buffer.length * 2)
+    }
+    this.#head = (this.#head - 1) & (this.#buffer.length - 1)
+    this.#buffer[this.#head] = value
+    this.#length++
+    if (this.#observers?.active) {
+      this.#observers.emit({ type: 'insert', index: 0, values: [value] }, this)
+    }
+  }
 
-    // Single Node
-    if (this.#length === 1) {
-      this.#head = this.#tail = null
-      removedNode.cleanup()
-      this.#length--
-      return removedValue
+  public pushBack(value: T): void {
+    if (this.#length === this.#buffer.length) {
+      this.#resize(this.#buffer.length * 2)
+    }
+    this.#buffer[this.#physical(this.#length)] = value
+    this.#length++
+    if (this.#observers?.active) {
+      this.#observers.emit(
+        { type: 'insert', index: this.#length - 1, values: [value] },
+        this,
+      )
     }
+  }
 
-    // Two and more nodes
-    this.#head = this.#head!.next
-    this.#head!.prev = null
-    removedNode.cleanup()
+  public popFront(): T | undefined {
+    // No element
+    if (this.isEmpty()) return
+
+    const removedValue = this.#buffer[this.#head] as T
+    this.#buffer[this.#head] = undefined
+    this.#head = (this.#head + 1) & (this.#buffer.length - 1)
     this.#length--
+    this.#shrinkIfSparse()
+    if (this.#observers?.active) {
+      this.#observers.emit(
+        { type: 'remove', index: 0, values: [removedValue] },
+        this,
+      )
+    }
     return removedValue
   }
 
   public popBack(): T | undefined {
-    // No Node
+    // No element
     if (this.isEmpty()) return
 
-    const removedNode = this.#tail!
-    const removedValue = removedNode.val
-
-    // Single node case
-    if (this.#length === 1) {
-      this.#head = this.#tail = null
-      removedNode.cleanup()
-      this.#length--
-      return removedValue
-    }
-
-    // Two or more case
-    const prevNode = this.#tail!.prev!
-    prevNode.next = null
-    this.#tail = prevNode
-    removedNode.cleanup()
+    const slot = this.#physical(this.#length - 1)
+    const removedValue = this.#buffer[slot] as T
+    this.#buffer[slot] = undefined
     this.#length--
+    this.#shrinkIfSparse()
+    if (this.#observers?.active) {
+      this.#observers.emit(
+        { type: 'remove', index: this.#length, values: [removedValue] },
+        this,
+      )
+    }
     return removedValue
   }
 
-  public isEmpty(): boolean {
-    return this.#length === 0
-  }
-
   public clear(): void {
     if (this.isEmpty()) return
-    let current = this.#head
-    while (current != null) {
-      const nextNode = current.next
-      current.cleanup()
-      current = nextNode
-    }
-    this.#head = this.#tail = null
+    const removed = this.#observers?.active ? this.toArray() : null
+    this.#buffer = new Array(MIN_CAPACITY)
+    this.#head = 0
     this.#length = 0
+    if (removed !== null) {
+      this.#observers!.emit({ type: 'clear', index: 0, values: removed }, this)
+    }
   }
 
   public emplaceFront(...args: A): void {
@@ -167,6 +259,10 @@ export class Deque<T, A extends unknown[] = [T]> {
   }
 
   // Static method
+  /**
+   * Swap the contents of two deques in O(1). Observers of each deque get
+   * a `clear` of the old contents followed by an `insert` of the new ones.
+   */
   public static swap<U, V extends unknown[] = [U]>(
     queue1: Deque<U, V>,
     queue2: Deque<U, V>,
@@ -174,17 +270,23 @@ export class Deque<T, A extends unknown[] = [T]> {
     if (!(queue1 instanceof Deque && queue2 instanceof Deque)) {
       throw new TypeError('Both arguments must be instances of Deque')
     }
+    const before1 = queue1.#observers?.active ? queue1.toArray() : null
+    const before2 = queue2.#observers?.active ? queue2.toArray() : null
+
+    const tempBuffer = queue1.#buffer
     const tempHead = queue1.#head
-    const tempTail = queue1.#tail
     const tempLength = queue1.#length
 
+    queue1.#buffer = queue2.#buffer
     queue1.#head = queue2.#head
-    queue1.#tail = queue2.#tail
     queue1.#length = queue2.#length
 
+    queue2.#buffer = tempBuffer
     queue2.#head = tempHead
-    queue2.#tail = tempTail
     queue2.#length = tempLength
+
+    if (before1 !== null) queue1.#emitReplaced(before1)
+    if (before2 !== null) queue2.#emitReplaced(before2)
   }
 
   // Getter & Setter
@@ -192,101 +294,82 @@ export class Deque<T, A extends unknown[] = [T]> {
     return this.#length
   }
 
+  public get [Symbol.toStringTag](): string {
+    return 'Deque'
+  }
+
+  /**
+   * Number of slots in the underlying ring buffer. Always a power of two
+   * and at least `length`.
+   */
+  public get capacity(): number {
+    return this.#buffer.length
+  }
+
   public get front(): T | undefined {
     if (this.isEmpty()) return
-    return this.#head!.val
+    return this.#buffer[this.#head]
   }
 
   public set front(val: T) {
     if (this.isEmpty()) return
-    this.#head!.val = val
+    this.#write(0, val)
   }
 
   public get back(): T | undefined {
     if (this.isEmpty()) return
-    return this.#tail!.val
+    return this.#buffer[this.#physical(this.#length - 1)]
   }
 
   public set back(val: T) {
     if (this.isEmpty()) return
-    this.#tail!.val = val
+    this.#write(this.#length - 1, val)
   }
 
+  /**
+   * Return the element at `index` (0 = front) or `undefined` when the
+   * index is out of range.
+   *
+   * Complexity: O(1)
+   */
   public at(index: number): T | undefined {
-    if (this.isEmpty() || index < 0 || index >= this.#length) return
-    let current = this.#head
-    let i = 0
-    while (current !== null) {
-      if (index === i) return current.val
-      current = current.next
-      i++
-    }
-    return
-  }
-
-  public toArray(): T[] {
-    return [...this]
+    if (!Number.isInteger(index) || index < 0 || index >= this.#length) return
+    return this.#buffer[this.#physical(index)]
   }
 
-  // Overload signatures
-  public assign(count: number, value: T): void
-  public assign(values: T[], start?: number, end?: number): void
-
-  // Implementation
-  public assign(arg1: number | T[], arg2?: T | number, arg3?: number): void {
-    // Case: assign(values: T[], start?: number, end?: number)
-    if (Array.isArray(arg1)) {
-      const values = arg1
-      const start = typeof arg2 === 'number' ? arg2 : 0
-      const end = typeof arg3 === 'number' ? arg3 : values.length
-
-      if (start < 0 || end > values.length || start > end) {
-        throw new RangeError('Invalid array slice range')
-      }
-
-      this.clear()
-
-      for (let i = start; i < end; i++) {
-        this.pushBack(values[i]!)
-      }
-      return
-    }
-
-    // Case: assign(count: number, value: T)
-    if (typeof arg1 === 'number' && arguments.length === 2) {
-      const count = arg1
-      const value = arg2 as T
-
-      if (count < 0) {
-        throw new RangeError('Count must be a non-negative integer')
-      }
-
-      this.clear()
-
-      for (let i = 0; i < count; i++) {
-        this.pushBack(value)
-      }
-      return
+  /**
+   * Overwrite the element at `index` (0 = front).
+   *
+   * Complexity: O(1)
+   *
+   * @throws RangeError when `index` is not in `[0, length)`.
+   */
+  public set(index: number, value: T): void {
+    if (!Number.isInteger(index) || index < 0 || index >= this.#length) {
+      throw new RangeError('Index out of range')
     }
-
-    // Invalid usage
-    throw new TypeError('Invalid arguments passed to assign()')
+    this.#write(index, value)
   }
 
-  public forEach(
-    callback: (value: T, index: number, deque: Deque<T, A>) => void | false,
-    thisArg?: unknown,
-  ): void {
-    if (typeof callback !== 'function') {
-      throw new TypeError('Callback must be a function')
-    }
-    let current = this.#head
-    let index = 0
-    while (current !== null) {
-      const res = callback.call(thisArg, current.val, index, this)
-      if (res === false) break
-      current = current.next
-      index++
-    }
+  /**
+   * Rebuild a `Deque` from the output of `toJSON()`, either as the
+   * object itself or as a JSON string.
+   *
+   * @param options.reviveElement - Optional function restoring each
+   *   element from its parsed JSON form.
+   * @param options.factory - Optional factory for `emplace`; functions
+   *   are not part of the JSON and must be passed again.
+   * @throws TypeError when `json` is not a serialized `Deque`.
+   * @throws RangeError when the format version is not supported.
+   */
+  public static fromJSON<U, V extends unknown[] = [U]>(
+    json: string | SerializedContainer,
+    {
+      reviveElement,
+      ...options
+    }: FromJSONOptions<U> & Omit<DequeOptions<U, V>, 'initValues'> = {},
+  ): Deque<U, V> {
+    const values = deserialize('Deque', json, { reviveElement })
+    return new Deque<U, V>({ ...options, initValues: values })
   }
 }
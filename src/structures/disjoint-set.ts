@@ -0,0 +1,213 @@
+import {
+  deserialize,
+  serialize,
+  type FromJSONOptions,
+  type SerializedContainer,
+} from '@/core/serialization'
+import { UnionFind } from '@/core/union-find'
+
+interface DisjointSetOptions<T> {
+  initValues?: T[]
+}
+
+/**
+ * DisjointSet — union-find over arbitrary values, for connectivity
+ * checks, Kruskal's minimum spanning tree and clustering.
+ *
+ * Every element starts in a set of its own; `union(a, b)` merges the sets
+ * holding `a` and `b` and `find(x)` returns the representative element of
+ * `x`'s set. Elements are compared by identity, like `Map` keys, so any
+ * value works, not only `0..n-1` integers.
+ *
+ * Uses path compression and union by size, so `find`, `union` and
+ * `connected` run in amortised O(α(n)) — effectively constant. For
+ * algorithms that need to undo unions, see `RollbackDisjointSet`.
+ *
+ * Type parameters:
+ * - T: element type
+ */
+export class DisjointSet<T> implements Iterable<T> {
+  #forest: UnionFind<T>
+
+  /**
+   * Create a new `DisjointSet`.
+   *
+   * @param options.initValues - Optional elements, each added as a set of
+   *   its own.
+   * @throws TypeError when `initValues` is not an array.
+   */
+  constructor({ initValues }: DisjointSetOptions<T> = {}) {
+    this.#forest = new UnionFind<T>()
+
+    if (initValues !== undefined && !Array.isArray(initValues)) {
+      throw new TypeError('Expected an array to initialize the DisjointSet.')
+    }
+    if (initValues !== undefined) {
+      for (const value of initValues) {
+        this.add(value)
+      }
+    }
+  }
+
+  #indexOf(value: T, method: string): number {
+    const index = this.#forest.indexOf(value)
+    if (index === undefined) {
+      throw new Error(`${method}: value does not exist in the set`)
+    }
+    return index
+  }
+
+  /**
+   * Iterate elements in insertion order.
+   */
+  *[Symbol.iterator](): IterableIterator<T> {
+    yield* this.#forest
+  }
+
+  /**
+   * Add `value` as a set of its own.
+   *
+   * Complexity: O(1)
+   * @returns `true` when `value` was new, `false` when already present.
+   */
+  public add(value: T): boolean {
+    return this.#forest.add(value).added
+  }
+
+  /**
+   * Check whether `value` has been added.
+   *
+   * Complexity: O(1)
+   */
+  public has(value: T): boolean {
+    return this.#forest.indexOf(value) !== undefined
+  }
+
+  /**
+   * Return the representative of the set holding `value`. Two elements
+   * are in the same set exactly when their representatives are equal.
+   *
+   * Complexity: amortised O(α(n))
+   * @throws Error when `value` is not in the structure.
+   */
+  public find(value: T): T {
+    return this.#forest.item(this.#forest.find(this.#indexOf(value, 'find')))
+  }
+
+  /**
+   * Merge the sets holding `a` and `b`. Elements that were never added
+   * are added first.
+   *
+   * Complexity: amortised O(α(n))
+   * @returns `true` when two sets were merged, `false` when `a` and `b`
+   *   were already connected.
+   */
+  public union(a: T, b: T): boolean {
+    return this.#forest.union(
+      this.#forest.add(a).index,
+      this.#forest.add(b).index,
+    )
+  }
+
+  /**
+   * Check whether `a` and `b` are in the same set. Elements that were
+   * never added are not connected to anything.
+   *
+   * Complexity: amortised O(α(n))
+   */
+  public connected(a: T, b: T): boolean {
+    const i = this.#forest.indexOf(a)
+    const j = this.#forest.indexOf(b)
+    if (i === undefined || j === undefined) return false
+    return this.#forest.find(i) === this.#forest.find(j)
+  }
+
+  /**
+   * Number of elements in the set holding `value`.
+   *
+   * Complexity: amortised O(α(n))
+   * @throws Error when `value` is not in the structure.
+   */
+  public setSize(value: T): number {
+    return this.#forest.setSize(this.#indexOf(value, 'setSize'))
+  }
+
+  /**
+   * Number of disjoint sets.
+   *
+   * Complexity: O(1)
+   */
+  public componentCount(): number {
+    return this.#forest.count
+  }
+
+  /**
+   * Iterate the sets as arrays of elements. Sets are ordered by their
+   * first-added element, and elements keep insertion order within a set.
+   *
+   * Complexity: O(n α(n))
+   */
+  public *components(): IterableIterator<T[]> {
+    yield* this.#forest.components()
+  }
+
+  public clear(): void {
+    this.#forest.clear()
+  }
+
+  public isEmpty(): boolean {
+    return this.#forest.size === 0
+  }
+
+  /** Number of elements (not sets). */
+  public size(): number {
+    return this.#forest.size
+  }
+
+  /**
+   * Return the elements as an array, in insertion order.
+   */
+  public toArray(): T[] {
+    return [...this]
+  }
+
+  /**
+   * Return a tagged, versioned snapshot used by `JSON.stringify`; `values`
+   * holds one `[element, index]` pair per element in insertion order,
+   * where `index` is the position of the first element of its set.
+   */
+  public toJSON(): SerializedContainer<[T, number]> {
+    return serialize('DisjointSet', this.#forest.snapshot())
+  }
+
+  /**
+   * Rebuild a `DisjointSet` from the output of `toJSON()`, either as the
+   * object itself or as a JSON string.
+   *
+   * @param options.reviveElement - Optional function restoring each
+   *   `[element, index]` pair from its parsed JSON form.
+   * @throws TypeError when `json` is not a serialized `DisjointSet`, or a
+   *   pair is malformed.
+   * @throws RangeError when the format version is not supported.
+   */
+  public static fromJSON<U>(
+    json: string | SerializedContainer,
+    options: FromJSONOptions<[U, number]> = {},
+  ): DisjointSet<U> {
+    const set = new DisjointSet<U>()
+    set.#forest.restore(
+      deserialize('DisjointSet', json, options),
+      'DisjointSet',
+    )
+    return set
+  }
+
+  // Getter
+  public get length(): number {
+    return this.#forest.size
+  }
+
+  public get [Symbol.toStringTag](): string {
+    return 'DisjointSet'
+  }
+}
@@ -0,0 +1,230 @@
+import {
+  deserialize,
+  serialize,
+  type FromJSONOptions,
+  type SerializedContainer,
+} from '@/core/serialization'
+
+interface FenwickTreeOptions {
+  initValues?: number[]
+  size?: number
+}
+
+/**
+ * FenwickTree — a binary indexed tree over numbers for prefix and range
+ * sums with point updates.
+ *
+ * `tree[i]` (1-based) holds the sum of the `i & -i` elements ending at
+ * position `i`, so both a prefix sum and an update touch O(log n) slots.
+ * The element values are kept alongside, which makes `get` O(1) and lets
+ * `set` turn into an `add` of the difference.
+ *
+ * Ranges are half-open, `[start, end)`, like the algorithms in
+ * `src/algorithms/sort.ts`.
+ */
+export class FenwickTree implements Iterable<number> {
+  #tree: number[]
+  #values: number[]
+
+  /**
+   * Create a new `FenwickTree` in O(n).
+   *
+   * @param options.initValues - Optional initial values (an array or a
+   *   `Vector`).
+   * @param options.size - Number of zeros to start with when `initValues`
+   *   is not given.
+   * @throws TypeError when `initValues` is not an array of numbers.
+   * @throws RangeError when `size` is not a non-negative integer.
+   */
+  constructor({ initValues, size = 0 }: FenwickTreeOptions = {}) {
+    if (initValues !== undefined && !Array.isArray(initValues)) {
+      throw new TypeError('Expected an array to initialize the FenwickTree.')
+    }
+    if (initValues === undefined && (!Number.isInteger(size) || size < 0)) {
+      throw new RangeError('FenwickTree size must be a non-negative integer')
+    }
+    const values = initValues ?? new Array<number>(size).fill(0)
+    for (const value of values) assertNumber(value)
+
+    this.#values = [...values]
+    this.#tree = [0, ...values]
+    // Linear build: push every partial sum into its parent once.
+    for (let i = 1; i < this.#tree.length; i++) {
+      const parent = i + (i & -i)
+      if (parent < this.#tree.length) this.#tree[parent]! += this.#tree[i]!
+    }
+  }
+
+  #assertIndex(index: number): void {
+    if (!Number.isInteger(index) || index < 0 || index >= this.#values.length) {
+      throw new RangeError('Invalid index to access')
+    }
+  }
+
+  /**
+   * Iterate the element values in index order.
+   */
+  *[Symbol.iterator](): IterableIterator<number> {
+    yield* this.#values
+  }
+
+  /**
+   * Return the value at `index`.
+   *
+   * Complexity: O(1)
+   * @throws RangeError when `index` is out of bounds.
+   */
+  public get(index: number): number {
+    this.#assertIndex(index)
+    return this.#values[index]!
+  }
+
+  /**
+   * Add `delta` to the value at `index`.
+   *
+   * Complexity: O(log n)
+   * @throws RangeError when `index` is out of bounds.
+   * @throws TypeError when `delta` is not a number.
+   */
+  public add(index: number, delta: number): void {
+    this.#assertIndex(index)
+    assertNumber(delta)
+    this.#values[index]! += delta
+    for (let i = index + 1; i < this.#tree.length; i += i & -i) {
+      this.#tree[i]! += delta
+    }
+  }
+
+  /**
+   * Replace the value at `index`.
+   *
+   * Complexity: O(log n)
+   * @throws RangeError when `index` is out of bounds.
+   * @throws TypeError when `value` is not a number.
+   */
+  public set(index: number, value: number): void {
+    this.#assertIndex(index)
+    assertNumber(value)
+    this.add(index, value - this.#values[index]!)
+  }
+
+  /**
+   * Sum of the first `end` values, i.e. of `[0, end)`.
+   *
+   * Complexity: O(log n)
+   * @throws RangeError when `end` is not within `[0, size()]`.
+   */
+  public prefixSum(end: number): number {
+    if (!Number.isInteger(end) || end < 0 || end > this.#values.length) {
+      throw new RangeError(
+        `prefixSum: invalid end ${end} for length ${this.#values.length}`,
+      )
+    }
+    let sum = 0
+    for (let i = end; i > 0; i -= i & -i) sum += this.#tree[i]!
+    return sum
+  }
+
+  /**
+   * Sum of the values in `[start, end)`; the whole tree by default.
+   *
+   * Complexity: O(log n)
+   * @throws RangeError when the range is not within the tree.
+   */
+  public rangeSum(start = 0, end = this.#values.length): number {
+    if (
+      !Number.isInteger(start) ||
+      !Number.isInteger(end) ||
+      start < 0 ||
+      start > end ||
+      end > this.#values.length
+    ) {
+      throw new RangeError(
+        `rangeSum: invalid range [${start}, ${end}) for length ${this.#values.length}`,
+      )
+    }
+    return this.prefixSum(end) - this.prefixSum(start)
+  }
+
+  /**
+   * Smallest `end` such that `prefixSum(end) >= target`, or `size() + 1`
+   * when even the total is smaller. Requires non-negative values, for
+   * example when the tree holds frequencies or weights.
+   *
+   * Complexity: O(log n)
+   */
+  public lowerBound(target: number): number {
+    if (target <= 0) return 0
+    let pos = 0
+    let remaining = target
+    let step = 1
+    while (step * 2 < this.#tree.length) step *= 2
+    for (; step > 0; step >>= 1) {
+      const next = pos + step
+      if (next < this.#tree.length && this.#tree[next]! < remaining) {
+        pos = next
+        remaining -= this.#tree[next]!
+      }
+    }
+    return pos + 1
+  }
+
+  public clear(): void {
+    this.#values = []
+    this.#tree = [0]
+  }
+
+  public isEmpty(): boolean {
+    return this.#values.length === 0
+  }
+
+  public size(): number {
+    return this.#values.length
+  }
+
+  /**
+   * Return the element values as an array.
+   */
+  public toArray(): number[] {
+    return [...this.#values]
+  }
+
+  /**
+   * Return a tagged, versioned snapshot used by `JSON.stringify`; `values`
+   * holds the element values in index order.
+   */
+  public toJSON(): SerializedContainer<number> {
+    return serialize('FenwickTree', this.toArray())
+  }
+
+  /**
+   * Rebuild a `FenwickTree` from the output of `toJSON()`, either as the
+   * object itself or as a JSON string.
+   *
+   * @throws TypeError when `json` is not a serialized `FenwickTree`.
+   * @throws RangeError when the format version is not supported.
+   */
+  public static fromJSON(
+    json: string | SerializedContainer,
+    options: FromJSONOptions<number> = {},
+  ): FenwickTree {
+    return new FenwickTree({
+      initValues: deserialize('FenwickTree', json, options),
+    })
+  }
+
+  // Getter
+  public get length(): number {
+    return this.#values.length
+  }
+
+  public get [Symbol.toStringTag](): string {
+    return 'FenwickTree'
+  }
+}
+
+function assertNumber(value: unknown): void {
+  if (typeof value !== 'number' || Number.isNaN(value)) {
+    throw new TypeError('FenwickTree values must be numbers')
+  }
+}
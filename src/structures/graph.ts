@@ -0,0 +1,268 @@
+interface GraphOptions {
+  directed?: boolean
+}
+
+/**
+ * An edge stored in a `Graph`. For undirected graphs the same edge object
+ * is reachable from both endpoints; `from`/`to` keep the order used in
+ * `addEdge`.
+ */
+export interface Edge<V, E = undefined> {
+  readonly from: V
+  readonly to: V
+  weight: number
+  data: E | undefined
+}
+
+/**
+ * Graph — an adjacency-map graph with optional direction and weighted
+ * edges.
+ *
+ * Vertices are arbitrary values compared by identity (like `Map` keys).
+ * Each ordered pair of vertices holds at most one edge; adding an edge
+ * between the same endpoints again updates its weight and data.
+ *
+ * Traversal and shortest paths live in `src/algorithms/graph.ts`
+ * (`bfs`, `dfs`, `dijkstra`) and are built on `Queue`, `Stack` and
+ * `PriorityQueue`.
+ *
+ * Type parameters:
+ * - V: vertex type
+ * - E: optional payload type carried by each edge
+ *
+ * Performance:
+ * - `addVertex`, `addEdge`, `removeEdge`, `hasEdge` are O(1).
+ * - `removeVertex(v)` is O(deg(v)).
+ */
+export class Graph<V, E = undefined> implements Iterable<V> {
+  #out: Map<V, Map<V, Edge<V, E>>>;
+  // Incoming adjacency; only maintained for directed graphs (for
+  // undirected graphs it is the same as `#out`).
+  #in: Map<V, Map<V, Edge<V, E>>>
+  #edgeCount: number
+  #directed: boolean
+
+  /**
+   * Create a new `Graph`.
+   *
+   * @param options.directed - `true` for a directed graph. Defaults to
+   *   `false` (undirected).
+   */
+  constructor({ directed = false }: GraphOptions = {}) {
+    this.#directed = directed
+    this.#out = new Map()
+    this.#in = directed ? new Map() : this.#out
+    this.#edgeCount = 0
+  }
+
+  /**
+   * Iterate vertices in insertion order.
+   */
+  *[Symbol.iterator](): IterableIterator<V> {
+    yield* this.#out.keys()
+  }
+
+  #adjacency(vertex: V, method: string): Map<V, Edge<V, E>> {
+    const adj = this.#out.get(vertex)
+    if (adj === undefined) {
+      throw new Error(`${method}: vertex does not exist in the graph`)
+    }
+    return adj
+  }
+
+  // Vertices
+  /**
+   * Add `vertex` if it is not already present.
+   *
+   * Complexity: O(1)
+   * @returns `true` when the vertex was added.
+   */
+  public addVertex(vertex: V): boolean {
+    if (this.#out.has(vertex)) return false
+    this.#out.set(vertex, new Map())
+    if (this.#directed) this.#in.set(vertex, new Map())
+    return true
+  }
+
+  public hasVertex(vertex: V): boolean {
+    return this.#out.has(vertex)
+  }
+
+  /**
+   * Remove `vertex` and every edge touching it.
+   *
+   * Complexity: O(deg(v))
+   * @returns `true` when the vertex existed.
+   */
+  public removeVertex(vertex: V): boolean {
+    const out = this.#out.get(vertex)
+    if (out === undefined) return false
+
+    for (const target of out.keys()) {
+      if (target !== vertex) this.#in.get(target)!.delete(vertex)
+    }
+    this.#edgeCount -= out.size
+
+    if (this.#directed) {
+      const incoming = this.#in.get(vertex)!
+      for (const source of incoming.keys()) {
+        if (source !== vertex) {
+          this.#out.get(source)!.delete(vertex)
+          this.#edgeCount--
+        }
+      }
+      this.#in.delete(vertex)
+    }
+
+    this.#out.delete(vertex)
+    return true
+  }
+
+  /**
+   * Iterate vertices in insertion order.
+   */
+  public vertices(): IterableIterator<V> {
+    return this.#out.keys()
+  }
+
+  // Edges
+  /**
+   * Add an edge `from -> to` (or `from -- to` when undirected), creating
+   * missing vertices. If the edge already exists its weight and data are
+   * updated.
+   *
+   * Complexity: O(1)
+   * @param weight - Edge weight; defaults to `1`.
+   * @param data - Optional payload stored on the edge.
+   * @returns The stored edge.
+   * @throws TypeError when `weight` is not a number.
+   */
+  public addEdge(from: V, to: V, weight = 1, data?: E): Edge<V, E> {
+    if (typeof weight !== 'number' || Number.isNaN(weight)) {
+      throw new TypeError('Edge weight must be a number')
+    }
+    this.addVertex(from)
+    this.addVertex(to)
+
+    const existing = this.#out.get(from)!.get(to)
+    if (existing !== undefined) {
+      existing.weight = weight
+      existing.data = data
+      return existing
+    }
+
+    const edge: Edge<V, E> = { from, to, weight, data }
+    this.#out.get(from)!.set(to, edge)
+    this.#in.get(to)!.set(from, edge)
+    this.#edgeCount++
+    return edge
+  }
+
+  /**
+   * Remove the edge between `from` and `to`.
+   *
+   * Complexity: O(1)
+   * @returns `true` when an edge was removed.
+   */
+  public removeEdge(from: V, to: V): boolean {
+    const out = this.#out.get(from)
+    if (out === undefined || !out.delete(to)) return false
+    this.#in.get(to)!.delete(from)
+    this.#edgeCount--
+    return true
+  }
+
+  public hasEdge(from: V, to: V): boolean {
+    return this.#out.get(from)?.has(to) ?? false
+  }
+
+  /**
+   * Return the edge between `from` and `to`, or `undefined`.
+   */
+  public getEdge(from: V, to: V): Edge<V, E> | undefined {
+    return this.#out.get(from)?.get(to)
+  }
+
+  /**
+   * Iterate every edge once.
+   */
+  public *edges(): IterableIterator<Edge<V, E>> {
+    for (const [vertex, adj] of this.#out) {
+      for (const edge of adj.values()) {
+        // Undirected edges are stored under both endpoints.
+        if (!this.#directed && edge.from !== vertex) continue
+        yield edge
+      }
+    }
+  }
+
+  // Adjacency
+  /**
+   * Iterate `[neighbor, edge]` pairs reachable from `vertex` in one step.
+   *
+   * @throws Error when `vertex` is not in the graph.
+   */
+  public adjacent(vertex: V): IterableIterator<[V, Edge<V, E>]> {
+    return this.#adjacency(vertex, 'adjacent').entries()
+  }
+
+  /**
+   * Iterate vertices reachable from `vertex` in one step.
+   *
+   * @throws Error when `vertex` is not in the graph.
+   */
+  public neighbors(vertex: V): IterableIterator<V> {
+    return this.#adjacency(vertex, 'neighbors').keys()
+  }
+
+  /**
+   * Number of outgoing edges of `vertex` (all incident edges when
+   * undirected).
+   *
+   * @throws Error when `vertex` is not in the graph.
+   */
+  public outDegree(vertex: V): number {
+    return this.#adjacency(vertex, 'outDegree').size
+  }
+
+  /**
+   * Number of incoming edges of `vertex` (all incident edges when
+   * undirected).
+   *
+   * @throws Error when `vertex` is not in the graph.
+   */
+  public inDegree(vertex: V): number {
+    this.#adjacency(vertex, 'inDegree')
+    return this.#in.get(vertex)!.size
+  }
+
+  /**
+   * Remove all vertices and edges.
+   */
+  public clear(): void {
+    this.#out.clear()
+    this.#in.clear()
+    this.#edgeCount = 0
+  }
+
+  public isEmpty(): boolean {
+    return this.#out.size === 0
+  }
+
+  // Getter
+  public get isDirected(): boolean {
+    return this.#directed
+  }
+
+  public get vertexCount(): number {
+    return this.#out.size
+  }
+
+  public get edgeCount(): number {
+    return this.#edgeCount
+  }
+
+  public get [Symbol.toStringTag](): string {
+    return 'Graph'
+  }
+}
@@ -0,0 +1,284 @@
+import {
+  HashTable,
+  defaultEquals,
+  defaultHash,
+  type BucketStats,
+  type EqualsFn,
+  type HashFn,
+} from '@/core/hash-table'
+import {
+  deserialize,
+  serialize,
+  type FromJSONOptions,
+  type SerializedContainer,
+} from '@/core/serialization'
+
+export type { BucketStats, EqualsFn, HashFn } from '@/core/hash-table'
+
+interface HashMapOptions<K, V> {
+  initValues?: [K, V][]
+  hash?: HashFn<K>
+  equals?: EqualsFn<K>
+  maxLoadFactor?: number
+}
+
+/**
+ * HashMap — an unordered key/value map with pluggable hashing
+ * (`std::unordered_map` in C++).
+ *
+ * Unlike the native `Map`, keys are matched with a user-supplied
+ * `hash(key)` and `equals(a, b)` pair, so value-like objects such as
+ * `{ x, y }` coordinates can be used as keys. Both must agree: keys that
+ * are `equals` must produce the same `hash`. Without options, primitives
+ * are compared by value and objects by identity, like the native `Map`.
+ *
+ * The API mirrors the native `Map` (`get`, `set`, `has`, `delete`,
+ * `keys`, `values`, `entries`, `forEach`) and adds bucket control:
+ * `maxLoadFactor`, `rehash`, `reserve` and `bucketStats`.
+ *
+ * Type parameters:
+ * - K: key type
+ * - V: value type
+ *
+ * Performance:
+ * - `get`, `set`, `has` and `delete` are O(1) on average.
+ * - Iteration order is unspecified and may change after a rehash.
+ */
+export class HashMap<K, V> implements Iterable<[K, V]> {
+  #table: HashTable<K, V>
+
+  /**
+   * Create a new `HashMap`.
+   *
+   * @param options.initValues - Optional array of `[key, value]` pairs.
+   *   Later pairs overwrite earlier ones with an equal key.
+   * @param options.hash - Optional hash function returning a number.
+   * @param options.equals - Optional key equality (defaults to
+   *   SameValueZero, like `Map`).
+   * @param options.maxLoadFactor - Maximum average entries per bucket
+   *   before the table grows (default `0.75`).
+   * @throws TypeError when `initValues` is not an array or `hash`/`equals`
+   *   are not functions.
+   * @throws RangeError when `maxLoadFactor` is not a positive number.
+   */
+  constructor({
+    initValues,
+    hash = defaultHash,
+    equals = defaultEquals,
+    maxLoadFactor,
+  }: HashMapOptions<K, V> = {}) {
+    this.#table = new HashTable<K, V>(hash, equals, maxLoadFactor)
+
+    if (initValues !== undefined && !Array.isArray(initValues)) {
+      throw new TypeError('Expected an array to initialize the HashMap.')
+    }
+    if (initValues !== undefined) {
+      this.#table.reserve(initValues.length)
+      for (const [key, value] of initValues) {
+        this.set(key, value)
+      }
+    }
+  }
+
+  /**
+   * Iterate `[key, value]` pairs in bucket order.
+   */
+  *[Symbol.iterator](): IterableIterator<[K, V]> {
+    for (const entry of this.#table) {
+      yield [entry.key, entry.value]
+    }
+  }
+
+  /**
+   * Insert or overwrite the value stored under `key`.
+   *
+   * Complexity: O(1) average
+   * @returns The map itself, for chaining.
+   */
+  public set(key: K, value: V): this {
+    const { entry, inserted } = this.#table.insert(key, value)
+    if (!inserted) entry.value = value
+    return this
+  }
+
+  /**
+   * Return the value stored under `key`, or `undefined` when absent.
+   *
+   * Complexity: O(1) average
+   */
+  public get(key: K): V | undefined {
+    return this.#table.find(key)?.value
+  }
+
+  /**
+   * Check whether `key` is present.
+   *
+   * Complexity: O(1) average
+   */
+  public has(key: K): boolean {
+    return this.#table.find(key) !== null
+  }
+
+  /**
+   * Remove `key` and its value.
+   *
+   * Complexity: O(1) average
+   * @returns `true` when an entry was removed.
+   */
+  public delete(key: K): boolean {
+    return this.#table.delete(key) !== null
+  }
+
+  public clear(): void {
+    this.#table.clear()
+  }
+
+  public isEmpty(): boolean {
+    return this.#table.size === 0
+  }
+
+  public size(): number {
+    return this.#table.size
+  }
+
+  // Map-style iterators
+  public *keys(): IterableIterator<K> {
+    for (const entry of this.#table) yield entry.key
+  }
+
+  public *values(): IterableIterator<V> {
+    for (const entry of this.#table) yield entry.value
+  }
+
+  public entries(): IterableIterator<[K, V]> {
+    return this[Symbol.iterator]()
+  }
+
+  /**
+   * Call `callback(value, key, map)` for each entry. If the callback
+   * returns `false`, iteration stops early.
+   *
+   * @throws TypeError when `callback` is not a function.
+   */
+  public forEach(
+    callback: (value: V, key: K, map: this) => void | false,
+    thisArg?: unknown,
+  ): void {
+    if (typeof callback !== 'function') {
+      throw new TypeError('Callback must be a function')
+    }
+    for (const entry of this.#table) {
+      if (callback.call(thisArg, entry.value, entry.key, this) === false) break
+    }
+  }
+
+  /**
+   * Return the entries as an array of `[key, value]` pairs.
+   */
+  public toArray(): [K, V][] {
+    return [...this]
+  }
+
+  // Bucket interface
+  /**
+   * Redistribute entries over at least `count` buckets. The count is
+   * rounded up to a power of two and never drops below what
+   * `maxLoadFactor` requires.
+   *
+   * Complexity: O(n)
+   * @throws RangeError when `count` is negative.
+   */
+  public rehash(count: number): void {
+    this.#table.rehash(count)
+  }
+
+  /**
+   * Grow the table so that `count` entries fit without exceeding
+   * `maxLoadFactor`, avoiding repeated rehashing during bulk inserts.
+   *
+   * Complexity: O(n) when the table grows, otherwise O(1)
+   * @throws RangeError when `count` is negative.
+   */
+  public reserve(count: number): void {
+    this.#table.reserve(count)
+  }
+
+  /** Index of the bucket `key` maps to. */
+  public bucket(key: K): number {
+    return this.#table.bucketIndex(key)
+  }
+
+  /**
+   * Number of entries in bucket `index`.
+   * @throws RangeError when `index` is out of range.
+   */
+  public bucketSize(index: number): number {
+    return this.#table.bucketSize(index)
+  }
+
+  /** Distribution statistics for debugging `hash` quality. */
+  public bucketStats(): BucketStats {
+    return this.#table.bucketStats()
+  }
+
+  /**
+   * Return a tagged, versioned snapshot used by `JSON.stringify`; `values`
+   * holds the `[key, value]` entries in iteration order.
+   */
+  public toJSON(): SerializedContainer<[K, V]> {
+    return serialize('HashMap', this.toArray())
+  }
+
+  /**
+   * Rebuild a `HashMap` from the output of `toJSON()`, either as the
+   * object itself or as a JSON string.
+   *
+   * @param options.reviveElement - Optional function restoring each
+   *   `[key, value]` entry from its parsed JSON form.
+   * @param options.hash - Hash function; functions are not part of the
+   *   JSON and must be passed again (likewise `equals`).
+   * @throws TypeError when `json` is not a serialized `HashMap`.
+   * @throws RangeError when the format version is not supported.
+   */
+  public static fromJSON<K, V>(
+    json: string | SerializedContainer,
+    {
+      reviveElement,
+      ...options
+    }: FromJSONOptions<[K, V]> & Omit<HashMapOptions<K, V>, 'initValues'> = {},
+  ): HashMap<K, V> {
+    const values = deserialize('HashMap', json, { reviveElement })
+    return new HashMap<K, V>({ ...options, initValues: values })
+  }
+
+  // Getter & Setter
+  public get length(): number {
+    return this.#table.size
+  }
+
+  public get bucketCount(): number {
+    return this.#table.bucketCount
+  }
+
+  /** Current average number of entries per bucket. */
+  public get loadFactor(): number {
+    return this.#table.loadFactor
+  }
+
+  /**
+   * Maximum average entries per bucket before the table doubles. Setting
+   * it rehashes immediately if the current load exceeds the new limit.
+   * @throws RangeError when not a positive finite number.
+   */
+  public get maxLoadFactor(): number {
+    return this.#table.maxLoadFactor
+  }
+
+  public set maxLoadFactor(value: number) {
+    this.#table.maxLoadFactor = value
+  }
+
+  public get [Symbol.toStringTag](): string {
+    return 'HashMap'
+  }
+}
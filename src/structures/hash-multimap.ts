@@ -0,0 +1,322 @@
+import {
+  HashTable,
+  defaultEquals,
+  defaultHash,
+  type BucketStats,
+  type EqualsFn,
+  type HashFn,
+} from '@/core/hash-table'
+import type { MultiMap } from '@/core/multi-container'
+import {
+  deserialize,
+  serialize,
+  type FromJSONOptions,
+  type SerializedContainer,
+} from '@/core/serialization'
+
+interface HashMultiMapOptions<K, V> {
+  initValues?: [K, V][]
+  hash?: HashFn<K>
+  equals?: EqualsFn<K>
+  maxLoadFactor?: number
+}
+
+/**
+ * HashMultiMap — an unordered one-to-many map with pluggable hashing
+ * (`std::unordered_multimap` in C++).
+ *
+ * Every `add(key, value)` stores its own pair. Keys are matched with
+ * `hash(key)` and `equals(a, b)` like `HashMap`; pairs with equal keys
+ * share a bucket and keep their insertion order. Values are compared with
+ * SameValueZero by `removeValue`.
+ *
+ * Type parameters:
+ * - K: key type
+ * - V: value type
+ *
+ * Performance:
+ * - `add`, `get` and `has` are O(1) on average.
+ * - `getAll`, `count`, `equalRange`, `removeValue` and `removeAll` are
+ *   O(k) on average for k values under the key.
+ * - Iteration order is unspecified and may change after a rehash.
+ */
+export class HashMultiMap<K, V> implements MultiMap<K, V> {
+  #table: HashTable<K, V>
+  #uniqueSize: number
+
+  /**
+   * Create a new `HashMultiMap`.
+   *
+   * @param options.initValues - Optional array of `[key, value]` pairs;
+   *   every pair is kept.
+   * @param options.hash - Optional hash function returning a number.
+   * @param options.equals - Optional key equality (defaults to
+   *   SameValueZero, like `Map`).
+   * @param options.maxLoadFactor - Maximum average pairs per bucket
+   *   before the table grows (default `0.75`).
+   * @throws TypeError when `initValues` is not an array or `hash`/`equals`
+   *   are not functions.
+   * @throws RangeError when `maxLoadFactor` is not a positive number.
+   */
+  constructor({
+    initValues,
+    hash = defaultHash,
+    equals = defaultEquals,
+    maxLoadFactor,
+  }: HashMultiMapOptions<K, V> = {}) {
+    this.#table = new HashTable<K, V>(hash, equals, maxLoadFactor)
+    this.#uniqueSize = 0
+
+    if (initValues !== undefined && !Array.isArray(initValues)) {
+      throw new TypeError('Expected an array to initialize the HashMultiMap.')
+    }
+    if (initValues !== undefined) {
+      this.#table.reserve(initValues.length)
+      for (const [key, value] of initValues) {
+        this.add(key, value)
+      }
+    }
+  }
+
+  /**
+   * Iterate `[key, value]` pairs in bucket order.
+   */
+  *[Symbol.iterator](): IterableIterator<[K, V]> {
+    for (const entry of this.#table) {
+      yield [entry.key, entry.value]
+    }
+  }
+
+  /**
+   * Store one more `key` -> `value` pair, after any pairs already under
+   * `key`.
+   *
+   * Complexity: O(1) average
+   * @returns The map itself, for chaining.
+   */
+  public add(key: K, value: V): this {
+    if (this.#table.find(key) === null) this.#uniqueSize++
+    this.#table.insert(key, value, false)
+    return this
+  }
+
+  /**
+   * Return the first value stored under `key`, or `undefined` when absent.
+   *
+   * Complexity: O(1) average
+   */
+  public get(key: K): V | undefined {
+    return this.#table.find(key)?.value
+  }
+
+  /**
+   * Return every value stored under `key`, in insertion order.
+   *
+   * Complexity: O(k) average
+   */
+  public getAll(key: K): V[] {
+    return this.#table.findAll(key).map((entry) => entry.value)
+  }
+
+  /**
+   * Iterate the `[key, value]` pairs stored under `key` (STL
+   * `equal_range`).
+   *
+   * Complexity: O(k) average
+   */
+  public *equalRange(key: K): IterableIterator<[K, V]> {
+    for (const entry of this.#table.findAll(key)) {
+      yield [entry.key, entry.value]
+    }
+  }
+
+  /**
+   * Check whether `key` holds at least one value.
+   *
+   * Complexity: O(1) average
+   */
+  public has(key: K): boolean {
+    return this.#table.find(key) !== null
+  }
+
+  /**
+   * Number of values stored under `key`.
+   *
+   * Complexity: O(k) average
+   */
+  public count(key: K): number {
+    return this.#table.findAll(key).length
+  }
+
+  /**
+   * Remove the first pair `key` -> `value`; values are compared with
+   * SameValueZero.
+   *
+   * Complexity: O(k) average
+   * @returns `true` when a pair was removed.
+   */
+  public removeValue(key: K, value: V): boolean {
+    const entries = this.#table.findAll(key)
+    const entry = entries.find((e) => defaultEquals(e.value, value))
+    if (entry === undefined) return false
+    this.#table.deleteEntry(entry)
+    if (entries.length === 1) this.#uniqueSize--
+    return true
+  }
+
+  /**
+   * Remove every value stored under `key`.
+   *
+   * Complexity: O(k) average
+   * @returns The number of values removed.
+   */
+  public removeAll(key: K): number {
+    const entries = this.#table.findAll(key)
+    for (const entry of entries) this.#table.deleteEntry(entry)
+    if (entries.length > 0) this.#uniqueSize--
+    return entries.length
+  }
+
+  public clear(): void {
+    this.#table.clear()
+    this.#uniqueSize = 0
+  }
+
+  public isEmpty(): boolean {
+    return this.#table.size === 0
+  }
+
+  /** Number of `[key, value]` pairs. */
+  public size(): number {
+    return this.#table.size
+  }
+
+  /** Number of distinct keys. */
+  public uniqueSize(): number {
+    return this.#uniqueSize
+  }
+
+  // Map-style iterators
+  /** Iterate distinct keys. */
+  public *keys(): IterableIterator<K> {
+    for (const entry of this.#table) {
+      // Yield a key only at its first pair in the bucket.
+      if (this.#table.find(entry.key) === entry) yield entry.key
+    }
+  }
+
+  /** Iterate every value, in bucket order. */
+  public *values(): IterableIterator<V> {
+    for (const entry of this.#table) yield entry.value
+  }
+
+  public entries(): IterableIterator<[K, V]> {
+    return this[Symbol.iterator]()
+  }
+
+  /**
+   * Call `callback(value, key, map)` for each pair. If the callback
+   * returns `false`, iteration stops early.
+   *
+   * @throws TypeError when `callback` is not a function.
+   */
+  public forEach(
+    callback: (value: V, key: K, map: this) => void | false,
+    thisArg?: unknown,
+  ): void {
+    if (typeof callback !== 'function') {
+      throw new TypeError('Callback must be a function')
+    }
+    for (const entry of this.#table) {
+      if (callback.call(thisArg, entry.value, entry.key, this) === false) break
+    }
+  }
+
+  /**
+   * Return the pairs as an array of `[key, value]` entries.
+   */
+  public toArray(): [K, V][] {
+    return [...this]
+  }
+
+  // Bucket interface
+  /**
+   * Redistribute pairs over at least `count` buckets (see
+   * `HashMap#rehash`).
+   * @throws RangeError when `count` is negative.
+   */
+  public rehash(count: number): void {
+    this.#table.rehash(count)
+  }
+
+  /**
+   * Grow the table so that `count` pairs fit without exceeding
+   * `maxLoadFactor`.
+   * @throws RangeError when `count` is negative.
+   */
+  public reserve(count: number): void {
+    this.#table.reserve(count)
+  }
+
+  /** Distribution statistics for debugging `hash` quality. */
+  public bucketStats(): BucketStats {
+    return this.#table.bucketStats()
+  }
+
+  /**
+   * Return a tagged, versioned snapshot used by `JSON.stringify`; `values`
+   * holds every `[key, value]` pair in iteration order.
+   */
+  public toJSON(): SerializedContainer<[K, V]> {
+    return serialize('HashMultiMap', this.toArray())
+  }
+
+  /**
+   * Rebuild a `HashMultiMap` from the output of `toJSON()`, either as the
+   * object itself or as a JSON string.
+   *
+   * @param options.reviveElement - Optional function restoring each
+   *   `[key, value]` entry from its parsed JSON form.
+   * @param options.hash - Hash function; functions are not part of the
+   *   JSON and must be passed again (likewise `equals`).
+   * @throws TypeError when `json` is not a serialized `HashMultiMap`.
+   * @throws RangeError when the format version is not supported.
+   */
+  public static fromJSON<K, V>(
+    json: string | SerializedContainer,
+    {
+      reviveElement,
+      ...options
+    }: FromJSONOptions<[K, V]> &
+      Omit<HashMultiMapOptions<K, V>, 'initValues'> = {},
+  ): HashMultiMap<K, V> {
+    const values = deserialize('HashMultiMap', json, { reviveElement })
+    return new HashMultiMap<K, V>({ ...options, initValues: values })
+  }
+
+  // Getter & Setter
+  /** Number of `[key, value]` pairs. */
+  public get length(): number {
+    return this.#table.size
+  }
+
+  public get bucketCount(): number {
+    return this.#table.bucketCount
+  }
+
+  public get loadFactor(): number {
+    return this.#table.loadFactor
+  }
+
+  public get maxLoadFactor(): number {
+    return this.#table.maxLoadFactor
+  }
+
+  public set maxLoadFactor(value: number) {
+    this.#table.maxLoadFactor = value
+  }
+
+  public get [Symbol.toStringTag](): string {
+    return 'HashMultiMap'
+  }
+}
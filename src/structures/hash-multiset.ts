@@ -0,0 +1,258 @@
+import { BaseContainer } from '@/core/container'
+import {
+  HashTable,
+  defaultEquals,
+  defaultHash,
+  type BucketStats,
+  type EqualsFn,
+  type HashFn,
+} from '@/core/hash-table'
+import { assertCount, mostCommon, type MultiSet } from '@/core/multi-container'
+import {
+  deserialize,
+  type FromJSONOptions,
+  type SerializedContainer,
+} from '@/core/serialization'
+
+interface HashMultiSetOptions<T> {
+  initValues?: T[]
+  hash?: HashFn<T>
+  equals?: EqualsFn<T>
+  maxLoadFactor?: number
+}
+
+/**
+ * HashMultiSet — an unordered multiset with pluggable hashing
+ * (`std::unordered_multiset` in C++, `Counter` in Python).
+ *
+ * Each distinct value is stored once with its count, matched with
+ * `hash(value)` and `equals(a, b)` like `HashSet`. Iteration yields every
+ * occurrence, with equal values next to each other.
+ *
+ * Type parameters:
+ * - T: value type stored in the multiset
+ *
+ * Performance:
+ * - `add`, `count`, `has`, `removeOne` and `removeAll` are O(1) on
+ *   average.
+ * - `mostCommon` is O(n log n) for n distinct values.
+ * - Iteration order is unspecified and may change after a rehash.
+ * - `size`, `isEmpty`, `toArray`, `assign`, `forEach`, `keys`, `values`
+ *   and `entries` are inherited from `BaseContainer` and count every
+ *   occurrence.
+ */
+export class HashMultiSet<T> extends BaseContainer<T> implements MultiSet<T> {
+  #table: HashTable<T, number>
+  #length: number
+
+  /**
+   * Create a new `HashMultiSet`.
+   *
+   * @param options.initValues - Optional array of initial values; repeats
+   *   are counted.
+   * @param options.hash - Optional hash function returning a number.
+   * @param options.equals - Optional equality (defaults to SameValueZero).
+   * @param options.maxLoadFactor - Maximum average distinct values per
+   *   bucket before the table grows (default `0.75`).
+   * @throws TypeError when `initValues` is not an array or `hash`/`equals`
+   *   are not functions.
+   * @throws RangeError when `maxLoadFactor` is not a positive number.
+   */
+  constructor({
+    initValues,
+    hash = defaultHash,
+    equals = defaultEquals,
+    maxLoadFactor,
+  }: HashMultiSetOptions<T> = {}) {
+    super()
+    this.#table = new HashTable<T, number>(hash, equals, maxLoadFactor)
+    this.#length = 0
+
+    if (initValues !== undefined && !Array.isArray(initValues)) {
+      throw new TypeError('Expected an array to initialize the HashMultiSet.')
+    }
+    if (initValues !== undefined) {
+      for (const value of initValues) {
+        this.add(value)
+      }
+    }
+  }
+
+  /**
+   * Iterate every occurrence in bucket order.
+   */
+  *[Symbol.iterator](): IterableIterator<T> {
+    for (const entry of this.#table) {
+      for (let i = 0; i < entry.value; i++) yield entry.key
+    }
+  }
+
+  protected append(value: T): void {
+    this.add(value)
+  }
+
+  /**
+   * Add `n` occurrences of `value`. The first value added is the one
+   * stored; later equal values only raise its count.
+   *
+   * Complexity: O(1) average
+   * @returns The multiset itself, for chaining.
+   * @throws RangeError when `n` is not a non-negative integer.
+   */
+  public add(value: T, n = 1): this {
+    assertCount(n)
+    if (n === 0) return this
+    const { entry, inserted } = this.#table.insert(value, n)
+    if (!inserted) entry.value += n
+    this.#length += n
+    return this
+  }
+
+  /**
+   * Number of occurrences of `value` (0 when absent).
+   *
+   * Complexity: O(1) average
+   */
+  public count(value: T): number {
+    return this.#table.find(value)?.value ?? 0
+  }
+
+  /**
+   * Check whether at least one occurrence of `value` is present.
+   *
+   * Complexity: O(1) average
+   */
+  public has(value: T): boolean {
+    return this.#table.find(value) !== null
+  }
+
+  /**
+   * Remove a single occurrence of `value`.
+   *
+   * Complexity: O(1) average
+   * @returns `true` when an occurrence was removed.
+   */
+  public removeOne(value: T): boolean {
+    const entry = this.#table.find(value)
+    if (entry === null) return false
+    if (entry.value === 1) this.#table.deleteEntry(entry)
+    else entry.value--
+    this.#length--
+    return true
+  }
+
+  /**
+   * Remove every occurrence of `value`.
+   *
+   * Complexity: O(1) average
+   * @returns The number of occurrences removed.
+   */
+  public removeAll(value: T): number {
+    const entry = this.#table.delete(value)
+    if (entry === null) return 0
+    this.#length -= entry.value
+    return entry.value
+  }
+
+  /**
+   * Return the `k` most frequent values with their counts, most frequent
+   * first. Omit `k` to get every distinct value.
+   *
+   * Complexity: O(n log n)
+   * @throws RangeError when `k` is not a non-negative integer.
+   */
+  public mostCommon(k?: number): [T, number][] {
+    return mostCommon(this.counts(), k)
+  }
+
+  /**
+   * Iterate distinct values with their counts, in bucket order.
+   */
+  public *counts(): IterableIterator<[T, number]> {
+    for (const entry of this.#table) {
+      yield [entry.key, entry.value]
+    }
+  }
+
+  /** Number of distinct values. */
+  public uniqueSize(): number {
+    return this.#table.size
+  }
+
+  public clear(): void {
+    this.#table.clear()
+    this.#length = 0
+  }
+
+  // Bucket interface
+  /**
+   * Redistribute distinct values over at least `count` buckets (see
+   * `HashMap#rehash`).
+   * @throws RangeError when `count` is negative.
+   */
+  public rehash(count: number): void {
+    this.#table.rehash(count)
+  }
+
+  /**
+   * Grow the table so that `count` distinct values fit without exceeding
+   * `maxLoadFactor`.
+   * @throws RangeError when `count` is negative.
+   */
+  public reserve(count: number): void {
+    this.#table.reserve(count)
+  }
+
+  /** Distribution statistics for debugging `hash` quality. */
+  public bucketStats(): BucketStats {
+    return this.#table.bucketStats()
+  }
+
+  // Getter & Setter
+  /** Total number of occurrences. */
+  public get length(): number {
+    return this.#length
+  }
+
+  public get bucketCount(): number {
+    return this.#table.bucketCount
+  }
+
+  public get loadFactor(): number {
+    return this.#table.loadFactor
+  }
+
+  public get maxLoadFactor(): number {
+    return this.#table.maxLoadFactor
+  }
+
+  public set maxLoadFactor(value: number) {
+    this.#table.maxLoadFactor = value
+  }
+
+  /**
+   * Rebuild a `HashMultiSet` from the output of `toJSON()`, either as the
+   * object itself or as a JSON string.
+   *
+   * @param options.reviveElement - Optional function restoring each
+   *   element from its parsed JSON form.
+   * @param options.hash - Hash function; functions are not part of the
+   *   JSON and must be passed again (likewise `equals`).
+   * @throws TypeError when `json` is not a serialized `HashMultiSet`.
+   * @throws RangeError when the format version is not supported.
+   */
+  public static fromJSON<U>(
+    json: string | SerializedContainer,
+    {
+      reviveElement,
+      ...options
+    }: FromJSONOptions<U> & Omit<HashMultiSetOptions<U>, 'initValues'> = {},
+  ): HashMultiSet<U> {
+    const values = deserialize('HashMultiSet', json, { reviveElement })
+    return new HashMultiSet<U>({ ...options, initValues: values })
+  }
+
+  public get [Symbol.toStringTag](): string {
+    return 'HashMultiSet'
+  }
+}
@@ -0,0 +1,207 @@
+import { BaseContainer } from '@/core/container'
+import {
+  HashTable,
+  defaultEquals,
+  defaultHash,
+  type BucketStats,
+  type EqualsFn,
+  type HashFn,
+} from '@/core/hash-table'
+import {
+  deserialize,
+  type FromJSONOptions,
+  type SerializedContainer,
+} from '@/core/serialization'
+
+interface HashSetOptions<T> {
+  initValues?: T[]
+  hash?: HashFn<T>
+  equals?: EqualsFn<T>
+  maxLoadFactor?: number
+}
+
+/**
+ * HashSet — an unordered set of unique values with pluggable hashing
+ * (`std::unordered_set` in C++).
+ *
+ * Values are matched with a user-supplied `hash(value)` and
+ * `equals(a, b)` pair, so value-like objects can be deduplicated. Values
+ * that are `equals` must produce the same `hash`. Without options,
+ * primitives are compared by value and objects by identity, like `Set`.
+ *
+ * Type parameters:
+ * - T: value type stored in the set
+ *
+ * Performance:
+ * - `add`, `has` and `delete` are O(1) on average.
+ * - Iteration order is unspecified and may change after a rehash.
+ * - `size`, `isEmpty`, `toArray`, `assign`, `forEach`, `keys`, `values`
+ *   and `entries` are inherited from `BaseContainer`.
+ */
+export class HashSet<T> extends BaseContainer<T> {
+  #table: HashTable<T, null>
+
+  /**
+   * Create a new `HashSet`.
+   *
+   * @param options.initValues - Optional array of initial values;
+   *   duplicates are ignored.
+   * @param options.hash - Optional hash function returning a number.
+   * @param options.equals - Optional equality (defaults to SameValueZero).
+   * @param options.maxLoadFactor - Maximum average values per bucket
+   *   before the table grows (default `0.75`).
+   * @throws TypeError when `initValues` is not an array or `hash`/`equals`
+   *   are not functions.
+   * @throws RangeError when `maxLoadFactor` is not a positive number.
+   */
+  constructor({
+    initValues,
+    hash = defaultHash,
+    equals = defaultEquals,
+    maxLoadFactor,
+  }: HashSetOptions<T> = {}) {
+    super()
+    this.#table = new HashTable<T, null>(hash, equals, maxLoadFactor)
+
+    if (initValues !== undefined && !Array.isArray(initValues)) {
+      throw new TypeError('Expected an array to initialize the HashSet.')
+    }
+    if (initValues !== undefined) {
+      this.#table.reserve(initValues.length)
+      for (const value of initValues) {
+        this.add(value)
+      }
+    }
+  }
+
+  /**
+   * Iterate values in bucket order.
+   */
+  *[Symbol.iterator](): IterableIterator<T> {
+    for (const entry of this.#table) {
+      yield entry.key
+    }
+  }
+
+  protected append(value: T): void {
+    this.add(value)
+  }
+
+  /**
+   * Insert `value` unless an equal value is already present.
+   *
+   * Complexity: O(1) average
+   * @returns The set itself, for chaining.
+   */
+  public add(value: T): this {
+    this.#table.insert(value, null)
+    return this
+  }
+
+  /**
+   * Check whether a value equal to `value` is present.
+   *
+   * Complexity: O(1) average
+   */
+  public has(value: T): boolean {
+    return this.#table.find(value) !== null
+  }
+
+  /**
+   * Remove the value equal to `value`.
+   *
+   * Complexity: O(1) average
+   * @returns `true` when a value was removed.
+   */
+  public delete(value: T): boolean {
+    return this.#table.delete(value) !== null
+  }
+
+  public clear(): void {
+    this.#table.clear()
+  }
+
+  // Bucket interface
+  /**
+   * Redistribute values over at least `count` buckets (see
+   * `HashMap#rehash`).
+   * @throws RangeError when `count` is negative.
+   */
+  public rehash(count: number): void {
+    this.#table.rehash(count)
+  }
+
+  /**
+   * Grow the table so that `count` values fit without exceeding
+   * `maxLoadFactor`.
+   * @throws RangeError when `count` is negative.
+   */
+  public reserve(count: number): void {
+    this.#table.reserve(count)
+  }
+
+  /** Index of the bucket `value` maps to. */
+  public bucket(value: T): number {
+    return this.#table.bucketIndex(value)
+  }
+
+  /**
+   * Number of values in bucket `index`.
+   * @throws RangeError when `index` is out of range.
+   */
+  public bucketSize(index: number): number {
+    return this.#table.bucketSize(index)
+  }
+
+  /** Distribution statistics for debugging `hash` quality. */
+  public bucketStats(): BucketStats {
+    return this.#table.bucketStats()
+  }
+
+  // Getter & Setter
+  public get length(): number {
+    return this.#table.size
+  }
+
+  public get bucketCount(): number {
+    return this.#table.bucketCount
+  }
+
+  public get loadFactor(): number {
+    return this.#table.loadFactor
+  }
+
+  public get maxLoadFactor(): number {
+    return this.#table.maxLoadFactor
+  }
+
+  public set maxLoadFactor(value: number) {
+    this.#table.maxLoadFactor = value
+  }
+
+  /**
+   * Rebuild a `HashSet` from the output of `toJSON()`, either as the
+   * object itself or as a JSON string.
+   *
+   * @param options.reviveElement - Optional function restoring each
+   *   element from its parsed JSON form.
+   * @param options.hash - Hash function; functions are not part of the
+   *   JSON and must be passed again (likewise `equals`).
+   * @throws TypeError when `json` is not a serialized `HashSet`.
+   * @throws RangeError when the format version is not supported.
+   */
+  public static fromJSON<U>(
+    json: string | SerializedContainer,
+    {
+      reviveElement,
+      ...options
+    }: FromJSONOptions<U> & Omit<HashSetOptions<U>, 'initValues'> = {},
+  ): HashSet<U> {
+    const values = deserialize('HashSet', json, { reviveElement })
+    return new HashSet<U>({ ...options, initValues: values })
+  }
+
+  public get [Symbol.toStringTag](): string {
+    return 'HashSet'
+  }
+}
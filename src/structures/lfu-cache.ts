@@ -0,0 +1,390 @@
+import {
+  assertCacheOptions,
+  entryWeight,
+  eraseNode,
+  frontNode,
+  type Cache,
+  type CacheOptions,
+} from '@/core/cache'
+import type { ListNode } from '@/core/list-node'
+import {
+  deserialize,
+  serialize,
+  type FromJSONOptions,
+  type SerializedContainer,
+} from '@/core/serialization'
+import { LinkedList } from '@/structures/linked-list'
+
+interface Entry<K, V> {
+  key: K
+  value: V
+  weight: number
+  bucket: ListNode<Bucket<K, V>>
+}
+
+// All entries used exactly `frequency` times, most recently used first.
+interface Bucket<K, V> {
+  frequency: number
+  entries: LinkedList<Entry<K, V>>
+}
+
+/**
+ * LFUCache — a cache that evicts the least frequently used entry first,
+ * and the least recently used one among entries used equally often.
+ *
+ * Entries are grouped into buckets by use count. The buckets form a
+ * `LinkedList` in ascending frequency, and each bucket keeps its entries
+ * in a `LinkedList` from most to least recently used. A hit moves the
+ * entry's node into the next bucket with `splice` (creating that bucket
+ * when needed) and eviction pops the back of the first bucket, so `get`,
+ * `set`, `delete` and eviction are all O(1).
+ *
+ * Capacity is bounded by `maxSize` entries, `maxWeight` total weight (with
+ * `sizeFn` giving each entry's weight), or both.
+ *
+ * Type parameters:
+ * - K: key type, compared like `Map` keys
+ * - V: value type
+ */
+export class LFUCache<K, V> implements Cache<K, V> {
+  #buckets: LinkedList<Bucket<K, V>>
+  #nodes: Map<K, ListNode<Entry<K, V>>>
+  #weight: number
+  #maxSize: number
+  #maxWeight: number
+  #sizeFn?: (value: V, key: K) => number
+  #onEvict?: (key: K, value: V) => void
+
+  /**
+   * Create a new `LFUCache`.
+   *
+   * @param options.initValues - Optional `[key, value]` pairs, set in
+   *   order; each starts with a use count of 1.
+   * @param options.maxSize - Maximum number of entries.
+   * @param options.maxWeight - Maximum total weight.
+   * @param options.sizeFn - Weight of an entry; 1 by default.
+   * @param options.onEvict - Called with every entry evicted to make room.
+   * @throws TypeError when neither `maxSize` nor `maxWeight` is given, a
+   *   callback is not a function, or `initValues` is not an array.
+   * @throws RangeError when a limit is not positive.
+   */
+  constructor(options: CacheOptions<K, V>) {
+    assertCacheOptions('LFUCache', options)
+    const { initValues, maxSize, maxWeight, sizeFn, onEvict } = options
+    this.#buckets = new LinkedList()
+    this.#nodes = new Map()
+    this.#weight = 0
+    this.#maxSize = maxSize ?? Infinity
+    this.#maxWeight = maxWeight ?? Infinity
+    this.#sizeFn = sizeFn
+    this.#onEvict = onEvict
+
+    if (initValues !== undefined && !Array.isArray(initValues)) {
+      throw new TypeError('Expected an array to initialize the LFUCache.')
+    }
+    if (initValues !== undefined) {
+      for (const [key, value] of initValues) {
+        this.set(key, value)
+      }
+    }
+  }
+
+  // Bucket for `frequency` right after `prev` (or first when `prev` is
+  // null), created when missing.
+  #bucketAfter(
+    prev: ListNode<Bucket<K, V>> | null,
+    frequency: number,
+  ): ListNode<Bucket<K, V>> {
+    const next = prev === null ? frontNode(this.#buckets) : prev.next
+    if (next !== null && next.val.frequency === frequency) return next
+    const single = new LinkedList<Bucket<K, V>>({
+      initValues: [{ frequency, entries: new LinkedList() }],
+    })
+    const node = single.nodeAt(0)
+    this.#buckets.splice(next, single)
+    return node
+  }
+
+  // Move `node` to the front of `target`, dropping its old bucket when
+  // that becomes empty.
+  #moveTo(node: ListNode<Entry<K, V>>, target: ListNode<Bucket<K, V>>): void {
+    const source = node.val.bucket
+    const entries = target.val.entries
+    entries.splice(frontNode(entries), source.val.entries, node, node.next)
+    node.val.bucket = target
+    if (source.val.entries.isEmpty()) eraseNode(this.#buckets, source)
+  }
+
+  #touch(node: ListNode<Entry<K, V>>): void {
+    const bucket = node.val.bucket
+    this.#moveTo(node, this.#bucketAfter(bucket, bucket.val.frequency + 1))
+  }
+
+  #remove(node: ListNode<Entry<K, V>>): Entry<K, V> {
+    const bucket = node.val.bucket
+    const entry = eraseNode(bucket.val.entries, node)
+    if (bucket.val.entries.isEmpty()) eraseNode(this.#buckets, bucket)
+    this.#nodes.delete(entry.key)
+    this.#weight -= entry.weight
+    return entry
+  }
+
+  // Evict until the limits hold, never choosing `keep` (the entry just
+  // set). `keep` sits at the front of its bucket, so when it is the
+  // victim it is alone there and the next bucket's last entry goes.
+  #evict(keep: ListNode<Entry<K, V>> | null): void {
+    while (this.#nodes.size > this.#maxSize || this.#weight > this.#maxWeight) {
+      const first = frontNode(this.#buckets)!
+      let victim: ListNode<Entry<K, V>> | null = first.val.entries.nodeAt(
+        first.val.entries.length - 1,
+      )
+      if (victim === keep) {
+        const next = first.next
+        if (next === null) return
+        victim = next.val.entries.nodeAt(next.val.entries.length - 1)
+      }
+      const { key, value } = this.#remove(victim)
+      this.#onEvict?.(key, value)
+    }
+  }
+
+  /**
+   * Iterate `[key, value]` pairs from most to least frequently used, and
+   * from most to least recently used within a use count.
+   */
+  *[Symbol.iterator](): IterableIterator<[K, V]> {
+    for (const { entries } of this.#buckets.rbegin()) {
+      for (const { key, value } of entries) yield [key, value]
+    }
+  }
+
+  /**
+   * Return the value for `key` and count one more use of it.
+   *
+   * Complexity: O(1)
+   */
+  public get(key: K): V | undefined {
+    const node = this.#nodes.get(key)
+    if (node === undefined) return undefined
+    this.#touch(node)
+    return node.val.value
+  }
+
+  /**
+   * Return the value for `key` without counting a use.
+   *
+   * Complexity: O(1)
+   */
+  public peek(key: K): V | undefined {
+    return this.#nodes.get(key)?.val.value
+  }
+
+  /**
+   * Number of uses of `key` (`set` and `get` calls since it was
+   * inserted), or 0 when it is not cached.
+   *
+   * Complexity: O(1)
+   */
+  public frequency(key: K): number {
+    return this.#nodes.get(key)?.val.bucket.val.frequency ?? 0
+  }
+
+  /**
+   * Insert `key` with a use count of 1, or overwrite it and count one more
+   * use, then evict other entries until the limits hold. An entry heavier
+   * than `maxWeight` is not stored: any old value for `key` is removed
+   * and `onEvict` is called with the new one.
+   *
+   * Complexity: O(1) plus O(1) per evicted entry
+   * @throws RangeError when `sizeFn` returns a negative or non-finite
+   *   weight.
+   */
+  public set(key: K, value: V): this {
+    const weight = entryWeight(this.#sizeFn, key, value)
+    let node = this.#nodes.get(key)
+    if (weight > this.#maxWeight) {
+      if (node !== undefined) this.#remove(node)
+      this.#onEvict?.(key, value)
+      return this
+    }
+    if (node !== undefined) {
+      this.#weight += weight - node.val.weight
+      node.val.value = value
+      node.val.weight = weight
+      this.#touch(node)
+    } else {
+      const bucket = this.#bucketAfter(null, 1)
+      bucket.val.entries.pushFront({ key, value, weight, bucket })
+      node = bucket.val.entries.nodeAt(0)
+      this.#nodes.set(key, node)
+      this.#weight += weight
+    }
+    this.#evict(node)
+    return this
+  }
+
+  /**
+   * Check whether `key` is cached, without counting a use.
+   *
+   * Complexity: O(1)
+   */
+  public has(key: K): boolean {
+    return this.#nodes.has(key)
+  }
+
+  /**
+   * Remove `key`. `onEvict` is not called.
+   *
+   * Complexity: O(1)
+   * @returns `true` when `key` was cached.
+   */
+  public delete(key: K): boolean {
+    const node = this.#nodes.get(key)
+    if (node === undefined) return false
+    this.#remove(node)
+    return true
+  }
+
+  /**
+   * Remove all entries. `onEvict` is not called.
+   */
+  public clear(): void {
+    this.#buckets.clear()
+    this.#nodes.clear()
+    this.#weight = 0
+  }
+
+  public isEmpty(): boolean {
+    return this.#nodes.size === 0
+  }
+
+  public size(): number {
+    return this.#nodes.size
+  }
+
+  public *keys(): IterableIterator<K> {
+    for (const [key] of this) yield key
+  }
+
+  public *values(): IterableIterator<V> {
+    for (const [, value] of this) yield value
+  }
+
+  public entries(): IterableIterator<[K, V]> {
+    return this[Symbol.iterator]()
+  }
+
+  /**
+   * Call `callback(value, key, cache)` for each entry in iteration order,
+   * without counting uses. If the callback returns `false`, iteration
+   * stops early.
+   *
+   * @throws TypeError when `callback` is not a function.
+   */
+  public forEach(
+    callback: (value: V, key: K, cache: this) => void | false,
+    thisArg?: unknown,
+  ): void {
+    if (typeof callback !== 'function') {
+      throw new TypeError('Callback must be a function')
+    }
+    for (const [key, value] of this) {
+      if (callback.call(thisArg, value, key, this) === false) break
+    }
+  }
+
+  /**
+   * Return the entries as `[key, value]` pairs in iteration order.
+   */
+  public toArray(): [K, V][] {
+    return [...this]
+  }
+
+  /**
+   * Return a tagged, versioned snapshot used by `JSON.stringify`; `values`
+   * holds `[key, value, frequency]` triples in iteration order.
+   */
+  public toJSON(): SerializedContainer<[K, V, number]> {
+    const values: [K, V, number][] = []
+    for (const { frequency, entries } of this.#buckets.rbegin()) {
+      for (const { key, value } of entries) values.push([key, value, frequency])
+    }
+    return serialize('LFUCache', values)
+  }
+
+  /**
+   * Rebuild an `LFUCache` from the output of `toJSON()`, either as the
+   * object itself or as a JSON string, keeping use counts and recency.
+   * Limits and callbacks are not part of JSON and must be passed again;
+   * entries beyond the limits are evicted.
+   *
+   * @throws TypeError when `json` is not a serialized `LFUCache`, or when
+   *   a frequency is not a positive integer or is higher than the one of
+   *   the entry before it.
+   * @throws RangeError when the format version is not supported.
+   */
+  public static fromJSON<K, V>(
+    json: string | SerializedContainer,
+    {
+      reviveElement,
+      ...options
+    }: FromJSONOptions<[K, V, number]> & Omit<CacheOptions<K, V>, 'initValues'>,
+  ): LFUCache<K, V> {
+    const values = deserialize('LFUCache', json, { reviveElement })
+    // Buckets are rebuilt by appending, which only keeps them sorted when
+    // frequencies never increase from one entry to the next.
+    let previous = Infinity
+    for (const entry of values) {
+      const frequency: unknown = Array.isArray(entry) ? entry[2] : undefined
+      if (
+        typeof frequency !== 'number' ||
+        !Number.isInteger(frequency) ||
+        frequency < 1 ||
+        frequency > previous
+      ) {
+        throw new TypeError(
+          'LFUCache.fromJSON: frequencies must be positive integers in non-increasing order',
+        )
+      }
+      previous = frequency
+    }
+    const cache = new LFUCache<K, V>(options)
+    // Least used first, so buckets are appended in ascending frequency
+    // and each entry goes in front of the less recent ones.
+    for (let i = values.length - 1; i >= 0; i--) {
+      const [key, value, frequency] = values[i]!
+      if (cache.#nodes.has(key)) continue
+      const tail = cache.#buckets.isEmpty()
+        ? null
+        : cache.#buckets.nodeAt(cache.#buckets.length - 1)
+      const bucket = cache.#bucketAfter(tail, frequency)
+      const weight = entryWeight(cache.#sizeFn, key, value)
+      bucket.val.entries.pushFront({ key, value, weight, bucket })
+      cache.#nodes.set(key, bucket.val.entries.nodeAt(0))
+      cache.#weight += weight
+    }
+    cache.#evict(null)
+    return cache
+  }
+
+  // Getter
+  public get length(): number {
+    return this.#nodes.size
+  }
+
+  public get weight(): number {
+    return this.#weight
+  }
+
+  public get maxSize(): number {
+    return this.#maxSize
+  }
+
+  public get maxWeight(): number {
+    return this.#maxWeight
+  }
+
+  public get [Symbol.toStringTag](): string {
+    return 'LFUCache'
+  }
+}
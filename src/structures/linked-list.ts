@@ -1,7 +1,25 @@
+import { BaseContainer } from '@/core/container'
+import {
+  ChangeObservers,
+  type ChangeEvent,
+  type ChangeEventOf,
+  type ChangeListener,
+  type ChangeType,
+} from '@/core/events'
 import { ListNode } from '@/core/list-node'
+import {
+  deserialize,
+  type FromJSONOptions,
+  type SerializedContainer,
+} from '@/core/serialization'
 
 type Factory<T, A extends unknown[]> = (...args: A) => T
 
+// Default ordering for `sort` and `merge`: ascending by `<` / `>`.
+function defaultCompare<T>(a: T, b: T): number {
+  return a < b ? -1 : a > b ? 1 : 0
+}
+
 interface ListOptions<T, A extends unknown[]> {
   initValues?: T[]
   factory?: Factory<T, A>
@@ -24,12 +42,20 @@ interface ListOptions<T, A extends unknown[]> {
  * - Many methods throw on invalid usage (for example, popping from an
  *   empty list or using an out-of-range index). Use `isEmpty()` and
  *   `size()`/`length` to check state before mutating.
+ * - `size`, `isEmpty`, `toArray`, `assign`, `forEach`, `keys`, `values`
+ *   and `entries` are inherited from `BaseContainer`.
+ * - Observers attached with `subscribe` / `on` see every change;
+ *   positions count from the front.
  */
-export class LinkedList<T, A extends unknown[] = unknown[]> {
+export class LinkedList<
+  T,
+  A extends unknown[] = unknown[],
+> extends BaseContainer<T> {
   #head: ListNode<T> | null
   #tail: ListNode<T> | null
   #length: number
   #factory?: Factory<T, A>
+  #observers: ChangeObservers<T, this> | null = null
   /**
    * Create a new LinkedList.
    *
@@ -42,6 +68,7 @@ export class LinkedList<T, A extends unknown[] = unknown[]> {
    * - TypeError if `initValues` is provided but is not an array.
    */
   constructor({ initValues, factory }: ListOptions<T, A> = {}) {
+    super()
     this.#head = this.#tail = null
     this.#length = 0
     this.#factory = factory
@@ -85,7 +112,7 @@ export class LinkedList<T, A extends unknown[] = unknown[]> {
   }
 
   #unlink(node: ListNode<T>): T {
-    const { prev, next, cleanup, val } = node
+    const { prev, next, val } = node
 
     if (prev !== null) prev.next = next
     else this.#head = next
@@ -93,11 +120,68 @@ export class LinkedList<T, A extends unknown[] = unknown[]> {
     if (next !== null) next.prev = prev
     else this.#tail = prev
 
-    cleanup()
+    node.cleanup()
     this.#length--
     return val
   }
 
+  // Deliver `event` when someone listens. Callers build the event only
+  // after checking `#observers?.active`.
+  #emit(event: ChangeEvent<T>): void {
+    this.#observers!.emit(event, this)
+  }
+
+  // Report that the whole content was replaced (used by `swap`).
+  #emitReplaced(previous: T[]): void {
+    if (previous.length > 0) {
+      this.#emit({ type: 'clear', index: 0, values: previous })
+    }
+    if (this.#length > 0) {
+      this.#emit({ type: 'insert', index: 0, values: this.toArray() })
+    }
+  }
+
+  // Position of `node` counted from the front; `null` stands for the end.
+  #indexOf(node: ListNode<T> | null): number {
+    let index = 0
+    for (let n = this.#head; n !== node && n !== null; n = n.next) index++
+    return index
+  }
+
+  protected append(value: T): void {
+    this.pushBack(value)
+  }
+
+  /**
+   * Call `listener(event, list)` after every change.
+   *
+   * Complexity: O(1). Unobserved lists pay nothing for events.
+   *
+   * @param listener - receives the `ChangeEvent` and the list
+   * @returns a function that detaches the listener
+   * @throws TypeError when `listener` is not a function
+   */
+  public subscribe(listener: ChangeListener<T, this>): () => void {
+    this.#observers ??= new ChangeObservers()
+    return this.#observers.subscribe(listener)
+  }
+
+  /**
+   * Call `listener(event, list)` after changes of one `type`.
+   *
+   * @param type - `'insert'`, `'remove'`, `'clear'` or `'update'`
+   * @param listener - receives the narrowed event and the list
+   * @returns a function that detaches the listener
+   * @throws TypeError when `type` is unknown or `listener` is not a function
+   */
+  public on<K extends ChangeType>(
+    type: K,
+    listener: ChangeListener<T, this, ChangeEventOf<T, K>>,
+  ): () => void {
+    this.#observers ??= new ChangeObservers()
+    return this.#observers.on(type, listener)
+  }
+
   /**
    * Insert `value` at the front (head) of the list.
    *
@@ -110,14 +194,16 @@ export class LinkedList<T, A extends unknown[] = unknown[]> {
 
     if (this.isEmpty()) {
       this.#head = this.#tail = newNode
-      this.#length++
-      return
+    } else {
+      this.#head!.prev = newNode
+      newNode.next = this.#head
+      this.#head = newNode
     }
-
-    this.#head!.prev = newNode
-    newNode.next = this.#head
-    this.#head = newNode
     this.#length++
+
+    if (this.#observers?.active) {
+      this.#emit({ type: 'insert', index: 0, values: [value] })
+    }
   }
 
   /**
@@ -132,14 +218,16 @@ export class LinkedList<T, A extends unknown[] = unknown[]> {
 
     if (this.isEmpty()) {
       this.#head = this.#tail = newNode
-      this.#length++
-      return
+    } else {
+      newNode.prev = this.#tail
+      this.#tail!.next = newNode
+      this.#tail = newNode
     }
-
-    newNode.prev = this.#tail
-    this.#tail!.next = newNode
-    this.#tail = newNode
     this.#length++
+
+    if (this.#observers?.active) {
+      this.#emit({ type: 'insert', index: this.#length - 1, values: [value] })
+    }
   }
 
   /**
@@ -159,19 +247,20 @@ export class LinkedList<T, A extends unknown[] = unknown[]> {
     const peek = this.#head!
     const peekVal = peek.val
 
-    // Single Node
     if (this.#length === 1) {
+      // Single Node
       this.#head = this.#tail = null
-      peek.cleanup()
-      this.#length--
-      return peekVal
+    } else {
+      // Two and more nodes
+      this.#head = this.#head!.next!
+      this.#head.prev = null
     }
-
-    // Two and more nodes
-    this.#head = this.#head!.next!
-    this.#head.prev = null
     peek.cleanup()
     this.#length--
+
+    if (this.#observers?.active) {
+      this.#emit({ type: 'remove', index: 0, values: [peekVal] })
+    }
     return peekVal
   }
 
@@ -192,20 +281,21 @@ export class LinkedList<T, A extends unknown[] = unknown[]> {
     const peek = this.#tail!
     const peekVal = peek.val
 
-    // Single node case
     if (this.#length === 1) {
+      // Single node case
       this.#head = this.#tail = null
-      peek.cleanup()
-      this.#length--
-      return peekVal
+    } else {
+      // Two or more case
+      const prevNode = this.#tail!.prev!
+      prevNode.next = null
+      this.#tail = prevNode
     }
-
-    // Two or more case
-    const prevNode = this.#tail!.prev!
-    prevNode.next = null
-    this.#tail = prevNode
     peek.cleanup()
     this.#length--
+
+    if (this.#observers?.active) {
+      this.#emit({ type: 'remove', index: this.#length, values: [peekVal] })
+    }
     return peekVal
   }
 
@@ -250,6 +340,10 @@ export class LinkedList<T, A extends unknown[] = unknown[]> {
     curr!.next = newNode
     nextNode.prev = newNode
     this.#length++
+
+    if (this.#observers?.active) {
+      this.#emit({ type: 'insert', index, values: [val] })
+    }
   }
 
   /**
@@ -285,7 +379,122 @@ export class LinkedList<T, A extends unknown[] = unknown[]> {
 
     if (curr === null) throw new Error('Index out of bounds after traversal')
 
-    return this.#unlink(curr)
+    const removed = this.#unlink(curr)
+    if (this.#observers?.active) {
+      this.#emit({ type: 'remove', index, values: [removed] })
+    }
+    return removed
+  }
+
+  /**
+   * Return the node at `index`, for use as a position in `splice`. The
+   * node stays valid until it is removed from its list; do not relink its
+   * `prev` / `next` by hand.
+   *
+   * Complexity: O(1) for the front and back, O(n) otherwise.
+   *
+   * @param index - zero-based index of the node
+   * @throws RangeError when index is out of bounds
+   */
+  public nodeAt(index: number): ListNode<T> {
+    if (!Number.isInteger(index) || index < 0 || index >= this.#length) {
+      throw new RangeError('Invalid index to access')
+    }
+    if (index === this.#length - 1) return this.#tail!
+
+    let curr = this.#head!
+    for (let i = 0; i < index; i++) curr = curr.next!
+    return curr
+  }
+
+  /**
+   * Move the nodes `[first, last)` of `other` in front of `position` in
+   * this list, like `std::list::splice`. Nodes are relinked, not copied,
+   * so references to them stay valid. `other` may be this list, to
+   * reorder it.
+   *
+   * - `position` is a node of this list, or `null` for the end.
+   * - `first` defaults to the front of `other` and `last` (exclusive) to
+   *   `null`, the end of `other`; leave both out to move all of `other`.
+   * - To move one node: `list.splice(pos, other, node, node.next)`.
+   *
+   * `position` must not lie inside `[first, last)` when `other` is this
+   * list, and the nodes must belong to the lists they are passed with;
+   * neither is checked.
+   *
+   * Observers of `other` get one `remove` and observers of this list one
+   * `insert` for the moved values (both on the same list when `other` is
+   * this list).
+   *
+   * Complexity: O(1) when moving a whole list, a single node or a range
+   * within this list; O(k) for a range of k nodes taken from another
+   * list, which has to be counted.
+   *
+   * @throws TypeError when `other` is not a `LinkedList`.
+   */
+  public splice(
+    position: ListNode<T> | null,
+    other: LinkedList<T, A>,
+    first: ListNode<T> | null = other.#head,
+    last: ListNode<T> | null = null,
+  ): void {
+    if (!(other instanceof LinkedList)) {
+      throw new TypeError('Expected a LinkedList to splice from')
+    }
+    if (first === null || first === last) return
+    if (other === this && (position === first || position === last)) return
+
+    const end = last === null ? other.#tail! : last.prev!
+    let count = 0
+    if (other !== this) {
+      if (first === other.#head && last === null) {
+        count = other.#length
+      } else {
+        for (let n: ListNode<T> | null = first; n !== last; n = n!.next) {
+          count++
+        }
+      }
+    }
+
+    let events: { from: number; to: number; values: T[] } | null = null
+    if (this.#observers?.active || other.#observers?.active) {
+      const values: T[] = []
+      for (let n: ListNode<T> | null = first; n !== last; n = n!.next) {
+        values.push(n!.val)
+      }
+      const from = other.#indexOf(first)
+      let to = this.#indexOf(position)
+      if (other === this && to > from) to -= values.length
+      events = { from, to, values }
+    }
+
+    // Detach [first, end] from `other`.
+    const before = first.prev
+    if (before !== null) before.next = last
+    else other.#head = last
+    if (last !== null) last.prev = before
+    else other.#tail = before
+    other.#length -= count
+
+    // Attach it in front of `position`.
+    const prev = position === null ? this.#tail : position.prev
+    first.prev = prev
+    end.next = position
+    if (prev !== null) prev.next = first
+    else this.#head = first
+    if (position !== null) position.prev = end
+    else this.#tail = end
+    this.#length += count
+
+    if (events !== null) {
+      const { from, to, values } = events
+      if (other.#observers?.active) {
+        other.#emit({ type: 'remove', index: from, values })
+      }
+      if (this.#observers?.active) {
+        this.#emit({ type: 'insert', index: to, values: values.slice() })
+      }
+    }
   }
 
   /**
@@ -334,24 +543,6 @@ export class LinkedList<T, A extends unknown[] = unknown[]> {
     this.insertAt(this.#factory(...args), index)
   }
 
-  /**
-   * Check whether the list is empty.
-   *
-   * @returns `true` when empty, otherwise `false`.
-   */
-  public isEmpty(): boolean {
-    return this.#length === 0
-  }
-
-  /**
-   * Return the number of elements in the list.
-   *
-   * @returns non-negative integer size of the list.
-   */
-  public size(): number {
-    return this.#length
-  }
-
   /**
    * Remove all elements from the list.
    *
@@ -360,6 +551,7 @@ export class LinkedList<T, A extends unknown[] = unknown[]> {
    */
   public clear(): void {
     if (this.isEmpty()) return
+    const removed = this.#observers?.active ? this.toArray() : null
     let curr = this.#head
     while (curr != null) {
       const nextNode = curr.next
@@ -368,103 +560,22 @@ export class LinkedList<T, A extends unknown[] = unknown[]> {
     }
     this.#head = this.#tail = null
     this.#length = 0
-  }
-
-  /**
-   * Return a shallow array copy of the list values in order.
-   *
-   * @returns new array with the list values (head -> tail)
-   */
-  public toArray(): T[] {
-    return [...this]
-  }
-
-  // Overload signatures
-  public assign(count: number, value: T): void
-  public assign(values: T[], start?: number, end?: number): void
-
-  // Implementation
-  /**
-   * Assign new contents to the list.
-   *
-   * Overloads:
-   * - `assign(values: T[], start?, end?)` — copy a slice of an array
-   * - `assign(count: number, value: T)` — fill the list with `count` copies
-   *
-   * This method clears the list then populates it according to the chosen
-   * overload.
-   */
-  public assign(arg1: number | T[], arg2?: T | number, arg3?: number): void {
-    // Case: assign(values: T[], start?: number, end?: number)
-    if (Array.isArray(arg1)) {
-      const values = arg1
-      const start = typeof arg2 === 'number' ? arg2 : 0
-      const end = typeof arg3 === 'number' ? arg3 : values.length
-
-      if (start < 0 || end > values.length || start > end) {
-        throw new RangeError('Invalid array slice range')
-      }
-
-      this.clear()
-
-      for (let i = start; i < end; i++) {
-        this.pushBack(values[i]!)
-      }
-      return
-    }
-
-    // Case: assign(count: number, value: T)
-    if (typeof arg1 === 'number' && arguments.length === 2) {
-      const count = arg1
-      const value = arg2 as T
 
-      if (count < 0) {
-        throw new RangeError('Count must be a non-negative integer')
-      }
-
-      this.clear()
-
-      for (let i = 0; i < count; i++) {
-        this.pushBack(value)
-      }
-      return
-    }
-
-    // Invalid usage
-    throw new TypeError('Invalid arguments passed to assign()')
-  }
-
-  /**
-   * Iterate the list and call `callback` for every element. If callback
-   * returns `false` iteration stops early.
-   *
-   * @param callback - function called with `(value, index, list)`
-   * @param thisArg - optional `this` binding for the callback
-   */
-  public forEach(
-    callback: (value: T, index: number, list: LinkedList<T, A>) => void | false,
-    thisArg?: unknown,
-  ): void {
-    if (typeof callback !== 'function') {
-      throw new TypeError('Callback must be a function')
-    }
-    let current = this.#head
-    let index = 0
-    while (current !== null) {
-      const res = callback.call(thisArg, current.val, index, this)
-      if (res === false) break
-      current = current.next
-      index++
+    if (removed !== null) {
+      this.#emit({ type: 'clear', index: 0, values: removed })
     }
   }
 
   /**
    * Reverse the list in-place.
    *
+   * Observers get one `update` covering the whole list.
+   *
    * Complexity: O(n). Safe for empty and single-element lists.
    */
   public reverse(): void {
     if (this.length <= 1) return
+    const oldValues = this.#observers?.active ? this.toArray() : null
 
     let prev: ListNode<T> | null = null
     let curr: ListNode<T> | null = this.#head
@@ -484,11 +595,53 @@ export class LinkedList<T, A extends unknown[] = unknown[]> {
     // Swap head and tail
     this.#tail = this.#head
     this.#head = prev
+
+    if (oldValues !== null) {
+      this.#emit({
+        type: 'update',
+        index: 0,
+        values: oldValues.slice().reverse(),
+        oldValues,
+      })
+    }
+  }
+
+  // Unlink every node for which `shouldRemove` returns true, front to
+  // back. A node's `prev` is always the last node kept so far.
+  #removeWhere(shouldRemove: (node: ListNode<T>) => boolean): number {
+    let count = 0
+    let current = this.#head
+    // Position of `current` once earlier matches are gone.
+    let index = 0
+    const removed: ChangeEvent<T>[] | null = this.#observers?.active ? [] : null
+
+    try {
+      while (current !== null) {
+        const nextNode = current.next
+        if (shouldRemove(current)) {
+          const val = this.#unlink(current)
+          removed?.push({ type: 'remove', index, values: [val] })
+          count++
+        } else {
+          index++
+        }
+        current = nextNode
+      }
+    } finally {
+      // Report what was removed even if a callback threw midway.
+      if (removed !== null) {
+        for (const event of removed) this.#emit(event)
+      }
+    }
+    return count
   }
 
   /**
    * Remove all elements that match `val` according to `compareFn`.
    *
+   * Observers get one `remove` per element, in list order; each `index`
+   * accounts for the removals reported before it.
+   *
    * @param val - value to match
    * @param compareFn - equality comparison (default strict equality)
    * @returns number of removed elements
@@ -503,37 +656,125 @@ export class LinkedList<T, A extends unknown[] = unknown[]> {
       throw new TypeError('compareFn must be a function')
     }
 
-    let count = 0
-    let current = this.#head
+    return this.#removeWhere((node) => compareFn(node.val, val))
+  }
 
-    while (current !== null) {
-      const nextNode = current.next
-
-      if (compareFn(current.val, val)) {
-        const prevNode = current.prev
-
-        if (prevNode !== null && nextNode !== null) {
-          prevNode.next = nextNode
-          nextNode.prev = prevNode
-        } else if (prevNode !== null) {
-          prevNode.next = null
-          this.#tail = prevNode
-        } else if (nextNode !== null) {
-          nextNode.prev = null
-          this.#head = nextNode
-        } else {
-          this.#head = this.#tail = null
-        }
+  /**
+   * Remove all elements for which `predicate` returns true.
+   *
+   * Complexity: O(n). Events are reported as for `remove`.
+   *
+   * @param predicate - called once per element, front to back
+   * @returns number of removed elements
+   * @throws TypeError when `predicate` is not a function
+   */
+  public removeIf(predicate: (value: T) => boolean): number {
+    if (typeof predicate !== 'function') {
+      throw new TypeError('predicate must be a function')
+    }
+    return this.#removeWhere((node) => predicate(node.val))
+  }
+
+  /**
+   * Collapse every run of consecutive equal elements into its first
+   * element, like `std::list::unique`. Sort first to remove all
+   * duplicates.
+   *
+   * Complexity: O(n). Events are reported as for `remove`.
+   *
+   * @param equalsFn - called as `equalsFn(kept, candidate)` (default
+   *   strict equality)
+   * @returns number of removed elements
+   * @throws TypeError when `equalsFn` is not a function
+   */
+  public unique(equalsFn: (a: T, b: T) => boolean = (a, b) => a === b): number {
+    if (typeof equalsFn !== 'function') {
+      throw new TypeError('equalsFn must be a function')
+    }
+    return this.#removeWhere(
+      (node) => node.prev !== null && equalsFn(node.prev.val, node.val),
+    )
+  }
+
+  /**
+   * Sort the list in place with a stable merge sort. Nodes are relinked,
+   * never copied, so references to them stay valid.
+   *
+   * Uses the same default comparator as `LinkedList.merge` (ascending by
+   * `<` / `>`). Observers get one `update` covering the whole list.
+   *
+   * Complexity: O(n log n) time, O(1) extra space.
+   *
+   * @param compareFn - negative when `a` should come before `b`
+   * @throws TypeError when `compareFn` is not a function
+   */
+  public sort(compareFn: (a: T, b: T) => number = defaultCompare): void {
+    if (typeof compareFn !== 'function') {
+      throw new TypeError('compareFn must be a function')
+    }
+    if (this.#length <= 1) return
+    const oldValues = this.#observers?.active ? this.toArray() : null
 
-        current.cleanup()
-        count++
+    // Bottom-up: merge neighbouring sorted runs of `width` nodes, doubling
+    // `width` until one pass performs a single merge.
+    let head = this.#head
+    let tail: ListNode<T> | null = null
+    for (let width = 1; ; width *= 2) {
+      let left = head
+      let merges = 0
+      head = tail = null
+
+      while (left !== null) {
+        merges++
+        let right: ListNode<T> | null = left
+        let leftSize = 0
+        while (leftSize < width && right !== null) {
+          right = right.next
+          leftSize++
+        }
+        let rightSize = width
+
+        while (leftSize > 0 || (rightSize > 0 && right !== null)) {
+          let node: ListNode<T>
+          // Take from the left run on ties to keep the sort stable.
+          if (
+            leftSize > 0 &&
+            (rightSize === 0 ||
+              right === null ||
+              compareFn(left!.val, right.val) <= 0)
+          ) {
+            node = left!
+            left = left!.next
+            leftSize--
+          } else {
+            node = right!
+            right = right!.next
+            rightSize--
+          }
+
+          node.prev = tail
+          if (tail !== null) tail.next = node
+          else head = node
+          tail = node
+        }
+        left = right
       }
 
-      current = nextNode
+      tail!.next = null
+      if (merges <= 1) break
     }
 
-    this.#length -= count
-    return count
+    this.#head = head
+    this.#tail = tail
+
+    if (oldValues !== null) {
+      this.#emit({
+        type: 'update',
+        index: 0,
+        values: this.toArray(),
+        oldValues,
+      })
+    }
   }
 
   // Setter & Getter method
@@ -541,6 +782,10 @@ export class LinkedList<T, A extends unknown[] = unknown[]> {
     return this.#length
   }
 
+  public get [Symbol.toStringTag](): string {
+    return 'LinkedList'
+  }
+
   public get front(): T {
     if (this.isEmpty()) {
       throw new Error(
@@ -554,7 +799,16 @@ export class LinkedList<T, A extends unknown[] = unknown[]> {
     if (this.isEmpty()) {
       throw new Error('front: cannot set front element of an empty linked list')
     }
+    const oldValue = this.#head!.val
     this.#head!.val = val
+    if (this.#observers?.active) {
+      this.#emit({
+        type: 'update',
+        index: 0,
+        values: [val],
+        oldValues: [oldValue],
+      })
+    }
   }
 
   public get back(): T {
@@ -570,7 +824,16 @@ export class LinkedList<T, A extends unknown[] = unknown[]> {
     if (this.isEmpty()) {
       throw new Error('back: cannot set back element of an empty linked list')
     }
+    const oldValue = this.#tail!.val
     this.#tail!.val = val
+    if (this.#observers?.active) {
+      this.#emit({
+        type: 'update',
+        index: this.#length - 1,
+        values: [val],
+        oldValues: [oldValue],
+      })
+    }
   }
 
   // Static method
@@ -580,13 +843,17 @@ export class LinkedList<T, A extends unknown[] = unknown[]> {
   ): void {
     /**
      * Swap the contents of two linked lists in O(1) by swapping internal
-     * pointers and lengths.
+     * pointers and lengths. Observers of each list get a `clear` of the
+     * old contents followed by an `insert` of the new ones.
      *
      * @throws TypeError when either argument is not a `LinkedList`.
      */
     if (!(list1 instanceof LinkedList && list2 instanceof LinkedList)) {
       throw new TypeError('Both arguments must be instances of LinkedList')
     }
+    const before1 = list1.#observers?.active ? list1.toArray() : null
+    const before2 = list2.#observers?.active ? list2.toArray() : null
+
     const tempHead = list1.#head
     const tempTail = list1.#tail
     const tempLength = list1.#length
@@ -598,12 +865,15 @@ export class LinkedList<T, A extends unknown[] = unknown[]> {
     list2.#head = tempHead
     list2.#tail = tempTail
     list2.#length = tempLength
+
+    if (before1 !== null) list1.#emitReplaced(before1)
+    if (before2 !== null) list2.#emitReplaced(before2)
   }
 
   public static merge<U, V extends unknown[] = [U]>(
     target: LinkedList<U, V> | null,
     source: LinkedList<U, V> | null,
-    compareFn: (a: U, b: U) => number = (a, b) => (a < b ? -1 : a > b ? 1 : 0),
+    compareFn: (a: U, b: U) => number = defaultCompare,
   ): void {
     /**
      * Merge `source` into `target`. Both lists must be sorted according to
@@ -611,6 +881,8 @@ export class LinkedList<T, A extends unknown[] = unknown[]> {
      * will contain the merged sorted sequence.
      *
      * This operates in-place by relinking nodes and performs O(n) work.
+     * Observers of `target` get one `insert` per run of moved nodes;
+     * observers of `source` get a single `clear`.
      *
      * @throws TypeError when inputs are not `LinkedList` instances or
      *   `compareFn` is not a function.
@@ -630,9 +902,26 @@ export class LinkedList<T, A extends unknown[] = unknown[]> {
 
     let targetNode = target.#head
     let sourceNode = source.#head
+    // Position of `targetNode` in `target`, for change events.
+    let position = 0
+    const inserted: { index: number; values: U[] }[] | null = target.#observers
+      ?.active
+      ? []
+      : null
+    const drained = source.#observers?.active ? source.toArray() : null
 
     while (targetNode !== null && sourceNode !== null) {
       if (compareFn(sourceNode.val, targetNode.val) < 0) {
+        if (inserted !== null) {
+          const run = inserted[inserted.length - 1]
+          if (run !== undefined && run.index + run.values.length === position) {
+            run.values.push(sourceNode.val)
+          } else {
+            inserted.push({ index: position, values: [sourceNode.val] })
+          }
+        }
+        position++
+
         const nextSource = sourceNode.next
 
         // Unlink sourceNode from source
@@ -657,11 +946,24 @@ export class LinkedList<T, A extends unknown[] = unknown[]> {
         sourceNode = nextSource
       } else {
         targetNode = targetNode.next
+        position++
       }
     }
 
     // Append remaining source nodes at the end
     if (sourceNode !== null) {
+      if (inserted !== null) {
+        const values: U[] = []
+        for (
+          let node: ListNode<U> | null = sourceNode;
+          node;
+          node = node.next
+        ) {
+          values.push(node.val)
+        }
+        inserted.push({ index: target.#length, values })
+      }
+
       if (target.#tail) {
         target.#tail.next = sourceNode
         sourceNode.prev = target.#tail
@@ -674,6 +976,15 @@ export class LinkedList<T, A extends unknown[] = unknown[]> {
       source.#head = source.#tail = null
       source.#length = 0
     }
+
+    if (inserted !== null) {
+      for (const { index, values } of inserted) {
+        target.#emit({ type: 'insert', index, values })
+      }
+    }
+    if (drained !== null && drained.length > 0) {
+      source.#emit({ type: 'clear', index: 0, values: drained })
+    }
   }
 
   public static buildNodes<T>(values: T[]): {
@@ -709,4 +1020,26 @@ export class LinkedList<T, A extends unknown[] = unknown[]> {
 
     return { head, tail }
   }
+
+  /**
+   * Rebuild a `LinkedList` from the output of `toJSON()`, either as the
+   * object itself or as a JSON string.
+   *
+   * @param options.reviveElement - Optional function restoring each
+   *   element from its parsed JSON form.
+   * @param options.factory - Optional factory for `emplace`; functions
+   *   are not part of the JSON and must be passed again.
+   * @throws TypeError when `json` is not a serialized `LinkedList`.
+   * @throws RangeError when the format version is not supported.
+   */
+  public static fromJSON<U, V extends unknown[] = [U]>(
+    json: string | SerializedContainer,
+    {
+      reviveElement,
+      ...options
+    }: FromJSONOptions<U> & Omit<ListOptions<U, V>, 'initValues'> = {},
+  ): LinkedList<U, V> {
+    const values = deserialize('LinkedList', json, { reviveElement })
+    return new LinkedList<U, V>({ ...options, initValues: values })
+  }
 }
@@ -0,0 +1,291 @@
+import {
+  assertCacheOptions,
+  entryWeight,
+  eraseNode,
+  frontNode,
+  type Cache,
+  type CacheOptions,
+} from '@/core/cache'
+import type { ListNode } from '@/core/list-node'
+import {
+  deserialize,
+  serialize,
+  type FromJSONOptions,
+  type SerializedContainer,
+} from '@/core/serialization'
+import { LinkedList } from '@/structures/linked-list'
+
+interface Entry<K, V> {
+  key: K
+  value: V
+  weight: number
+}
+
+/**
+ * LRUCache — a cache that evicts the least recently used entry first.
+ *
+ * Entries live in a `LinkedList` ordered from most to least recently
+ * used, and a `Map` points each key at its `ListNode`. A hit moves the
+ * node to the front with `splice` and eviction pops the back, so `get`,
+ * `set`, `delete` and eviction are all O(1).
+ *
+ * Capacity is bounded by `maxSize` entries, `maxWeight` total weight (with
+ * `sizeFn` giving each entry's weight), or both.
+ *
+ * Type parameters:
+ * - K: key type, compared like `Map` keys
+ * - V: value type
+ */
+export class LRUCache<K, V> implements Cache<K, V> {
+  #list: LinkedList<Entry<K, V>>
+  #nodes: Map<K, ListNode<Entry<K, V>>>
+  #weight: number
+  #maxSize: number
+  #maxWeight: number
+  #sizeFn?: (value: V, key: K) => number
+  #onEvict?: (key: K, value: V) => void
+
+  /**
+   * Create a new `LRUCache`.
+   *
+   * @param options.initValues - Optional `[key, value]` pairs, set in
+   *   order, so the last pair is the most recently used.
+   * @param options.maxSize - Maximum number of entries.
+   * @param options.maxWeight - Maximum total weight.
+   * @param options.sizeFn - Weight of an entry; 1 by default.
+   * @param options.onEvict - Called with every entry evicted to make room.
+   * @throws TypeError when neither `maxSize` nor `maxWeight` is given, a
+   *   callback is not a function, or `initValues` is not an array.
+   * @throws RangeError when a limit is not positive.
+   */
+  constructor(options: CacheOptions<K, V>) {
+    assertCacheOptions('LRUCache', options)
+    const { initValues, maxSize, maxWeight, sizeFn, onEvict } = options
+    this.#list = new LinkedList()
+    this.#nodes = new Map()
+    this.#weight = 0
+    this.#maxSize = maxSize ?? Infinity
+    this.#maxWeight = maxWeight ?? Infinity
+    this.#sizeFn = sizeFn
+    this.#onEvict = onEvict
+
+    if (initValues !== undefined && !Array.isArray(initValues)) {
+      throw new TypeError('Expected an array to initialize the LRUCache.')
+    }
+    if (initValues !== undefined) {
+      for (const [key, value] of initValues) {
+        this.set(key, value)
+      }
+    }
+  }
+
+  #touch(node: ListNode<Entry<K, V>>): void {
+    this.#list.splice(frontNode(this.#list), this.#list, node, node.next)
+  }
+
+  #remove(node: ListNode<Entry<K, V>>): Entry<K, V> {
+    const entry = eraseNode(this.#list, node)
+    this.#nodes.delete(entry.key)
+    this.#weight -= entry.weight
+    return entry
+  }
+
+  // Evict from the back until the limits hold. The front entry is only
+  // reached when it alone breaks a limit, which `set` rules out.
+  #evict(): void {
+    while (
+      this.#list.length > this.#maxSize ||
+      this.#weight > this.#maxWeight
+    ) {
+      const { key, value, weight } = this.#list.popBack()
+      this.#nodes.delete(key)
+      this.#weight -= weight
+      this.#onEvict?.(key, value)
+    }
+  }
+
+  /**
+   * Iterate `[key, value]` pairs from most to least recently used.
+   */
+  *[Symbol.iterator](): IterableIterator<[K, V]> {
+    for (const { key, value } of this.#list) yield [key, value]
+  }
+
+  /**
+   * Return the value for `key` and mark it as most recently used.
+   *
+   * Complexity: O(1)
+   */
+  public get(key: K): V | undefined {
+    const node = this.#nodes.get(key)
+    if (node === undefined) return undefined
+    this.#touch(node)
+    return node.val.value
+  }
+
+  /**
+   * Return the value for `key` without changing its recency.
+   *
+   * Complexity: O(1)
+   */
+  public peek(key: K): V | undefined {
+    return this.#nodes.get(key)?.val.value
+  }
+
+  /**
+   * Insert or overwrite `key` as the most recently used entry, then evict
+   * least recently used entries until the limits hold. An entry heavier
+   * than `maxWeight` is not stored: any old value for `key` is removed
+   * and `onEvict` is called with the new one.
+   *
+   * Complexity: O(1) plus O(1) per evicted entry
+   * @throws RangeError when `sizeFn` returns a negative or non-finite
+   *   weight.
+   */
+  public set(key: K, value: V): this {
+    const weight = entryWeight(this.#sizeFn, key, value)
+    const node = this.#nodes.get(key)
+    if (weight > this.#maxWeight) {
+      if (node !== undefined) this.#remove(node)
+      this.#onEvict?.(key, value)
+      return this
+    }
+    if (node !== undefined) {
+      this.#weight += weight - node.val.weight
+      node.val.value = value
+      node.val.weight = weight
+      this.#touch(node)
+    } else {
+      this.#list.pushFront({ key, value, weight })
+      this.#nodes.set(key, this.#list.nodeAt(0))
+      this.#weight += weight
+    }
+    this.#evict()
+    return this
+  }
+
+  /**
+   * Check whether `key` is cached, without changing its recency.
+   *
+   * Complexity: O(1)
+   */
+  public has(key: K): boolean {
+    return this.#nodes.has(key)
+  }
+
+  /**
+   * Remove `key`. `onEvict` is not called.
+   *
+   * Complexity: O(1)
+   * @returns `true` when `key` was cached.
+   */
+  public delete(key: K): boolean {
+    const node = this.#nodes.get(key)
+    if (node === undefined) return false
+    this.#remove(node)
+    return true
+  }
+
+  /**
+   * Remove all entries. `onEvict` is not called.
+   */
+  public clear(): void {
+    this.#list.clear()
+    this.#nodes.clear()
+    this.#weight = 0
+  }
+
+  public isEmpty(): boolean {
+    return this.#list.isEmpty()
+  }
+
+  public size(): number {
+    return this.#list.length
+  }
+
+  public *keys(): IterableIterator<K> {
+    for (const { key } of this.#list) yield key
+  }
+
+  public *values(): IterableIterator<V> {
+    for (const { value } of this.#list) yield value
+  }
+
+  public entries(): IterableIterator<[K, V]> {
+    return this[Symbol.iterator]()
+  }
+
+  /**
+   * Call `callback(value, key, cache)` for each entry from most to least
+   * recently used, without changing recency. If the callback returns
+   * `false`, iteration stops early.
+   *
+   * @throws TypeError when `callback` is not a function.
+   */
+  public forEach(
+    callback: (value: V, key: K, cache: this) => void | false,
+    thisArg?: unknown,
+  ): void {
+    if (typeof callback !== 'function') {
+      throw new TypeError('Callback must be a function')
+    }
+    for (const [key, value] of this) {
+      if (callback.call(thisArg, value, key, this) === false) break
+    }
+  }
+
+  /**
+   * Return the entries as `[key, value]` pairs, most recently used first.
+   */
+  public toArray(): [K, V][] {
+    return [...this]
+  }
+
+  /**
+   * Return a tagged, versioned snapshot used by `JSON.stringify`; `values`
+   * holds `[key, value]` pairs from most to least recently used.
+   */
+  public toJSON(): SerializedContainer<[K, V]> {
+    return serialize('LRUCache', this.toArray())
+  }
+
+  /**
+   * Rebuild an `LRUCache` from the output of `toJSON()`, either as the
+   * object itself or as a JSON string, keeping the recency order. Limits
+   * and callbacks are not part of JSON and must be passed again.
+   *
+   * @throws TypeError when `json` is not a serialized `LRUCache`.
+   * @throws RangeError when the format version is not supported.
+   */
+  public static fromJSON<K, V>(
+    json: string | SerializedContainer,
+    {
+      reviveElement,
+      ...options
+    }: FromJSONOptions<[K, V]> & Omit<CacheOptions<K, V>, 'initValues'>,
+  ): LRUCache<K, V> {
+    const values = deserialize('LRUCache', json, { reviveElement })
+    return new LRUCache<K, V>({ ...options, initValues: values.reverse() })
+  }
+
+  // Getter
+  public get length(): number {
+    return this.#list.length
+  }
+
+  public get weight(): number {
+    return this.#weight
+  }
+
+  public get maxSize(): number {
+    return this.#maxSize
+  }
+
+  public get maxWeight(): number {
+    return this.#maxWeight
+  }
+
+  public get [Symbol.toStringTag](): string {
+    return 'LRUCache'
+  }
+}
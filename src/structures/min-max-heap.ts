@@ -0,0 +1,307 @@
+import { BaseContainer } from '@/core/container'
+import type { CompareFn } from '@/core/heap'
+import {
+  deserialize,
+  type FromJSONOptions,
+  type SerializedContainer,
+} from '@/core/serialization'
+
+type Factory<T, A extends unknown[]> = (...args: A) => T
+
+interface MinMaxHeapOptions<T, A extends unknown[]> {
+  initValues?: T[]
+  compareFn?: CompareFn<T>
+  factory?: Factory<T, A>
+}
+
+/**
+ * MinMaxHeap — a double-ended priority queue that gives O(1) access to
+ * both the lowest- and the highest-priority element.
+ *
+ * Elements live in a flat array laid out like a binary heap, but levels
+ * alternate: every element on an even level (the root's) is lower than or
+ * equal to all of its descendants, every element on an odd level higher
+ * than or equal to them. The lowest element is therefore the root and
+ * the highest one of its two children, and `push`, `popMin` and `popMax`
+ * restore the order along one root-to-leaf path in O(log n).
+ *
+ * Type parameters:
+ * - T: the element type stored in the heap.
+ * - A: tuple type for the factory function arguments used by `emplace`.
+ *
+ * `compareFn(a, b)` follows the `PriorityQueue` contract: a positive
+ * result means `a` has the higher priority. The default compares numbers,
+ * so `peekMax` is the largest number and `peekMin` the smallest.
+ *
+ * Iteration follows the heap array, not a sorted order. `size`,
+ * `isEmpty`, `toArray`, `assign`, `forEach`, `keys`, `values` and
+ * `entries` are inherited from `BaseContainer`.
+ */
+export class MinMaxHeap<
+  T,
+  A extends unknown[] = unknown[],
+> extends BaseContainer<T> {
+  #heap: T[]
+  #compareFn: CompareFn<T>
+  #factory?: Factory<T, A>
+
+  /**
+   * Create a new MinMaxHeap.
+   *
+   * @param options.initValues - Optional initial array of values, used as
+   *   the internal storage and heapified in place in O(n).
+   * @param options.compareFn - Optional comparator; positive when the
+   *   first argument has the higher priority. If omitted, numbers are
+   *   compared and non-numbers throw.
+   * @param options.factory - Optional factory function used by `emplace`
+   *   to create elements in-place from argument list `A`.
+   * @throws TypeError if `initValues` is provided but is not an array.
+   */
+  constructor({
+    initValues,
+    compareFn,
+    factory,
+  }: MinMaxHeapOptions<T, A> = {}) {
+    super()
+    this.#compareFn =
+      typeof compareFn == 'function'
+        ? compareFn
+        : (a, b) => {
+            if (typeof a == 'number' && typeof b == 'number') {
+              return a - b
+            }
+            throw new TypeError(
+              'MinMaxHeap: no compareFn provided — default comparator only supports numbers',
+            )
+          }
+    this.#factory = factory
+
+    if (initValues !== undefined && !Array.isArray(initValues)) {
+      throw new TypeError('Expected an array to initialize the MinMaxHeap.')
+    }
+    this.#heap = initValues ?? []
+    this.#heapify()
+  }
+
+  // Even levels hold minima, odd levels maxima.
+  #isMaxLevel(idx: number): boolean {
+    return (31 - Math.clz32(idx + 1)) % 2 === 1
+  }
+
+  // Whether `a` belongs above `b` on a max level (`max`) or a min level.
+  #above(a: T, b: T, max: boolean): boolean {
+    const cmp = this.#compareFn(a, b)
+    return max ? cmp > 0 : cmp < 0
+  }
+
+  #swap(i: number, j: number): void {
+    const temp = this.#heap[i]!
+    this.#heap[i] = this.#heap[j]!
+    this.#heap[j] = temp
+  }
+
+  // Move the element at `idx` down among its children and grandchildren,
+  // which are the only candidates for its level's extreme.
+  #trickleDown(idx: number): void {
+    const nodes = this.#heap
+    const len = nodes.length
+    const max = this.#isMaxLevel(idx)
+    while (true) {
+      const firstChild = 2 * idx + 1
+      if (firstChild >= len) return
+      const firstGrandchild = 4 * idx + 3
+      let best = firstChild
+      if (
+        firstChild + 1 < len &&
+        this.#above(nodes[firstChild + 1]!, nodes[best]!, max)
+      ) {
+        best = firstChild + 1
+      }
+      const end = Math.min(firstGrandchild + 4, len)
+      for (let g = firstGrandchild; g < end; g++) {
+        if (this.#above(nodes[g]!, nodes[best]!, max)) best = g
+      }
+      if (!this.#above(nodes[best]!, nodes[idx]!, max)) return
+      this.#swap(best, idx)
+      if (best < firstGrandchild) return
+      // The element moved two levels down; it may now break the order
+      // with its new parent, which sits on the opposite kind of level.
+      const parent = (best - 1) >> 1
+      if (this.#above(nodes[parent]!, nodes[best]!, max)) {
+        this.#swap(best, parent)
+      }
+      idx = best
+    }
+  }
+
+  // Move the element at `idx` up along grandparents on levels of the
+  // kind given by `max`.
+  #bubbleUp(idx: number, max: boolean): void {
+    const nodes = this.#heap
+    while (idx > 2) {
+      const grandparent = (((idx - 1) >> 1) - 1) >> 1
+      if (!this.#above(nodes[idx]!, nodes[grandparent]!, max)) return
+      this.#swap(idx, grandparent)
+      idx = grandparent
+    }
+  }
+
+  #siftUp(idx: number): void {
+    if (idx === 0) return
+    const parent = (idx - 1) >> 1
+    const max = this.#isMaxLevel(idx)
+    // An element on the wrong side of its parent swaps with it and then
+    // continues on the parent's kind of level.
+    if (this.#above(this.#heap[idx]!, this.#heap[parent]!, !max)) {
+      this.#swap(idx, parent)
+      this.#bubbleUp(parent, !max)
+    } else {
+      this.#bubbleUp(idx, max)
+    }
+  }
+
+  #heapify(): void {
+    for (let i = (this.#heap.length >> 1) - 1; i >= 0; i--) {
+      this.#trickleDown(i)
+    }
+  }
+
+  #maxIndex(): number {
+    const nodes = this.#heap
+    if (nodes.length <= 2) return nodes.length - 1
+    return this.#compareFn(nodes[2]!, nodes[1]!) > 0 ? 2 : 1
+  }
+
+  #removeAt(idx: number): T {
+    const removed = this.#heap[idx]!
+    const last = this.#heap.pop()!
+    if (idx < this.#heap.length) {
+      this.#heap[idx] = last
+      this.#trickleDown(idx)
+    }
+    return removed
+  }
+
+  /**
+   * Iterate the heap array in order (not sorted).
+   */
+  *[Symbol.iterator](): IterableIterator<T> {
+    for (const val of this.#heap) {
+      yield val
+    }
+  }
+
+  protected append(value: T): void {
+    this.push(value)
+  }
+
+  /**
+   * Insert `node` into the heap.
+   *
+   * Complexity: O(log n).
+   */
+  push(node: T): void {
+    this.#heap.push(node)
+    this.#siftUp(this.#heap.length - 1)
+  }
+
+  /**
+   * Construct a new element using the provided factory and insert it.
+   *
+   * Complexity: O(log n).
+   *
+   * @param args - Arguments forwarded to the factory function.
+   * @throws Error if the heap was not constructed with a `factory`.
+   */
+  emplace(...args: A): void {
+    if (typeof this.#factory !== 'function') {
+      throw new Error('MinMaxHeap was not initialized with a factory function')
+    }
+    this.push(this.#factory(...args))
+  }
+
+  /**
+   * Return (but do not remove) the lowest-priority element, or `undefined`
+   * when the heap is empty.
+   *
+   * Complexity: O(1).
+   */
+  peekMin(): T | undefined {
+    return this.#heap[0]
+  }
+
+  /**
+   * Return (but do not remove) the highest-priority element, or
+   * `undefined` when the heap is empty.
+   *
+   * Complexity: O(1).
+   */
+  peekMax(): T | undefined {
+    return this.#heap[this.#maxIndex()]
+  }
+
+  /**
+   * Remove and return the lowest-priority element.
+   *
+   * Complexity: O(log n).
+   * @throws Error if the heap is empty.
+   */
+  popMin(): T {
+    if (this.isEmpty()) {
+      throw new Error('Heap is empty, cannot pop element.')
+    }
+    return this.#removeAt(0)
+  }
+
+  /**
+   * Remove and return the highest-priority element.
+   *
+   * Complexity: O(log n).
+   * @throws Error if the heap is empty.
+   */
+  popMax(): T {
+    if (this.isEmpty()) {
+      throw new Error('Heap is empty, cannot pop element.')
+    }
+    return this.#removeAt(this.#maxIndex())
+  }
+
+  /**
+   * Remove all elements from the heap.
+   */
+  clear(): void {
+    this.#heap.length = 0
+  }
+
+  get length(): number {
+    return this.#heap.length
+  }
+
+  get [Symbol.toStringTag](): string {
+    return 'MinMaxHeap'
+  }
+
+  /**
+   * Rebuild a `MinMaxHeap` from the output of `toJSON()`, either as the
+   * object itself or as a JSON string. The stored heap array is heapified
+   * again in O(n), which leaves a valid layout unchanged.
+   *
+   * @param options.reviveElement - Optional function restoring each
+   *   element from its parsed JSON form.
+   * @param options.compareFn - Comparator; functions are not part of the
+   *   JSON and must be passed again.
+   * @param options.factory - Optional factory for `emplace`.
+   * @throws TypeError when `json` is not a serialized `MinMaxHeap`.
+   * @throws RangeError when the format version is not supported.
+   */
+  static fromJSON<U, V extends unknown[] = unknown[]>(
+    json: string | SerializedContainer,
+    {
+      reviveElement,
+      ...options
+    }: FromJSONOptions<U> & Omit<MinMaxHeapOptions<U, V>, 'initValues'> = {},
+  ): MinMaxHeap<U, V> {
+    const initValues = deserialize('MinMaxHeap', json, { reviveElement })
+    return new MinMaxHeap<U, V>({ ...options, initValues })
+  }
+}
@@ -0,0 +1,559 @@
+import {
+  defaultEquals,
+  defaultHash,
+  mix,
+  type EqualsFn,
+  type HashFn,
+} from '@/core/hash-table'
+import {
+  deserialize,
+  serialize,
+  type FromJSONOptions,
+  type SerializedContainer,
+} from '@/core/serialization'
+
+interface PersistentMapOptions<K, V> {
+  initValues?: [K, V][]
+  hash?: HashFn<K>
+  equals?: EqualsFn<K>
+}
+
+// Each trie level consumes 5 hash bits, so nodes have up to 32 slots.
+const BITS = 5
+const MASK = (1 << BITS) - 1
+
+// Identity of one transient batch (see `asMutable`).
+type Owner = object
+
+// Key/value leaf. Entries are never edited, so versions share them freely.
+class Entry<K, V> {
+  constructor(
+    readonly hash: number,
+    readonly key: K,
+    readonly value: V,
+  ) {}
+}
+
+// Interior node. Bit i of `bitmap` is set when slot i (the node's 5 hash
+// bits) is used; `children` stores the used slots densely, in slot order.
+class BitmapNode<K, V> {
+  constructor(
+    public owner: Owner | null,
+    public bitmap: number,
+    public children: Child<K, V>[],
+  ) {}
+}
+
+// Entries whose full 32-bit hashes are equal.
+class CollisionNode<K, V> {
+  constructor(
+    public owner: Owner | null,
+    readonly hash: number,
+    public entries: Entry<K, V>[],
+  ) {}
+}
+
+type Child<K, V> = Entry<K, V> | BitmapNode<K, V> | CollisionNode<K, V>
+
+// Set by `#put` / `#remove` when the number of entries changed.
+interface SizeChange {
+  changed: boolean
+}
+
+function popcount(x: number): number {
+  x -= (x >>> 1) & 0x55555555
+  x = (x & 0x33333333) + ((x >>> 2) & 0x33333333)
+  x = (x + (x >>> 4)) & 0x0f0f0f0f
+  return Math.imul(x, 0x01010101) >>> 24
+}
+
+function bitFor(hash: number, shift: number): number {
+  return 1 << ((hash >>> shift) & MASK)
+}
+
+/**
+ * PersistentMap — an immutable key/value map backed by a hash array
+ * mapped trie (HAMT).
+ *
+ * `set` and `delete` return a new map and leave the original untouched.
+ * Only the O(log32 n) nodes on the key's path are copied; everything else
+ * is shared between versions.
+ *
+ * Keys are matched with `hash` / `equals` exactly like `HashMap`: without
+ * options, primitives compare by value and objects by identity. The API
+ * mirrors `HashMap` for reading (`get`, `has`, `keys`, `values`,
+ * `entries`, `forEach`); iteration order is unspecified but stable for a
+ * given version.
+ *
+ * Transients: `asMutable()` returns a copy whose updates edit its own
+ * nodes in place and return it. `asImmutable()` freezes it again and
+ * `withMutations(fn)` wraps both calls.
+ *
+ * Type parameters:
+ * - K: key type
+ * - V: value type
+ *
+ * Performance:
+ * - `get`, `has`, `set`, `delete`: O(log32 n), effectively constant.
+ */
+export class PersistentMap<K, V> implements Iterable<[K, V]> {
+  #root: BitmapNode<K, V>
+  #size: number
+  #hashFn: HashFn<K>
+  #equalsFn: EqualsFn<K>
+  #owner: Owner | null
+
+  /**
+   * Create a new `PersistentMap`.
+   *
+   * @param options.initValues - Optional array of `[key, value]` pairs.
+   *   Later pairs overwrite earlier ones with an equal key.
+   * @param options.hash - Optional hash function returning a number.
+   * @param options.equals - Optional key equality (defaults to
+   *   SameValueZero, like `Map`).
+   * @throws TypeError when `initValues` is not an array or `hash`/`equals`
+   *   are not functions.
+   */
+  constructor({
+    initValues,
+    hash = defaultHash,
+    equals = defaultEquals,
+  }: PersistentMapOptions<K, V> = {}) {
+    if (typeof hash !== 'function') {
+      throw new TypeError('hash must be a function')
+    }
+    if (typeof equals !== 'function') {
+      throw new TypeError('equals must be a function')
+    }
+    this.#root = new BitmapNode<K, V>(null, 0, [])
+    this.#size = 0
+    this.#hashFn = hash
+    this.#equalsFn = equals
+    this.#owner = null
+
+    if (initValues !== undefined && !Array.isArray(initValues)) {
+      throw new TypeError('Expected an array to initialize the PersistentMap.')
+    }
+    if (initValues !== undefined && initValues.length > 0) {
+      // Build as a transient so no intermediate versions are allocated.
+      this.#owner = {}
+      for (const [key, value] of initValues) this.set(key, value)
+      this.#owner = null
+    }
+  }
+
+  // Private methods
+  #hashOf(key: K): number {
+    const hash = this.#hashFn(key)
+    if (typeof hash !== 'number' || Number.isNaN(hash)) {
+      throw new TypeError('hash must return a number')
+    }
+    return mix(hash | 0)
+  }
+
+  #editableBitmap(node: BitmapNode<K, V>): BitmapNode<K, V> {
+    if (this.#owner !== null && node.owner === this.#owner) return node
+    return new BitmapNode(this.#owner, node.bitmap, node.children.slice())
+  }
+
+  #editableCollision(node: CollisionNode<K, V>): CollisionNode<K, V> {
+    if (this.#owner !== null && node.owner === this.#owner) return node
+    return new CollisionNode(this.#owner, node.hash, node.entries.slice())
+  }
+
+  // Return this map updated in place when transient, otherwise a new
+  // version with the given state.
+  #with(root: BitmapNode<K, V>, size: number): PersistentMap<K, V> {
+    const target =
+      this.#owner !== null
+        ? this
+        : new PersistentMap<K, V>({
+            hash: this.#hashFn,
+            equals: this.#equalsFn,
+          })
+    target.#root = root
+    target.#size = size
+    return target
+  }
+
+  // Smallest subtree holding two entries with different keys.
+  #pair(a: Entry<K, V>, b: Entry<K, V>, shift: number): Child<K, V> {
+    if (a.hash === b.hash) return new CollisionNode(this.#owner, a.hash, [a, b])
+    const slotA = (a.hash >>> shift) & MASK
+    const slotB = (b.hash >>> shift) & MASK
+    if (slotA === slotB) {
+      return new BitmapNode(this.#owner, 1 << slotA, [
+        this.#pair(a, b, shift + BITS),
+      ])
+    }
+    return new BitmapNode(
+      this.#owner,
+      (1 << slotA) | (1 << slotB),
+      slotA < slotB ? [a, b] : [b, a],
+    )
+  }
+
+  #put(
+    node: Child<K, V>,
+    shift: number,
+    hash: number,
+    key: K,
+    value: V,
+    change: SizeChange,
+  ): Child<K, V> {
+    if (node instanceof Entry) {
+      if (node.hash === hash && this.#equalsFn(node.key, key)) {
+        if (Object.is(node.value, value)) return node
+        return new Entry(hash, node.key, value)
+      }
+      change.changed = true
+      return this.#pair(node, new Entry(hash, key, value), shift)
+    }
+
+    if (node instanceof CollisionNode) {
+      if (node.hash !== hash) {
+        // Push the collision node one level down next to the new key.
+        const parent = new BitmapNode<K, V>(
+          this.#owner,
+          bitFor(node.hash, shift),
+          [node],
+        )
+        return this.#put(parent, shift, hash, key, value, change)
+      }
+      const i = node.entries.findIndex((e) => this.#equalsFn(e.key, key))
+      if (i !== -1 && Object.is(node.entries[i]!.value, value)) return node
+      const copy = this.#editableCollision(node)
+      if (i !== -1) {
+        copy.entries[i] = new Entry(hash, node.entries[i]!.key, value)
+      } else {
+        copy.entries.push(new Entry(hash, key, value))
+        change.changed = true
+      }
+      return copy
+    }
+
+    const bit = bitFor(hash, shift)
+    const index = popcount(node.bitmap & (bit - 1))
+    if ((node.bitmap & bit) === 0) {
+      const copy = this.#editableBitmap(node)
+      copy.children.splice(index, 0, new Entry(hash, key, value))
+      copy.bitmap |= bit
+      change.changed = true
+      return copy
+    }
+    const child = node.children[index]!
+    const next = this.#put(child, shift + BITS, hash, key, value, change)
+    if (next === child) return node
+    const copy = this.#editableBitmap(node)
+    copy.children[index] = next
+    return copy
+  }
+
+  // Returns the node without `key`, or `null` when nothing is left.
+  // Single-entry subtrees are pulled up into their parent.
+  #remove(
+    node: Child<K, V>,
+    shift: number,
+    hash: number,
+    key: K,
+    change: SizeChange,
+  ): Child<K, V> | null {
+    if (node instanceof Entry) {
+      if (node.hash !== hash || !this.#equalsFn(node.key, key)) return node
+      change.changed = true
+      return null
+    }
+
+    if (node instanceof CollisionNode) {
+      if (node.hash !== hash) return node
+      const i = node.entries.findIndex((e) => this.#equalsFn(e.key, key))
+      if (i === -1) return node
+      change.changed = true
+      if (node.entries.length === 2) return node.entries[1 - i]!
+      const copy = this.#editableCollision(node)
+      copy.entries.splice(i, 1)
+      return copy
+    }
+
+    const bit = bitFor(hash, shift)
+    if ((node.bitmap & bit) === 0) return node
+    const index = popcount(node.bitmap & (bit - 1))
+    const child = node.children[index]!
+    const next = this.#remove(child, shift + BITS, hash, key, change)
+    if (next === child) return node
+
+    if (next === null) {
+      if (node.children.length === 1) return null
+      if (shift > 0 && node.children.length === 2) {
+        const other = node.children[1 - index]!
+        if (!(other instanceof BitmapNode)) return other
+      }
+      const copy = this.#editableBitmap(node)
+      copy.children.splice(index, 1)
+      copy.bitmap ^= bit
+      return copy
+    }
+    if (
+      shift > 0 &&
+      node.children.length === 1 &&
+      !(next instanceof BitmapNode)
+    ) {
+      return next
+    }
+    const copy = this.#editableBitmap(node)
+    copy.children[index] = next
+    return copy
+  }
+
+  #find(key: K): Entry<K, V> | undefined {
+    const hash = this.#hashOf(key)
+    let node: Child<K, V> = this.#root
+    for (let shift = 0; ; shift += BITS) {
+      if (node instanceof Entry) {
+        return node.hash === hash && this.#equalsFn(node.key, key)
+          ? node
+          : undefined
+      }
+      if (node instanceof CollisionNode) {
+        if (node.hash !== hash) return undefined
+        return node.entries.find((e) => this.#equalsFn(e.key, key))
+      }
+      const bit = bitFor(hash, shift)
+      if ((node.bitmap & bit) === 0) return undefined
+      node = node.children[popcount(node.bitmap & (bit - 1))]!
+    }
+  }
+
+  static *#walk<K, V>(node: Child<K, V>): IterableIterator<Entry<K, V>> {
+    if (node instanceof Entry) {
+      yield node
+    } else if (node instanceof CollisionNode) {
+      yield* node.entries
+    } else {
+      for (const child of node.children) yield* PersistentMap.#walk(child)
+    }
+  }
+
+  // Iterable
+  /**
+   * Iterate `[key, value]` pairs in trie order.
+   */
+  *[Symbol.iterator](): IterableIterator<[K, V]> {
+    for (const entry of PersistentMap.#walk(this.#root)) {
+      yield [entry.key, entry.value]
+    }
+  }
+
+  // Public method
+  /**
+   * Return the value stored under `key`, or `undefined` when absent.
+   *
+   * Complexity: O(log32 n)
+   */
+  public get(key: K): V | undefined {
+    return this.#find(key)?.value
+  }
+
+  /**
+   * Check whether `key` is present.
+   *
+   * Complexity: O(log32 n)
+   */
+  public has(key: K): boolean {
+    return this.#find(key) !== undefined
+  }
+
+  /**
+   * Return a map with `key` set to `value`. Returns this map when `key`
+   * already holds `value`.
+   *
+   * Complexity: O(log32 n)
+   */
+  public set(key: K, value: V): PersistentMap<K, V> {
+    const change: SizeChange = { changed: false }
+    const root = this.#put(this.#root, 0, this.#hashOf(key), key, value, change)
+    // A transient may have edited the root in place: check `changed` too.
+    if (root === this.#root && !change.changed) return this
+    const size = change.changed ? this.#size + 1 : this.#size
+    return this.#with(root as BitmapNode<K, V>, size)
+  }
+
+  /**
+   * Return a map with the value under `key` replaced by
+   * `updater(currentValue)`; `currentValue` is `undefined` when absent.
+   *
+   * Complexity: O(log32 n)
+   * @throws TypeError when `updater` is not a function.
+   */
+  public update(
+    key: K,
+    updater: (value: V | undefined) => V,
+  ): PersistentMap<K, V> {
+    if (typeof updater !== 'function') {
+      throw new TypeError('updater must be a function')
+    }
+    return this.set(key, updater(this.get(key)))
+  }
+
+  /**
+   * Return a map without `key`. Returns this map when `key` is absent.
+   *
+   * Complexity: O(log32 n)
+   */
+  public delete(key: K): PersistentMap<K, V> {
+    const change: SizeChange = { changed: false }
+    const root = this.#remove(this.#root, 0, this.#hashOf(key), key, change)
+    if (!change.changed) return this
+    return this.#with(
+      (root as BitmapNode<K, V> | null) ?? new BitmapNode(null, 0, []),
+      this.#size - 1,
+    )
+  }
+
+  /**
+   * Return an empty map with the same `hash` and `equals`.
+   *
+   * Complexity: O(1)
+   */
+  public clear(): PersistentMap<K, V> {
+    return this.#with(new BitmapNode(null, 0, []), 0)
+  }
+
+  public isEmpty(): boolean {
+    return this.#size === 0
+  }
+
+  public size(): number {
+    return this.#size
+  }
+
+  // Map-style iterators
+  public *keys(): IterableIterator<K> {
+    for (const entry of PersistentMap.#walk(this.#root)) yield entry.key
+  }
+
+  public *values(): IterableIterator<V> {
+    for (const entry of PersistentMap.#walk(this.#root)) yield entry.value
+  }
+
+  public entries(): IterableIterator<[K, V]> {
+    return this[Symbol.iterator]()
+  }
+
+  /**
+   * Call `callback(value, key, map)` for each entry. If the callback
+   * returns `false`, iteration stops early.
+   *
+   * @throws TypeError when `callback` is not a function.
+   */
+  public forEach(
+    callback: (value: V, key: K, map: this) => void | false,
+    thisArg?: unknown,
+  ): void {
+    if (typeof callback !== 'function') {
+      throw new TypeError('Callback must be a function')
+    }
+    for (const entry of PersistentMap.#walk(this.#root)) {
+      if (callback.call(thisArg, entry.value, entry.key, this) === false) break
+    }
+  }
+
+  /**
+   * Return the entries as an array of `[key, value]` pairs.
+   */
+  public toArray(): [K, V][] {
+    return [...this]
+  }
+
+  // Transients
+  /**
+   * Return a transient copy whose updates happen in place. The original
+   * stays unchanged. Calling it on a transient returns the same object.
+   *
+   * Complexity: O(1)
+   */
+  public asMutable(): PersistentMap<K, V> {
+    if (this.#owner !== null) return this
+    const copy = new PersistentMap<K, V>({
+      hash: this.#hashFn,
+      equals: this.#equalsFn,
+    })
+    copy.#root = this.#root
+    copy.#size = this.#size
+    copy.#owner = {}
+    return copy
+  }
+
+  /**
+   * Freeze a transient and return it; later updates return new versions
+   * again. Persistent maps are returned unchanged.
+   *
+   * Complexity: O(1)
+   */
+  public asImmutable(): PersistentMap<K, V> {
+    this.#owner = null
+    return this
+  }
+
+  /**
+   * Apply a batch of updates to a transient copy and return the frozen
+   * result.
+   *
+   * Example: `map.withMutations((m) => { m.set('a', 1); m.delete('b') })`
+   * @throws TypeError when `fn` is not a function.
+   */
+  public withMutations(
+    fn: (mutable: PersistentMap<K, V>) => void,
+  ): PersistentMap<K, V> {
+    if (typeof fn !== 'function') {
+      throw new TypeError('withMutations expects a function')
+    }
+    if (this.#owner !== null) {
+      fn(this)
+      return this
+    }
+    const mutable = this.asMutable()
+    fn(mutable)
+    return mutable.asImmutable()
+  }
+
+  /**
+   * Return a tagged, versioned snapshot used by `JSON.stringify`; `values`
+   * holds the `[key, value]` entries in iteration order.
+   */
+  public toJSON(): SerializedContainer<[K, V]> {
+    return serialize('PersistentMap', this.toArray())
+  }
+
+  /**
+   * Rebuild a `PersistentMap` from the output of `toJSON()`, either as
+   * the object itself or as a JSON string.
+   *
+   * @param options.reviveElement - Optional function restoring each
+   *   `[key, value]` entry from its parsed JSON form.
+   * @param options.hash - Hash function; functions are not part of the
+   *   JSON and must be passed again (likewise `equals`).
+   * @throws TypeError when `json` is not a serialized `PersistentMap`.
+   * @throws RangeError when the format version is not supported.
+   */
+  public static fromJSON<K, V>(
+    json: string | SerializedContainer,
+    {
+      reviveElement,
+      ...options
+    }: FromJSONOptions<[K, V]> &
+      Omit<PersistentMapOptions<K, V>, 'initValues'> = {},
+  ): PersistentMap<K, V> {
+    const values = deserialize('PersistentMap', json, { reviveElement })
+    return new PersistentMap<K, V>({ ...options, initValues: values })
+  }
+
+  // Getter
+  public get length(): number {
+    return this.#size
+  }
+
+  public get [Symbol.toStringTag](): string {
+    return 'PersistentMap'
+  }
+}
@@ -0,0 +1,276 @@
+import {
+  deserialize,
+  serialize,
+  type FromJSONOptions,
+  type SerializedContainer,
+} from '@/core/serialization'
+
+interface PersistentStackOptions<T> {
+  initValues?: T[]
+}
+
+// Immutable cons cell; versions share every cell below their top.
+interface StackCell<T> {
+  readonly value: T
+  readonly next: StackCell<T> | null
+}
+
+/**
+ * PersistentStack — an immutable LIFO stack with structural sharing.
+ *
+ * `push` and `pop` return a new stack and leave the original untouched.
+ * Both are O(1): the new version shares every element below its top with
+ * the old one, so no copying happens (compare `Stack.clone`, which is
+ * O(n)).
+ *
+ * Iteration matches `Stack`: bottom -> top, with `reversed` for top ->
+ * bottom.
+ *
+ * Transients: `asMutable()` returns a copy whose `push`, `pop` and
+ * `clear` update it in place and return it, for building a stack in a
+ * batch without intermediate versions. `asImmutable()` freezes it again;
+ * `withMutations(fn)` wraps both calls.
+ *
+ * Type parameters:
+ * - T: value type stored in the stack
+ */
+export class PersistentStack<T> implements Iterable<T> {
+  #top: StackCell<T> | null
+  #length: number
+  #mutable: boolean
+
+  /**
+   * Create a new `PersistentStack`.
+   *
+   * @param options.initValues - Optional initial values, pushed in order
+   *   (the first item ends up at the bottom).
+   * @throws TypeError when `initValues` is not an array.
+   */
+  constructor({ initValues }: PersistentStackOptions<T> = {}) {
+    this.#top = null
+    this.#length = 0
+    this.#mutable = false
+    if (initValues !== undefined && !Array.isArray(initValues)) {
+      throw new TypeError('Expected an array to initialize the stack.')
+    }
+    if (initValues !== undefined) {
+      for (const value of initValues) {
+        this.#top = { value, next: this.#top }
+      }
+      this.#length = initValues.length
+    }
+  }
+
+  // Return this stack updated in place when transient, otherwise a new
+  // version with the given state.
+  #with(top: StackCell<T> | null, length: number): PersistentStack<T> {
+    if (this.#mutable) {
+      this.#top = top
+      this.#length = length
+      return this
+    }
+    const next = new PersistentStack<T>()
+    next.#top = top
+    next.#length = length
+    return next
+  }
+
+  /**
+   * Iterate values from bottom to top, like `Stack`.
+   *
+   * Complexity: O(n) time and O(n) extra space (cells only link
+   * downwards).
+   */
+  *[Symbol.iterator](): IterableIterator<T> {
+    const values: T[] = []
+    for (let cell = this.#top; cell !== null; cell = cell.next) {
+      values.push(cell.value)
+    }
+    for (let i = values.length - 1; i >= 0; i--) {
+      yield values[i]!
+    }
+  }
+
+  /**
+   * Iterate values from top to bottom without extra space.
+   */
+  get reversed(): IterableIterator<T> {
+    function* iterator(this: PersistentStack<T>): IterableIterator<T> {
+      for (let cell = this.#top; cell !== null; cell = cell.next) {
+        yield cell.value
+      }
+    }
+    return iterator.call(this)
+  }
+
+  /**
+   * Return a stack with `value` on top.
+   *
+   * Complexity: O(1)
+   */
+  public push(value: T): PersistentStack<T> {
+    return this.#with({ value, next: this.#top }, this.#length + 1)
+  }
+
+  /**
+   * Return the stack without its top value. Read the value with `peek()`
+   * or `top` first.
+   *
+   * Complexity: O(1)
+   * @throws Error when the stack is empty.
+   */
+  public pop(): PersistentStack<T> {
+    if (this.#top === null) {
+      throw new Error('Cannot perform pop operation on empty stack.')
+    }
+    return this.#with(this.#top.next, this.#length - 1)
+  }
+
+  /**
+   * Return an empty stack.
+   *
+   * Complexity: O(1)
+   */
+  public clear(): PersistentStack<T> {
+    return this.#with(null, 0)
+  }
+
+  /**
+   * Return (but do not remove) the top value.
+   * @throws Error when the stack is empty.
+   */
+  public peek(): T {
+    if (this.#top === null) {
+      throw new Error('Cannot perform peek operation on empty stack.')
+    }
+    return this.#top.value
+  }
+
+  public size(): number {
+    return this.#length
+  }
+
+  public isEmpty(): boolean {
+    return this.#length === 0
+  }
+
+  /**
+   * Return the values as an array, bottom -> top.
+   *
+   * Complexity: O(n)
+   */
+  public toArray(): T[] {
+    return [...this]
+  }
+
+  /**
+   * Call `callback(value, index, stack)` bottom -> top. If the callback
+   * returns `false`, iteration stops early.
+   *
+   * @throws TypeError when `callback` is not a function.
+   */
+  public forEach(
+    callback: (value: T, index: number, stack: this) => void | false,
+    thisArg?: unknown,
+  ): void {
+    if (typeof callback !== 'function') {
+      throw new TypeError('Callback must be a function')
+    }
+    let index = 0
+    for (const value of this) {
+      if (callback.call(thisArg, value, index++, this) === false) break
+    }
+  }
+
+  // Transients
+  /**
+   * Return a transient copy whose updates happen in place. The original
+   * stays unchanged. Calling it on a transient returns the same object.
+   *
+   * Complexity: O(1)
+   */
+  public asMutable(): PersistentStack<T> {
+    if (this.#mutable) return this
+    const copy = new PersistentStack<T>()
+    copy.#top = this.#top
+    copy.#length = this.#length
+    copy.#mutable = true
+    return copy
+  }
+
+  /**
+   * Freeze a transient and return it; later updates return new versions
+   * again. Persistent stacks are returned unchanged.
+   *
+   * Complexity: O(1)
+   */
+  public asImmutable(): PersistentStack<T> {
+    this.#mutable = false
+    return this
+  }
+
+  /**
+   * Apply a batch of updates to a transient copy and return the frozen
+   * result.
+   *
+   * Example: `stack.withMutations((s) => { s.push(1); s.push(2) })`
+   * @throws TypeError when `fn` is not a function.
+   */
+  public withMutations(
+    fn: (mutable: PersistentStack<T>) => void,
+  ): PersistentStack<T> {
+    if (typeof fn !== 'function') {
+      throw new TypeError('withMutations expects a function')
+    }
+    if (this.#mutable) {
+      fn(this)
+      return this
+    }
+    const mutable = this.asMutable()
+    fn(mutable)
+    return mutable.asImmutable()
+  }
+
+  /**
+   * Return a tagged, versioned snapshot used by `JSON.stringify`; values
+   * are stored bottom -> top.
+   */
+  public toJSON(): SerializedContainer<T> {
+    return serialize('PersistentStack', this.toArray())
+  }
+
+  // Getter
+  public get length(): number {
+    return this.#length
+  }
+
+  public get [Symbol.toStringTag](): string {
+    return 'PersistentStack'
+  }
+
+  /**
+   * Non-throwing accessor for the top value. Returns `undefined` when
+   * the stack is empty.
+   */
+  public get top(): T | undefined {
+    return this.#top?.value
+  }
+
+  // Static method
+  /**
+   * Rebuild a `PersistentStack` from the output of `toJSON()`, either as
+   * the object itself or as a JSON string.
+   *
+   * @param options.reviveElement - Optional function restoring each
+   *   element from its parsed JSON form.
+   * @throws TypeError when `json` is not a serialized `PersistentStack`.
+   * @throws RangeError when the format version is not supported.
+   */
+  public static fromJSON<U>(
+    json: string | SerializedContainer,
+    options: FromJSONOptions<U> = {},
+  ): PersistentStack<U> {
+    const values = deserialize('PersistentStack', json, options)
+    return new PersistentStack<U>({ initValues: values })
+  }
+}
@@ -0,0 +1,437 @@
+import {
+  deserialize,
+  serialize,
+  type FromJSONOptions,
+  type SerializedContainer,
+} from '@/core/serialization'
+
+interface PersistentVectorOptions<T> {
+  initValues?: T[]
+}
+
+// Each trie level consumes 5 index bits, so nodes have up to 32 slots.
+const BITS = 5
+const WIDTH = 1 << BITS
+const MASK = WIDTH - 1
+
+// Identity of one transient batch (see `asMutable`).
+type Owner = object
+
+// Trie node: branches hold child nodes, leaves hold values. A node whose
+// `owner` is the current transient's may be edited in place; any other
+// node may be shared with older versions and is copied first.
+interface TrieNode {
+  owner: Owner | null
+  array: unknown[]
+}
+
+const EMPTY_NODE: TrieNode = { owner: null, array: [] }
+
+/**
+ * PersistentVector — an immutable indexed sequence backed by a
+ * bit-partitioned trie (32-way branching, as in Clojure and Scala).
+ *
+ * `set`, `pushBack` and `popBack` return a new vector and leave the
+ * original untouched. Only the O(log32 n) nodes on the path to the
+ * changed slot are copied; everything else is shared between versions.
+ * The last (up to 32) elements live in a separate tail, so appends and
+ * pops at the back are O(1) amortised.
+ *
+ * Iteration matches `Vector`: front -> back, with `rbegin()` for the
+ * reverse order.
+ *
+ * Transients: `asMutable()` returns a copy whose updates edit its own
+ * nodes in place and return it; nodes still shared with other versions
+ * are copied once, on first write. `asImmutable()` freezes it again and
+ * `withMutations(fn)` wraps both calls.
+ *
+ * Type parameters:
+ * - T: element type
+ *
+ * Performance:
+ * - `at`, `set`: O(log32 n), effectively constant.
+ * - `pushBack`, `popBack`: O(1) amortised.
+ */
+export class PersistentVector<T> implements Iterable<T> {
+  #length: number
+  #shift: number
+  #root: TrieNode
+  #tail: TrieNode
+  #owner: Owner | null
+
+  /**
+   * Create a new `PersistentVector`.
+   *
+   * @param options.initValues - Optional initial values, in order.
+   * @throws TypeError when `initValues` is not an array.
+   *
+   * Complexity: O(n) when `initValues` is present, otherwise O(1).
+   */
+  constructor({ initValues }: PersistentVectorOptions<T> = {}) {
+    this.#length = 0
+    this.#shift = BITS
+    this.#root = EMPTY_NODE
+    this.#tail = EMPTY_NODE
+    this.#owner = null
+    if (initValues !== undefined && !Array.isArray(initValues)) {
+      throw new TypeError('Expected an array to initialize the vector.')
+    }
+    if (initValues !== undefined && initValues.length > 0) {
+      // Build as a transient so no intermediate versions are allocated.
+      this.#owner = {}
+      for (const value of initValues) this.pushBack(value)
+      this.#owner = null
+    }
+  }
+
+  // Private methods
+  // Index of the first element stored in the tail.
+  #tailOffset(): number {
+    return this.#length < WIDTH ? 0 : ((this.#length - 1) >>> BITS) << BITS
+  }
+
+  // Leaf holding `index`; `index` must be in range.
+  #leafFor(index: number): TrieNode {
+    if (index >= this.#tailOffset()) return this.#tail
+    let node = this.#root
+    for (let level = this.#shift; level > 0; level -= BITS) {
+      node = node.array[(index >>> level) & MASK] as TrieNode
+    }
+    return node
+  }
+
+  #editable(node: TrieNode): TrieNode {
+    if (this.#owner !== null && node.owner === this.#owner) return node
+    return { owner: this.#owner, array: node.array.slice() }
+  }
+
+  // Return this vector updated in place when transient, otherwise a new
+  // version with the given state.
+  #with(
+    length: number,
+    shift: number,
+    root: TrieNode,
+    tail: TrieNode,
+  ): PersistentVector<T> {
+    const target = this.#owner !== null ? this : new PersistentVector<T>()
+    target.#length = length
+    target.#shift = shift
+    target.#root = root
+    target.#tail = tail
+    return target
+  }
+
+  #assoc(level: number, node: TrieNode, index: number, value: T): TrieNode {
+    const copy = this.#editable(node)
+    if (level === 0) {
+      copy.array[index & MASK] = value
+    } else {
+      const slot = (index >>> level) & MASK
+      copy.array[slot] = this.#assoc(
+        level - BITS,
+        node.array[slot] as TrieNode,
+        index,
+        value,
+      )
+    }
+    return copy
+  }
+
+  // Chain of single-child branches from `level` down to `leaf`.
+  #newPath(level: number, leaf: TrieNode): TrieNode {
+    if (level === 0) return leaf
+    return { owner: this.#owner, array: [this.#newPath(level - BITS, leaf)] }
+  }
+
+  // Copy the path to the first free leaf slot and hang `leaf` there.
+  #pushTail(level: number, parent: TrieNode, leaf: TrieNode): TrieNode {
+    const slot = ((this.#length - 1) >>> level) & MASK
+    const node = this.#editable(parent)
+    if (level === BITS) {
+      node.array[slot] = leaf
+    } else {
+      const child = parent.array[slot] as TrieNode | undefined
+      node.array[slot] =
+        child !== undefined
+          ? this.#pushTail(level - BITS, child, leaf)
+          : this.#newPath(level - BITS, leaf)
+    }
+    return node
+  }
+
+  // Copy the path to the last leaf without that leaf; `null` when the
+  // node ends up empty.
+  #popTail(level: number, node: TrieNode): TrieNode | null {
+    const slot = ((this.#length - 2) >>> level) & MASK
+    if (level > BITS) {
+      const child = this.#popTail(level - BITS, node.array[slot] as TrieNode)
+      if (child === null && slot === 0) return null
+      const copy = this.#editable(node)
+      if (child === null) copy.array.length = slot
+      else copy.array[slot] = child
+      return copy
+    }
+    if (slot === 0) return null
+    const copy = this.#editable(node)
+    copy.array.length = slot
+    return copy
+  }
+
+  // Iterable
+  /**
+   * Iterate elements from front to back.
+   *
+   * Complexity: O(n); each leaf is looked up once.
+   */
+  *[Symbol.iterator](): IterableIterator<T> {
+    for (let start = 0; start < this.#length; start += WIDTH) {
+      const leaf = this.#leafFor(start)
+      for (const value of leaf.array) yield value as T
+    }
+  }
+
+  *rbegin(): IterableIterator<T> {
+    for (let index = this.#length - 1; index >= 0; ) {
+      const leaf = this.#leafFor(index)
+      for (let i = index & MASK; i >= 0; i--, index--) {
+        yield leaf.array[i] as T
+      }
+    }
+  }
+
+  begin(): IterableIterator<T> {
+    return this[Symbol.iterator]()
+  }
+
+  // Public method
+  /**
+   * Return the element at `index` (0 = front) or `undefined` when the
+   * index is out of range.
+   *
+   * Complexity: O(log32 n)
+   */
+  public at(index: number): T | undefined {
+    if (!Number.isInteger(index) || index < 0 || index >= this.#length) return
+    return this.#leafFor(index).array[index & MASK] as T
+  }
+
+  /**
+   * Return a vector with the element at `index` replaced by `value`.
+   * Returns this vector when the slot already holds `value`.
+   *
+   * Complexity: O(log32 n)
+   * @throws RangeError when `index` is not in `[0, length)`.
+   */
+  public set(index: number, value: T): PersistentVector<T> {
+    if (!Number.isInteger(index) || index < 0 || index >= this.#length) {
+      throw new RangeError('Index out of range')
+    }
+    if (Object.is(this.#leafFor(index).array[index & MASK], value)) {
+      return this
+    }
+    if (index >= this.#tailOffset()) {
+      const tail = this.#editable(this.#tail)
+      tail.array[index & MASK] = value
+      return this.#with(this.#length, this.#shift, this.#root, tail)
+    }
+    const root = this.#assoc(this.#shift, this.#root, index, value)
+    return this.#with(this.#length, this.#shift, root, this.#tail)
+  }
+
+  /**
+   * Return a vector with `value` appended.
+   *
+   * Complexity: O(1) amortised; every 32nd append moves the full tail
+   * into the trie in O(log32 n).
+   */
+  public pushBack(value: T): PersistentVector<T> {
+    const length = this.#length
+    if (length - this.#tailOffset() < WIDTH) {
+      const tail = this.#editable(this.#tail)
+      tail.array.push(value)
+      return this.#with(length + 1, this.#shift, this.#root, tail)
+    }
+
+    // The tail is full: move it into the trie, adding a level when the
+    // root has no room left.
+    let root: TrieNode
+    let shift = this.#shift
+    if (length >>> BITS > 1 << shift) {
+      root = {
+        owner: this.#owner,
+        array: [this.#root, this.#newPath(shift, this.#tail)],
+      }
+      shift += BITS
+    } else {
+      root = this.#pushTail(shift, this.#root, this.#tail)
+    }
+    const tail = { owner: this.#owner, array: [value] }
+    return this.#with(length + 1, shift, root, tail)
+  }
+
+  /**
+   * Return a vector without its last element. Popping an empty vector
+   * returns it unchanged. Read the element with `back` first.
+   *
+   * Complexity: O(1) amortised.
+   */
+  public popBack(): PersistentVector<T> {
+    const length = this.#length
+    if (length === 0) return this
+    if (length === 1) return this.#with(0, BITS, EMPTY_NODE, EMPTY_NODE)
+
+    if (length - this.#tailOffset() > 1) {
+      const tail = this.#editable(this.#tail)
+      tail.array.pop()
+      return this.#with(length - 1, this.#shift, this.#root, tail)
+    }
+
+    // The tail becomes empty: the last leaf of the trie takes its place.
+    const tail = this.#leafFor(length - 2)
+    let root = this.#popTail(this.#shift, this.#root) ?? EMPTY_NODE
+    let shift = this.#shift
+    if (shift > BITS && root.array.length === 1) {
+      root = root.array[0] as TrieNode
+      shift -= BITS
+    }
+    return this.#with(length - 1, shift, root, tail)
+  }
+
+  /**
+   * Return an empty vector.
+   *
+   * Complexity: O(1)
+   */
+  public clear(): PersistentVector<T> {
+    return this.#with(0, BITS, EMPTY_NODE, EMPTY_NODE)
+  }
+
+  public size(): number {
+    return this.#length
+  }
+
+  public isEmpty(): boolean {
+    return this.#length === 0
+  }
+
+  /**
+   * Return the elements as a plain array.
+   *
+   * Complexity: O(n)
+   */
+  public toArray(): T[] {
+    return [...this]
+  }
+
+  /**
+   * Call `callback(value, index, vector)` front -> back. If the callback
+   * returns `false`, iteration stops early.
+   *
+   * @throws TypeError when `callback` is not a function.
+   */
+  public forEach(
+    callback: (value: T, index: number, vector: this) => void | false,
+    thisArg?: unknown,
+  ): void {
+    if (typeof callback !== 'function') {
+      throw new TypeError('Callback must be a function')
+    }
+    let index = 0
+    for (const value of this) {
+      if (callback.call(thisArg, value, index++, this) === false) break
+    }
+  }
+
+  // Transients
+  /**
+   * Return a transient copy whose updates happen in place. The original
+   * stays unchanged. Calling it on a transient returns the same object.
+   *
+   * Complexity: O(1)
+   */
+  public asMutable(): PersistentVector<T> {
+    if (this.#owner !== null) return this
+    const copy = new PersistentVector<T>()
+    copy.#length = this.#length
+    copy.#shift = this.#shift
+    copy.#root = this.#root
+    copy.#tail = this.#tail
+    copy.#owner = {}
+    return copy
+  }
+
+  /**
+   * Freeze a transient and return it; later updates return new versions
+   * again. Persistent vectors are returned unchanged.
+   *
+   * Complexity: O(1)
+   */
+  public asImmutable(): PersistentVector<T> {
+    this.#owner = null
+    return this
+  }
+
+  /**
+   * Apply a batch of updates to a transient copy and return the frozen
+   * result.
+   *
+   * Example: `vector.withMutations((v) => { v.pushBack(1); v.set(0, 2) })`
+   * @throws TypeError when `fn` is not a function.
+   */
+  public withMutations(
+    fn: (mutable: PersistentVector<T>) => void,
+  ): PersistentVector<T> {
+    if (typeof fn !== 'function') {
+      throw new TypeError('withMutations expects a function')
+    }
+    if (this.#owner !== null) {
+      fn(this)
+      return this
+    }
+    const mutable = this.asMutable()
+    fn(mutable)
+    return mutable.asImmutable()
+  }
+
+  /**
+   * Return a tagged, versioned snapshot used by `JSON.stringify`.
+   */
+  public toJSON(): SerializedContainer<T> {
+    return serialize('PersistentVector', this.toArray())
+  }
+
+  // Getter
+  public get length(): number {
+    return this.#length
+  }
+
+  public get [Symbol.toStringTag](): string {
+    return 'PersistentVector'
+  }
+
+  public get front(): T | undefined {
+    return this.at(0)
+  }
+
+  public get back(): T | undefined {
+    return this.at(this.#length - 1)
+  }
+
+  // Static method
+  /**
+   * Rebuild a `PersistentVector` from the output of `toJSON()`, either as
+   * the object itself or as a JSON string.
+   *
+   * @param options.reviveElement - Optional function restoring each
+   *   element from its parsed JSON form.
+   * @throws TypeError when `json` is not a serialized `PersistentVector`.
+   * @throws RangeError when the format version is not supported.
+   */
+  public static fromJSON<U>(
+    json: string | SerializedContainer,
+    options: FromJSONOptions<U> = {},
+  ): PersistentVector<U> {
+    const values = deserialize('PersistentVector', json, options)
+    return new PersistentVector<U>({ initValues: values })
+  }
+}
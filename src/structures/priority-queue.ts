@@ -1,20 +1,95 @@
-type CompareFn<T> = (a: T, b: T) => number
+import { BaseContainer } from '@/core/container'
+import {
+  ChangeObservers,
+  type ChangeEvent,
+  type ChangeEventOf,
+  type ChangeListener,
+  type ChangeType,
+} from '@/core/events'
+import { ArrayHeap } from '@/core/array-heap'
+import type { CompareFn, Heap, PQueueHandle } from '@/core/heap'
+import { PairingHeap } from '@/core/pairing-heap'
+import {
+  deserialize,
+  type FromJSONOptions,
+  type SerializedContainer,
+} from '@/core/serialization'
 
 type Factory<T, A extends unknown[]> = (...args: A) => T
 
+/**
+ * Storage engine of a `PriorityQueue`:
+ * - `'binary'` — binary heap in a flat array (the default).
+ * - `'d-ary'` — heap in a flat array with `arity` children per node.
+ * - `'pairing'` — pairing heap, with O(1) `merge` and O(1) priority raises.
+ */
+export type PQueueBackend = 'binary' | 'd-ary' | 'pairing'
+
 interface PQueueOptions<T, A extends unknown[]> {
   initValues?: T[]
   compareFn?: CompareFn<T>
   factory?: Factory<T, A>
+  backend?: PQueueBackend
+  arity?: number
+}
+
+export type { PQueueHandle }
+
+// Numeric max-heap order, used when no `compareFn` is given.
+function defaultCompare<T>(a: T, b: T): number {
+  if (typeof a == 'number' && typeof b == 'number') {
+    return a - b
+  }
+  throw new TypeError(
+    'PriorityQueue: no compareFn provided — default comparator only supports numbers',
+  )
+}
+
+function assertIterable(values: unknown, method: string): void {
+  if (
+    values == null ||
+    typeof (values as Iterable<unknown>)[Symbol.iterator] !== 'function'
+  ) {
+    throw new TypeError(`PriorityQueue.${method}: expected an iterable`)
+  }
+}
+
+function assertCount(k: number): void {
+  if (!Number.isInteger(k) || k < 0) {
+    throw new RangeError('k must be a non-negative integer')
+  }
+}
+
+// The `k` highest-priority values of `values` for `compare`, highest
+// first. The top of the bounded heap is the weakest value kept so far.
+function selectTop<T>(
+  values: Iterable<T>,
+  k: number,
+  compare: CompareFn<T>,
+): T[] {
+  if (k === 0) return []
+  const weakest = new ArrayHeap<T>((a, b) => compare(b, a))
+  for (const value of values) {
+    if (weakest.size < k) {
+      weakest.push(value)
+    } else if (compare(value, weakest.peek()!) > 0) {
+      weakest.replaceTop(value)
+    }
+  }
+  const result: T[] = []
+  while (weakest.size > 0) result.push(weakest.pop())
+  return result.reverse()
 }
 
 /**
- * PriorityQueue — a binary-heap backed priority queue.
+ * PriorityQueue — a heap backed priority queue.
  *
- * This implementation uses a binary heap stored in a flat array. By default
- * it behaves as a max-heap for numbers (largest number has highest priority).
- * Provide a custom `compareFn` to change ordering (for example, to implement
- * a min-heap or to prioritize complex objects).
+ * By default this implementation uses a binary heap stored in a flat
+ * array; the `backend` option selects a d-ary heap or a pairing heap
+ * instead, behind the same API. By default it behaves as a max-heap for
+ * numbers (largest number has highest priority). Provide a custom
+ * `compareFn` to change ordering (for example, to implement a min-heap or
+ * to prioritize complex objects).
  *
  * Type parameters:
  * - T: the element type stored in the queue.
@@ -26,22 +101,36 @@ interface PQueueOptions<T, A extends unknown[]> {
  * - return 0 when `a` and `b` are considered equal
  *
  * Notes for beginners:
- * - The internal array order is the heap order, not a sorted order. Use
- *   `toArray()` to get a shallow copy of the heap array, or repeatedly call
- *   `pop()` to extract elements in priority order.
+ * - Iteration follows the heap layout, not a sorted order: the heap array
+ *   for the array backends, a pre-order walk of the tree for `'pairing'`.
+ *   Use `toArray()` to get a shallow copy in that order, or repeatedly
+ *   call `pop()` to extract elements in priority order.
+ * - `size`, `isEmpty`, `toArray`, `assign`, `forEach`, `keys`, `values`
+ *   and `entries` are inherited from `BaseContainer`; they all follow the
+ *   heap layout.
+ * - Change events (`subscribe` / `on`) use positions in that layout as
+ *   `index`: the slot an inserted element ended up in, the slot a removed
+ *   element left, or the slot an updated element was rewritten in before
+ *   it moved. With `'pairing'` computing a position is O(n), paid only
+ *   while someone listens.
  */
-export class PriorityQueue<T, A extends unknown[] = unknown[]> {
-  #heap: T[]
+export class PriorityQueue<
+  T,
+  A extends unknown[] = unknown[],
+> extends BaseContainer<T> {
+  #heap: Heap<T>
   #compareFn: CompareFn<T>
   #factory?: Factory<T, A>
+  #observers: ChangeObservers<T, this> | null = null
 
   /**
    * Create a new PriorityQueue.
    *
-   * @param options.initValues - Optional initial array of values to heapify.
-   *   If provided, the array will be used as the internal heap storage and
-   *   heapified in-place. The array order does not need to be a heap;
-   *   it will be transformed into a valid heap during construction.
+   * @param options.initValues - Optional initial array of values to heapify
+   *   in O(n). With the array backends the array will be used as the
+   *   internal heap storage and heapified in-place. The array order does
+   *   not need to be a heap; it will be transformed into a valid heap
+   *   during construction.
    * @param options.compareFn - Optional comparator function which defines
    *   the priority ordering. It should return a positive number when the
    *   first argument has higher priority than the second. If omitted, a
@@ -49,23 +138,25 @@ export class PriorityQueue<T, A extends unknown[] = unknown[]> {
    *   if non-number items are inserted.
    * @param options.factory - Optional factory function used by `emplace` to
    *   create elements in-place from argument list `A`.
+   * @param options.backend - Heap engine: `'binary'` (default), `'d-ary'`
+   *   or `'pairing'`.
+   * @param options.arity - Children per node for `'d-ary'`; defaults to 4.
    *
    * Throws:
-   * - TypeError if `initValues` is provided but is not an array.
+   * - TypeError if `initValues` is provided but is not an array, or
+   *   `backend` is unknown.
+   * - RangeError if `arity` is not an integer of at least 2.
    */
-  constructor({ initValues, compareFn, factory }: PQueueOptions<T, A> = {}) {
-    if (typeof compareFn == 'function') {
-      this.#compareFn = compareFn
-    } else {
-      this.#compareFn = (a, b) => {
-        if (typeof a == 'number' && typeof b == 'number') {
-          return a - b
-        }
-        throw new TypeError(
-          'PriorityQueue: no compareFn provided — default comparator only supports numbers',
-        )
-      }
-    }
+  constructor({
+    initValues,
+    compareFn,
+    factory,
+    backend = 'binary',
+    arity = 4,
+  }: PQueueOptions<T, A> = {}) {
+    super()
+    this.#compareFn =
+      typeof compareFn == 'function' ? compareFn : defaultCompare
 
     this.#factory = factory
 
@@ -73,68 +164,139 @@ export class PriorityQueue<T, A extends unknown[] = unknown[]> {
       throw new TypeError('Expected an array to initialize the PriorityQueue.')
     }
 
-    this.#heap = initValues ?? []
-    const len = this.#heap.length
-    if (len > 1) {
-      for (let i = Math.floor(len / 2) - 1; i >= 0; i--) {
-        this.#heapifyDown(i)
+    if (backend === 'binary') {
+      this.#heap = new ArrayHeap(this.#compareFn)
+    } else if (backend === 'd-ary') {
+      if (!Number.isInteger(arity) || arity < 2) {
+        throw new RangeError(
+          'PriorityQueue arity must be an integer of at least 2',
+        )
       }
+      this.#heap = new ArrayHeap(this.#compareFn, arity)
+    } else if (backend === 'pairing') {
+      this.#heap = new PairingHeap(this.#compareFn)
+    } else {
+      throw new TypeError(`Unknown PriorityQueue backend: ${String(backend)}`)
     }
-  }
 
-  // cIdx ~ current index
-  #heapifyDown(cIdx: number): void {
-    const nodes = this.#heap
-    const len = nodes.length
-    while (true) {
-      const lIdx = 2 * cIdx + 1 // left child index
-      const rIdx = 2 * cIdx + 2 // right child
-      let best = cIdx
-
-      if (lIdx < len && this.#compareFn(nodes[best]!, nodes[lIdx]!) < 0) {
-        best = lIdx
-      }
+    if (initValues !== undefined) this.#heap.build(initValues)
+  }
 
-      if (rIdx < len && this.#compareFn(nodes[best]!, nodes[rIdx]!) < 0) {
-        best = rIdx
-      }
+  // Callers build the event only after checking `#observers?.active`.
+  #emit(event: ChangeEvent<T>): void {
+    this.#observers!.emit(event, this)
+  }
 
-      if (best == cIdx) break
-      this.#swap(best, cIdx)
-      cIdx = best
+  // Report that slot `idx` was rewritten from `oldValue` to `value`.
+  #emitUpdate(idx: number, value: T, oldValue: T): void {
+    if (this.#observers?.active) {
+      this.#emit({
+        type: 'update',
+        index: idx,
+        values: [value],
+        oldValues: [oldValue],
+      })
     }
   }
 
-  #heapifyUp(cIdx: number): void {
-    while (cIdx > 0) {
-      const pIdx = Math.floor((cIdx + 1) / 2) - 1 // parent index
-      if (this.#compareFn(this.#heap[cIdx]!, this.#heap[pIdx]!) <= 0) break
-      this.#swap(pIdx, cIdx)
-      cIdx = pIdx
+  #assertHandle(handle: PQueueHandle<T>, method: string): void {
+    if (!this.contains(handle)) {
+      throw new Error(
+        `PriorityQueue.${method}: handle does not refer to an element of this queue`,
+      )
     }
   }
 
+  // Replace the element behind `handle` (when `replace` is set) and let
+  // the engine restore heap order, reporting the slot it was rewritten in.
+  #rewrite(handle: PQueueHandle<T>, value: T, replace: boolean): void {
+    const idx = this.#observers?.active ? this.#heap.positionOf(handle) : 0
+    const oldValue = handle.value
+    this.#heap.update(handle, value, replace)
+    this.#emitUpdate(idx, handle.value, oldValue)
+  }
+
   /**
-   * Iterator that yields elements in the underlying heap array order.
+   * Iterator that yields elements in the underlying heap layout.
    *
    * The iteration order is the heap layout, not priority-sorted order.
    */
   *[Symbol.iterator](): IterableIterator<T> {
-    for (const val of this.#heap) {
-      yield val
-    }
+    yield* this.#heap
+  }
+
+  protected append(value: T): void {
+    this.push(value)
+  }
+
+  /**
+   * Call `listener(event, queue)` after every change.
+   *
+   * Complexity: O(1). Unobserved queues pay nothing for events.
+   *
+   * @returns A function that detaches the listener.
+   * @throws TypeError when `listener` is not a function.
+   */
+  subscribe(listener: ChangeListener<T, this>): () => void {
+    this.#observers ??= new ChangeObservers()
+    return this.#observers.subscribe(listener)
+  }
+
+  /**
+   * Call `listener(event, queue)` after changes of one `type`.
+   *
+   * @returns A function that detaches the listener.
+   * @throws TypeError when `type` is unknown or `listener` is not a
+   *   function.
+   */
+  on<K extends ChangeType>(
+    type: K,
+    listener: ChangeListener<T, this, ChangeEventOf<T, K>>,
+  ): () => void {
+    this.#observers ??= new ChangeObservers()
+    return this.#observers.on(type, listener)
   }
 
   /**
    * Insert a new element into the priority queue.
    *
-   * Complexity: O(log n) where n is the number of elements in the queue.
+   * Complexity: O(log n) where n is the number of elements in the queue;
+   * O(1) with the `'pairing'` backend.
    *
    * @param node - The element to insert.
+   * @returns A handle that can later be passed to `update`, `decreaseKey`,
+   *   `remove` or `contains`.
    */
-  push(node: T): void {
-    let cIdx = this.#heap.push(node) - 1 //current index
-    this.#heapifyUp(cIdx)
+  push(node: T): PQueueHandle<T> {
+    const handle = this.#heap.push(node)
+    if (this.#observers?.active) {
+      const index = this.#heap.positionOf(handle)
+      this.#emit({ type: 'insert', index, values: [node] })
+    }
+    return handle
+  }
+
+  /**
+   * Insert every element of `values`. Unlike `push`, no handles are
+   * returned, which lets the array backends append everything and then
+   * restore the heap in one pass: a bottom-up rebuild in O(n + k) when
+   * that beats k sift-ups at O(k log n).
+   *
+   * Observers get a single `insert` whose `index` is the former length.
+   *
+   * @param values - Any iterable of elements.
+   * @throws TypeError when `values` is not iterable.
+   */
+  pushAll(values: Iterable<T>): void {
+    assertIterable(values, 'pushAll')
+    const items = [...values]
+    if (items.length === 0) return
+    const index = this.#heap.size
+    const inserted = this.#observers?.active ? items.slice() : null
+    this.#heap.pushAll(items)
+    if (inserted !== null) {
+      this.#emit({ type: 'insert', index, values: inserted })
+    }
   }
 
   /**
@@ -148,23 +310,24 @@ export class PriorityQueue<T, A extends unknown[] = unknown[]> {
    * Complexity: O(log n).
    *
    * @param args - Arguments forwarded to the factory function.
+   * @returns A handle to the inserted element (see `push`).
    * @throws Error if the queue was not constructed with a `factory`.
    */
-  emplace(...args: A): void {
+  emplace(...args: A): PQueueHandle<T> {
     if (typeof this.#factory !== 'function') {
       throw new Error(
         'PriorityQueue was not initialized with a factory function',
       )
     }
-    this.push(this.#factory(...args))
+    return this.push(this.#factory(...args))
   }
 
   /**
    * Replace the element at the top of the heap (the current highest-priority
    * element) with `node` and restore the heap property.
    *
-   * This operation is slightly more efficient than `pop()` followed by
-   * `push()` because it performs a single down-heap operation.
+   * With the array backends this is slightly more efficient than `pop()`
+   * followed by `push()` because it performs a single down-heap operation.
    *
    * Complexity: O(log n).
    *
@@ -176,16 +339,15 @@ export class PriorityQueue<T, A extends unknown[] = unknown[]> {
     if (this.isEmpty()) {
       throw new Error('Heap is empty, cannot replace peek node.')
     }
-    const peek = this.#heap[0]!
-    this.#heap[0] = node
-    this.#heapifyDown(0)
+    const peek = this.#heap.replaceTop(node)
+    this.#emitUpdate(0, node, peek)
     return peek
   }
 
   /**
    * Remove and return the highest-priority element from the queue.
    *
-   * Complexity: O(log n).
+   * Complexity: O(log n); amortised with the `'pairing'` backend.
    *
    * @returns The removed element.
    * @throws Error if the heap is empty.
@@ -194,14 +356,73 @@ export class PriorityQueue<T, A extends unknown[] = unknown[]> {
     if (this.isEmpty()) {
       throw new Error('Heap is empty, cannot pop element.')
     }
-    const len = this.#heap.length
-    if (len == 1) return this.#heap.pop()!
+    const removed = this.#heap.pop()
+    if (this.#observers?.active) {
+      this.#emit({ type: 'remove', index: 0, values: [removed] })
+    }
+    return removed
+  }
 
-    const peek = this.#heap[0]! // removed node
-    this.#heap[0] = this.#heap.pop()!
+  /**
+   * Check whether `handle` refers to an element currently in this queue.
+   *
+   * Complexity: O(1); amortised with the `'pairing'` backend.
+   */
+  contains(handle: PQueueHandle<T>): boolean {
+    return this.#heap.contains(handle)
+  }
 
-    this.#heapifyDown(0)
-    return peek
+  /**
+   * Restore the heap after the priority of the element behind `handle`
+   * changed. Pass `value` to replace the element, or omit it when the
+   * element was mutated in place. The element may move up or down.
+   *
+   * Complexity: O(log n).
+   *
+   * @throws Error if `handle` is not in this queue.
+   */
+  update(handle: PQueueHandle<T>, value?: T): void {
+    this.#assertHandle(handle, 'update')
+    this.#rewrite(handle, value as T, arguments.length > 1)
+  }
+
+  /**
+   * Replace the element behind `handle` with `value`, which must have the
+   * same or higher priority (`compareFn(value, current) >= 0`). This is
+   * the classic decrease-key step of Dijkstra and A* when the queue is a
+   * min-heap on distance.
+   *
+   * Complexity: O(log n); O(1) with the `'pairing'` backend.
+   *
+   * @throws Error if `handle` is not in this queue.
+   * @throws RangeError if `value` has lower priority than the current one.
+   */
+  decreaseKey(handle: PQueueHandle<T>, value: T): void {
+    this.#assertHandle(handle, 'decreaseKey')
+    if (this.#compareFn(value, handle.value) < 0) {
+      throw new RangeError(
+        'PriorityQueue.decreaseKey: new value has lower priority than the current one',
+      )
+    }
+    this.#rewrite(handle, value, true)
+  }
+
+  /**
+   * Remove the element behind `handle` from the queue.
+   *
+   * Complexity: O(log n).
+   *
+   * @returns The removed element.
+   * @throws Error if `handle` is not in this queue.
+   */
+  remove(handle: PQueueHandle<T>): T {
+    this.#assertHandle(handle, 'remove')
+    const idx = this.#observers?.active ? this.#heap.positionOf(handle) : 0
+    const removed = this.#heap.remove(handle)
+    if (this.#observers?.active) {
+      this.#emit({ type: 'remove', index: idx, values: [removed] })
+    }
+    return removed
   }
 
   /**
@@ -211,34 +432,64 @@ export class PriorityQueue<T, A extends unknown[] = unknown[]> {
    *   queue is empty.
    */
   peek(): T | undefined {
-    return this.#heap[0]
+    return this.#heap.peek()
   }
 
   /**
-   * Check whether the queue contains no elements.
+   * Lazily iterate the elements from highest to lowest priority without
+   * removing them. Equal-priority elements come in no particular order.
    *
-   * @returns `true` when empty, otherwise `false`.
+   * The walk keeps a small frontier heap of candidates and only expands
+   * what is consumed, so stopping after k elements costs O(k log k) with
+   * the array backends. Do not modify the queue while iterating.
+   *
+   * Complexity: O(n log n) to exhaust.
    */
-  isEmpty(): boolean {
-    return this.#heap.length === 0
+  sortedValues(): IterableIterator<T> {
+    return this.#heap.sorted()
   }
 
   /**
-   * Remove all elements from the queue.
+   * Return a new array of all elements from highest to lowest priority.
+   * The queue is left unchanged.
    *
-   * This resets the internal storage to an empty array in-place.
+   * Complexity: O(n log n).
    */
-  clear(): void {
-    this.#heap.length = 0
+  toSortedArray(): T[] {
+    return this.toArray().sort((a, b) => this.#compareFn(b, a))
+  }
+
+  /**
+   * Return the `k` highest-priority elements, highest first, without
+   * removing them; all elements when the queue holds fewer than `k`.
+   *
+   * Complexity: O(k log k) with the array backends.
+   * @throws RangeError when `k` is not a non-negative integer.
+   */
+  topK(k: number): T[] {
+    assertCount(k)
+    const result: T[] = []
+    if (k === 0) return result
+    for (const value of this.#heap.sorted()) {
+      result.push(value)
+      if (result.length === k) break
+    }
+    return result
   }
 
   /**
-   * Return the number of elements currently stored in the queue.(STL style)
+   * Remove all elements from the queue.
    *
-   * @returns The size of the queue (non-negative integer).
+   * With the array backends this resets the internal storage to an empty
+   * array in-place.
    */
-  size(): number {
-    return this.#heap.length
+  clear(): void {
+    const removed =
+      this.#observers?.active && this.#heap.size > 0 ? this.toArray() : null
+    this.#heap.clear()
+    if (removed !== null) {
+      this.#emit({ type: 'clear', index: 0, values: removed })
+    }
   }
 
   /**
@@ -247,25 +498,135 @@ export class PriorityQueue<T, A extends unknown[] = unknown[]> {
    * @returns The length of the queue (non-negative integer).
    */
   get length(): number {
-    return this.#heap.length
+    return this.#heap.size
+  }
+
+  get [Symbol.toStringTag](): string {
+    return 'PriorityQueue'
   }
 
   /**
-   * Return a shallow copy of the internal heap array.
+   * Move every element of `source` into `target`, leaving `source` empty.
+   * Both queues must order elements the same way; `target`'s `compareFn`
+   * is used.
+   *
+   * Handles from `source` stay valid and refer to `target` afterwards when
+   * both queues use an array backend (`'binary'` / `'d-ary'`) or both use
+   * `'pairing'`; otherwise they are detached.
    *
-   * Important: the returned array represents the heap structure and is not
-   * guaranteed to be sorted. Use repeated `pop()` calls to obtain elements in
-   * priority order.
+   * Complexity: O(1) for two `'pairing'` queues. For the array backends
+   * the elements are appended and the heap restored like `pushAll`, in
+   * O(n + m) or O(m log(n + m)), whichever is cheaper.
    *
-   * @returns A new array containing the queue elements in heap order.
+   * Observers of `target` get one `insert` whose `index` is its former
+   * length; observers of `source` get a single `clear`.
+   *
+   * @throws TypeError when inputs are not `PriorityQueue` instances.
+   * @throws Error when attempting to merge a queue with itself.
    */
-  toArray(): T[] {
-    return [...this.#heap]
+  static merge<U, V extends unknown[] = unknown[]>(
+    target: PriorityQueue<U, V>,
+    source: PriorityQueue<U, V>,
+  ): void {
+    if (!(target instanceof PriorityQueue && source instanceof PriorityQueue)) {
+      throw new TypeError('Both arguments must be instances of PriorityQueue')
+    }
+    if (target === source) {
+      throw new Error('Cannot merge a queue with itself')
+    }
+    if (source.isEmpty()) return
+
+    const index = target.#heap.size
+    const moved =
+      target.#observers?.active || source.#observers?.active
+        ? source.toArray()
+        : null
+    target.#heap.meld(source.#heap)
+    if (moved !== null) {
+      if (target.#observers?.active) {
+        target.#emit({ type: 'insert', index, values: moved.slice() })
+      }
+      if (source.#observers?.active) {
+        source.#emit({ type: 'clear', index: 0, values: moved })
+      }
+    }
   }
 
-  #swap(i: number, j: number): void {
-    const temp = this.#heap[i]!
-    this.#heap[i] = this.#heap[j]!
-    this.#heap[j] = temp
+  /**
+   * Return the `k` largest values of `values` for `compareFn`, largest
+   * first, keeping only `k` candidates in a bounded heap while scanning.
+   * `compareFn` follows the queue's contract; the default orders numbers.
+   *
+   * Example: `PriorityQueue.nLargest(scores, 3)`
+   *
+   * Complexity: O(n log k) time, O(k) extra space.
+   * @throws TypeError when `values` is not iterable.
+   * @throws RangeError when `k` is not a non-negative integer.
+   */
+  static nLargest<U>(
+    values: Iterable<U>,
+    k: number,
+    compareFn: CompareFn<U> = defaultCompare,
+  ): U[] {
+    assertIterable(values, 'nLargest')
+    assertCount(k)
+    return selectTop(values, k, compareFn)
+  }
+
+  /**
+   * Return the `k` smallest values of `values` for `compareFn`, smallest
+   * first. See `nLargest`.
+   *
+   * Complexity: O(n log k) time, O(k) extra space.
+   * @throws TypeError when `values` is not iterable.
+   * @throws RangeError when `k` is not a non-negative integer.
+   */
+  static nSmallest<U>(
+    values: Iterable<U>,
+    k: number,
+    compareFn: CompareFn<U> = defaultCompare,
+  ): U[] {
+    assertIterable(values, 'nSmallest')
+    assertCount(k)
+    return selectTop(values, k, (a, b) => compareFn(b, a))
+  }
+
+  /**
+   * Rebuild a `PriorityQueue` from the output of `toJSON()`, either as the
+   * object itself or as a JSON string.
+   *
+   * `toJSON()` stores the heap layout. With the array backends the values
+   * are adopted in that order without re-heapifying; they are only checked
+   * (O(n)) against `compareFn` and `arity`. The `'pairing'` backend
+   * checks that the first value is the top and links the others under it
+   * in order. Pass the same `compareFn` and backend the queue was created
+   * with.
+   *
+   * @param options.reviveElement - Optional function restoring each
+   *   element from its parsed JSON form.
+   * @param options.compareFn - Comparator; functions are not part of the
+   *   JSON and must be passed again.
+   * @param options.factory - Optional factory for `emplace`.
+   * @param options.backend - Heap engine, as in the constructor.
+   * @param options.arity - Children per node for `'d-ary'`.
+   * @throws TypeError when `json` is not a serialized `PriorityQueue`.
+   * @throws RangeError when the format version is not supported.
+   * @throws Error when the values are not in heap order for `compareFn`.
+   */
+  static fromJSON<U, V extends unknown[] = unknown[]>(
+    json: string | SerializedContainer,
+    {
+      reviveElement,
+      ...options
+    }: FromJSONOptions<U> & Omit<PQueueOptions<U, V>, 'initValues'> = {},
+  ): PriorityQueue<U, V> {
+    const values = deserialize('PriorityQueue', json, { reviveElement })
+    const queue = new PriorityQueue<U, V>(options)
+    if (!queue.#heap.adopt(values)) {
+      throw new Error(
+        'PriorityQueue.fromJSON: values are not in heap order for this compareFn',
+      )
+    }
+    return queue
   }
 }
@@ -1,10 +1,43 @@
+import { BaseContainer } from '@/core/container'
+import {
+  ChangeObservers,
+  type ChangeEventOf,
+  type ChangeListener,
+  type ChangeType,
+} from '@/core/events'
 import { ListNode } from '@/core/list-node'
+import {
+  deserialize,
+  type FromJSONOptions,
+  type SerializedContainer,
+} from '@/core/serialization'
 
 type Factory<T, A extends unknown[]> = (...args: A) => T
 
+/**
+ * What a bounded `Queue` does when `push` is called while it is full:
+ * - `'throw'`: throw a `RangeError` (default).
+ * - `'reject'`: leave the queue unchanged and return `false`.
+ * - `'drop-newest'`: discard the pushed value, call `onDrop` with it and
+ *   return `false`.
+ * - `'drop-oldest'`: remove the front value, call `onDrop` with it and
+ *   enqueue the new value (sliding window).
+ */
+export type OverflowPolicy = 'throw' | 'reject' | 'drop-newest' | 'drop-oldest'
+
+const OVERFLOW_POLICIES: readonly OverflowPolicy[] = [
+  'throw',
+  'reject',
+  'drop-newest',
+  'drop-oldest',
+]
+
 interface QueueOptions<T, A extends unknown[]> {
   initValues?: T[]
   factory?: Factory<T, A>
+  capacity?: number
+  overflow?: OverflowPolicy
+  onDrop?: (value: T) => void
 }
 
 /**
@@ -27,12 +60,32 @@ interface QueueOptions<T, A extends unknown[]> {
  * Implementation notes:
  * - Uses private `#head`, `#tail`, and `#length` fields.
  * - `push`/`pop` are O(1). Iteration and conversion helpers are O(n).
+ * - `size`, `isEmpty`, `toArray`, `assign`, `forEach`, `keys`, `values`
+ *   and `entries` are inherited from `BaseContainer`.
+ *
+ * Bounded queues:
+ * - Pass `capacity` to cap the number of stored elements. What happens on
+ *   a push to a full queue is chosen by `overflow` (see `OverflowPolicy`);
+ *   `onDrop` is called for every element a drop policy discards.
+ * - Without `capacity` the queue is unbounded, as before.
+ *
+ * Change events:
+ * - Observers attached with `subscribe` / `on` see every change;
+ *   positions count from the front. An eviction by `'drop-oldest'` is
+ *   reported as a `remove` at index 0 before the `insert`.
  */
-export class Queue<T, A extends unknown[] = unknown[]> implements Iterable<T> {
+export class Queue<
+  T,
+  A extends unknown[] = unknown[],
+> extends BaseContainer<T> {
   #head: ListNode<T> | null
   #tail: ListNode<T> | null
   #length: number
   #factory?: Factory<T, A>
+  #capacity: number
+  #overflow: OverflowPolicy
+  #onDrop?: (value: T) => void
+  #observers: ChangeObservers<T, this> | null = null
 
   /**
    * Create a new `Queue`.
@@ -42,14 +95,46 @@ export class Queue<T, A extends unknown[] = unknown[]> implements Iterable<T> {
    *   array, a `TypeError` is thrown.
    * @param options.factory - Optional factory function used by
    *   `emplace(...args)` to construct elements in-place.
+   * @param options.capacity - Optional maximum number of elements (a
+   *   positive integer). Defaults to `Infinity` (unbounded).
+   * @param options.overflow - Policy applied when pushing to a full queue.
+   *   Defaults to `'throw'`. `initValues` are pushed under this policy too.
+   * @param options.onDrop - Optional hook called with each element
+   *   discarded by the `'drop-newest'` or `'drop-oldest'` policy.
    *
    * Complexity: O(n) when `initValues` is provided (push each element),
    * otherwise O(1).
+   *
+   * @throws RangeError when `capacity` is not a positive integer.
+   * @throws TypeError when `overflow` is unknown or `onDrop` is not a
+   *   function.
    */
-  constructor({ initValues, factory }: QueueOptions<T, A> = {}) {
+  constructor({
+    initValues,
+    factory,
+    capacity = Infinity,
+    overflow = 'throw',
+    onDrop,
+  }: QueueOptions<T, A> = {}) {
+    super()
     this.#head = this.#tail = null
     this.#length = 0
     this.#factory = factory
+    if (
+      capacity !== Infinity &&
+      (!Number.isInteger(capacity) || capacity < 1)
+    ) {
+      throw new RangeError('Queue capacity must be a positive integer')
+    }
+    if (!OVERFLOW_POLICIES.includes(overflow)) {
+      throw new TypeError(`Unknown overflow policy: ${String(overflow)}`)
+    }
+    if (onDrop !== undefined && typeof onDrop !== 'function') {
+      throw new TypeError('onDrop must be a function')
+    }
+    this.#capacity = capacity
+    this.#overflow = overflow
+    this.#onDrop = onDrop
     if (initValues !== undefined && !Array.isArray(initValues)) {
       throw new TypeError('Expected an array to initialize the queue.')
     }
@@ -95,26 +180,98 @@ export class Queue<T, A extends unknown[] = unknown[]> implements Iterable<T> {
     return iterator.call(this)
   }
 
+  protected append(value: T): void {
+    this.push(value)
+  }
+
+  /**
+   * Call `listener(event, queue)` after every change.
+   *
+   * Complexity: O(1). Unobserved queues pay nothing for events.
+   *
+   * @returns A function that detaches the listener.
+   * @throws TypeError when `listener` is not a function.
+   */
+  public subscribe(listener: ChangeListener<T, this>): () => void {
+    this.#observers ??= new ChangeObservers()
+    return this.#observers.subscribe(listener)
+  }
+
+  /**
+   * Call `listener(event, queue)` after changes of one `type`.
+   *
+   * @returns A function that detaches the listener.
+   * @throws TypeError when `type` is unknown or `listener` is not a
+   *   function.
+   */
+  public on<K extends ChangeType>(
+    type: K,
+    listener: ChangeListener<T, this, ChangeEventOf<T, K>>,
+  ): () => void {
+    this.#observers ??= new ChangeObservers()
+    return this.#observers.on(type, listener)
+  }
+
+  // Report that the whole content was replaced (used by `swap`).
+  #emitReplaced(previous: T[]): void {
+    if (previous.length > 0) {
+      this.#observers!.emit({ type: 'clear', index: 0, values: previous }, this)
+    }
+    if (this.#length > 0) {
+      this.#observers!.emit(
+        { type: 'insert', index: 0, values: this.toArray() },
+        this,
+      )
+    }
+  }
+
   /**
-   * Push a value at the back (tail) of the queue.
+   * Push a value at the back (tail) of the queue. When the queue is full
+   * the `overflow` policy decides what happens.
    *
    * Complexity: O(1)
    *
    * @param value - Element to append to the queue.
+   * @returns `true` when `value` was enqueued, `false` when it was
+   *   rejected or dropped by the overflow policy.
+   * @throws RangeError when the queue is full and the policy is `'throw'`.
    */
-  public push(value: T): void {
+  public push(value: T): boolean {
+    if (this.#length >= this.#capacity) {
+      switch (this.#overflow) {
+        case 'throw':
+          throw new RangeError(`Queue is full (capacity ${this.#capacity}).`)
+        case 'reject':
+          return false
+        case 'drop-newest':
+          this.#onDrop?.(value)
+          return false
+        case 'drop-oldest': {
+          const dropped = this.pop()
+          this.#onDrop?.(dropped)
+          break
+        }
+      }
+    }
+
     const newNode = new ListNode(value)
 
     if (this.isEmpty()) {
       this.#head = this.#tail = newNode
-      this.#length++
-      return
+    } else {
+      newNode.prev = this.#tail
+      this.#tail!.next = newNode
+      this.#tail = newNode
     }
-
-    newNode.prev = this.#tail
-    this.#tail!.next = newNode
-    this.#tail = newNode
     this.#length++
+
+    if (this.#observers?.active) {
+      this.#observers.emit(
+        { type: 'insert', index: this.#length - 1, values: [value] },
+        this,
+      )
+    }
+    return true
   }
 
   /**
@@ -133,19 +290,23 @@ export class Queue<T, A extends unknown[] = unknown[]> implements Iterable<T> {
     const peek = this.#head!
     const peekVal = peek.val
 
-    // Single Node
     if (this.#length === 1) {
+      // Single Node
       this.#head = this.#tail = null
-      peek.cleanup()
-      this.#length--
-      return peekVal
+    } else {
+      // Two and more nodes
+      this.#head = this.#head!.next
+      this.#head!.prev = null
     }
-
-    // Two and more nodes
-    this.#head = this.#head!.next
-    this.#head!.prev = null
     peek.cleanup()
     this.#length--
+
+    if (this.#observers?.active) {
+      this.#observers.emit(
+        { type: 'remove', index: 0, values: [peekVal] },
+        this,
+      )
+    }
     return peekVal
   }
 
@@ -155,22 +316,14 @@ export class Queue<T, A extends unknown[] = unknown[]> implements Iterable<T> {
    *
    * Complexity: O(1) plus the cost of the factory.
    *
+   * @returns The result of `push` for the constructed element.
    * @throws TypeError if no `factory` was provided in the constructor.
    */
-  public emplace(...args: A): void {
+  public emplace(...args: A): boolean {
     if (typeof this.#factory !== 'function') {
       throw new TypeError('Factory function is not defined to perform emplace.')
     }
-    this.push(this.#factory(...args))
-  }
-
-  /**
-   * Check whether the queue contains no elements.
-   *
-   * @returns `true` when empty, otherwise `false`.
-   */
-  public isEmpty(): boolean {
-    return this.#length === 0
+    return this.push(this.#factory(...args))
   }
 
   /**
@@ -179,6 +332,8 @@ export class Queue<T, A extends unknown[] = unknown[]> implements Iterable<T> {
    * Complexity: O(n) to traverse and cleanup nodes.
    */
   public clear(): void {
+    const removed =
+      this.#observers?.active && this.#length > 0 ? this.toArray() : null
     let current = this.#head
     while (current !== null) {
       const next = current.next
@@ -187,103 +342,9 @@ export class Queue<T, A extends unknown[] = unknown[]> implements Iterable<T> {
     }
     this.#head = this.#tail = null
     this.#length = 0
-  }
-
-  /**
-   * Return a shallow array copy of the queue values in front->back
-   * order.
-   *
-   * Complexity: O(n)
-   */
-  public toArray(): T[] {
-    return [...this]
-  }
-
-  // Overload signatures
-  public assign(count: number, value: T): void
-  public assign(values: T[], start?: number, end?: number): void
-
-  // Implementation
-  /**
-   * Assign overload implementation.
-   *
-   * Overloads:
-   * - `assign(values: T[], start?: number, end?: number)` — copy a slice
-   *   of `values` into the queue (clears first).
-   * - `assign(count: number, value: T)` — clear and fill `count`
-   *   repeated `value` elements.
-   *
-   * Complexity: O(n)
-   */
-  public assign(arg1: number | T[], arg2?: T | number, arg3?: number): void {
-    // Case: assign(values: T[], start?: number, end?: number)
-    if (Array.isArray(arg1)) {
-      const values = arg1
-      const start = typeof arg2 === 'number' ? arg2 : 0
-      const end = typeof arg3 === 'number' ? arg3 : values.length
-
-      if (start < 0 || end > values.length || start > end) {
-        throw new RangeError('Invalid array slice range')
-      }
-
-      this.clear()
-
-      for (let i = start; i < end; i++) {
-        this.push(values[i]!)
-      }
-      return
-    }
-
-    // Case: assign(count: number, value: T)
-    if (typeof arg1 === 'number' && arguments.length === 2) {
-      const count = arg1
-      const value = arg2 as T
-
-      if (value === undefined) {
-        throw new TypeError(
-          'Value must be provided when assigning repeated elements.',
-        )
-      }
-
-      if (count < 0) {
-        throw new RangeError('Count must be a non-negative integer')
-      }
-
-      this.clear()
-
-      for (let i = 0; i < count; i++) {
-        this.push(value)
-      }
-      return
-    }
-
-    // Invalid usage
-    throw new TypeError('Invalid arguments passed to assign()')
-  }
 
-  /**
-   * Iterate over each element and call `callback(value, index, queue)`.
-   * If the callback returns `false`, iteration is stopped early.
-   *
-   * @param callback - Function invoked for each element. Returning
-   *   `false` stops iteration.
-   * @param thisArg - Optional `this` binding for the callback.
-   * @throws TypeError when `callback` is not a function.
-   */
-  public forEach(
-    callback: (value: T, index: number, stack: Queue<T, A>) => void | false,
-    thisArg?: unknown,
-  ): void {
-    if (typeof callback !== 'function') {
-      throw new TypeError('Callback must be a function')
-    }
-    let current = this.#head
-    let index = 0
-    while (current !== null) {
-      const res = callback.call(thisArg, current.val, index, this)
-      if (res === false) break
-      current = current.next
-      index++
+    if (removed !== null) {
+      this.#observers!.emit({ type: 'clear', index: 0, values: removed }, this)
     }
   }
 
@@ -330,22 +391,18 @@ export class Queue<T, A extends unknown[] = unknown[]> implements Iterable<T> {
     if (typeof deepCloneFn !== 'function') {
       throw new TypeError('deepCloneFn must be a function')
     }
-    const copy = new Queue<T, A>({ factory: this.#factory })
+    const copy = new Queue<T, A>({
+      factory: this.#factory,
+      capacity: this.#capacity,
+      overflow: this.#overflow,
+      onDrop: this.#onDrop,
+    })
     for (const val of this) {
       copy.push(deepCloneFn(val))
     }
     return copy
   }
 
-  /**
-   * Return the number of elements in the queue (STL-style).
-   *
-   * @returns Non-negative integer count.
-   */
-  public size(): number {
-    return this.#length
-  }
-
   // Getter and Setter
   /**
    * `length` getter (JS-style alias for `size()`).
@@ -356,6 +413,17 @@ export class Queue<T, A extends unknown[] = unknown[]> implements Iterable<T> {
     return this.#length
   }
 
+  public get [Symbol.toStringTag](): string {
+    return 'Queue'
+  }
+
+  /**
+   * Maximum number of elements, or `Infinity` for an unbounded queue.
+   */
+  public get capacity(): number {
+    return this.#capacity
+  }
+
   /**
    * Non-throwing accessor for the front value.
    *
@@ -370,6 +438,26 @@ export class Queue<T, A extends unknown[] = unknown[]> implements Iterable<T> {
     return this.#head!.val
   }
 
+  /**
+   * Check whether the queue has reached its `capacity`. Always `false`
+   * for an unbounded queue.
+   *
+   * Complexity: O(1)
+   */
+  public isFull(): boolean {
+    return this.#length >= this.#capacity
+  }
+
+  /**
+   * Number of elements that can still be pushed before the queue is full
+   * (`Infinity` when unbounded).
+   *
+   * Complexity: O(1)
+   */
+  public remainingCapacity(): number {
+    return this.#capacity - this.#length
+  }
+
   // Static method
   /**
    * Compare two queues for element-wise equality.
@@ -415,10 +503,12 @@ export class Queue<T, A extends unknown[] = unknown[]> implements Iterable<T> {
    * Swap the internal state of two queues in O(1) time.
    *
    * This exchanges `#head`, `#tail`, and `#length` between two queues.
-   * Both queues must have the same `factory` function (or both undefined).
+   * Both queues must have the same `factory` function (or both undefined)
+   * and the same `capacity`. Observers of each queue get a `clear` of the
+   * old contents followed by an `insert` of the new ones.
    *
    * @throws TypeError when inputs are not `Queue` instances or their
-   *   factories differ.
+   *   factories or capacities differ.
    */
   public static swap<U, V extends unknown[] = unknown[]>(
     queue1: Queue<U, V>,
@@ -432,6 +522,13 @@ export class Queue<T, A extends unknown[] = unknown[]> implements Iterable<T> {
       throw new TypeError('Both stacks must have the same factory function')
     }
 
+    if (queue1.#capacity !== queue2.#capacity) {
+      throw new TypeError('Both queues must have the same capacity')
+    }
+
+    const before1 = queue1.#observers?.active ? queue1.toArray() : null
+    const before2 = queue2.#observers?.active ? queue2.toArray() : null
+
     const tempHead = queue1.#head
     const tempTail = queue1.#tail
     const tempLength = queue1.#length
@@ -443,5 +540,31 @@ export class Queue<T, A extends unknown[] = unknown[]> implements Iterable<T> {
     queue2.#head = tempHead
     queue2.#tail = tempTail
     queue2.#length = tempLength
+
+    if (before1 !== null) queue1.#emitReplaced(before1)
+    if (before2 !== null) queue2.#emitReplaced(before2)
+  }
+
+  /**
+   * Rebuild a `Queue` from the output of `toJSON()`, either as the
+   * object itself or as a JSON string.
+   *
+   * @param options.reviveElement - Optional function restoring each
+   *   element from its parsed JSON form.
+   * @param options.factory - Optional factory for `emplace`; functions
+   *   are not part of the JSON and must be passed again. `capacity`,
+   *   `overflow` and `onDrop` are accepted as well.
+   * @throws TypeError when `json` is not a serialized `Queue`.
+   * @throws RangeError when the format version is not supported.
+   */
+  public static fromJSON<U, V extends unknown[] = unknown[]>(
+    json: string | SerializedContainer,
+    {
+      reviveElement,
+      ...options
+    }: FromJSONOptions<U> & Omit<QueueOptions<U, V>, 'initValues'> = {},
+  ): Queue<U, V> {
+    const values = deserialize('Queue', json, { reviveElement })
+    return new Queue<U, V>({ ...options, initValues: values })
   }
 }
@@ -0,0 +1,258 @@
+import {
+  deserialize,
+  serialize,
+  type FromJSONOptions,
+  type SerializedContainer,
+} from '@/core/serialization'
+import { UnionFind } from '@/core/union-find'
+
+interface RollbackDisjointSetOptions<T> {
+  initValues?: T[]
+}
+
+/**
+ * RollbackDisjointSet — a `DisjointSet` whose `add` and `union` calls can
+ * be undone, for offline algorithms such as dynamic connectivity over a
+ * segment tree of time or backtracking search.
+ *
+ * `checkpoint()` returns a marker for the current state and
+ * `rollback(marker)` undoes every change made after it, most recent
+ * first; `undo()` reverts one change. A `union` that found both elements
+ * already connected changes nothing and is not recorded.
+ *
+ * Path compression would rewrite links that rollback needs, so only
+ * union by size is used: `find`, `union` and `connected` are O(log n)
+ * worst case, and undoing a change is O(1).
+ *
+ * Type parameters:
+ * - T: element type
+ */
+export class RollbackDisjointSet<T> implements Iterable<T> {
+  #forest: UnionFind<T>
+
+  /**
+   * Create a new `RollbackDisjointSet`.
+   *
+   * @param options.initValues - Optional elements, each added as a set of
+   *   its own. These additions are recorded and can be rolled back too.
+   * @throws TypeError when `initValues` is not an array.
+   */
+  constructor({ initValues }: RollbackDisjointSetOptions<T> = {}) {
+    this.#forest = new UnionFind<T>(true)
+
+    if (initValues !== undefined && !Array.isArray(initValues)) {
+      throw new TypeError(
+        'Expected an array to initialize the RollbackDisjointSet.',
+      )
+    }
+    if (initValues !== undefined) {
+      for (const value of initValues) {
+        this.add(value)
+      }
+    }
+  }
+
+  #indexOf(value: T, method: string): number {
+    const index = this.#forest.indexOf(value)
+    if (index === undefined) {
+      throw new Error(`${method}: value does not exist in the set`)
+    }
+    return index
+  }
+
+  /**
+   * Iterate elements in insertion order.
+   */
+  *[Symbol.iterator](): IterableIterator<T> {
+    yield* this.#forest
+  }
+
+  /**
+   * Add `value` as a set of its own.
+   *
+   * Complexity: O(1)
+   * @returns `true` when `value` was new, `false` when already present.
+   */
+  public add(value: T): boolean {
+    return this.#forest.add(value).added
+  }
+
+  /**
+   * Check whether `value` has been added.
+   *
+   * Complexity: O(1)
+   */
+  public has(value: T): boolean {
+    return this.#forest.indexOf(value) !== undefined
+  }
+
+  /**
+   * Return the representative of the set holding `value`.
+   *
+   * Complexity: O(log n)
+   * @throws Error when `value` is not in the structure.
+   */
+  public find(value: T): T {
+    return this.#forest.item(this.#forest.find(this.#indexOf(value, 'find')))
+  }
+
+  /**
+   * Merge the sets holding `a` and `b`. Elements that were never added
+   * are added first (and those additions are recorded as well).
+   *
+   * Complexity: O(log n)
+   * @returns `true` when two sets were merged, `false` when `a` and `b`
+   *   were already connected.
+   */
+  public union(a: T, b: T): boolean {
+    return this.#forest.union(
+      this.#forest.add(a).index,
+      this.#forest.add(b).index,
+    )
+  }
+
+  /**
+   * Check whether `a` and `b` are in the same set. Elements that were
+   * never added are not connected to anything.
+   *
+   * Complexity: O(log n)
+   */
+  public connected(a: T, b: T): boolean {
+    const i = this.#forest.indexOf(a)
+    const j = this.#forest.indexOf(b)
+    if (i === undefined || j === undefined) return false
+    return this.#forest.find(i) === this.#forest.find(j)
+  }
+
+  /**
+   * Number of elements in the set holding `value`.
+   *
+   * Complexity: O(log n)
+   * @throws Error when `value` is not in the structure.
+   */
+  public setSize(value: T): number {
+    return this.#forest.setSize(this.#indexOf(value, 'setSize'))
+  }
+
+  /**
+   * Number of disjoint sets.
+   *
+   * Complexity: O(1)
+   */
+  public componentCount(): number {
+    return this.#forest.count
+  }
+
+  /**
+   * Iterate the sets as arrays of elements. Sets are ordered by their
+   * first-added element, and elements keep insertion order within a set.
+   *
+   * Complexity: O(n log n)
+   */
+  public *components(): IterableIterator<T[]> {
+    yield* this.#forest.components()
+  }
+
+  // Rollback
+  /**
+   * Return a marker for the current state, to pass to `rollback` later.
+   *
+   * Complexity: O(1)
+   */
+  public checkpoint(): number {
+    return this.#forest.historyLength
+  }
+
+  /**
+   * Undo every `add` and `union` made since `checkpoint` was taken.
+   *
+   * Complexity: O(k) for k undone changes.
+   * @throws RangeError when `checkpoint` is not a marker of the current
+   *   history (negative, not an integer, or newer than the last change).
+   */
+  public rollback(checkpoint: number): void {
+    if (
+      !Number.isInteger(checkpoint) ||
+      checkpoint < 0 ||
+      checkpoint > this.#forest.historyLength
+    ) {
+      throw new RangeError('Invalid checkpoint to roll back to')
+    }
+    while (this.#forest.historyLength > checkpoint) this.#forest.undo()
+  }
+
+  /**
+   * Undo the most recent `add` or `union`.
+   *
+   * Complexity: O(1)
+   * @returns `false` when there was nothing to undo.
+   */
+  public undo(): boolean {
+    return this.#forest.undo()
+  }
+
+  /**
+   * Remove all elements. The history is discarded as well, so earlier
+   * checkpoints become invalid.
+   */
+  public clear(): void {
+    this.#forest.clear()
+  }
+
+  public isEmpty(): boolean {
+    return this.#forest.size === 0
+  }
+
+  /** Number of elements (not sets). */
+  public size(): number {
+    return this.#forest.size
+  }
+
+  /**
+   * Return the elements as an array, in insertion order.
+   */
+  public toArray(): T[] {
+    return [...this]
+  }
+
+  /**
+   * Return a tagged, versioned snapshot used by `JSON.stringify`; `values`
+   * holds one `[element, index]` pair per element in insertion order,
+   * where `index` is the position of the first element of its set. The
+   * history is not included.
+   */
+  public toJSON(): SerializedContainer<[T, number]> {
+    return serialize('RollbackDisjointSet', this.#forest.snapshot())
+  }
+
+  /**
+   * Rebuild a `RollbackDisjointSet` from the output of `toJSON()`, either
+   * as the object itself or as a JSON string. The rebuilt structure
+   * starts with an empty history.
+   *
+   * @param options.reviveElement - Optional function restoring each
+   *   `[element, index]` pair from its parsed JSON form.
+   * @throws TypeError when `json` is not a serialized
+   *   `RollbackDisjointSet`, or a pair is malformed.
+   * @throws RangeError when the format version is not supported.
+   */
+  public static fromJSON<U>(
+    json: string | SerializedContainer,
+    options: FromJSONOptions<[U, number]> = {},
+  ): RollbackDisjointSet<U> {
+    const pairs = deserialize('RollbackDisjointSet', json, options)
+    const set = new RollbackDisjointSet<U>()
+    set.#forest.restore(pairs, 'RollbackDisjointSet')
+    set.#forest.clearHistory()
+    return set
+  }
+
+  // Getter
+  public get length(): number {
+    return this.#forest.size
+  }
+
+  public get [Symbol.toStringTag](): string {
+    return 'RollbackDisjointSet'
+  }
+}
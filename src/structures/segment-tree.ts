@@ -0,0 +1,358 @@
+import {
+  deserialize,
+  serialize,
+  type FromJSONOptions,
+  type SerializedContainer,
+} from '@/core/serialization'
+
+/**
+ * Range-update hooks that switch a `SegmentTree` to lazy propagation.
+ *
+ * - `apply(value, update, length)` returns the aggregate of a segment of
+ *   `length` elements after `update` was applied to each of them (e.g.
+ *   `value + update * length` for "add to range" under sum).
+ * - `compose(older, newer)` returns the single update equivalent to
+ *   applying `older` and then `newer` (e.g. `older + newer` for adds,
+ *   `newer` for assignments).
+ */
+export interface LazyOptions<T, U> {
+  apply: (value: T, update: U, length: number) => T
+  compose: (older: U, newer: U) => U
+}
+
+interface SegmentTreeOptions<T, U> {
+  initValues?: T[]
+  combine: (a: T, b: T) => T
+  identity: T
+  lazy?: LazyOptions<T, U>
+}
+
+const NONE: unique symbol = Symbol('none')
+
+/**
+ * SegmentTree — range queries over any associative operation (sum, min,
+ * max, gcd, matrix product, ...) with point updates, and optionally range
+ * updates through lazy propagation.
+ *
+ * `combine` must be associative and `identity` its neutral element;
+ * `combine` need not be commutative, as operands are always passed in
+ * index order. The tree is stored implicitly in an array of `2 * m`
+ * aggregates, `m` being `size()` rounded up to a power of two; padding
+ * leaves hold `identity`.
+ *
+ * Without `lazy`, queries and point updates walk the tree bottom-up.
+ * With `lazy`, every node also keeps a pending update that is pushed to
+ * its children only when a later operation needs to look inside.
+ *
+ * Ranges are half-open, `[start, end)`.
+ *
+ * Type parameters:
+ * - T: element (and aggregate) type
+ * - U: range update type, used in lazy mode
+ */
+export class SegmentTree<T, U = never> implements Iterable<T> {
+  #combine: (a: T, b: T) => T
+  #identity: T
+  #lazy: LazyOptions<T, U> | null
+  #length: number
+  #leaves: number
+  #tree: T[]
+  #pending: (U | typeof NONE)[]
+
+  /**
+   * Create a new `SegmentTree` in O(n).
+   *
+   * @param options.initValues - Optional initial values (an array or a
+   *   `Vector`).
+   * @param options.combine - Associative function merging two aggregates,
+   *   left operand first.
+   * @param options.identity - Neutral element of `combine`; the result of
+   *   querying an empty range.
+   * @param options.lazy - Optional `apply` / `compose` pair enabling
+   *   `update(start, end, u)`.
+   * @throws TypeError when `initValues` is not an array, or `combine`,
+   *   `lazy.apply` or `lazy.compose` is not a function.
+   */
+  constructor({
+    initValues = [],
+    combine,
+    identity,
+    lazy,
+  }: SegmentTreeOptions<T, U>) {
+    if (!Array.isArray(initValues)) {
+      throw new TypeError('Expected an array to initialize the SegmentTree.')
+    }
+    if (typeof combine !== 'function') {
+      throw new TypeError('SegmentTree combine must be a function')
+    }
+    if (
+      lazy !== undefined &&
+      (typeof lazy.apply !== 'function' || typeof lazy.compose !== 'function')
+    ) {
+      throw new TypeError(
+        'SegmentTree lazy.apply and lazy.compose must be functions',
+      )
+    }
+    this.#combine = combine
+    this.#identity = identity
+    this.#lazy = lazy ?? null
+    this.#length = 0
+    this.#leaves = 1
+    this.#tree = []
+    this.#pending = []
+    this.#build(initValues)
+  }
+
+  #build(values: T[]): void {
+    let leaves = 1
+    while (leaves < values.length) leaves *= 2
+    const tree = new Array<T>(2 * leaves).fill(this.#identity)
+    for (let i = 0; i < values.length; i++) tree[leaves + i] = values[i]!
+    for (let i = leaves - 1; i > 0; i--) {
+      tree[i] = this.#combine(tree[2 * i]!, tree[2 * i + 1]!)
+    }
+    this.#length = values.length
+    this.#leaves = leaves
+    this.#tree = tree
+    this.#pending = this.#lazy ? new Array(leaves).fill(NONE) : []
+  }
+
+  #assertIndex(index: number): void {
+    if (!Number.isInteger(index) || index < 0 || index >= this.#length) {
+      throw new RangeError('Invalid index to access')
+    }
+  }
+
+  #assertRange(name: string, start: number, end: number): void {
+    if (
+      !Number.isInteger(start) ||
+      !Number.isInteger(end) ||
+      start < 0 ||
+      start > end ||
+      end > this.#length
+    ) {
+      throw new RangeError(
+        `${name}: invalid range [${start}, ${end}) for length ${this.#length}`,
+      )
+    }
+  }
+
+  // Apply `update` to the whole segment under `node` (of `length` leaves)
+  // and remember it for the children.
+  #applyAt(node: number, update: U, length: number): void {
+    const lazy = this.#lazy!
+    this.#tree[node] = lazy.apply(this.#tree[node]!, update, length)
+    if (node < this.#leaves) {
+      const pending = this.#pending[node]!
+      this.#pending[node] =
+        pending === NONE ? update : lazy.compose(pending, update)
+    }
+  }
+
+  #pushDown(node: number, length: number): void {
+    const pending = this.#pending[node]!
+    if (pending === NONE) return
+    this.#applyAt(2 * node, pending, length / 2)
+    this.#applyAt(2 * node + 1, pending, length / 2)
+    this.#pending[node] = NONE
+  }
+
+  // Push every pending update on the path from the root down to `leaf`.
+  #pushPath(leaf: number): void {
+    for (let shift = Math.log2(this.#leaves); shift > 0; shift--) {
+      this.#pushDown(leaf >> shift, 1 << shift)
+    }
+  }
+
+  #pull(node: number): void {
+    for (node >>= 1; node > 0; node >>= 1) {
+      this.#tree[node] = this.#combine(
+        this.#tree[2 * node]!,
+        this.#tree[2 * node + 1]!,
+      )
+    }
+  }
+
+  #queryLazy(
+    node: number,
+    lo: number,
+    hi: number,
+    start: number,
+    end: number,
+  ): T {
+    if (end <= lo || hi <= start) return this.#identity
+    if (start <= lo && hi <= end) return this.#tree[node]!
+    this.#pushDown(node, hi - lo)
+    const mid = (lo + hi) / 2
+    return this.#combine(
+      this.#queryLazy(2 * node, lo, mid, start, end),
+      this.#queryLazy(2 * node + 1, mid, hi, start, end),
+    )
+  }
+
+  #updateLazy(
+    node: number,
+    lo: number,
+    hi: number,
+    start: number,
+    end: number,
+    update: U,
+  ): void {
+    if (end <= lo || hi <= start) return
+    if (start <= lo && hi <= end) {
+      this.#applyAt(node, update, hi - lo)
+      return
+    }
+    this.#pushDown(node, hi - lo)
+    const mid = (lo + hi) / 2
+    this.#updateLazy(2 * node, lo, mid, start, end, update)
+    this.#updateLazy(2 * node + 1, mid, hi, start, end, update)
+    this.#tree[node] = this.#combine(
+      this.#tree[2 * node]!,
+      this.#tree[2 * node + 1]!,
+    )
+  }
+
+  /**
+   * Iterate the element values in index order.
+   */
+  *[Symbol.iterator](): IterableIterator<T> {
+    for (let i = 0; i < this.#length; i++) yield this.get(i)
+  }
+
+  /**
+   * Return the value at `index`.
+   *
+   * Complexity: O(1), O(log n) in lazy mode
+   * @throws RangeError when `index` is out of bounds.
+   */
+  public get(index: number): T {
+    this.#assertIndex(index)
+    const leaf = this.#leaves + index
+    if (this.#lazy) this.#pushPath(leaf)
+    return this.#tree[leaf]!
+  }
+
+  /**
+   * Replace the value at `index`.
+   *
+   * Complexity: O(log n)
+   * @throws RangeError when `index` is out of bounds.
+   */
+  public set(index: number, value: T): void {
+    this.#assertIndex(index)
+    const leaf = this.#leaves + index
+    if (this.#lazy) this.#pushPath(leaf)
+    this.#tree[leaf] = value
+    this.#pull(leaf)
+  }
+
+  /**
+   * Combine the values in `[start, end)`; the whole tree by default.
+   * Returns `identity` for an empty range.
+   *
+   * Complexity: O(log n)
+   * @throws RangeError when the range is not within the tree.
+   */
+  public query(start = 0, end = this.#length): T {
+    this.#assertRange('query', start, end)
+    if (this.#lazy) {
+      return this.#queryLazy(1, 0, this.#leaves, start, end)
+    }
+    // Bottom-up: fold from both ends inwards, keeping operands in order.
+    let left = this.#identity
+    let right = this.#identity
+    for (
+      let lo = start + this.#leaves, hi = end + this.#leaves;
+      lo < hi;
+      lo >>= 1, hi >>= 1
+    ) {
+      if (lo & 1) left = this.#combine(left, this.#tree[lo++]!)
+      if (hi & 1) right = this.#combine(this.#tree[--hi]!, right)
+    }
+    return this.#combine(left, right)
+  }
+
+  /**
+   * Apply `update` to every value in `[start, end)`.
+   *
+   * Complexity: O(log n)
+   * @throws Error when the tree was created without `lazy`.
+   * @throws RangeError when the range is not within the tree.
+   */
+  public update(start: number, end: number, update: U): void {
+    if (this.#lazy === null) {
+      throw new Error('update: range updates require the lazy option')
+    }
+    this.#assertRange('update', start, end)
+    this.#updateLazy(1, 0, this.#leaves, start, end, update)
+  }
+
+  /**
+   * Replace every value at once, rebuilding the tree in O(n).
+   *
+   * @throws TypeError when `values` is not an array.
+   */
+  public assign(values: T[]): void {
+    if (!Array.isArray(values)) {
+      throw new TypeError('Expected an array to assign to the SegmentTree.')
+    }
+    this.#build(values)
+  }
+
+  public clear(): void {
+    this.#build([])
+  }
+
+  public isEmpty(): boolean {
+    return this.#length === 0
+  }
+
+  public size(): number {
+    return this.#length
+  }
+
+  /**
+   * Return the element values as an array.
+   */
+  public toArray(): T[] {
+    return [...this]
+  }
+
+  /**
+   * Return a tagged, versioned snapshot used by `JSON.stringify`; `values`
+   * holds the element values in index order, with pending range updates
+   * applied.
+   */
+  public toJSON(): SerializedContainer<T> {
+    return serialize('SegmentTree', this.toArray())
+  }
+
+  /**
+   * Rebuild a `SegmentTree` from the output of `toJSON()`, either as the
+   * object itself or as a JSON string. Functions are not part of JSON, so
+   * `combine`, `identity` and `lazy` must be passed again.
+   *
+   * @throws TypeError when `json` is not a serialized `SegmentTree`.
+   * @throws RangeError when the format version is not supported.
+   */
+  public static fromJSON<T, U = never>(
+    json: string | SerializedContainer,
+    {
+      reviveElement,
+      ...options
+    }: FromJSONOptions<T> & Omit<SegmentTreeOptions<T, U>, 'initValues'>,
+  ): SegmentTree<T, U> {
+    const values = deserialize('SegmentTree', json, { reviveElement })
+    return new SegmentTree<T, U>({ ...options, initValues: values })
+  }
+
+  // Getter
+  public get length(): number {
+    return this.#length
+  }
+
+  public get [Symbol.toStringTag](): string {
+    return 'SegmentTree'
+  }
+}
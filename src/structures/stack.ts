@@ -1,4 +1,16 @@
+import { BaseContainer } from '@/core/container'
+import {
+  ChangeObservers,
+  type ChangeEventOf,
+  type ChangeListener,
+  type ChangeType,
+} from '@/core/events'
 import { ListNode } from '@/core/list-node'
+import {
+  deserialize,
+  type FromJSONOptions,
+  type SerializedContainer,
+} from '@/core/serialization'
 
 type Factory<T, A extends unknown[]> = (...args: A) => T
 
@@ -24,12 +36,22 @@ interface StackOptions<T, A extends unknown[]> {
  *
  * Performance:
  * - `push` / `pop` are O(1). Iteration and conversion helpers are O(n).
+ *
+ * Observers attached with `subscribe` / `on` see every change; positions
+ * in events count from the bottom.
+ *
+ * `size`, `isEmpty`, `toArray`, `assign`, `forEach`, `keys`, `values` and
+ * `entries` are inherited from `BaseContainer`.
  */
-export class Stack<T, A extends unknown[] = unknown[]> implements Iterable<T> {
+export class Stack<
+  T,
+  A extends unknown[] = unknown[],
+> extends BaseContainer<T> {
   #head: ListNode<T> | null
   #tail: ListNode<T> | null
   #length: number
   #factory?: Factory<T, A>
+  #observers: ChangeObservers<T, this> | null = null
   /**
    * Create a new `Stack`.
    *
@@ -42,6 +64,7 @@ export class Stack<T, A extends unknown[] = unknown[]> implements Iterable<T> {
    * otherwise O(1).
    */
   constructor({ initValues, factory }: StackOptions<T, A> = {}) {
+    super()
     this.#head = this.#tail = null
     this.#length = 0
     this.#factory = factory
@@ -84,6 +107,50 @@ export class Stack<T, A extends unknown[] = unknown[]> implements Iterable<T> {
     return iterator.call(this)
   }
 
+  protected append(value: T): void {
+    this.push(value)
+  }
+
+  /**
+   * Call `listener(event, stack)` after every change.
+   *
+   * Complexity: O(1). Unobserved stacks pay nothing for events.
+   * @returns A function that detaches the listener.
+   * @throws TypeError when `listener` is not a function.
+   */
+  public subscribe(listener: ChangeListener<T, this>): () => void {
+    this.#observers ??= new ChangeObservers()
+    return this.#observers.subscribe(listener)
+  }
+
+  /**
+   * Call `listener(event, stack)` after changes of one `type`.
+   *
+   * @returns A function that detaches the listener.
+   * @throws TypeError when `type` is unknown or `listener` is not a
+   *   function.
+   */
+  public on<K extends ChangeType>(
+    type: K,
+    listener: ChangeListener<T, this, ChangeEventOf<T, K>>,
+  ): () => void {
+    this.#observers ??= new ChangeObservers()
+    return this.#observers.on(type, listener)
+  }
+
+  // Report that the whole content was replaced (used by `swap`).
+  #emitReplaced(previous: T[]): void {
+    if (previous.length > 0) {
+      this.#observers!.emit({ type: 'clear', index: 0, values: previous }, this)
+    }
+    if (this.#length > 0) {
+      this.#observers!.emit(
+        { type: 'insert', index: 0, values: this.toArray() },
+        this,
+      )
+    }
+  }
+
   /**
    * Push a value onto the top of the stack.
    *
@@ -95,14 +162,19 @@ export class Stack<T, A extends unknown[] = unknown[]> implements Iterable<T> {
 
     if (this.isEmpty()) {
       this.#head = this.#tail = newNode
-      this.#length++
-      return
+    } else {
+      newNode.prev = this.#tail
+      this.#tail!.next = newNode
+      this.#tail = newNode
     }
-
-    newNode.prev = this.#tail
-    this.#tail!.next = newNode
-    this.#tail = newNode
     this.#length++
+
+    if (this.#observers?.active) {
+      this.#observers.emit(
+        { type: 'insert', index: this.#length - 1, values: [value] },
+        this,
+      )
+    }
   }
 
   /**
@@ -120,20 +192,24 @@ export class Stack<T, A extends unknown[] = unknown[]> implements Iterable<T> {
     const peek = this.#tail!
     const peekVal = peek.val
 
-    // Single node case
     if (this.#length === 1) {
+      // Single node case
       this.#head = this.#tail = null
-      peek.cleanup()
-      this.#length--
-      return peekVal
+    } else {
+      // Two or more case
+      const prevNode = this.#tail!.prev!
+      prevNode.next = null
+      this.#tail = prevNode
     }
-
-    // Two or more case
-    const prevNode = this.#tail!.prev!
-    prevNode.next = null
-    this.#tail = prevNode
     peek.cleanup()
     this.#length--
+
+    if (this.#observers?.active) {
+      this.#observers.emit(
+        { type: 'remove', index: this.#length, values: [peekVal] },
+        this,
+      )
+    }
     return peekVal
   }
 
@@ -151,19 +227,13 @@ export class Stack<T, A extends unknown[] = unknown[]> implements Iterable<T> {
     this.push(this.#factory(...args))
   }
 
-  /**
-   * Check whether the stack contains no elements.
-   * @returns `true` when empty.
-   */
-  public isEmpty(): boolean {
-    return this.#length === 0
-  }
-
   /**
    * Remove all elements and free node resources.
    * Complexity: O(n).
    */
   public clear(): void {
+    const removed =
+      this.#observers?.active && this.#length > 0 ? this.toArray() : null
     let current = this.#head
     while (current !== null) {
       const next = current.next
@@ -172,94 +242,9 @@ export class Stack<T, A extends unknown[] = unknown[]> implements Iterable<T> {
     }
     this.#head = this.#tail = null
     this.#length = 0
-  }
-
-  /**
-   * Return a shallow array copy of the stack values in head->tail order.
-   * Complexity: O(n).
-   */
-  public toArray(): T[] {
-    return [...this]
-  }
-
-  // Overload signatures
-  public assign(count: number, value: T): void
-  public assign(values: T[], start?: number, end?: number): void
-
-  /**
-   * Assign overload implementation.
-   * - `assign(values: T[], start?, end?)` copies a slice of an array into
-   *   the stack (clears first).
-   * - `assign(count: number, value: T)` fills the stack with `count`
-   *   repeated `value` elements.
-   * Complexity: O(n).
-   */
-  // Implementation
-  public assign(arg1: number | T[], arg2?: T | number, arg3?: number): void {
-    // Case: assign(values: T[], start?: number, end?: number)
-    if (Array.isArray(arg1)) {
-      const values = arg1
-      const start = typeof arg2 === 'number' ? arg2 : 0
-      const end = typeof arg3 === 'number' ? arg3 : values.length
-
-      if (start < 0 || end > values.length || start > end) {
-        throw new RangeError('Invalid array slice range')
-      }
-
-      this.clear()
-
-      for (let i = start; i < end; i++) {
-        this.push(values[i]!)
-      }
-      return
-    }
-
-    // Case: assign(count: number, value: T)
-    if (typeof arg1 === 'number' && arguments.length === 2) {
-      const count = arg1
-      const value = arg2 as T
-
-      if (value === undefined) {
-        throw new TypeError(
-          'Value must be provided when assigning repeated elements.',
-        )
-      }
 
-      if (count < 0) {
-        throw new RangeError('Count must be a non-negative integer')
-      }
-
-      this.clear()
-
-      for (let i = 0; i < count; i++) {
-        this.push(value)
-      }
-      return
-    }
-
-    // Invalid usage
-    throw new TypeError('Invalid arguments passed to assign()')
-  }
-
-  /**
-   * Call `callback(value, index, stack)` for each element from head -> tail.
-   * If the callback returns `false`, iteration stops early.
-   * @throws TypeError when `callback` is not a function.
-   */
-  public forEach(
-    callback: (value: T, index: number, stack: Stack<T, A>) => void | false,
-    thisArg?: unknown,
-  ): void {
-    if (typeof callback !== 'function') {
-      throw new TypeError('Callback must be a function')
-    }
-    let current = this.#head
-    let index = 0
-    while (current !== null) {
-      const res = callback.call(thisArg, current.val, index, this)
-      if (res === false) break
-      current = current.next
-      index++
+    if (removed !== null) {
+      this.#observers!.emit({ type: 'clear', index: 0, values: removed }, this)
     }
   }
 
@@ -301,14 +286,6 @@ export class Stack<T, A extends unknown[] = unknown[]> implements Iterable<T> {
     return copy
   }
 
-  /**
-   * Return the number of elements in the stack (STL-style).
-   * @returns Non-negative integer count.
-   */
-  public size(): number {
-    return this.#length
-  }
-
   // Getter and Setter
   /**
    * `length` getter (JS-style alias for `size()`).
@@ -317,6 +294,10 @@ export class Stack<T, A extends unknown[] = unknown[]> implements Iterable<T> {
     return this.#length
   }
 
+  public get [Symbol.toStringTag](): string {
+    return 'Stack'
+  }
+
   /**
    * Non-throwing accessor for the top value. Returns `undefined` when
    * the stack is empty.
@@ -365,6 +346,8 @@ export class Stack<T, A extends unknown[] = unknown[]> implements Iterable<T> {
   /**
    * Swap internal state of two stacks in O(1) time. Both stacks must have
    * the same `factory` function (or both undefined) to be swappable.
+   * Observers of each stack get a `clear` of the old contents followed by
+   * an `insert` of the new ones; listeners stay with their stack.
    * @throws TypeError when inputs are not `Stack` instances or factories differ.
    */
   public static swap<U, V extends unknown[] = unknown[]>(
@@ -379,6 +362,9 @@ export class Stack<T, A extends unknown[] = unknown[]> implements Iterable<T> {
       throw new TypeError('Both stacks must have the same factory function')
     }
 
+    const before1 = stack1.#observers?.active ? stack1.toArray() : null
+    const before2 = stack2.#observers?.active ? stack2.toArray() : null
+
     const tempHead = stack1.#head
     const tempTail = stack1.#tail
     const tempLength = stack1.#length
@@ -390,5 +376,30 @@ export class Stack<T, A extends unknown[] = unknown[]> implements Iterable<T> {
     stack2.#head = tempHead
     stack2.#tail = tempTail
     stack2.#length = tempLength
+
+    if (before1 !== null) stack1.#emitReplaced(before1)
+    if (before2 !== null) stack2.#emitReplaced(before2)
+  }
+
+  /**
+   * Rebuild a `Stack` from the output of `toJSON()`, either as the
+   * object itself or as a JSON string.
+   *
+   * @param options.reviveElement - Optional function restoring each
+   *   element from its parsed JSON form.
+   * @param options.factory - Optional factory for `emplace`; functions
+   *   are not part of the JSON and must be passed again.
+   * @throws TypeError when `json` is not a serialized `Stack`.
+   * @throws RangeError when the format version is not supported.
+   */
+  public static fromJSON<U, V extends unknown[] = unknown[]>(
+    json: string | SerializedContainer,
+    {
+      reviveElement,
+      ...options
+    }: FromJSONOptions<U> & Omit<StackOptions<U, V>, 'initValues'> = {},
+  ): Stack<U, V> {
+    const values = deserialize('Stack', json, { reviveElement })
+    return new Stack<U, V>({ ...options, initValues: values })
   }
 }
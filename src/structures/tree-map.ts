@@ -0,0 +1,286 @@
+import { RedBlackTree, type RBNode } from '@/core/red-black-tree'
+import {
+  deserialize,
+  serialize,
+  type FromJSONOptions,
+  type SerializedContainer,
+} from '@/core/serialization'
+
+type CompareFn<T> = (a: T, b: T) => number
+
+interface TreeMapOptions<K, V> {
+  initValues?: [K, V][]
+  compareFn?: CompareFn<K>
+}
+
+/**
+ * TreeMap — an ordered key/value map backed by a red-black tree
+ * (`std::map` in C++).
+ *
+ * Keys are kept sorted by `compareFn(a, b)`, which returns a negative
+ * number when `a` sorts before `b`, a positive number when after, and `0`
+ * when the keys are equal. The default comparator uses `<` / `>`, the same
+ * as `LinkedList.merge`.
+ *
+ * The API mirrors the native `Map` (`get`, `set`, `has`, `delete`,
+ * `keys`, `values`, `entries`, `forEach`) and adds ordered queries:
+ * `first`/`last`, `lowerBound`/`upperBound`, `floor`/`ceiling`, `range`
+ * and the reverse iterator `rbegin`.
+ *
+ * Type parameters:
+ * - K: key type
+ * - V: value type
+ *
+ * Performance:
+ * - `get`, `set`, `has`, `delete` and the bound queries are O(log n).
+ * - Iteration is O(n); `range` is O(log n + m) for m yielded entries.
+ */
+export class TreeMap<K, V> implements Iterable<[K, V]> {
+  #tree: RedBlackTree<K, V>
+
+  /**
+   * Create a new `TreeMap`.
+   *
+   * @param options.initValues - Optional array of `[key, value]` pairs.
+   *   Later pairs overwrite earlier ones with an equal key.
+   * @param options.compareFn - Optional key comparator.
+   * @throws TypeError when `initValues` is not an array or `compareFn` is
+   *   not a function.
+   */
+  constructor({
+    initValues,
+    compareFn = (a, b) => (a < b ? -1 : a > b ? 1 : 0),
+  }: TreeMapOptions<K, V> = {}) {
+    if (typeof compareFn !== 'function') {
+      throw new TypeError('compareFn must be a function')
+    }
+    this.#tree = new RedBlackTree<K, V>(compareFn)
+
+    if (initValues !== undefined && !Array.isArray(initValues)) {
+      throw new TypeError('Expected an array to initialize the TreeMap.')
+    }
+    if (initValues !== undefined) {
+      for (const [key, value] of initValues) {
+        this.set(key, value)
+      }
+    }
+  }
+
+  /**
+   * Iterate `[key, value]` pairs in ascending key order.
+   */
+  *[Symbol.iterator](): IterableIterator<[K, V]> {
+    for (const node of this.#tree.ascend()) {
+      yield [node.key, node.value]
+    }
+  }
+
+  /**
+   * Iterate `[key, value]` pairs in descending key order.
+   */
+  *rbegin(): IterableIterator<[K, V]> {
+    for (const node of this.#tree.descend()) {
+      yield [node.key, node.value]
+    }
+  }
+
+  begin(): IterableIterator<[K, V]> {
+    return this[Symbol.iterator]()
+  }
+
+  /**
+   * Insert or overwrite the value stored under `key`.
+   *
+   * Complexity: O(log n)
+   * @returns The map itself, for chaining.
+   */
+  public set(key: K, value: V): this {
+    const { node, inserted } = this.#tree.insert(key, value)
+    if (!inserted) node.value = value
+    return this
+  }
+
+  /**
+   * Return the value stored under `key`, or `undefined` when absent.
+   *
+   * Complexity: O(log n)
+   */
+  public get(key: K): V | undefined {
+    return this.#tree.find(key)?.value
+  }
+
+  /**
+   * Check whether `key` is present.
+   *
+   * Complexity: O(log n)
+   */
+  public has(key: K): boolean {
+    return this.#tree.find(key) !== null
+  }
+
+  /**
+   * Remove `key` and its value.
+   *
+   * Complexity: O(log n)
+   * @returns `true` when an entry was removed.
+   */
+  public delete(key: K): boolean {
+    const node = this.#tree.find(key)
+    if (node === null) return false
+    this.#tree.remove(node)
+    return true
+  }
+
+  public clear(): void {
+    this.#tree.clear()
+  }
+
+  public isEmpty(): boolean {
+    return this.#tree.size === 0
+  }
+
+  public size(): number {
+    return this.#tree.size
+  }
+
+  // Ordered queries
+  /** Entry with the smallest key, or `undefined` when empty. */
+  public first(): [K, V] | undefined {
+    return entry(this.#tree.first())
+  }
+
+  /** Entry with the largest key, or `undefined` when empty. */
+  public last(): [K, V] | undefined {
+    return entry(this.#tree.last())
+  }
+
+  /** First entry whose key is `>= key` (STL `lower_bound`). */
+  public lowerBound(key: K): [K, V] | undefined {
+    return entry(this.#tree.lowerBound(key))
+  }
+
+  /** First entry whose key is `> key` (STL `upper_bound`). */
+  public upperBound(key: K): [K, V] | undefined {
+    return entry(this.#tree.upperBound(key))
+  }
+
+  /** Entry with the largest key `<= key`. */
+  public floor(key: K): [K, V] | undefined {
+    return entry(this.#tree.floor(key))
+  }
+
+  /** Entry with the smallest key `>= key` (alias of `lowerBound`). */
+  public ceiling(key: K): [K, V] | undefined {
+    return entry(this.#tree.lowerBound(key))
+  }
+
+  /**
+   * Iterate entries whose keys lie in the half-open range `[from, to)`,
+   * in ascending order. Pass `{ reverse: true }` to walk the same range
+   * from high to low.
+   *
+   * Complexity: O(log n + m) for m yielded entries.
+   */
+  public *range(
+    from: K,
+    to: K,
+    { reverse = false }: { reverse?: boolean } = {},
+  ): IterableIterator<[K, V]> {
+    const compareFn = this.#tree.compareFn
+    if (compareFn(from, to) >= 0) return
+
+    if (reverse) {
+      for (const node of this.#tree.descend(this.#tree.lower(to))) {
+        if (compareFn(node.key, from) < 0) return
+        yield [node.key, node.value]
+      }
+      return
+    }
+
+    for (const node of this.#tree.ascend(this.#tree.lowerBound(from))) {
+      if (compareFn(node.key, to) >= 0) return
+      yield [node.key, node.value]
+    }
+  }
+
+  // Map-style iterators
+  public *keys(): IterableIterator<K> {
+    for (const node of this.#tree.ascend()) yield node.key
+  }
+
+  public *values(): IterableIterator<V> {
+    for (const node of this.#tree.ascend()) yield node.value
+  }
+
+  public entries(): IterableIterator<[K, V]> {
+    return this[Symbol.iterator]()
+  }
+
+  /**
+   * Call `callback(value, key, map)` for each entry in ascending key
+   * order. If the callback returns `false`, iteration stops early.
+   *
+   * @throws TypeError when `callback` is not a function.
+   */
+  public forEach(
+    callback: (value: V, key: K, map: this) => void | false,
+    thisArg?: unknown,
+  ): void {
+    if (typeof callback !== 'function') {
+      throw new TypeError('Callback must be a function')
+    }
+    for (const node of this.#tree.ascend()) {
+      if (callback.call(thisArg, node.value, node.key, this) === false) break
+    }
+  }
+
+  /**
+   * Return the entries as an array of `[key, value]` pairs in key order.
+   */
+  public toArray(): [K, V][] {
+    return [...this]
+  }
+
+  /**
+   * Return a tagged, versioned snapshot used by `JSON.stringify`; `values`
+   * holds the `[key, value]` entries in iteration order.
+   */
+  public toJSON(): SerializedContainer<[K, V]> {
+    return serialize('TreeMap', this.toArray())
+  }
+
+  /**
+   * Rebuild a `TreeMap` from the output of `toJSON()`, either as the
+   * object itself or as a JSON string.
+   *
+   * @param options.reviveElement - Optional function restoring each
+   *   `[key, value]` entry from its parsed JSON form.
+   * @param options.compareFn - Key comparator; functions are not part of
+   *   the JSON and must be passed again.
+   * @throws TypeError when `json` is not a serialized `TreeMap`.
+   * @throws RangeError when the format version is not supported.
+   */
+  public static fromJSON<K, V>(
+    json: string | SerializedContainer,
+    {
+      reviveElement,
+      ...options
+    }: FromJSONOptions<[K, V]> & Omit<TreeMapOptions<K, V>, 'initValues'> = {},
+  ): TreeMap<K, V> {
+    const values = deserialize('TreeMap', json, { reviveElement })
+    return new TreeMap<K, V>({ ...options, initValues: values })
+  }
+
+  // Getter
+  public get length(): number {
+    return this.#tree.size
+  }
+
+  public get [Symbol.toStringTag](): string {
+    return 'TreeMap'
+  }
+}
+
+function entry<K, V>(node: RBNode<K, V> | null): [K, V] | undefined {
+  return node === null ? undefined : [node.key, node.value]
+}
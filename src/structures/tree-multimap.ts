@@ -0,0 +1,315 @@
+import { defaultEquals } from '@/core/hash-table'
+import type { MultiMap } from '@/core/multi-container'
+import { RedBlackTree, type RBNode } from '@/core/red-black-tree'
+import {
+  deserialize,
+  serialize,
+  type FromJSONOptions,
+  type SerializedContainer,
+} from '@/core/serialization'
+
+type CompareFn<T> = (a: T, b: T) => number
+
+interface TreeMultiMapOptions<K, V> {
+  initValues?: [K, V][]
+  compareFn?: CompareFn<K>
+}
+
+/**
+ * TreeMultiMap — an ordered one-to-many map backed by a red-black tree
+ * (`std::multimap` in C++).
+ *
+ * Every `add(key, value)` stores its own pair; pairs are ordered by key
+ * with `compareFn` (the same default as `TreeMap`) and pairs with equal
+ * keys keep their insertion order. Values are compared with
+ * SameValueZero by `removeValue`.
+ *
+ * Type parameters:
+ * - K: key type
+ * - V: value type
+ *
+ * Performance:
+ * - `add` and `has` are O(log n) for n pairs.
+ * - `get`, `getAll`, `count`, `equalRange`, `removeValue` and `removeAll`
+ *   are O(log n + k) for k values under the key.
+ */
+export class TreeMultiMap<K, V> implements MultiMap<K, V> {
+  #tree: RedBlackTree<K, V>
+  #uniqueSize: number
+
+  /**
+   * Create a new `TreeMultiMap`.
+   *
+   * @param options.initValues - Optional array of `[key, value]` pairs;
+   *   every pair is kept.
+   * @param options.compareFn - Optional key comparator.
+   * @throws TypeError when `initValues` is not an array or `compareFn` is
+   *   not a function.
+   */
+  constructor({
+    initValues,
+    compareFn = (a, b) => (a < b ? -1 : a > b ? 1 : 0),
+  }: TreeMultiMapOptions<K, V> = {}) {
+    if (typeof compareFn !== 'function') {
+      throw new TypeError('compareFn must be a function')
+    }
+    this.#tree = new RedBlackTree<K, V>(compareFn)
+    this.#uniqueSize = 0
+
+    if (initValues !== undefined && !Array.isArray(initValues)) {
+      throw new TypeError('Expected an array to initialize the TreeMultiMap.')
+    }
+    if (initValues !== undefined) {
+      for (const [key, value] of initValues) {
+        this.add(key, value)
+      }
+    }
+  }
+
+  // Nodes holding `key`, in insertion order. Read ahead so the caller may
+  // remove the node just yielded.
+  *#nodesOf(key: K): IterableIterator<RBNode<K, V>> {
+    const compareFn = this.#tree.compareFn
+    for (const node of this.#tree.ascend(this.#tree.lowerBound(key))) {
+      if (compareFn(node.key, key) !== 0) return
+      yield node
+    }
+  }
+
+  /**
+   * Iterate `[key, value]` pairs in ascending key order.
+   */
+  *[Symbol.iterator](): IterableIterator<[K, V]> {
+    for (const node of this.#tree.ascend()) {
+      yield [node.key, node.value]
+    }
+  }
+
+  /**
+   * Iterate `[key, value]` pairs in descending key order.
+   */
+  *rbegin(): IterableIterator<[K, V]> {
+    for (const node of this.#tree.descend()) {
+      yield [node.key, node.value]
+    }
+  }
+
+  begin(): IterableIterator<[K, V]> {
+    return this[Symbol.iterator]()
+  }
+
+  /**
+   * Store one more `key` -> `value` pair, after any pairs already under
+   * `key`.
+   *
+   * Complexity: O(log n)
+   * @returns The map itself, for chaining.
+   */
+  public add(key: K, value: V): this {
+    if (this.#tree.find(key) === null) this.#uniqueSize++
+    this.#tree.insert(key, value, false)
+    return this
+  }
+
+  /**
+   * Return the first value stored under `key`, or `undefined` when absent.
+   *
+   * Complexity: O(log n)
+   */
+  public get(key: K): V | undefined {
+    for (const node of this.#nodesOf(key)) return node.value
+    return undefined
+  }
+
+  /**
+   * Return every value stored under `key`, in insertion order.
+   *
+   * Complexity: O(log n + k)
+   */
+  public getAll(key: K): V[] {
+    const values: V[] = []
+    for (const node of this.#nodesOf(key)) values.push(node.value)
+    return values
+  }
+
+  /**
+   * Iterate the `[key, value]` pairs stored under `key` (STL
+   * `equal_range`).
+   *
+   * Complexity: O(log n + k)
+   */
+  public *equalRange(key: K): IterableIterator<[K, V]> {
+    for (const node of this.#nodesOf(key)) yield [node.key, node.value]
+  }
+
+  /**
+   * Check whether `key` holds at least one value.
+   *
+   * Complexity: O(log n)
+   */
+  public has(key: K): boolean {
+    return this.#tree.find(key) !== null
+  }
+
+  /**
+   * Number of values stored under `key`.
+   *
+   * Complexity: O(log n + k)
+   */
+  public count(key: K): number {
+    let count = 0
+    for (const _ of this.#nodesOf(key)) count++
+    return count
+  }
+
+  /**
+   * Remove the first pair `key` -> `value`; values are compared with
+   * SameValueZero.
+   *
+   * Complexity: O(log n + k)
+   * @returns `true` when a pair was removed.
+   */
+  public removeValue(key: K, value: V): boolean {
+    for (const node of this.#nodesOf(key)) {
+      if (defaultEquals(node.value, value)) {
+        this.#tree.remove(node)
+        if (this.#tree.find(key) === null) this.#uniqueSize--
+        return true
+      }
+    }
+    return false
+  }
+
+  /**
+   * Remove every value stored under `key`.
+   *
+   * Complexity: O(log n + k)
+   * @returns The number of values removed.
+   */
+  public removeAll(key: K): number {
+    const nodes = [...this.#nodesOf(key)]
+    for (const node of nodes) this.#tree.remove(node)
+    if (nodes.length > 0) this.#uniqueSize--
+    return nodes.length
+  }
+
+  public clear(): void {
+    this.#tree.clear()
+    this.#uniqueSize = 0
+  }
+
+  public isEmpty(): boolean {
+    return this.#tree.size === 0
+  }
+
+  /** Number of `[key, value]` pairs. */
+  public size(): number {
+    return this.#tree.size
+  }
+
+  /** Number of distinct keys. */
+  public uniqueSize(): number {
+    return this.#uniqueSize
+  }
+
+  // Ordered queries
+  /** First pair of the smallest key, or `undefined` when empty. */
+  public first(): [K, V] | undefined {
+    const node = this.#tree.first()
+    return node === null ? undefined : [node.key, node.value]
+  }
+
+  /** Last pair of the largest key, or `undefined` when empty. */
+  public last(): [K, V] | undefined {
+    const node = this.#tree.last()
+    return node === null ? undefined : [node.key, node.value]
+  }
+
+  // Map-style iterators
+  /** Iterate distinct keys in ascending order. */
+  public *keys(): IterableIterator<K> {
+    const compareFn = this.#tree.compareFn
+    let previous: RBNode<K, V> | null = null
+    for (const node of this.#tree.ascend()) {
+      if (previous === null || compareFn(previous.key, node.key) !== 0) {
+        yield node.key
+      }
+      previous = node
+    }
+  }
+
+  /** Iterate every value, ordered by key. */
+  public *values(): IterableIterator<V> {
+    for (const node of this.#tree.ascend()) yield node.value
+  }
+
+  public entries(): IterableIterator<[K, V]> {
+    return this[Symbol.iterator]()
+  }
+
+  /**
+   * Call `callback(value, key, map)` for each pair in ascending key
+   * order. If the callback returns `false`, iteration stops early.
+   *
+   * @throws TypeError when `callback` is not a function.
+   */
+  public forEach(
+    callback: (value: V, key: K, map: this) => void | false,
+    thisArg?: unknown,
+  ): void {
+    if (typeof callback !== 'function') {
+      throw new TypeError('Callback must be a function')
+    }
+    for (const node of this.#tree.ascend()) {
+      if (callback.call(thisArg, node.value, node.key, this) === false) break
+    }
+  }
+
+  /**
+   * Return the pairs as an array of `[key, value]` entries in key order.
+   */
+  public toArray(): [K, V][] {
+    return [...this]
+  }
+
+  /**
+   * Return a tagged, versioned snapshot used by `JSON.stringify`; `values`
+   * holds every `[key, value]` pair in iteration order.
+   */
+  public toJSON(): SerializedContainer<[K, V]> {
+    return serialize('TreeMultiMap', this.toArray())
+  }
+
+  /**
+   * Rebuild a `TreeMultiMap` from the output of `toJSON()`, either as the
+   * object itself or as a JSON string.
+   *
+   * @param options.reviveElement - Optional function restoring each
+   *   `[key, value]` entry from its parsed JSON form.
+   * @param options.compareFn - Key comparator; functions are not part of
+   *   the JSON and must be passed again.
+   * @throws TypeError when `json` is not a serialized `TreeMultiMap`.
+   * @throws RangeError when the format version is not supported.
+   */
+  public static fromJSON<K, V>(
+    json: string | SerializedContainer,
+    {
+      reviveElement,
+      ...options
+    }: FromJSONOptions<[K, V]> &
+      Omit<TreeMultiMapOptions<K, V>, 'initValues'> = {},
+  ): TreeMultiMap<K, V> {
+    const values = deserialize('TreeMultiMap', json, { reviveElement })
+    return new TreeMultiMap<K, V>({ ...options, initValues: values })
+  }
+
+  // Getter
+  /** Number of `[key, value]` pairs. */
+  public get length(): number {
+    return this.#tree.size
+  }
+
+  public get [Symbol.toStringTag](): string {
+    return 'TreeMultiMap'
+  }
+}
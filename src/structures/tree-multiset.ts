@@ -0,0 +1,234 @@
+import { BaseContainer } from '@/core/container'
+import { assertCount, mostCommon, type MultiSet } from '@/core/multi-container'
+import { RedBlackTree } from '@/core/red-black-tree'
+import {
+  deserialize,
+  type FromJSONOptions,
+  type SerializedContainer,
+} from '@/core/serialization'
+
+type CompareFn<T> = (a: T, b: T) => number
+
+interface TreeMultiSetOptions<T> {
+  initValues?: T[]
+  compareFn?: CompareFn<T>
+}
+
+/**
+ * TreeMultiSet — an ordered multiset backed by a red-black tree
+ * (`std::multiset` in C++, `Counter` in Python).
+ *
+ * Each distinct value is stored once with its count, so `add(value, n)`,
+ * `count` and `removeAll` are O(log n) regardless of how many copies are
+ * held. Values are ordered by `compareFn` (the same default as
+ * `TreeSet`); iteration yields every occurrence in ascending order.
+ *
+ * Type parameters:
+ * - T: value type stored in the multiset
+ *
+ * Performance:
+ * - `add`, `count`, `has`, `removeOne` and `removeAll` are O(log n) for
+ *   n distinct values.
+ * - `mostCommon` is O(n log n).
+ * - `size`, `isEmpty`, `toArray`, `assign`, `forEach`, `keys`, `values`
+ *   and `entries` are inherited from `BaseContainer` and count every
+ *   occurrence.
+ */
+export class TreeMultiSet<T> extends BaseContainer<T> implements MultiSet<T> {
+  #tree: RedBlackTree<T, number>
+  #length: number
+
+  /**
+   * Create a new `TreeMultiSet`.
+   *
+   * @param options.initValues - Optional array of initial values; repeats
+   *   are counted.
+   * @param options.compareFn - Optional comparator.
+   * @throws TypeError when `initValues` is not an array or `compareFn` is
+   *   not a function.
+   */
+  constructor({
+    initValues,
+    compareFn = (a, b) => (a < b ? -1 : a > b ? 1 : 0),
+  }: TreeMultiSetOptions<T> = {}) {
+    super()
+    if (typeof compareFn !== 'function') {
+      throw new TypeError('compareFn must be a function')
+    }
+    this.#tree = new RedBlackTree<T, number>(compareFn)
+    this.#length = 0
+
+    if (initValues !== undefined && !Array.isArray(initValues)) {
+      throw new TypeError('Expected an array to initialize the TreeMultiSet.')
+    }
+    if (initValues !== undefined) {
+      for (const value of initValues) {
+        this.add(value)
+      }
+    }
+  }
+
+  /**
+   * Iterate every occurrence in ascending order.
+   */
+  *[Symbol.iterator](): IterableIterator<T> {
+    for (const node of this.#tree.ascend()) {
+      for (let i = 0; i < node.value; i++) yield node.key
+    }
+  }
+
+  /**
+   * Iterate every occurrence in descending order.
+   */
+  *rbegin(): IterableIterator<T> {
+    for (const node of this.#tree.descend()) {
+      for (let i = 0; i < node.value; i++) yield node.key
+    }
+  }
+
+  begin(): IterableIterator<T> {
+    return this[Symbol.iterator]()
+  }
+
+  protected append(value: T): void {
+    this.add(value)
+  }
+
+  /**
+   * Add `n` occurrences of `value`. The first value added is the one
+   * stored; later equal values only raise its count.
+   *
+   * Complexity: O(log n)
+   * @returns The multiset itself, for chaining.
+   * @throws RangeError when `n` is not a non-negative integer.
+   */
+  public add(value: T, n = 1): this {
+    assertCount(n)
+    if (n === 0) return this
+    const { node, inserted } = this.#tree.insert(value, n)
+    if (!inserted) node.value += n
+    this.#length += n
+    return this
+  }
+
+  /**
+   * Number of occurrences of `value` (0 when absent).
+   *
+   * Complexity: O(log n)
+   */
+  public count(value: T): number {
+    return this.#tree.find(value)?.value ?? 0
+  }
+
+  /**
+   * Check whether at least one occurrence of `value` is present.
+   *
+   * Complexity: O(log n)
+   */
+  public has(value: T): boolean {
+    return this.#tree.find(value) !== null
+  }
+
+  /**
+   * Remove a single occurrence of `value`.
+   *
+   * Complexity: O(log n)
+   * @returns `true` when an occurrence was removed.
+   */
+  public removeOne(value: T): boolean {
+    const node = this.#tree.find(value)
+    if (node === null) return false
+    if (node.value === 1) this.#tree.remove(node)
+    else node.value--
+    this.#length--
+    return true
+  }
+
+  /**
+   * Remove every occurrence of `value`.
+   *
+   * Complexity: O(log n)
+   * @returns The number of occurrences removed.
+   */
+  public removeAll(value: T): number {
+    const node = this.#tree.find(value)
+    if (node === null) return 0
+    this.#tree.remove(node)
+    this.#length -= node.value
+    return node.value
+  }
+
+  /**
+   * Return the `k` most frequent values with their counts, most frequent
+   * first. Values with equal counts stay in ascending order. Omit `k` to
+   * get every distinct value.
+   *
+   * Complexity: O(n log n)
+   * @throws RangeError when `k` is not a non-negative integer.
+   */
+  public mostCommon(k?: number): [T, number][] {
+    return mostCommon(this.counts(), k)
+  }
+
+  /**
+   * Iterate distinct values with their counts, in ascending order.
+   */
+  public *counts(): IterableIterator<[T, number]> {
+    for (const node of this.#tree.ascend()) {
+      yield [node.key, node.value]
+    }
+  }
+
+  /** Number of distinct values. */
+  public uniqueSize(): number {
+    return this.#tree.size
+  }
+
+  public clear(): void {
+    this.#tree.clear()
+    this.#length = 0
+  }
+
+  // Ordered queries
+  /** Smallest value, or `undefined` when empty. */
+  public first(): T | undefined {
+    return this.#tree.first()?.key
+  }
+
+  /** Largest value, or `undefined` when empty. */
+  public last(): T | undefined {
+    return this.#tree.last()?.key
+  }
+
+  // Getter
+  /** Total number of occurrences. */
+  public get length(): number {
+    return this.#length
+  }
+
+  /**
+   * Rebuild a `TreeMultiSet` from the output of `toJSON()`, either as the
+   * object itself or as a JSON string.
+   *
+   * @param options.reviveElement - Optional function restoring each
+   *   element from its parsed JSON form.
+   * @param options.compareFn - Comparator; functions are not part of the
+   *   JSON and must be passed again.
+   * @throws TypeError when `json` is not a serialized `TreeMultiSet`.
+   * @throws RangeError when the format version is not supported.
+   */
+  public static fromJSON<U>(
+    json: string | SerializedContainer,
+    {
+      reviveElement,
+      ...options
+    }: FromJSONOptions<U> & Omit<TreeMultiSetOptions<U>, 'initValues'> = {},
+  ): TreeMultiSet<U> {
+    const values = deserialize('TreeMultiSet', json, { reviveElement })
+    return new TreeMultiSet<U>({ ...options, initValues: values })
+  }
+
+  public get [Symbol.toStringTag](): string {
+    return 'TreeMultiSet'
+  }
+}
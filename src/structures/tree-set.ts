@@ -0,0 +1,219 @@
+import { BaseContainer } from '@/core/container'
+import { RedBlackTree } from '@/core/red-black-tree'
+import {
+  deserialize,
+  type FromJSONOptions,
+  type SerializedContainer,
+} from '@/core/serialization'
+
+type CompareFn<T> = (a: T, b: T) => number
+
+interface TreeSetOptions<T> {
+  initValues?: T[]
+  compareFn?: CompareFn<T>
+}
+
+/**
+ * TreeSet — an ordered set of unique values backed by a red-black tree
+ * (`std::set` in C++).
+ *
+ * Values are kept sorted by `compareFn(a, b)` (negative when `a` sorts
+ * first, `0` when equal). Two values comparing equal are the same element,
+ * so `add` ignores a value already present. The default comparator uses
+ * `<` / `>`, the same as `LinkedList.merge`.
+ *
+ * Type parameters:
+ * - T: value type stored in the set
+ *
+ * Performance:
+ * - `add`, `has`, `delete` and the bound queries are O(log n).
+ * - Iteration is O(n); `range` is O(log n + m) for m yielded values.
+ * - `size`, `isEmpty`, `toArray`, `assign`, `forEach`, `keys`, `values`
+ *   and `entries` are inherited from `BaseContainer`.
+ */
+export class TreeSet<T> extends BaseContainer<T> {
+  #tree: RedBlackTree<T, null>
+
+  /**
+   * Create a new `TreeSet`.
+   *
+   * @param options.initValues - Optional array of initial values;
+   *   duplicates are ignored.
+   * @param options.compareFn - Optional comparator.
+   * @throws TypeError when `initValues` is not an array or `compareFn` is
+   *   not a function.
+   */
+  constructor({
+    initValues,
+    compareFn = (a, b) => (a < b ? -1 : a > b ? 1 : 0),
+  }: TreeSetOptions<T> = {}) {
+    super()
+    if (typeof compareFn !== 'function') {
+      throw new TypeError('compareFn must be a function')
+    }
+    this.#tree = new RedBlackTree<T, null>(compareFn)
+
+    if (initValues !== undefined && !Array.isArray(initValues)) {
+      throw new TypeError('Expected an array to initialize the TreeSet.')
+    }
+    if (initValues !== undefined) {
+      for (const value of initValues) {
+        this.add(value)
+      }
+    }
+  }
+
+  /**
+   * Iterate values in ascending order.
+   */
+  *[Symbol.iterator](): IterableIterator<T> {
+    for (const node of this.#tree.ascend()) {
+      yield node.key
+    }
+  }
+
+  /**
+   * Iterate values in descending order.
+   */
+  *rbegin(): IterableIterator<T> {
+    for (const node of this.#tree.descend()) {
+      yield node.key
+    }
+  }
+
+  begin(): IterableIterator<T> {
+    return this[Symbol.iterator]()
+  }
+
+  protected append(value: T): void {
+    this.add(value)
+  }
+
+  /**
+   * Insert `value` unless an equal value is already present.
+   *
+   * Complexity: O(log n)
+   * @returns The set itself, for chaining.
+   */
+  public add(value: T): this {
+    this.#tree.insert(value, null)
+    return this
+  }
+
+  /**
+   * Check whether a value equal to `value` is present.
+   *
+   * Complexity: O(log n)
+   */
+  public has(value: T): boolean {
+    return this.#tree.find(value) !== null
+  }
+
+  /**
+   * Remove the value equal to `value`.
+   *
+   * Complexity: O(log n)
+   * @returns `true` when a value was removed.
+   */
+  public delete(value: T): boolean {
+    const node = this.#tree.find(value)
+    if (node === null) return false
+    this.#tree.remove(node)
+    return true
+  }
+
+  public clear(): void {
+    this.#tree.clear()
+  }
+
+  // Ordered queries
+  /** Smallest value, or `undefined` when empty. */
+  public first(): T | undefined {
+    return this.#tree.first()?.key
+  }
+
+  /** Largest value, or `undefined` when empty. */
+  public last(): T | undefined {
+    return this.#tree.last()?.key
+  }
+
+  /** First value `>= value` (STL `lower_bound`). */
+  public lowerBound(value: T): T | undefined {
+    return this.#tree.lowerBound(value)?.key
+  }
+
+  /** First value `> value` (STL `upper_bound`). */
+  public upperBound(value: T): T | undefined {
+    return this.#tree.upperBound(value)?.key
+  }
+
+  /** Largest value `<= value`. */
+  public floor(value: T): T | undefined {
+    return this.#tree.floor(value)?.key
+  }
+
+  /** Smallest value `>= value` (alias of `lowerBound`). */
+  public ceiling(value: T): T | undefined {
+    return this.#tree.lowerBound(value)?.key
+  }
+
+  /**
+   * Iterate values in the half-open range `[from, to)` in ascending
+   * order. Pass `{ reverse: true }` to walk the same range from high to
+   * low.
+   *
+   * Complexity: O(log n + m) for m yielded values.
+   */
+  public *range(
+    from: T,
+    to: T,
+    { reverse = false }: { reverse?: boolean } = {},
+  ): IterableIterator<T> {
+    const compareFn = this.#tree.compareFn
+    if (compareFn(from, to) >= 0) return
+
+    if (reverse) {
+      for (const node of this.#tree.descend(this.#tree.lower(to))) {
+        if (compareFn(node.key, from) < 0) return
+        yield node.key
+      }
+      return
+    }
+
+    for (const node of this.#tree.ascend(this.#tree.lowerBound(from))) {
+      if (compareFn(node.key, to) >= 0) return
+      yield node.key
+    }
+  }
+
+  // Getter
+  public get length(): number {
+    return this.#tree.size
+  }
+
+  /**
+   * Rebuild a `TreeSet` from the output of `toJSON()`, either as the
+   * object itself or as a JSON string.
+   *
+   * @param options.reviveElement - Optional function restoring each
+   *   element from its parsed JSON form.
+   * @param options.compareFn - Comparator; functions are not part of the
+   *   JSON and must be passed again.
+   * @throws TypeError when `json` is not a serialized `TreeSet`.
+   * @throws RangeError when the format version is not supported.
+   */
+  public static fromJSON<U>(
+    json: string | SerializedContainer,
+    {
+      reviveElement,
+      ...options
+    }: FromJSONOptions<U> & Omit<TreeSetOptions<U>, 'initValues'> = {},
+  ): TreeSet<U> {
+    const values = deserialize('TreeSet', json, { reviveElement })
+    return new TreeSet<U>({ ...options, initValues: values })
+  }
+
+  public get [Symbol.toStringTag](): string {
+    return 'TreeSet'
+  }
+}
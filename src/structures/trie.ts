@@ -0,0 +1,461 @@
+import {
+  deserialize,
+  serialize,
+  type FromJSONOptions,
+  type SerializedContainer,
+} from '@/core/serialization'
+import { PriorityQueue } from '@/structures/priority-queue'
+
+interface TrieOptions<V> {
+  initValues?: [string, V][]
+}
+
+// One node of the radix tree. `label` is the key fragment on the edge from
+// the parent; `children` are sorted by the first code unit of their label,
+// which no two siblings share.
+class TrieNode<V> {
+  public children: TrieNode<V>[] = []
+  public hasValue = false
+  public value: V | undefined = undefined
+
+  constructor(public label: string) {}
+}
+
+// Binary search `children` for the edge starting with code unit `code`.
+// Returns its index, or `-(insertion point) - 1` when there is none.
+function searchChild<V>(children: TrieNode<V>[], code: number): number {
+  let lo = 0
+  let hi = children.length - 1
+  while (lo <= hi) {
+    const mid = (lo + hi) >>> 1
+    const midCode = children[mid]!.label.charCodeAt(0)
+    if (midCode === code) return mid
+    if (midCode < code) lo = mid + 1
+    else hi = mid - 1
+  }
+  return -lo - 1
+}
+
+// Length of the common prefix of `label` and `key.slice(offset)`.
+function commonLength(label: string, key: string, offset: number): number {
+  const max = Math.min(label.length, key.length - offset)
+  let i = 0
+  while (i < max && label.charCodeAt(i) === key.charCodeAt(offset + i)) i++
+  return i
+}
+
+function assertKey(key: unknown): asserts key is string {
+  if (typeof key !== 'string') {
+    throw new TypeError('Trie keys must be strings')
+  }
+}
+
+/**
+ * Trie — a compressed radix tree mapping string keys to values, for
+ * prefix lookups and autocomplete.
+ *
+ * Chains of single-child nodes are merged into one edge, so memory grows
+ * with the number of keys rather than their total length. Keys are
+ * ordered lexicographically by UTF-16 code unit, the same order as
+ * `Array.prototype.sort` on strings, and every iteration follows that
+ * order.
+ *
+ * Besides the `Map`-style basics (`insert`, `get`, `has`, `delete`) it
+ * answers prefix queries: `hasPrefix`, `withPrefix`, `longestPrefixOf`
+ * and `completions`, which ranks the keys under a prefix by a score.
+ * Every method taking a key or prefix throws a `TypeError` for
+ * non-strings.
+ *
+ * Type parameters:
+ * - V: value type stored under each key
+ *
+ * Performance (m = key or prefix length):
+ * - `insert`, `get`, `has`, `delete`, `hasPrefix` and `longestPrefixOf`
+ *   are O(m log σ) for σ distinct next characters, independent of the
+ *   number of keys.
+ * - `withPrefix` is O(m log σ + s) for s nodes below the prefix;
+ *   `completions(prefix, k, score)` adds O(s log k).
+ */
+export class Trie<V> implements Iterable<[string, V]> {
+  #root: TrieNode<V>
+  #size: number
+
+  /**
+   * Create a new `Trie`.
+   *
+   * @param options.initValues - Optional array of `[key, value]` pairs.
+   *   Later pairs overwrite earlier ones with the same key.
+   * @throws TypeError when `initValues` is not an array or contains a key
+   *   that is not a string.
+   */
+  constructor({ initValues }: TrieOptions<V> = {}) {
+    this.#root = new TrieNode<V>('')
+    this.#size = 0
+
+    if (initValues !== undefined && !Array.isArray(initValues)) {
+      throw new TypeError('Expected an array to initialize the Trie.')
+    }
+    if (initValues !== undefined) {
+      for (const [key, value] of initValues) {
+        this.insert(key, value)
+      }
+    }
+  }
+
+  // Node holding exactly `key`, or `null` when `key` ends mid-edge or
+  // leaves the tree. `path` receives the nodes walked through, root first.
+  #findNode(key: string, path?: TrieNode<V>[]): TrieNode<V> | null {
+    assertKey(key)
+    let node = this.#root
+    let i = 0
+    path?.push(node)
+    while (i < key.length) {
+      const idx = searchChild(node.children, key.charCodeAt(i))
+      if (idx < 0) return null
+      node = node.children[idx]!
+      if (!key.startsWith(node.label, i)) return null
+      i += node.label.length
+      path?.push(node)
+    }
+    return node
+  }
+
+  // Topmost node whose keys all start with `prefix`, with its full key.
+  #locate(prefix: string): { node: TrieNode<V>; key: string } | null {
+    assertKey(prefix)
+    let node = this.#root
+    let i = 0
+    while (i < prefix.length) {
+      const idx = searchChild(node.children, prefix.charCodeAt(i))
+      if (idx < 0) return null
+      node = node.children[idx]!
+      const common = commonLength(node.label, prefix, i)
+      if (i + common === prefix.length) {
+        return { node, key: prefix.slice(0, i) + node.label }
+      }
+      if (common < node.label.length) return null
+      i += common
+    }
+    return { node, key: prefix }
+  }
+
+  // Entries below `start` (inclusive) in lexicographic order. Iterative,
+  // so long keys never exhaust the call stack.
+  *#walk(start: TrieNode<V>, key: string): IterableIterator<[string, V]> {
+    const stack: [TrieNode<V>, string][] = [[start, key]]
+    while (stack.length > 0) {
+      const [node, path] = stack.pop()!
+      if (node.hasValue) yield [path, node.value as V]
+      for (let i = node.children.length - 1; i >= 0; i--) {
+        const child = node.children[i]!
+        stack.push([child, path + child.label])
+      }
+    }
+  }
+
+  // Fold the only child of `node` into it, keeping the tree compressed.
+  #mergeWithChild(node: TrieNode<V>): void {
+    const child = node.children[0]!
+    node.label += child.label
+    node.children = child.children
+    node.hasValue = child.hasValue
+    node.value = child.value
+  }
+
+  /**
+   * Iterate `[key, value]` pairs in lexicographic key order.
+   */
+  *[Symbol.iterator](): IterableIterator<[string, V]> {
+    yield* this.#walk(this.#root, '')
+  }
+
+  /**
+   * Insert or overwrite the value stored under `key`.
+   *
+   * Complexity: O(m log σ)
+   * @returns The trie itself, for chaining.
+   * @throws TypeError when `key` is not a string.
+   */
+  public insert(key: string, value: V): this {
+    assertKey(key)
+    let node = this.#root
+    let i = 0
+    while (i < key.length) {
+      const idx = searchChild(node.children, key.charCodeAt(i))
+      if (idx < 0) {
+        const leaf = new TrieNode<V>(key.slice(i))
+        leaf.hasValue = true
+        leaf.value = value
+        node.children.splice(-idx - 1, 0, leaf)
+        this.#size++
+        return this
+      }
+
+      const child = node.children[idx]!
+      const common = commonLength(child.label, key, i)
+      if (common < child.label.length) {
+        // Split the edge where `key` leaves it.
+        const middle = new TrieNode<V>(child.label.slice(0, common))
+        child.label = child.label.slice(common)
+        middle.children.push(child)
+        node.children[idx] = middle
+        node = middle
+      } else {
+        node = child
+      }
+      i += common
+    }
+
+    if (!node.hasValue) {
+      node.hasValue = true
+      this.#size++
+    }
+    node.value = value
+    return this
+  }
+
+  /**
+   * Return the value stored under `key`, or `undefined` when absent.
+   *
+   * Complexity: O(m log σ)
+   */
+  public get(key: string): V | undefined {
+    const node = this.#findNode(key)
+    return node?.hasValue ? node.value : undefined
+  }
+
+  /**
+   * Check whether `key` is present.
+   *
+   * Complexity: O(m log σ)
+   */
+  public has(key: string): boolean {
+    return this.#findNode(key)?.hasValue === true
+  }
+
+  /**
+   * Remove `key` and its value. Nodes left with a single child are merged
+   * back into one edge.
+   *
+   * Complexity: O(m log σ)
+   * @returns `true` when an entry was removed.
+   * @throws TypeError when `key` is not a string.
+   */
+  public delete(key: string): boolean {
+    const path: TrieNode<V>[] = []
+    const node = this.#findNode(key, path)
+    if (node === null || !node.hasValue) return false
+
+    node.hasValue = false
+    node.value = undefined
+    this.#size--
+    if (node === this.#root) return true
+
+    const parent = path[path.length - 2]!
+    if (node.children.length === 0) {
+      parent.children.splice(parent.children.indexOf(node), 1)
+      if (
+        parent !== this.#root &&
+        !parent.hasValue &&
+        parent.children.length === 1
+      ) {
+        this.#mergeWithChild(parent)
+      }
+    } else if (node.children.length === 1) {
+      this.#mergeWithChild(node)
+    }
+    return true
+  }
+
+  public clear(): void {
+    this.#root = new TrieNode<V>('')
+    this.#size = 0
+  }
+
+  public isEmpty(): boolean {
+    return this.#size === 0
+  }
+
+  public size(): number {
+    return this.#size
+  }
+
+  // Prefix queries
+  /**
+   * Check whether any key starts with `prefix`. Every key starts with the
+   * empty string, so `hasPrefix('')` is `true` unless the trie is empty.
+   *
+   * Complexity: O(m log σ)
+   */
+  public hasPrefix(prefix: string): boolean {
+    const found = this.#locate(prefix)
+    return found !== null && (found.node !== this.#root || this.#size > 0)
+  }
+
+  /**
+   * Iterate the `[key, value]` pairs whose key starts with `prefix`, in
+   * lexicographic order.
+   *
+   * Complexity: O(m log σ + s) for s nodes below the prefix.
+   */
+  public *withPrefix(prefix: string): IterableIterator<[string, V]> {
+    const found = this.#locate(prefix)
+    if (found !== null) yield* this.#walk(found.node, found.key)
+  }
+
+  /**
+   * Return the entry with the longest key that is a prefix of `text`
+   * (longest-prefix match, as in routing tables), or `undefined` when no
+   * key matches.
+   *
+   * Example: with keys `'/api'` and `'/api/users'`,
+   * `longestPrefixOf('/api/users/7')` returns the `'/api/users'` entry.
+   *
+   * Complexity: O(m log σ) for m = `text.length`.
+   */
+  public longestPrefixOf(text: string): [string, V] | undefined {
+    assertKey(text)
+    let node = this.#root
+    let i = 0
+    let best: [string, V] | undefined = node.hasValue
+      ? ['', node.value as V]
+      : undefined
+    while (i < text.length) {
+      const idx = searchChild(node.children, text.charCodeAt(i))
+      if (idx < 0) break
+      node = node.children[idx]!
+      if (!text.startsWith(node.label, i)) break
+      i += node.label.length
+      if (node.hasValue) best = [text.slice(0, i), node.value as V]
+    }
+    return best
+  }
+
+  /**
+   * Return up to `k` entries whose key starts with `prefix`.
+   *
+   * With `score`, the entries with the highest `score(value, key)` come
+   * first (ties in lexicographic order); a bounded `PriorityQueue` keeps
+   * only the best `k` while scanning. Without it, the first `k` keys in
+   * lexicographic order are returned.
+   *
+   * Example: `trie.completions('ca', 3, (hits) => hits)`
+   *
+   * Complexity: O(m log σ + s log k) with `score`, otherwise
+   *   O(m log σ + k) on a compressed tree.
+   * @throws RangeError when `k` is not a non-negative integer.
+   * @throws TypeError when `score` is given but is not a function.
+   */
+  public completions(
+    prefix: string,
+    k: number,
+    score?: (value: V, key: string) => number,
+  ): [string, V][] {
+    if (!Number.isInteger(k) || k < 0) {
+      throw new RangeError('k must be a non-negative integer')
+    }
+    if (score !== undefined && typeof score !== 'function') {
+      throw new TypeError('score must be a function')
+    }
+    const result: [string, V][] = []
+    if (k === 0) return result
+
+    if (score === undefined) {
+      for (const entry of this.withPrefix(prefix)) {
+        result.push(entry)
+        if (result.length === k) break
+      }
+      return result
+    }
+
+    type Candidate = { entry: [string, V]; score: number }
+    // The top of the heap is the weakest candidate kept so far: lowest
+    // score, then the lexicographically largest key.
+    const weakest = new PriorityQueue<Candidate>({
+      compareFn: (a, b) =>
+        b.score - a.score || (a.entry[0] > b.entry[0] ? 1 : -1),
+    })
+    for (const entry of this.withPrefix(prefix)) {
+      const candidate = { entry, score: score(entry[1], entry[0]) }
+      if (weakest.size() < k) {
+        weakest.push(candidate)
+      } else if (candidate.score > weakest.peek()!.score) {
+        weakest.replace(candidate)
+      }
+    }
+    while (!weakest.isEmpty()) result.push(weakest.pop().entry)
+    return result.reverse()
+  }
+
+  // Map-style iterators
+  public *keys(): IterableIterator<string> {
+    for (const [key] of this) yield key
+  }
+
+  public *values(): IterableIterator<V> {
+    for (const [, value] of this) yield value
+  }
+
+  public entries(): IterableIterator<[string, V]> {
+    return this[Symbol.iterator]()
+  }
+
+  /**
+   * Call `callback(value, key, trie)` for each entry in lexicographic
+   * order. If the callback returns `false`, iteration stops early.
+   *
+   * @throws TypeError when `callback` is not a function.
+   */
+  public forEach(
+    callback: (value: V, key: string, trie: this) => void | false,
+    thisArg?: unknown,
+  ): void {
+    if (typeof callback !== 'function') {
+      throw new TypeError('Callback must be a function')
+    }
+    for (const [key, value] of this) {
+      if (callback.call(thisArg, value, key, this) === false) break
+    }
+  }
+
+  /**
+   * Return the entries as an array of `[key, value]` pairs in key order.
+   */
+  public toArray(): [string, V][] {
+    return [...this]
+  }
+
+  /**
+   * Return a tagged, versioned snapshot used by `JSON.stringify`; `values`
+   * holds the `[key, value]` entries in key order.
+   */
+  public toJSON(): SerializedContainer<[string, V]> {
+    return serialize('Trie', this.toArray())
+  }
+
+  /**
+   * Rebuild a `Trie` from the output of `toJSON()`, either as the object
+   * itself or as a JSON string.
+   *
+   * @param options.reviveElement - Optional function restoring each
+   *   `[key, value]` entry from its parsed JSON form.
+   * @throws TypeError when `json` is not a serialized `Trie`.
+   * @throws RangeError when the format version is not supported.
+   */
+  public static fromJSON<V>(
+    json: string | SerializedContainer,
+    options: FromJSONOptions<[string, V]> = {},
+  ): Trie<V> {
+    const values = deserialize('Trie', json, options)
+    return new Trie<V>({ initValues: values })
+  }
+
+  // Getter
+  public get length(): number {
+    return this.#size
+  }
+
+  public get [Symbol.toStringTag](): string {
+    return 'Trie'
+  }
+}
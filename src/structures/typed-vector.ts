@@ -0,0 +1,448 @@
+import { BaseContainer } from '@/core/container'
+import {
+  deserialize,
+  type FromJSONOptions,
+  type SerializedContainer,
+} from '@/core/serialization'
+
+/**
+ * The typed arrays a `TypedVector` can store its elements in.
+ */
+export type TypedArray =
+  | Float32Array
+  | Float64Array
+  | Int8Array
+  | Int16Array
+  | Int32Array
+  | Uint8Array
+  | Uint16Array
+  | Uint32Array
+
+type TypedArrayConstructor<B extends TypedArray> = new (length: number) => B
+
+interface TypedVectorOptions {
+  initValues?: ArrayLike<number>
+  capacity?: number
+}
+
+// Smallest buffer allocated once the vector holds anything.
+const MIN_CAPACITY = 8
+
+/**
+ * TypedVector — a growable vector of numbers stored unboxed in a typed
+ * array, with the `Vector` API and explicit capacity control.
+ *
+ * Elements occupy the first `length` slots of a buffer of `capacity`
+ * slots. Appending to a full buffer reallocates it at twice the size, so
+ * `pushBack` is amortised O(1); `reserve(n)` grows the buffer up front and
+ * `shrinkToFit()` releases the unused tail. Removing elements never
+ * shrinks the buffer by itself.
+ *
+ * Values are converted by the typed array on write: integer vectors drop
+ * the fraction and wrap around (`Uint8Vector` stores 256 as 0), and
+ * `Float32Vector` rounds to single precision.
+ *
+ * Use one of the concrete classes: `Float32Vector`, `Float64Vector`,
+ * `Int8Vector`, `Int16Vector`, `Int32Vector`, `Uint8Vector`,
+ * `Uint16Vector` and `Uint32Vector`. Unlike `Vector`, they emit no change
+ * events.
+ */
+export abstract class TypedVector<
+  B extends TypedArray,
+> extends BaseContainer<number> {
+  #buffer: B
+  #length: number
+  #Buffer: TypedArrayConstructor<B>
+
+  /**
+   * @param Buffer - Typed array constructor used for the storage.
+   * @param options.initValues - Optional array or typed array of initial
+   *   values, copied in order.
+   * @param options.capacity - Optional number of slots to allocate up
+   *   front; at least `initValues.length` slots are allocated.
+   * @throws TypeError if `initValues` is not an array or typed array.
+   * @throws RangeError if `capacity` is not a non-negative integer.
+   */
+  protected constructor(
+    Buffer: TypedArrayConstructor<B>,
+    { initValues, capacity = 0 }: TypedVectorOptions = {},
+  ) {
+    super()
+    if (
+      initValues !== undefined &&
+      !Array.isArray(initValues) &&
+      !ArrayBuffer.isView(initValues)
+    ) {
+      throw new TypeError(
+        `Expected an array to initialize the ${this[Symbol.toStringTag]}.`,
+      )
+    }
+    this.#assertCount(capacity)
+    this.#Buffer = Buffer
+    this.#length = initValues?.length ?? 0
+    this.#buffer = new Buffer(Math.max(capacity, this.#length))
+    if (initValues !== undefined) this.#buffer.set(initValues)
+  }
+
+  #assertCount(count: number): void {
+    if (!Number.isInteger(count) || count < 0) {
+      throw new RangeError('Capacity must be a non-negative integer')
+    }
+  }
+
+  // Move the elements into a fresh buffer of `capacity` slots.
+  #reallocate(capacity: number): void {
+    const next = new this.#Buffer(capacity)
+    next.set(this.#buffer.subarray(0, this.#length))
+    this.#buffer = next
+  }
+
+  // Make room for `count` elements, doubling so appends stay amortised O(1).
+  #ensureCapacity(count: number): void {
+    const capacity = this.#buffer.length
+    if (count <= capacity) return
+    this.#reallocate(Math.max(count, capacity * 2, MIN_CAPACITY))
+  }
+
+  *[Symbol.iterator](): IterableIterator<number> {
+    for (let i = 0; i < this.#length; i++) {
+      yield this.#buffer[i]!
+    }
+  }
+
+  *rbegin(): IterableIterator<number> {
+    for (let i = this.#length - 1; i >= 0; i--) {
+      yield this.#buffer[i]!
+    }
+  }
+
+  begin(): IterableIterator<number> {
+    return this[Symbol.iterator]()
+  }
+
+  protected append(value: number): void {
+    this.pushBack(value)
+  }
+
+  public get length(): number {
+    return this.#length
+  }
+
+  /**
+   * Number of slots in the underlying typed array; always at least
+   * `length`.
+   */
+  public get capacity(): number {
+    return this.#buffer.length
+  }
+
+  public get front(): number | undefined {
+    if (this.isEmpty()) return
+    return this.#buffer[0]
+  }
+
+  public set front(val: number) {
+    if (this.isEmpty()) throw new RangeError('Cannot set front on empty vector')
+    this.#buffer[0] = val
+  }
+
+  public get back(): number | undefined {
+    if (this.isEmpty()) return
+    return this.#buffer[this.#length - 1]
+  }
+
+  public set back(val: number) {
+    if (this.isEmpty()) throw new RangeError('Cannot set back on empty vector')
+    this.#buffer[this.#length - 1] = val
+  }
+
+  /**
+   * Return the element at `index`, or `undefined` when out of range.
+   * Negative indices count from the back, as with `Array#at`.
+   *
+   * Complexity: O(1)
+   */
+  public at(index: number): number | undefined {
+    if (!Number.isInteger(index)) return
+    if (index < 0) index += this.#length
+    if (index < 0 || index >= this.#length) return
+    return this.#buffer[index]
+  }
+
+  /**
+   * Overwrite the element at `index`.
+   *
+   * Complexity: O(1)
+   * @throws RangeError when `index` is not in `[0, length)`.
+   */
+  public set(index: number, value: number): void {
+    if (!Number.isInteger(index) || index < 0 || index >= this.#length) {
+      throw new RangeError('Index out of range')
+    }
+    this.#buffer[index] = value
+  }
+
+  /**
+   * A view of the elements, sharing memory with the vector: writes
+   * through the view change the vector. The view is detached from the
+   * vector once a later call reallocates the buffer.
+   *
+   * Complexity: O(1)
+   */
+  public data(): B {
+    return this.#buffer.subarray(0, this.#length) as B
+  }
+
+  /**
+   * Grow the buffer to at least `capacity` slots. Never shrinks it.
+   *
+   * Complexity: O(n) when the buffer grows, otherwise O(1).
+   * @throws RangeError when `capacity` is not a non-negative integer.
+   */
+  public reserve(capacity: number): void {
+    this.#assertCount(capacity)
+    if (capacity > this.#buffer.length) this.#reallocate(capacity)
+  }
+
+  /**
+   * Shrink the buffer to exactly `length` slots.
+   *
+   * Complexity: O(n) when the buffer shrinks, otherwise O(1).
+   */
+  public shrinkToFit(): void {
+    if (this.#buffer.length > this.#length) this.#reallocate(this.#length)
+  }
+
+  /**
+   * Remove all elements. The capacity is kept; call `shrinkToFit()` to
+   * release it.
+   */
+  public clear(): void {
+    this.#length = 0
+  }
+
+  /**
+   * Append `val` and return the new length.
+   *
+   * Complexity: amortised O(1)
+   */
+  public pushBack(val: number): number {
+    this.#ensureCapacity(this.#length + 1)
+    this.#buffer[this.#length++] = val
+    return this.#length
+  }
+
+  /**
+   * Remove and return the last element, or `undefined` when empty.
+   *
+   * Complexity: O(1)
+   */
+  public popBack(): number | undefined {
+    if (this.isEmpty()) return
+    return this.#buffer[--this.#length]
+  }
+
+  /**
+   * Prepend `val` and return the new length.
+   *
+   * Complexity: O(n)
+   */
+  public pushFront(val: number): number {
+    return this.insertAt(0, val)
+  }
+
+  /**
+   * Remove and return the first element, or `undefined` when empty.
+   *
+   * Complexity: O(n)
+   */
+  public popFront(): number | undefined {
+    if (this.isEmpty()) return
+    return this.eraseAt(0)
+  }
+
+  /**
+   * Insert `val` before position `index` (`length` appends) and return
+   * the new length.
+   *
+   * Complexity: O(n - index), amortised
+   * @throws RangeError when `index` is not in `[0, length]`.
+   */
+  public insertAt(index: number, val: number): number {
+    if (!Number.isInteger(index) || index < 0 || index > this.#length) {
+      throw new RangeError('Index out of range')
+    }
+    this.#ensureCapacity(this.#length + 1)
+    this.#buffer.copyWithin(index + 1, index, this.#length)
+    this.#buffer[index] = val
+    return ++this.#length
+  }
+
+  /**
+   * Remove and return the element at `index`.
+   *
+   * Complexity: O(n - index)
+   * @throws RangeError when `index` is not in `[0, length)`.
+   */
+  public eraseAt(index: number): number {
+    if (!Number.isInteger(index) || index < 0 || index >= this.#length) {
+      throw new RangeError('Index out of range')
+    }
+    const item = this.#buffer[index]!
+    this.#buffer.copyWithin(index, index + 1, this.#length)
+    this.#length--
+    return item
+  }
+
+  /**
+   * Change the length to `size`, dropping elements from the back or
+   * appending `value` (0 by default).
+   *
+   * Complexity: O(|size - length|), plus a reallocation when growing past
+   * the capacity.
+   * @throws RangeError when `size` is not a non-negative integer.
+   */
+  public resize(size: number, value = 0): void {
+    if (!Number.isInteger(size) || size < 0) {
+      throw new RangeError(
+        `Failed to set the size on '${this[Symbol.toStringTag]}': Invalid vector length`,
+      )
+    }
+    if (size > this.#length) {
+      this.#ensureCapacity(size)
+      this.#buffer.fill(value, this.#length, size)
+    }
+    this.#length = size
+  }
+
+  public toArray(): number[] {
+    return Array.from(this.data())
+  }
+
+  /**
+   * Check whether `other` holds the same numbers in the same order.
+   * Elements are compared like `Array#includes` does: `NaN` equals
+   * `NaN` and `0` equals `-0`.
+   */
+  public equals(other: TypedVector<TypedArray> | ArrayLike<number>): boolean {
+    const values = other instanceof TypedVector ? other.data() : other
+    if (values.length !== this.#length) return false
+    for (let i = 0; i < this.#length; i++) {
+      const a = this.#buffer[i]!
+      const b = values[i]!
+      if (a !== b && !(a !== a && b !== b)) return false
+    }
+    return true
+  }
+
+  /**
+   * Rebuild a typed vector from the output of `toJSON()`, either as the
+   * object itself or as a JSON string. Call it on the concrete class, for
+   * example `Float64Vector.fromJSON(json)`.
+   *
+   * `JSON.stringify` writes `NaN` and `±Infinity` as `null`, which comes
+   * back as 0; use `reviveElement` to restore them when needed.
+   *
+   * @throws TypeError when `json` is not a serialized vector of this class.
+   * @throws RangeError when the format version is not supported.
+   */
+  public static fromJSON<V extends TypedVector<TypedArray>>(
+    this: new (options?: TypedVectorOptions) => V,
+    json: string | SerializedContainer,
+    options: FromJSONOptions<number> = {},
+  ): V {
+    const vector = new this()
+    const values = deserialize(vector[Symbol.toStringTag], json, options)
+    vector.reserve(values.length)
+    for (const value of values) vector.pushBack(value)
+    return vector
+  }
+}
+
+/** Vector of 32-bit floats (`Float32Array`). */
+export class Float32Vector extends TypedVector<Float32Array> {
+  constructor(options?: TypedVectorOptions) {
+    super(Float32Array, options)
+  }
+
+  public get [Symbol.toStringTag](): string {
+    return 'Float32Vector'
+  }
+}
+
+/** Vector of 64-bit floats (`Float64Array`), the closest to `number`. */
+export class Float64Vector extends TypedVector<Float64Array> {
+  constructor(options?: TypedVectorOptions) {
+    super(Float64Array, options)
+  }
+
+  public get [Symbol.toStringTag](): string {
+    return 'Float64Vector'
+  }
+}
+
+/** Vector of signed 8-bit integers (`Int8Array`). */
+export class Int8Vector extends TypedVector<Int8Array> {
+  constructor(options?: TypedVectorOptions) {
+    super(Int8Array, options)
+  }
+
+  public get [Symbol.toStringTag](): string {
+    return 'Int8Vector'
+  }
+}
+
+/** Vector of signed 16-bit integers (`Int16Array`). */
+export class Int16Vector extends TypedVector<Int16Array> {
+  constructor(options?: TypedVectorOptions) {
+    super(Int16Array, options)
+  }
+
+  public get [Symbol.toStringTag](): string {
+    return 'Int16Vector'
+  }
+}
+
+/** Vector of signed 32-bit integers (`Int32Array`). */
+export class Int32Vector extends TypedVector<Int32Array> {
+  constructor(options?: TypedVectorOptions) {
+    super(Int32Array, options)
+  }
+
+  public get [Symbol.toStringTag](): string {
+    return 'Int32Vector'
+  }
+}
+
+/** Vector of unsigned 8-bit integers (`Uint8Array`). */
+export class Uint8Vector extends TypedVector<Uint8Array> {
+  constructor(options?: TypedVectorOptions) {
+    super(Uint8Array, options)
+  }
+
+  public get [Symbol.toStringTag](): string {
+    return 'Uint8Vector'
+  }
+}
+
+/** Vector of unsigned 16-bit integers (`Uint16Array`). */
+export class Uint16Vector extends TypedVector<Uint16Array> {
+  constructor(options?: TypedVectorOptions) {
+    super(Uint16Array, options)
+  }
+
+  public get [Symbol.toStringTag](): string {
+    return 'Uint16Vector'
+  }
+}
+
+/** Vector of unsigned 32-bit integers (`Uint32Array`). */
+export class Uint32Vector extends TypedVector<Uint32Array> {
+  constructor(options?: TypedVectorOptions) {
+    super(Uint32Array, options)
+  }
+
+  public get [Symbol.toStringTag](): string {
+    return 'Uint32Vector'
+  }
+}
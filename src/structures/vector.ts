@@ -1,3 +1,18 @@
+import type { Container } from '@/core/container'
+import {
+  ChangeObservers,
+  type ChangeEvent,
+  type ChangeEventOf,
+  type ChangeListener,
+  type ChangeType,
+} from '@/core/events'
+import {
+  deserialize,
+  serialize,
+  type FromJSONOptions,
+  type SerializedContainer,
+} from '@/core/serialization'
+
 type Factory<T, A extends unknown[]> = (...args: A) => T
 
 interface VectorOptions<T, A extends unknown[]> {
@@ -5,8 +20,20 @@ interface VectorOptions<T, A extends unknown[]> {
   factory?: Factory<T, A>
 }
 
-export class Vector<T, A extends unknown[] = [T]> extends Array<T> {
+/**
+ * Vector — a growable array with STL-style helpers, built on `Array`.
+ *
+ * Change events (`subscribe` / `on`) are emitted by the Vector methods
+ * (`pushBack`, `insertAt`, `eraseAt`, `resize`, `assign`, `clear`, the
+ * `front` / `back` setters, ...). Inherited `Array` methods and index
+ * assignment (`vector[i] = x`) bypass them and are not observed.
+ */
+export class Vector<T, A extends unknown[] = [T]>
+  extends Array<T>
+  implements Container<T>
+{
   #factory?: Factory<T, A>
+  #observers: ChangeObservers<T, this> | null = null
 
   constructor({ initValues = [], factory }: VectorOptions<T, A> = {}) {
     super(...initValues)
@@ -28,8 +55,64 @@ export class Vector<T, A extends unknown[] = [T]> extends Array<T> {
     return this.length === 0
   }
 
+  public size(): number {
+    return this.length
+  }
+
+  public toArray(): T[] {
+    return Array.from(this)
+  }
+
+  // Callers build the event only after checking `#observers?.active`.
+  #emit(event: ChangeEvent<T>): void {
+    this.#observers!.emit(event, this)
+  }
+
+  /**
+   * Call `listener(event, vector)` after every change made through the
+   * Vector API. Returns a function that detaches the listener.
+   */
+  public subscribe(listener: ChangeListener<T, this>): () => void {
+    this.#observers ??= new ChangeObservers()
+    return this.#observers.subscribe(listener)
+  }
+
+  /**
+   * Call `listener(event, vector)` after changes of one `type`. Returns a
+   * function that detaches the listener.
+   */
+  public on<K extends ChangeType>(
+    type: K,
+    listener: ChangeListener<T, this, ChangeEventOf<T, K>>,
+  ): () => void {
+    this.#observers ??= new ChangeObservers()
+    return this.#observers.on(type, listener)
+  }
+
+  public toJSON(): SerializedContainer<T> {
+    return serialize('Vector', this.toArray())
+  }
+
+  // Same contract as the other containers: returning `false` stops early.
+  public forEach(
+    callback: (value: T, index: number, vector: this) => void | false,
+    thisArg?: unknown,
+  ): void {
+    if (typeof callback !== 'function') {
+      throw new TypeError('Callback must be a function')
+    }
+    for (let i = 0; i < this.length; i++) {
+      const res = callback.call(thisArg, this[i] as T, i, this)
+      if (res === false) break
+    }
+  }
+
   public clear(): void {
+    const removed =
+      this.#observers?.active && this.length > 0 ? this.toArray() : null
     this.length = 0
+    if (removed !== null)
+      this.#emit({ type: 'clear', index: 0, values: removed })
   }
 
   public insertAt(index: number, val: T): number {
@@ -38,6 +121,9 @@ export class Vector<T, A extends unknown[] = [T]> extends Array<T> {
       throw new RangeError('Index out of range')
     }
     this.splice(index, 0, val)
+    if (this.#observers?.active) {
+      this.#emit({ type: 'insert', index, values: [val] })
+    }
     return this.length
   }
 
@@ -46,6 +132,9 @@ export class Vector<T, A extends unknown[] = [T]> extends Array<T> {
       throw new RangeError('Index out of range')
     }
     const [item] = this.splice(index, 1)
+    if (this.#observers?.active) {
+      this.#emit({ type: 'remove', index, values: [item as T] })
+    }
     return item
   }
 
@@ -55,25 +144,59 @@ export class Vector<T, A extends unknown[] = [T]> extends Array<T> {
         "Failed to set the size on 'Vector': Invalid vector length",
       )
     }
+    const oldSize = this.length
+    if (!this.#observers?.active || size === oldSize) {
+      this.length = size
+      return
+    }
+    if (size < oldSize) {
+      const values = Array.from(
+        { length: oldSize - size },
+        (_, i) => this[size + i] as T,
+      )
+      this.length = size
+      this.#emit({ type: 'remove', index: size, values })
+      return
+    }
     this.length = size
+    // New slots are empty and read back as `undefined`.
+    this.#emit({
+      type: 'insert',
+      index: oldSize,
+      values: new Array<T>(size - oldSize).fill(undefined as T),
+    })
   }
 
   public pushFront(val: T): number {
     if (arguments.length === 0) return this.length
-    return this.unshift(val)
+    const length = this.unshift(val)
+    if (this.#observers?.active) {
+      this.#emit({ type: 'insert', index: 0, values: [val] })
+    }
+    return length
   }
 
   public pushBack(val: T): number {
     if (arguments.length === 0) return this.length
-    return this.push(val)
+    const length = this.push(val)
+    if (this.#observers?.active) {
+      this.#emit({ type: 'insert', index: length - 1, values: [val] })
+    }
+    return length
   }
 
   public popFront(): T | undefined {
-    return this.shift()
+    if (!this.#observers?.active || this.isEmpty()) return this.shift()
+    const item = this.shift() as T
+    this.#emit({ type: 'remove', index: 0, values: [item] })
+    return item
   }
 
   public popBack(): T | undefined {
-    return this.pop()
+    if (!this.#observers?.active || this.isEmpty()) return this.pop()
+    const item = this.pop() as T
+    this.#emit({ type: 'remove', index: this.length, values: [item] })
+    return item
   }
 
   public emplaceAt(index: number, ...arg: A): number {
@@ -159,14 +282,54 @@ export class Vector<T, A extends unknown[] = [T]> extends Array<T> {
     return this.every((v, i) => compareFn(v, other[i] as T))
   }
 
+  /**
+   * Rebuild a `Vector` from the output of `toJSON()`, either as the
+   * object itself or as a JSON string.
+   *
+   * @param options.reviveElement - Optional function restoring each
+   *   element from its parsed JSON form.
+   * @param options.factory - Optional factory for `emplace`; functions
+   *   are not part of the JSON and must be passed again.
+   * @throws TypeError when `json` is not a serialized `Vector`.
+   * @throws RangeError when the format version is not supported.
+   */
+  public static fromJSON<U, V extends unknown[] = [U]>(
+    json: string | SerializedContainer,
+    {
+      reviveElement,
+      ...options
+    }: FromJSONOptions<U> & Omit<VectorOptions<U, V>, 'initValues'> = {},
+  ): Vector<U, V> {
+    const vector = new Vector<U, V>(options)
+    // Push instead of `initValues`: `Array(n)` treats a lone number as a
+    // length.
+    for (const value of deserialize('Vector', json, { reviveElement })) {
+      vector.push(value)
+    }
+    return vector
+  }
+
   // setter and getter
+  public get [Symbol.toStringTag](): string {
+    return 'Vector'
+  }
+
   public get front(): T | undefined {
     return this[0]
   }
 
   public set front(val: T) {
     if (this.isEmpty()) throw new RangeError('Cannot set front on empty vector')
+    const oldValue = this[0] as T
     this[0] = val
+    if (this.#observers?.active) {
+      this.#emit({
+        type: 'update',
+        index: 0,
+        values: [val],
+        oldValues: [oldValue],
+      })
+    }
   }
 
   public get back(): T | undefined {
@@ -175,6 +338,16 @@ export class Vector<T, A extends unknown[] = [T]> extends Array<T> {
 
   public set back(val: T) {
     if (this.isEmpty()) throw new RangeError('Cannot set back on empty vector')
-    this[this.length - 1] = val
+    const index = this.length - 1
+    const oldValue = this[index] as T
+    this[index] = val
+    if (this.#observers?.active) {
+      this.#emit({
+        type: 'update',
+        index,
+        values: [val],
+        oldValues: [oldValue],
+      })
+    }
   }
 }